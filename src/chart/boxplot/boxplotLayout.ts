@@ -18,20 +18,12 @@
 */
 
 import * as zrUtil from 'zrender/src/core/util';
-import {parsePercent} from '../../util/number';
 import type GlobalModel from '../../model/Global';
 import BoxplotSeriesModel from './BoxplotSeries';
-import Axis2D from '../../coord/cartesian/Axis2D';
+import { groupSeriesByBaseAxis, calculateBoxBase } from '../helper/whiskerBoxLayout';
 
 const each = zrUtil.each;
 
-interface GroupItem {
-    seriesModels: BoxplotSeriesModel[]
-    axis: Axis2D
-    boxOffsetList: number[]
-    boxWidthList: number[]
-}
-
 export interface BoxplotItemLayout {
     ends: number[][]
     initBaseline: number
@@ -39,7 +31,7 @@ export interface BoxplotItemLayout {
 
 export default function boxplotLayout(ecModel: GlobalModel) {
 
-    const groupResult = groupSeriesByAxis(ecModel);
+    const groupResult = groupSeriesByBaseAxis<BoxplotSeriesModel>(ecModel, 'boxplot');
 
     each(groupResult, function (groupItem) {
         const seriesModels = groupItem.seriesModels;
@@ -48,7 +40,7 @@ export default function boxplotLayout(ecModel: GlobalModel) {
             return;
         }
 
-        calculateBase(groupItem);
+        calculateBoxBase(groupItem);
 
         each(seriesModels, function (seriesModel, idx) {
             layoutSingleSeries(
@@ -60,83 +52,6 @@ export default function boxplotLayout(ecModel: GlobalModel) {
     });
 }
 
-/**
- * Group series by axis.
- */
-function groupSeriesByAxis(ecModel: GlobalModel) {
-    const result: GroupItem[] = [];
-    const axisList: Axis2D[] = [];
-
-    ecModel.eachSeriesByType('boxplot', function (seriesModel: BoxplotSeriesModel) {
-        const baseAxis = seriesModel.getBaseAxis();
-        let idx = zrUtil.indexOf(axisList, baseAxis);
-
-        if (idx < 0) {
-            idx = axisList.length;
-            axisList[idx] = baseAxis;
-            result[idx] = {
-                axis: baseAxis,
-                seriesModels: []
-            } as GroupItem;
-        }
-
-        result[idx].seriesModels.push(seriesModel);
-    });
-
-    return result;
-}
-
-/**
- * Calculate offset and box width for each series.
- */
-function calculateBase(groupItem: GroupItem) {
-    const baseAxis = groupItem.axis;
-    const seriesModels = groupItem.seriesModels;
-    const seriesCount = seriesModels.length;
-
-    const boxWidthList: number[] = groupItem.boxWidthList = [];
-    const boxOffsetList: number[] = groupItem.boxOffsetList = [];
-    const boundList: number[][] = [];
-
-    let bandWidth: number;
-    if (baseAxis.type === 'category') {
-        bandWidth = baseAxis.getBandWidth();
-    }
-    else {
-        let maxDataCount = 0;
-        each(seriesModels, function (seriesModel) {
-            maxDataCount = Math.max(maxDataCount, seriesModel.getData().count());
-        });
-        const extent = baseAxis.getExtent();
-        bandWidth = Math.abs(extent[1] - extent[0]) / maxDataCount;
-    }
-
-    each(seriesModels, function (seriesModel) {
-        let boxWidthBound = seriesModel.get('boxWidth');
-        if (!zrUtil.isArray(boxWidthBound)) {
-            boxWidthBound = [boxWidthBound, boxWidthBound];
-        }
-        boundList.push([
-            parsePercent(boxWidthBound[0], bandWidth) || 0,
-            parsePercent(boxWidthBound[1], bandWidth) || 0
-        ]);
-    });
-
-    const availableWidth = bandWidth * 0.8 - 2;
-    const boxGap = availableWidth / seriesCount * 0.3;
-    const boxWidth = (availableWidth - boxGap * (seriesCount - 1)) / seriesCount;
-    let base = boxWidth / 2 - availableWidth / 2;
-
-    each(seriesModels, function (seriesModel, idx) {
-        boxOffsetList.push(base);
-        base += boxGap + boxWidth;
-
-        boxWidthList.push(
-            Math.min(Math.max(boxWidth, boundList[idx][0]), boundList[idx][1])
-        );
-    });
-}
-
 /**
  * Calculate points location for each series.
  */
@@ -0,0 +1,242 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import SeriesModel from '../../model/Series';
+import createGraphFromNodeEdge from '../helper/createGraphFromNodeEdge';
+import {
+    SeriesOption,
+    BoxLayoutOptionMixin,
+    CircleLayoutOptionMixin,
+    OptionDataValue,
+    SeriesLabelOption,
+    ItemStyleOption,
+    LineStyleOption,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    GraphEdgeItemObject,
+    OptionDataValueNumeric,
+    DefaultEmphasisFocus,
+    CallbackDataParams
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import LegendVisualProvider from '../../visual/LegendVisualProvider';
+import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
+
+interface ChordLabelOption extends Omit<SeriesLabelOption, 'position'> {
+    position?: 'outside' | 'inside'
+}
+
+export interface ChordNodeStateOption<TCbParams = never> {
+    label?: ChordLabelOption
+    itemStyle?: ItemStyleOption<TCbParams>
+}
+
+export interface ChordEdgeStateOption {
+    lineStyle?: ChordEdgeStyleOption
+}
+
+interface ChordBothStateOption<TCbParams> extends ChordNodeStateOption<TCbParams>, ChordEdgeStateOption {}
+
+interface ChordEdgeStyleOption extends Omit<LineStyleOption, 'color'> {
+    /**
+     * Ribbon color, can be 'source', 'target' or 'gradient' to use the color of nodes.
+     */
+    color?: LineStyleOption['color'] | 'source' | 'target' | 'gradient'
+}
+
+interface ExtraStateOption {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus | 'adjacency'
+    }
+}
+
+export interface ChordNodeItemOption extends ChordNodeStateOption,
+    StatesOptionMixin<ChordNodeStateOption, ExtraStateOption>,
+    OptionDataItemObject<OptionDataValue> {
+    id?: string
+}
+
+export interface ChordEdgeItemOption extends
+        ChordEdgeStateOption,
+        StatesOptionMixin<ChordEdgeStateOption, ExtraStateOption>,
+        GraphEdgeItemObject<OptionDataValueNumeric> {
+}
+
+export interface ChordSeriesOption
+    extends SeriesOption<ChordBothStateOption<CallbackDataParams>, ExtraStateOption>,
+    ChordBothStateOption<CallbackDataParams>,
+    CircleLayoutOptionMixin,
+    BoxLayoutOptionMixin {
+    type?: 'chord'
+
+    /**
+     * Angle of the start of the first group, in degrees.
+     */
+    startAngle?: number
+    clockwise?: boolean
+    /**
+     * Gap between groups, in degrees.
+     */
+    padAngle?: number
+    /**
+     * Minimum angle of a group, in degrees.
+     */
+    minAngle?: number
+
+    data?: ChordNodeItemOption[]
+    nodes?: ChordNodeItemOption[]
+
+    edges?: ChordEdgeItemOption[]
+    links?: ChordEdgeItemOption[]
+}
+
+class ChordSeriesModel extends SeriesModel<ChordSeriesOption> {
+    static readonly type = 'series.chord';
+    readonly type = ChordSeriesModel.type;
+
+    init(option: ChordSeriesOption) {
+        super.init.apply(this, arguments as any);
+
+        // Enable legend selection for each node.
+        this.legendVisualProvider = new LegendVisualProvider(
+            zrUtil.bind(this.getData, this), zrUtil.bind(this.getRawData, this)
+        );
+    }
+
+    /**
+     * Init a graph data structure from data in option series
+     */
+    getInitialData(option: ChordSeriesOption, ecModel: GlobalModel): SeriesData {
+        const links = option.edges || option.links || [];
+        const nodes = option.data || option.nodes || [];
+        const graph = createGraphFromNodeEdge(nodes, links, this, true, null);
+        return graph.data;
+    }
+
+    /**
+     * Return the graphic data structure
+     */
+    getGraph() {
+        return this.getData().graph;
+    }
+
+    /**
+     * Get edge data of graphic data structure
+     */
+    getEdgeData() {
+        return this.getGraph().edgeData;
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries: boolean,
+        dataType: 'node' | 'edge'
+    ) {
+        function noValue(val: unknown): boolean {
+            return isNaN(val as number) || val == null;
+        }
+        if (dataType === 'edge') {
+            const params = this.getDataParams(dataIndex, dataType);
+            const rawDataOpt = params.data as ChordEdgeItemOption;
+            const edgeValue = params.value;
+            return createTooltipMarkup('nameValue', {
+                name: rawDataOpt.source + ' -- ' + rawDataOpt.target,
+                value: edgeValue,
+                noValue: noValue(edgeValue)
+            });
+        }
+        const params = this.getDataParams(dataIndex, dataType);
+        return createTooltipMarkup('nameValue', {
+            name: params.name,
+            value: params.value,
+            noValue: noValue(params.value)
+        });
+    }
+
+    // Override Series.getDataParams()
+    getDataParams(dataIndex: number, dataType: 'node' | 'edge') {
+        const params = super.getDataParams(dataIndex, dataType);
+        if (params.value == null && dataType === 'node') {
+            // Use the total value of adjacent edges, which the group is sized by.
+            params.value = this.getGraph().getNodeByIndex(dataIndex).getLayout().value;
+        }
+        return params;
+    }
+
+    static defaultOption: ChordSeriesOption = {
+        // zlevel: 0,
+        z: 2,
+
+        legendHoverLink: true,
+        colorBy: 'data',
+
+        left: 0,
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: null,
+        height: null,
+
+        center: ['50%', '50%'],
+        radius: ['70%', '80%'],
+
+        startAngle: 90,
+        clockwise: true,
+        padAngle: 3,
+        minAngle: 0,
+
+        label: {
+            show: true,
+            position: 'outside',
+            distance: 5
+        },
+
+        lineStyle: {
+            color: 'source',
+            opacity: 0.5
+        },
+
+        itemStyle: {
+            borderWidth: 0
+        },
+
+        emphasis: {
+            focus: 'adjacency',
+            label: {
+                show: true
+            },
+            lineStyle: {
+                opacity: 0.8
+            }
+        },
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121'
+            }
+        },
+
+        animationEasing: 'cubicInOut',
+        animationDuration: 1000
+    };
+}
+
+export default ChordSeriesModel;
@@ -0,0 +1,338 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { isString } from 'zrender/src/core/util';
+import { PathProps } from 'zrender/src/graphic/Path';
+import { ElementTextConfig } from 'zrender/src/Element';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import { calculateTextPosition, TextPositionCalculationResult } from 'zrender/src/contain/text';
+import * as graphic from '../../util/graphic';
+import { toggleHoverEmphasis, setStatesStylesFromModel } from '../../util/states';
+import ChartView from '../../view/Chart';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import ChordSeriesModel, { ChordEdgeItemOption, ChordNodeItemOption } from './ChordSeries';
+import { ChordEdgeLayout, ChordNodeLayout } from './chordLayout';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { getECData } from '../../util/innerStore';
+import { saveOldStyle } from '../../animation/basicTransition';
+
+class ChordRibbonShape {
+    cx = 0;
+    cy = 0;
+    r = 0;
+
+    sStartAngle = 0;
+    sEndAngle = 0;
+    tStartAngle = 0;
+    tEndAngle = 0;
+
+    clockwise = true;
+}
+
+interface ChordRibbonProps extends PathProps {
+    shape?: Partial<ChordRibbonShape>
+}
+
+/**
+ * Ribbon between the piece of source group and the piece of target group.
+ */
+class ChordRibbon extends graphic.Path<ChordRibbonProps> {
+    shape: ChordRibbonShape;
+
+    constructor(opts?: ChordRibbonProps) {
+        super(opts);
+    }
+
+    getDefaultShape() {
+        return new ChordRibbonShape();
+    }
+
+    buildPath(ctx: CanvasRenderingContext2D, shape: ChordRibbonShape) {
+        const cx = shape.cx;
+        const cy = shape.cy;
+        const r = shape.r;
+        const anticlockwise = !shape.clockwise;
+
+        ctx.moveTo(cx + r * Math.cos(shape.sStartAngle), cy + r * Math.sin(shape.sStartAngle));
+        ctx.arc(cx, cy, r, shape.sStartAngle, shape.sEndAngle, anticlockwise);
+        ctx.quadraticCurveTo(
+            cx, cy, cx + r * Math.cos(shape.tStartAngle), cy + r * Math.sin(shape.tStartAngle)
+        );
+        ctx.arc(cx, cy, r, shape.tStartAngle, shape.tEndAngle, anticlockwise);
+        ctx.quadraticCurveTo(
+            cx, cy, cx + r * Math.cos(shape.sStartAngle), cy + r * Math.sin(shape.sStartAngle)
+        );
+        ctx.closePath();
+    }
+}
+
+class ChordView extends ChartView {
+
+    static readonly type = 'chord';
+    readonly type = ChordView.type;
+
+    private _data: SeriesData;
+    private _edgeData: SeriesData;
+
+    private _edgeGroup = new graphic.Group();
+    private _nodeGroup = new graphic.Group();
+
+    init() {
+        this.group.add(this._edgeGroup);
+        this.group.add(this._nodeGroup);
+    }
+
+    render(seriesModel: ChordSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const data = seriesModel.getData();
+        const edgeData = seriesModel.getEdgeData();
+        const oldData = this._data;
+        const oldEdgeData = this._edgeData;
+        const nodeGroup = this._nodeGroup;
+        const edgeGroup = this._edgeGroup;
+
+        data.diff(oldData)
+            .add(function (idx) {
+                const sector = new graphic.Sector();
+                updateNode(sector, seriesModel, idx, true);
+                data.setItemGraphicEl(idx, sector);
+                nodeGroup.add(sector);
+            })
+            .update(function (newIdx, oldIdx) {
+                const sector = oldData.getItemGraphicEl(oldIdx) as graphic.Sector;
+                updateNode(sector, seriesModel, newIdx, false);
+                data.setItemGraphicEl(newIdx, sector);
+                nodeGroup.add(sector);
+            })
+            .remove(function (idx) {
+                graphic.removeElementWithFadeOut(oldData.getItemGraphicEl(idx), seriesModel, idx);
+            })
+            .execute();
+
+        edgeData.diff(oldEdgeData)
+            .add(function (idx) {
+                const ribbon = new ChordRibbon();
+                updateEdge(ribbon, seriesModel, idx, true);
+                edgeData.setItemGraphicEl(idx, ribbon);
+                edgeGroup.add(ribbon);
+            })
+            .update(function (newIdx, oldIdx) {
+                const ribbon = oldEdgeData.getItemGraphicEl(oldIdx) as ChordRibbon;
+                updateEdge(ribbon, seriesModel, newIdx, false);
+                edgeData.setItemGraphicEl(newIdx, ribbon);
+                edgeGroup.add(ribbon);
+            })
+            .remove(function (idx) {
+                graphic.removeElementWithFadeOut(oldEdgeData.getItemGraphicEl(idx), seriesModel, idx);
+            })
+            .execute();
+
+        this._data = data;
+        this._edgeData = edgeData;
+    }
+
+    remove() {
+        this._nodeGroup.removeAll();
+        this._edgeGroup.removeAll();
+        this._data = null;
+        this._edgeData = null;
+    }
+
+    dispose() {}
+}
+
+function updateNode(
+    sector: graphic.Sector,
+    seriesModel: ChordSeriesModel,
+    idx: number,
+    firstCreate: boolean
+) {
+    const data = seriesModel.getData();
+    const node = seriesModel.getGraph().getNodeByIndex(idx);
+    const itemModel = data.getItemModel<ChordNodeItemOption>(idx);
+    const emphasisModel = itemModel.getModel('emphasis');
+    const layout = data.getItemLayout(idx) as ChordNodeLayout;
+    const shape = {
+        cx: layout.cx,
+        cy: layout.cy,
+        r0: layout.r0,
+        r: layout.r,
+        startAngle: layout.startAngle,
+        endAngle: layout.endAngle,
+        clockwise: layout.clockwise
+    };
+
+    if (firstCreate) {
+        sector.setShape(shape);
+        sector.shape.endAngle = layout.startAngle;
+        graphic.initProps(sector, {
+            shape: {
+                endAngle: layout.endAngle
+            }
+        }, seriesModel, idx);
+    }
+    else {
+        saveOldStyle(sector);
+        graphic.updateProps(sector, {
+            shape: shape
+        }, seriesModel, idx);
+    }
+
+    sector.useStyle(data.getItemVisual(idx, 'style'));
+    setStatesStylesFromModel(sector, itemModel);
+
+    sector.calculateTextPosition = calculateNodeTextPosition;
+    setLabelStyle(sector, getLabelStatesModels(itemModel), {
+        labelFetcher: seriesModel,
+        labelDataIndex: idx,
+        defaultText: data.getName(idx)
+    });
+
+    getECData(sector).dataType = 'node';
+
+    const focus = emphasisModel.get('focus');
+    toggleHoverEmphasis(
+        sector,
+        focus === 'adjacency' ? node.getAdjacentDataIndices() : focus,
+        emphasisModel.get('blurScope'),
+        emphasisModel.get('disabled')
+    );
+}
+
+function updateEdge(
+    ribbon: ChordRibbon,
+    seriesModel: ChordSeriesModel,
+    idx: number,
+    firstCreate: boolean
+) {
+    const edgeData = seriesModel.getEdgeData();
+    const edge = seriesModel.getGraph().getEdgeByIndex(idx);
+    const edgeModel = edgeData.getItemModel<ChordEdgeItemOption>(idx);
+    const lineStyleModel = edgeModel.getModel('lineStyle');
+    const emphasisModel = edgeModel.getModel('emphasis');
+    const layout = edgeData.getItemLayout(idx) as ChordEdgeLayout;
+
+    const style = lineStyleModel.getItemStyle();
+    // Special color, use source node color or target node color
+    switch (style.fill) {
+        case 'source':
+            style.fill = edge.node1.getVisual('color');
+            style.decal = edge.node1.getVisual('style').decal;
+            break;
+        case 'target':
+            style.fill = edge.node2.getVisual('color');
+            style.decal = edge.node2.getVisual('style').decal;
+            break;
+        case 'gradient':
+            const sourceColor = edge.node1.getVisual('color');
+            const targetColor = edge.node2.getVisual('color');
+            if (isString(sourceColor) && isString(targetColor)) {
+                const sourceAngle = (layout.sStartAngle + layout.sEndAngle) / 2;
+                const targetAngle = (layout.tStartAngle + layout.tEndAngle) / 2;
+                style.fill = new graphic.LinearGradient(
+                    layout.cx + layout.r * Math.cos(sourceAngle),
+                    layout.cy + layout.r * Math.sin(sourceAngle),
+                    layout.cx + layout.r * Math.cos(targetAngle),
+                    layout.cy + layout.r * Math.sin(targetAngle),
+                    [{
+                        color: sourceColor,
+                        offset: 0
+                    }, {
+                        color: targetColor,
+                        offset: 1
+                    }],
+                    true
+                );
+            }
+    }
+
+    if (firstCreate) {
+        ribbon.setShape(layout);
+        const opacity = style.opacity;
+        style.opacity = 0;
+        ribbon.useStyle(style);
+        graphic.initProps(ribbon, {
+            style: {
+                opacity: opacity == null ? 1 : opacity
+            }
+        }, seriesModel, idx);
+    }
+    else {
+        saveOldStyle(ribbon);
+        ribbon.useStyle(style);
+        graphic.updateProps(ribbon, {
+            shape: layout
+        }, seriesModel, idx);
+    }
+
+    setStatesStylesFromModel(ribbon, edgeModel, 'lineStyle', (model) => model.getItemStyle());
+
+    getECData(ribbon).dataType = 'edge';
+
+    const focus = emphasisModel.get('focus');
+    toggleHoverEmphasis(
+        ribbon,
+        focus === 'adjacency' ? edge.getAdjacentDataIndices() : focus,
+        emphasisModel.get('blurScope'),
+        emphasisModel.get('disabled')
+    );
+}
+
+/**
+ * Put label outside around the arc, or in the middle of the sector.
+ */
+function calculateNodeTextPosition(
+    this: graphic.Sector,
+    out: TextPositionCalculationResult,
+    opts: {
+        position?: ElementTextConfig['position'] | 'outside'
+        distance?: number
+    },
+    boundingRect: RectLike
+) {
+    const position = opts.position;
+    if (position !== 'outside' && position !== 'inside') {
+        return calculateTextPosition(out, opts as ElementTextConfig, boundingRect);
+    }
+    const shape = this.shape;
+    const midAngle = (shape.startAngle + shape.endAngle) / 2;
+    const dx = Math.cos(midAngle);
+    const dy = Math.sin(midAngle);
+    const distance = opts.distance != null ? opts.distance : 5;
+
+    out = out || {} as TextPositionCalculationResult;
+    if (position === 'outside') {
+        const r = shape.r + distance;
+        out.x = shape.cx + r * dx;
+        out.y = shape.cy + r * dy;
+        out.align = Math.abs(dx) < 0.1 ? 'center' : dx > 0 ? 'left' : 'right';
+        out.verticalAlign = Math.abs(dx) < 0.1 ? (dy > 0 ? 'top' : 'bottom') : 'middle';
+    }
+    else {
+        const r = (shape.r + shape.r0) / 2;
+        out.x = shape.cx + r * dx;
+        out.y = shape.cy + r * dy;
+        out.align = 'center';
+        out.verticalAlign = 'middle';
+    }
+    return out;
+}
+
+export default ChordView;
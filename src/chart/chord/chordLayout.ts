@@ -0,0 +1,173 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import ChordSeriesModel from './ChordSeries';
+import { GraphEdge, GraphNode } from '../../data/Graph';
+import { getBasicPieLayout } from '../pie/pieLayout';
+
+const PI2 = Math.PI * 2;
+const RADIAN = Math.PI / 180;
+
+export interface ChordNodeLayout {
+    cx: number
+    cy: number
+    r0: number
+    r: number
+    startAngle: number
+    endAngle: number
+    clockwise: boolean
+    /**
+     * Total value of adjacent edges.
+     */
+    value: number
+}
+
+export interface ChordEdgeLayout {
+    cx: number
+    cy: number
+    // Ribbons are attached to the inner radius of groups.
+    r: number
+    sStartAngle: number
+    sEndAngle: number
+    tStartAngle: number
+    tEndAngle: number
+    clockwise: boolean
+}
+
+export default function chordLayout(ecModel: GlobalModel, api: ExtensionAPI) {
+    ecModel.eachSeriesByType('chord', function (seriesModel: ChordSeriesModel) {
+        const graph = seriesModel.getGraph();
+        const basicLayout = getBasicPieLayout(seriesModel, api);
+        const clockwise = seriesModel.get('clockwise');
+        const dir = clockwise ? 1 : -1;
+        const padAngle = (seriesModel.get('padAngle') || 0) * RADIAN;
+        const minAngle = (seriesModel.get('minAngle') || 0) * RADIAN;
+
+        const nodes: GraphNode[] = [];
+        graph.eachNode(function (node) {
+            nodes.push(node);
+        });
+        const nodeCount = nodes.length;
+
+        const nodeValues = zrUtil.map(nodes, function (node) {
+            let value = 0;
+            eachValidEdge(node, function (edge) {
+                // Self loop occupies two pieces in the group.
+                value += getEdgeValue(edge) * (edge.node1 === edge.node2 ? 2 : 1);
+            });
+            return value;
+        });
+
+        let totalValue = 0;
+        zrUtil.each(nodeValues, function (value) {
+            totalValue += value;
+        });
+
+        const availableAngle = Math.max(0, PI2 - padAngle * nodeCount);
+        const unitAngle = totalValue > 0 ? availableAngle / totalValue : 0;
+        let totalAngle = 0;
+        let nodeAngles = zrUtil.map(nodeValues, function (value) {
+            const angle = Math.max(value * unitAngle, minAngle);
+            totalAngle += angle;
+            return angle;
+        });
+        if (totalAngle > availableAngle) {
+            // Shrink all the groups if `minAngle` makes them overflow.
+            const scale = availableAngle / totalAngle;
+            nodeAngles = zrUtil.map(nodeAngles, function (angle) {
+                return angle * scale;
+            });
+        }
+
+        graph.eachEdge(function (edge) {
+            edge.setLayout({
+                cx: basicLayout.cx,
+                cy: basicLayout.cy,
+                r: basicLayout.r0,
+                clockwise: clockwise
+            });
+        });
+
+        let currentAngle = -seriesModel.get('startAngle') * RADIAN;
+
+        zrUtil.each(nodes, function (node, idx) {
+            const angle = nodeAngles[idx];
+            const value = nodeValues[idx];
+            const startAngle = currentAngle;
+            const endAngle = currentAngle + dir * angle;
+
+            node.setLayout(zrUtil.extend({
+                startAngle: startAngle,
+                endAngle: endAngle,
+                clockwise: clockwise,
+                value: value
+            }, basicLayout) as ChordNodeLayout);
+
+            // Place pieces of edges that link to nodes counterclockwise ahead, so that
+            // ribbons cross less.
+            const pieces: {edge: GraphEdge, isSource: boolean, order: number}[] = [];
+            eachValidEdge(node, function (edge) {
+                const isSelfLoop = edge.node1 === edge.node2;
+                const other = edge.node1 === node ? edge.node2 : edge.node1;
+                const order = isSelfLoop
+                    ? nodeCount
+                    : (zrUtil.indexOf(nodes, other) - idx + nodeCount) % nodeCount;
+                pieces.push({edge: edge, isSource: edge.node1 === node, order: order});
+                isSelfLoop && pieces.push({edge: edge, isSource: false, order: order});
+            });
+            pieces.sort(function (a, b) {
+                return b.order - a.order;
+            });
+
+            const pieceUnitAngle = value > 0 ? angle / value : 0;
+            let pieceAngle = startAngle;
+            zrUtil.each(pieces, function (piece) {
+                const edge = piece.edge;
+                const pieceEnd = pieceAngle + dir * getEdgeValue(edge) * pieceUnitAngle;
+                const edgeLayout = edge.getLayout() as ChordEdgeLayout;
+                if (piece.isSource) {
+                    edgeLayout.sStartAngle = pieceAngle;
+                    edgeLayout.sEndAngle = pieceEnd;
+                }
+                else {
+                    edgeLayout.tStartAngle = pieceAngle;
+                    edgeLayout.tEndAngle = pieceEnd;
+                }
+                pieceAngle = pieceEnd;
+            });
+
+            currentAngle = endAngle + dir * padAngle;
+        });
+    });
+}
+
+function eachValidEdge(node: GraphNode, cb: (edge: GraphEdge) => void) {
+    zrUtil.each(node.edges, function (edge) {
+        // Edges may be filtered when linked node is filtered by legend.
+        edge.dataIndex >= 0 && cb(edge);
+    });
+}
+
+function getEdgeValue(edge: GraphEdge): number {
+    const value = edge.getValue() as number;
+    return value > 0 ? value : 0;
+}
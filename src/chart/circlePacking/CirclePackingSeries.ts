@@ -0,0 +1,315 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import SeriesModel from '../../model/Series';
+import Tree, { TreeNode } from '../../data/Tree';
+import { wrapTreePathInfo } from '../helper/treeHelper';
+import {
+    SeriesOption,
+    SeriesLabelOption,
+    ItemStyleOption,
+    OptionDataValue,
+    CallbackDataParams,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    DefaultEmphasisFocus
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import Model from '../../model/Model';
+import enableAriaDecalForTree from '../helper/enableAriaDecalForTree';
+import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
+import type { TreemapSeriesOption } from '../treemap/TreemapSeries';
+
+interface CirclePackingDataParams extends CallbackDataParams {
+    treePathInfo: {
+        name: string,
+        dataIndex: number
+        value: CirclePackingSeriesNodeItemOption['value']
+    }[]
+}
+
+interface CirclePackingStatesMixin {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus | 'descendant' | 'ancestor'
+    }
+}
+
+export interface CirclePackingStateOption<TCbParams = never> {
+    itemStyle?: ItemStyleOption<TCbParams>
+    /**
+     * Label of leaf nodes, in the center of the circle.
+     */
+    label?: SeriesLabelOption
+    /**
+     * Label of nodes with children, on the top of the circle.
+     */
+    upperLabel?: SeriesLabelOption
+}
+
+export interface CirclePackingSeriesNodeItemOption extends
+    CirclePackingStateOption<CallbackDataParams>,
+    StatesOptionMixin<CirclePackingStateOption<CallbackDataParams>, CirclePackingStatesMixin>,
+    OptionDataItemObject<OptionDataValue> {
+
+    nodeClick?: 'zoomToNode' | 'link' | false
+    // Available when nodeClick is link
+    link?: string
+    target?: string
+
+    children?: CirclePackingSeriesNodeItemOption[]
+
+    cursor?: string
+}
+
+export interface CirclePackingSeriesLevelOption extends
+    CirclePackingStateOption,
+    StatesOptionMixin<CirclePackingStateOption, CirclePackingStatesMixin> {
+}
+
+export interface CirclePackingSeriesOption extends
+    SeriesOption<CirclePackingStateOption, CirclePackingStatesMixin>,
+    CirclePackingStateOption {
+
+    type?: 'circlePacking'
+
+    center?: (number | string)[]
+    /**
+     * Radius of the circle of the view root.
+     * Percent is relative to the half of the smaller one of width and height.
+     */
+    radius?: number | string
+
+    /**
+     * Gap between sibling circles and between the circles and their parent, in pixel.
+     */
+    padding?: number
+
+    /**
+     * Order of siblings to be packed, from the center to the outside.
+     */
+    sort?: 'desc' | 'asc' | null
+
+    nodeClick?: 'zoomToNode' | 'link' | false
+
+    breadcrumb?: TreemapSeriesOption['breadcrumb']
+
+    levels?: CirclePackingSeriesLevelOption[]
+
+    data?: CirclePackingSeriesNodeItemOption[]
+}
+
+class CirclePackingSeriesModel extends SeriesModel<CirclePackingSeriesOption> {
+
+    static readonly type = 'series.circlePacking';
+    readonly type = CirclePackingSeriesModel.type;
+
+    ignoreStyleOnData = true;
+
+    private _viewRoot: TreeNode;
+    private _levelModels: Model<CirclePackingSeriesLevelOption>[];
+
+    getInitialData(option: CirclePackingSeriesOption, ecModel: GlobalModel) {
+        // Create a virtual root.
+        const root = { name: option.name, children: option.data } as CirclePackingSeriesNodeItemOption;
+
+        completeTreeValue(root);
+
+        const levelModels = this._levelModels =
+            zrUtil.map(option.levels || [], function (levelDefine) {
+                return new Model(levelDefine, this, ecModel);
+            }, this);
+
+        const tree = Tree.createTree(root, this, beforeLink);
+
+        function beforeLink(nodeData: SeriesData) {
+            nodeData.wrapMethod('getItemModel', function (model, idx) {
+                const node = tree.getNodeByDataIndex(idx);
+                const levelModel = levelModels[node.depth];
+                levelModel && (model.parentModel = levelModel);
+                return model;
+            });
+        }
+        return tree.data;
+    }
+
+    optionUpdated() {
+        this.resetViewRoot();
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries: boolean,
+        dataType: string
+    ) {
+        const data = this.getData();
+        const value = this.getRawValue(dataIndex) as OptionDataValue;
+        const name = data.getName(dataIndex);
+
+        return createTooltipMarkup('nameValue', { name: name, value: value });
+    }
+
+    /*
+     * @override
+     */
+    getDataParams(dataIndex: number) {
+        const params = super.getDataParams.apply(this, arguments as any) as CirclePackingDataParams;
+
+        const node = this.getData().tree.getNodeByDataIndex(dataIndex);
+        params.treePathInfo = wrapTreePathInfo<CirclePackingSeriesNodeItemOption['value']>(node, this);
+
+        return params;
+    }
+
+    getLevelModel(node: TreeNode) {
+        return this._levelModels && this._levelModels[node.depth];
+    }
+
+    getViewRoot() {
+        return this._viewRoot;
+    }
+
+    resetViewRoot(viewRoot?: TreeNode) {
+        viewRoot
+            ? (this._viewRoot = viewRoot)
+            : (viewRoot = this._viewRoot);
+
+        const root = this.getRawData().tree.root;
+
+        if (!viewRoot
+            || (viewRoot !== root && !root.contains(viewRoot))
+        ) {
+            this._viewRoot = root;
+        }
+    }
+
+    enableAriaDecal() {
+        enableAriaDecalForTree(this);
+    }
+
+    static defaultOption: CirclePackingSeriesOption = {
+        // zlevel: 0,
+        z: 2,
+
+        center: ['50%', '50%'],
+        radius: '75%',
+
+        padding: 3,
+
+        sort: 'desc',
+
+        // 'zoomToNode', 'link', or false
+        nodeClick: 'zoomToNode',
+
+        // Disable progressive rendering
+        progressive: 0,
+
+        breadcrumb: {
+            show: true,
+            height: 22,
+            left: 'center',
+            top: 'bottom',
+            emptyItemWidth: 25,
+            itemStyle: {
+                color: 'rgba(0,0,0,0.7)',
+                textStyle: {
+                    color: '#fff'
+                }
+            },
+            emphasis: {
+                itemStyle: {
+                    color: 'rgba(0,0,0,0.9)'
+                }
+            }
+        },
+
+        label: {
+            show: true,
+            position: 'inside',
+            overflow: 'truncate',
+            color: '#fff'
+        },
+
+        upperLabel: {
+            show: false,
+            position: 'insideTop',
+            overflow: 'truncate'
+        },
+
+        itemStyle: {
+            borderWidth: 0,
+            borderColor: '#fff'
+        },
+
+        emphasis: {
+            focus: 'self',
+            itemStyle: {
+                borderWidth: 1,
+                borderColor: 'rgba(0,0,0,0.5)'
+            }
+        },
+
+        blur: {
+            itemStyle: {
+                opacity: 0.3
+            }
+        },
+
+        animationDurationUpdate: 750,
+        animationEasingUpdate: 'cubicInOut',
+
+        data: []
+    };
+}
+
+function completeTreeValue(dataNode: CirclePackingSeriesNodeItemOption) {
+    // Postorder travel tree.
+    // If value of none-leaf node is not set,
+    // calculate it by suming up the value of all children.
+    let sum = 0;
+
+    zrUtil.each(dataNode.children, function (child) {
+
+        completeTreeValue(child);
+
+        let childValue = child.value;
+        zrUtil.isArray(childValue) && (childValue = childValue[0]);
+        sum += childValue as number;
+    });
+
+    let thisValue = dataNode.value as number;
+    if (zrUtil.isArray(thisValue)) {
+        thisValue = thisValue[0];
+    }
+
+    if (thisValue == null || isNaN(thisValue)) {
+        thisValue = sum;
+    }
+    // Value should not less than 0.
+    if (thisValue < 0) {
+        thisValue = 0;
+    }
+
+    zrUtil.isArray(dataNode.value)
+        ? (dataNode.value[0] = thisValue)
+        : (dataNode.value = thisValue);
+}
+
+export default CirclePackingSeriesModel;
@@ -0,0 +1,291 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import * as graphic from '../../util/graphic';
+import ChartView from '../../view/Chart';
+import DataDiffer from '../../data/DataDiffer';
+import CirclePackingSeriesModel, { CirclePackingSeriesNodeItemOption } from './CirclePackingSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import { TreeNode } from '../../data/Tree';
+import { ZOOM_TO_NODE_ACTION } from './circlePackingAction';
+import { CirclePackingItemLayout } from './circlePackingLayout';
+import Breadcrumb from '../treemap/Breadcrumb';
+import { windowOpen } from '../../util/format';
+import { getECData } from '../../util/innerStore';
+import { findEventDispatcher } from '../../util/event';
+import { toggleHoverEmphasis } from '../../util/states';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { createOrUpdatePatternFromDecal } from '../../util/decal';
+import { PathStyleProps } from 'zrender/src/graphic/Path';
+import { Dictionary } from '../../util/types';
+
+// Labels are not displayed on the circles smaller than it.
+const LABEL_MIN_RADIUS = 8;
+
+class CirclePackingView extends ChartView {
+
+    static readonly type = 'circlePacking';
+    readonly type = CirclePackingView.type;
+
+    seriesModel: CirclePackingSeriesModel;
+    api: ExtensionAPI;
+
+    private _contentGroup: graphic.Group;
+
+    private _breadcrumb: Breadcrumb;
+
+    private _data: SeriesData;
+
+    private _oldNodes: TreeNode[];
+
+    /**
+     * Layouts of all the nodes in the last rendering, indexed by node id.
+     * Nodes entering the view start from them.
+     */
+    private _oldLayouts: Dictionary<CirclePackingItemLayout>;
+
+    init() {
+        this._contentGroup = new graphic.Group();
+        this.group.add(this._contentGroup);
+        this._initEvents();
+    }
+
+    render(
+        seriesModel: CirclePackingSeriesModel,
+        ecModel: GlobalModel,
+        api: ExtensionAPI
+    ) {
+        this.seriesModel = seriesModel;
+        this.api = api;
+
+        const contentGroup = this._contentGroup;
+        const data = seriesModel.getData();
+        const oldData = this._data;
+        const virtualRoot = data.tree.root;
+        const viewRoot = seriesModel.getViewRoot();
+        const oldLayouts = this._oldLayouts;
+
+        const newLayouts: Dictionary<CirclePackingItemLayout> = {};
+        virtualRoot.eachNode(function (node) {
+            newLayouts[node.getId()] = node.getLayout();
+        });
+
+        const newNodes: TreeNode[] = [];
+        viewRoot.eachNode(function (node) {
+            // The virtual root is not displayed.
+            if (node !== virtualRoot && node.getLayout().r > 0) {
+                newNodes.push(node);
+            }
+        });
+        const oldNodes = this._oldNodes || [];
+
+        function getKey(node: TreeNode) {
+            return node.getId();
+        }
+
+        new DataDiffer(oldNodes, newNodes, getKey, getKey)
+            .add(function (newIdx) {
+                const node = newNodes[newIdx];
+                const layout = node.getLayout() as CirclePackingItemLayout;
+                const oldLayout = oldLayouts && oldLayouts[node.getId()];
+                const circle = new graphic.Circle();
+                updateCircle(circle, node, seriesModel, api);
+                contentGroup.add(circle);
+                data.setItemGraphicEl(node.dataIndex, circle);
+
+                if (oldLayout) {
+                    // Enter from where it was out of the view.
+                    const opacity = circle.style.opacity;
+                    circle.setShape(oldLayout);
+                    circle.style.opacity = 0;
+                    graphic.updateProps(circle, {
+                        shape: layout,
+                        style: {
+                            opacity: opacity == null ? 1 : opacity
+                        }
+                    }, seriesModel, node.dataIndex);
+                }
+                else {
+                    circle.setShape(layout);
+                    circle.shape.r = 0;
+                    graphic.initProps(circle, {
+                        shape: {
+                            r: layout.r
+                        }
+                    }, seriesModel, node.dataIndex);
+                }
+            })
+            .update(function (newIdx, oldIdx) {
+                const node = newNodes[newIdx];
+                const circle = oldData.getItemGraphicEl(oldNodes[oldIdx].dataIndex) as graphic.Circle;
+                updateCircle(circle, node, seriesModel, api);
+                data.setItemGraphicEl(node.dataIndex, circle);
+                graphic.updateProps(circle, {
+                    shape: node.getLayout()
+                }, seriesModel, node.dataIndex);
+            })
+            .remove(function (oldIdx) {
+                const oldNode = oldNodes[oldIdx];
+                const circle = oldData.getItemGraphicEl(oldNode.dataIndex) as graphic.Circle;
+                const layout = newLayouts[oldNode.getId()];
+                if (!circle) {
+                    return;
+                }
+                // Data is not changed when zooming.
+                if (oldData === data) {
+                    data.setItemGraphicEl(oldNode.dataIndex, null);
+                }
+                if (layout) {
+                    // Leave to where it is out of the view.
+                    graphic.removeElement(circle, {
+                        shape: layout,
+                        style: {
+                            opacity: 0
+                        }
+                    }, seriesModel, oldNode.dataIndex, function () {
+                        contentGroup.remove(circle);
+                    });
+                }
+                else {
+                    graphic.removeElementWithFadeOut(circle, seriesModel, oldNode.dataIndex);
+                }
+            })
+            .execute();
+
+        this._renderBreadcrumb(seriesModel, api, viewRoot);
+
+        this._data = data;
+        this._oldNodes = newNodes;
+        this._oldLayouts = newLayouts;
+    }
+
+    private _renderBreadcrumb(seriesModel: CirclePackingSeriesModel, api: ExtensionAPI, viewRoot: TreeNode) {
+        (this._breadcrumb || (this._breadcrumb = new Breadcrumb(this.group)))
+            .render(seriesModel, api, viewRoot, (node) => {
+                this._zoomToNode(node);
+            });
+    }
+
+    private _initEvents() {
+        this._contentGroup.on('click', (e) => {
+            const seriesModel = this.seriesModel;
+            const el = findEventDispatcher(e.target, target => getECData(target).dataIndex != null, true);
+            if (!el || !seriesModel) {
+                return;
+            }
+            const node = seriesModel.getData().tree.getNodeByDataIndex(getECData(el).dataIndex);
+            const viewRoot = seriesModel.getViewRoot();
+            const itemModel = node.getModel<CirclePackingSeriesNodeItemOption>();
+            const nodeClick = itemModel.get('nodeClick');
+
+            if (nodeClick === 'zoomToNode') {
+                // Click the view root to roll up.
+                const targetNode = node === viewRoot
+                    ? node.parentNode
+                    : node.children.length ? node : null;
+                targetNode && this._zoomToNode(targetNode);
+            }
+            else if (nodeClick === 'link') {
+                const link = itemModel.get('link');
+                if (link) {
+                    windowOpen(link, itemModel.get('target', true) || '_blank');
+                }
+            }
+        });
+    }
+
+    private _zoomToNode(node: TreeNode) {
+        if (node !== this.seriesModel.getViewRoot()) {
+            this.api.dispatchAction({
+                type: ZOOM_TO_NODE_ACTION,
+                from: this.uid,
+                seriesId: this.seriesModel.id,
+                targetNode: node
+            });
+        }
+    }
+
+    remove() {
+        this._contentGroup.removeAll();
+        this._breadcrumb && this._breadcrumb.remove();
+        this._data = null;
+        this._oldNodes = null;
+        this._oldLayouts = null;
+    }
+}
+
+function updateCircle(
+    circle: graphic.Circle,
+    node: TreeNode,
+    seriesModel: CirclePackingSeriesModel,
+    api: ExtensionAPI
+) {
+    const itemModel = node.getModel<CirclePackingSeriesNodeItemOption>();
+    const emphasisModel = itemModel.getModel('emphasis');
+    const layout = node.getLayout() as CirclePackingItemLayout;
+    const hasChildren = !!node.children.length;
+
+    const style = zrUtil.extend({}, node.getVisual('style')) as PathStyleProps;
+    const decal = node.getVisual('decal');
+    if (decal) {
+        style.decal = createOrUpdatePatternFromDecal(decal, api);
+    }
+    circle.useStyle(style);
+    // Children are drawn over the parents.
+    circle.z2 = node.depth;
+
+    zrUtil.each(['emphasis', 'blur', 'select'] as const, function (stateName) {
+        circle.ensureState(stateName).style = itemModel.getModel([stateName, 'itemStyle']).getItemStyle();
+    });
+
+    setLabelStyle(
+        circle,
+        getLabelStatesModels(itemModel, hasChildren ? 'upperLabel' : 'label'),
+        {
+            labelFetcher: seriesModel,
+            labelDataIndex: node.dataIndex,
+            defaultText: node.name,
+            defaultOpacity: style.opacity
+        }
+    );
+    const label = circle.getTextContent();
+    if (label) {
+        // Truncate the text in the circle.
+        label.style.width = layout.r * (hasChildren ? 1.2 : 1.8);
+        if (layout.r < LABEL_MIN_RADIUS) {
+            label.ignore = true;
+        }
+    }
+
+    const cursorStyle = itemModel.getShallow('cursor');
+    cursorStyle && circle.attr('cursor', cursorStyle);
+
+    const focus = emphasisModel.get('focus');
+    const focusOrIndices =
+        focus === 'ancestor' ? node.getAncestorsIndices()
+        : focus === 'descendant' ? node.getDescendantIndices()
+        : focus;
+
+    toggleHoverEmphasis(circle, focusOrIndices, emphasisModel.get('blurScope'), emphasisModel.get('disabled'));
+}
+
+export default CirclePackingView;
@@ -0,0 +1,61 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import CirclePackingSeriesModel from './CirclePackingSeries';
+import { Payload } from '../../util/types';
+import GlobalModel from '../../model/Global';
+import { TreeNode } from '../../data/Tree';
+import { EChartsExtensionInstallRegisters } from '../../extension';
+import { retrieveTargetInfo, aboveViewRoot } from '../helper/treeHelper';
+
+export const ZOOM_TO_NODE_ACTION = 'circlePackingZoomToNode';
+
+export interface CirclePackingZoomToNodePayload extends Payload {
+    type: 'circlePackingZoomToNode'
+    targetNode?: TreeNode | string
+    targetNodeId?: string
+
+    direction?: 'rollUp' | 'drillDown'
+}
+
+export function installCirclePackingAction(registers: EChartsExtensionInstallRegisters) {
+    registers.registerAction(
+        {type: ZOOM_TO_NODE_ACTION, update: 'updateView'},
+        function (payload: CirclePackingZoomToNodePayload, ecModel: GlobalModel) {
+
+            ecModel.eachComponent(
+                {mainType: 'series', subType: 'circlePacking', query: payload},
+                handleZoomToNode
+            );
+
+            function handleZoomToNode(model: CirclePackingSeriesModel, index: number) {
+                const targetInfo = retrieveTargetInfo(payload, [ZOOM_TO_NODE_ACTION], model);
+
+                if (targetInfo) {
+                    const originViewRoot = model.getViewRoot();
+                    if (originViewRoot) {
+                        payload.direction = aboveViewRoot(originViewRoot, targetInfo.node)
+                            ? 'rollUp' : 'drillDown';
+                    }
+                    model.resetViewRoot(targetInfo.node);
+                }
+            }
+        }
+    );
+}
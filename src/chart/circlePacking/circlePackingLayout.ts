@@ -0,0 +1,153 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { parsePercent } from '../../util/number';
+import * as zrUtil from 'zrender/src/core/util';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import CirclePackingSeriesModel, { CirclePackingSeriesOption } from './CirclePackingSeries';
+import { TreeNode } from '../../data/Tree';
+import { packSiblings, PackCircle } from './packCircles';
+
+export interface CirclePackingItemLayout {
+    cx: number
+    cy: number
+    r: number
+}
+
+const MAX_PADDING_ITERATIONS = 20;
+const PADDING_EPSILON = 1e-6;
+
+export default function circlePackingLayout(
+    ecModel: GlobalModel,
+    api: ExtensionAPI
+) {
+    ecModel.eachSeriesByType('circlePacking', function (seriesModel: CirclePackingSeriesModel) {
+        const center = seriesModel.get('center');
+        const width = api.getWidth();
+        const height = api.getHeight();
+        const cx = parsePercent(center[0], width);
+        const cy = parsePercent(center[1], height);
+        const radius = parsePercent(seriesModel.get('radius'), Math.min(width, height) / 2);
+
+        const data = seriesModel.getData();
+        const virtualRoot = data.tree.root;
+        const viewRoot = seriesModel.getViewRoot();
+        const sort = seriesModel.get('sort');
+        const padding = seriesModel.get('padding') || 0;
+
+        // Circles relative to the parent, indexed by dataIndex.
+        const circles: PackCircle[] = [];
+        packNode(virtualRoot, circles, sort, 0);
+        if (padding > 0) {
+            // Padding is in pixel, which is scaled to the size of values by the radius of the
+            // view root. The radius is inflated by the padding, so pack again until it converges.
+            let valuePadding = 0;
+            for (let i = 0; i < MAX_PADDING_ITERATIONS; i++) {
+                const viewRadius = circles[viewRoot.dataIndex].r;
+                const newValuePadding = padding * viewRadius / radius;
+                if (!(newValuePadding > 0)
+                    || Math.abs(newValuePadding - valuePadding) <= newValuePadding * PADDING_EPSILON
+                ) {
+                    break;
+                }
+                valuePadding = newValuePadding;
+                packNode(virtualRoot, circles, sort, valuePadding);
+            }
+        }
+
+        // Translate to the absolute positions.
+        virtualRoot.eachNode('preorder', function (node: TreeNode) {
+            const circle = circles[node.dataIndex];
+            const parentCircle = node.parentNode && circles[node.parentNode.dataIndex];
+            if (parentCircle) {
+                circle.x += parentCircle.x;
+                circle.y += parentCircle.y;
+            }
+        });
+
+        // The view root fills the circle of the series.
+        const viewCircle = circles[viewRoot.dataIndex];
+        const scale = viewCircle.r > 0 ? radius / viewCircle.r : 0;
+
+        virtualRoot.eachNode(function (node: TreeNode) {
+            const circle = circles[node.dataIndex];
+            node.setLayout({
+                cx: cx + (circle.x - viewCircle.x) * scale,
+                cy: cy + (circle.y - viewCircle.y) * scale,
+                r: circle.r * scale
+            } as CirclePackingItemLayout);
+        });
+    });
+}
+
+/**
+ * Pack the children of the node, and returns the radius of the node.
+ * Positions are relative to the center of the parent.
+ */
+function packNode(
+    node: TreeNode,
+    circles: PackCircle[],
+    sort: CirclePackingSeriesOption['sort'],
+    padding: number
+): number {
+    const circle = circles[node.dataIndex] = {x: 0, y: 0, r: 0};
+
+    const children: PackCircle[] = [];
+    const childValues: number[] = [];
+    zrUtil.each(node.children, function (child) {
+        const childRadius = packNode(child, circles, sort, padding);
+        if (childRadius > 0) {
+            const childCircle = circles[child.dataIndex];
+            children.push(childCircle);
+            childValues.push(child.getValue() as number);
+        }
+    });
+
+    if (!children.length) {
+        const value = node.getValue() as number;
+        circle.r = value > 0 ? Math.sqrt(value) : 0;
+        return circle.r;
+    }
+
+    let siblings = children;
+    if (sort) {
+        const indices = zrUtil.map(children, (c, idx) => idx);
+        indices.sort(function (a, b) {
+            const diff = sort === 'asc'
+                ? childValues[a] - childValues[b]
+                : childValues[b] - childValues[a];
+            // Keep the order of data if values are the same.
+            return diff || a - b;
+        });
+        siblings = zrUtil.map(indices, idx => children[idx]);
+    }
+
+    // Siblings are separated by `padding`, and so are the siblings and the parent.
+    const halfPadding = padding / 2;
+    for (let i = 0; i < siblings.length; i++) {
+        siblings[i].r += halfPadding;
+    }
+    circle.r = packSiblings(siblings) + halfPadding;
+    for (let i = 0; i < siblings.length; i++) {
+        siblings[i].r -= halfPadding;
+    }
+
+    return circle.r;
+}
@@ -0,0 +1,350 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Circle packing of siblings with the front-chain algorithm in
+ * "Visualization of large hierarchical data by circle packing" (Wang et al., 2006),
+ * and the smallest enclosing circle of circles with Welzl's algorithm.
+ */
+
+export interface PackCircle {
+    x: number
+    y: number
+    r: number
+}
+
+interface FrontChainNode {
+    circle: PackCircle
+    next: FrontChainNode
+    prev: FrontChainNode
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Place circles tangent to each other around the origin, in the given order.
+ * The circles are translated so that their enclosing circle is centered at the origin.
+ * Returns the radius of the enclosing circle.
+ */
+export function packSiblings(circles: PackCircle[]): number {
+    const count = circles.length;
+    if (!count) {
+        return 0;
+    }
+
+    const c0 = circles[0];
+    c0.x = c0.y = 0;
+    if (count === 1) {
+        return c0.r;
+    }
+
+    const c1 = circles[1];
+    c0.x = -c1.r;
+    c1.x = c0.r;
+    c1.y = 0;
+    if (count === 2) {
+        return c0.r + c1.r;
+    }
+
+    placeTangent(c1, c0, circles[2]);
+
+    // The front chain is a circular list of the outer circles in counterclockwise order.
+    let a = createChainNode(c0);
+    let b = createChainNode(c1);
+    const c = createChainNode(circles[2]);
+    a.next = c.prev = b;
+    b.next = a.prev = c;
+    c.next = b.prev = a;
+
+    for (let i = 3; i < count; i++) {
+        const circle = circles[i];
+        placeTangent(a.circle, b.circle, circle);
+
+        // Find the nearest circle on the chain intersecting the new circle,
+        // searching forward from b and backward from a.
+        let j = b.next;
+        let k = a.prev;
+        let lengthJ = b.circle.r;
+        let lengthK = a.circle.r;
+        let intersected = false;
+        do {
+            if (lengthJ <= lengthK) {
+                if (intersects(j.circle, circle)) {
+                    b = j;
+                    a.next = b;
+                    b.prev = a;
+                    intersected = true;
+                    break;
+                }
+                lengthJ += j.circle.r;
+                j = j.next;
+            }
+            else {
+                if (intersects(k.circle, circle)) {
+                    a = k;
+                    a.next = b;
+                    b.prev = a;
+                    intersected = true;
+                    break;
+                }
+                lengthK += k.circle.r;
+                k = k.prev;
+            }
+        } while (j !== k.next);
+
+        if (intersected) {
+            // Place the circle again between the new pair.
+            i--;
+            continue;
+        }
+
+        // Insert the circle between a and b.
+        const node = createChainNode(circle);
+        node.prev = a;
+        node.next = b;
+        a.next = b.prev = b = node;
+
+        // The next pair starts from the one closest to the origin.
+        let minScore = chainScore(a);
+        let current = node;
+        while ((current = current.next) !== b) {
+            const score = chainScore(current);
+            if (score < minScore) {
+                a = current;
+                minScore = score;
+            }
+        }
+        b = a.next;
+    }
+
+    // Only circles on the front chain are needed to compute the enclosing circle.
+    const chainCircles = [b.circle];
+    let node = b;
+    while ((node = node.next) !== b) {
+        chainCircles.push(node.circle);
+    }
+    const enclosing = encloseCircles(chainCircles);
+
+    for (let i = 0; i < count; i++) {
+        circles[i].x -= enclosing.x;
+        circles[i].y -= enclosing.y;
+    }
+
+    return enclosing.r;
+}
+
+/**
+ * Smallest circle enclosing all the circles.
+ */
+export function encloseCircles(circles: PackCircle[]): PackCircle {
+    // Shuffle so that the expected time is linear.
+    // Use a fixed seed so that the result is stable.
+    circles = circles.slice();
+    let seed = 1;
+    for (let i = circles.length - 1; i > 0; i--) {
+        seed = (seed * 16807) % 2147483647;
+        const j = seed % (i + 1);
+        const tmp = circles[i];
+        circles[i] = circles[j];
+        circles[j] = tmp;
+    }
+
+    let basis: PackCircle[] = [];
+    let enclosing: PackCircle;
+    let i = 0;
+    while (i < circles.length) {
+        const circle = circles[i];
+        if (enclosing && enclosesWeak(enclosing, circle)) {
+            i++;
+        }
+        else {
+            basis = extendBasis(basis, circle);
+            enclosing = encloseBasis(basis);
+            i = 0;
+        }
+    }
+    return enclosing;
+}
+
+function createChainNode(circle: PackCircle): FrontChainNode {
+    return {
+        circle: circle,
+        next: null,
+        prev: null
+    };
+}
+
+/**
+ * Place circle c tangent to both a and b.
+ */
+function placeTangent(a: PackCircle, b: PackCircle, c: PackCircle) {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const dist2 = dx * dx + dy * dy;
+    if (!dist2) {
+        c.x = b.x + c.r;
+        c.y = b.y;
+        return;
+    }
+    const ra2 = (a.r + c.r) * (a.r + c.r);
+    const rb2 = (b.r + c.r) * (b.r + c.r);
+    // Solve from the center of the smaller tangent distance, which is more precise.
+    if (rb2 > ra2) {
+        const t = (dist2 + ra2 - rb2) / (2 * dist2);
+        const h = Math.sqrt(Math.max(0, ra2 / dist2 - t * t));
+        c.x = a.x - t * dx - h * dy;
+        c.y = a.y - t * dy + h * dx;
+    }
+    else {
+        const t = (dist2 + rb2 - ra2) / (2 * dist2);
+        const h = Math.sqrt(Math.max(0, rb2 / dist2 - t * t));
+        c.x = b.x + t * dx - h * dy;
+        c.y = b.y + t * dy + h * dx;
+    }
+}
+
+function intersects(a: PackCircle, b: PackCircle): boolean {
+    const dr = a.r + b.r - EPSILON;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return dr > 0 && dr * dr > dx * dx + dy * dy;
+}
+
+/**
+ * Distance to the origin of the tangent point between the node and the next one.
+ */
+function chainScore(node: FrontChainNode): number {
+    const a = node.circle;
+    const b = node.next.circle;
+    const sumR = a.r + b.r;
+    const x = (a.x * b.r + b.x * a.r) / sumR;
+    const y = (a.y * b.r + b.y * a.r) / sumR;
+    return x * x + y * y;
+}
+
+function enclosesWeak(a: PackCircle, b: PackCircle): boolean {
+    const dr = a.r - b.r + Math.max(a.r, b.r, 1) * 1e-9;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return dr > 0 && dr * dr > dx * dx + dy * dy;
+}
+
+function enclosesWeakAll(a: PackCircle, circles: PackCircle[]): boolean {
+    for (let i = 0; i < circles.length; i++) {
+        if (!enclosesWeak(a, circles[i])) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function enclosesNot(a: PackCircle, b: PackCircle): boolean {
+    const dr = a.r - b.r;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    return dr < 0 || dr * dr < dx * dx + dy * dy;
+}
+
+/**
+ * Find the smallest basis, which is at most three circles on the enclosing circle,
+ * containing the new circle.
+ */
+function extendBasis(basis: PackCircle[], p: PackCircle): PackCircle[] {
+    if (enclosesWeakAll(p, basis)) {
+        return [p];
+    }
+
+    for (let i = 0; i < basis.length; i++) {
+        if (enclosesNot(p, basis[i]) && enclosesWeakAll(encloseTwo(basis[i], p), basis)) {
+            return [basis[i], p];
+        }
+    }
+
+    for (let i = 0; i < basis.length - 1; i++) {
+        for (let j = i + 1; j < basis.length; j++) {
+            const a = basis[i];
+            const b = basis[j];
+            if (enclosesNot(encloseTwo(a, b), p)
+                && enclosesNot(encloseTwo(a, p), b)
+                && enclosesNot(encloseTwo(b, p), a)
+                && enclosesWeakAll(encloseThree(a, b, p), basis)
+            ) {
+                return [a, b, p];
+            }
+        }
+    }
+
+    // Should not happen unless the precision is lost.
+    return [p];
+}
+
+function encloseBasis(basis: PackCircle[]): PackCircle {
+    switch (basis.length) {
+        case 1:
+            return {x: basis[0].x, y: basis[0].y, r: basis[0].r};
+        case 2:
+            return encloseTwo(basis[0], basis[1]);
+        case 3:
+            return encloseThree(basis[0], basis[1], basis[2]);
+    }
+}
+
+function encloseTwo(a: PackCircle, b: PackCircle): PackCircle {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dr = b.r - a.r;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    return {
+        x: (a.x + b.x + dx / dist * dr) / 2,
+        y: (a.y + b.y + dy / dist * dr) / 2,
+        r: (dist + a.r + b.r) / 2
+    };
+}
+
+/**
+ * Circle tangent to three circles from outside (the problem of Apollonius).
+ */
+function encloseThree(a: PackCircle, b: PackCircle, c: PackCircle): PackCircle {
+    const x1 = a.x;
+    const y1 = a.y;
+    const r1 = a.r;
+    const a2 = x1 - b.x;
+    const a3 = x1 - c.x;
+    const b2 = y1 - b.y;
+    const b3 = y1 - c.y;
+    const c2 = b.r - r1;
+    const c3 = c.r - r1;
+    const d1 = x1 * x1 + y1 * y1 - r1 * r1;
+    const d2 = d1 - b.x * b.x - b.y * b.y + b.r * b.r;
+    const d3 = d1 - c.x * c.x - c.y * c.y + c.r * c.r;
+    const ab = a3 * b2 - a2 * b3;
+    const xa = (b2 * d3 - b3 * d2) / (ab * 2) - x1;
+    const xb = (b3 * c2 - b2 * c3) / ab;
+    const ya = (a3 * d2 - a2 * d3) / (ab * 2) - y1;
+    const yb = (a2 * c3 - a3 * c2) / ab;
+    const qa = xb * xb + yb * yb - 1;
+    const qb = 2 * (r1 + xa * xb + ya * yb);
+    const qc = xa * xa + ya * ya - r1 * r1;
+    const r = -(Math.abs(qa) > EPSILON ? (qb + Math.sqrt(qb * qb - 4 * qa * qc)) / (2 * qa) : qc / qb);
+    return {
+        x: x1 + xa + xb * r,
+        y: y1 + ya + yb * r,
+        r: r
+    };
+}
@@ -0,0 +1,152 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import SeriesModel from '../../model/Series';
+import createSeriesData from '../helper/createSeriesData';
+import {
+    SeriesOption,
+    SeriesOnCartesianOptionMixin,
+    SeriesOnGeoOptionMixin,
+    ItemStyleOption,
+    LineStyleOption,
+    LabelOption,
+    OptionDataValue,
+    SeriesEncodeOptionMixin
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import type Geo from '../../coord/geo/Geo';
+import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
+
+type ContourDataValue = OptionDataValue[];
+
+export interface ContourDataItemOption {
+    value: ContourDataValue
+}
+
+export interface ContourLabelOption extends Omit<LabelOption, 'formatter' | 'position'> {
+    /**
+     * String template with `{value}` or a callback of the level value.
+     */
+    formatter?: string | ((value: number) => string)
+}
+
+export interface ContourSeriesOption
+    extends SeriesOption,
+    SeriesOnCartesianOptionMixin,
+    SeriesOnGeoOptionMixin,
+    SeriesEncodeOptionMixin {
+
+    type?: 'contour'
+
+    coordinateSystem?: 'cartesian2d' | 'geo'
+
+    /**
+     * Count of nice levels, or the thresholds of levels.
+     */
+    levels?: number | number[]
+
+    /**
+     * Size of the grid which scattered values are interpolated onto.
+     * Values on a lattice are used directly.
+     */
+    gridSize?: number[]
+
+    /**
+     * If show the filled bands between levels.
+     */
+    showBands?: boolean
+
+    /**
+     * If show the isolines of levels.
+     */
+    showLines?: boolean
+
+    /**
+     * Style of bands, where color is from visualMap or the color ramp of levels.
+     */
+    itemStyle?: ItemStyleOption
+
+    /**
+     * Style of isolines. Color of level is used if not specified and bands are hidden.
+     */
+    lineStyle?: LineStyleOption
+
+    /**
+     * Label of levels on the isolines.
+     */
+    label?: ContourLabelOption
+
+    clip?: boolean
+
+    data?: (ContourDataItemOption | ContourDataValue)[]
+}
+
+class ContourSeriesModel extends SeriesModel<ContourSeriesOption> {
+    static readonly type = 'series.contour';
+    readonly type = ContourSeriesModel.type;
+
+    static readonly dependencies = ['grid', 'geo'];
+
+    coordinateSystem: Cartesian2D | Geo;
+
+    getInitialData(option: ContourSeriesOption, ecModel: GlobalModel): SeriesData {
+        return createSeriesData(null, this, {
+            generateCoord: 'value'
+        });
+    }
+
+    static defaultOption: ContourSeriesOption = {
+
+        coordinateSystem: 'cartesian2d',
+
+        // zlevel: 0,
+
+        z: 2,
+
+        // Geo coordinate system
+        geoIndex: 0,
+
+        levels: 10,
+
+        gridSize: [50, 50],
+
+        showBands: true,
+
+        showLines: true,
+
+        clip: true,
+
+        itemStyle: {
+            opacity: 0.9
+        },
+
+        lineStyle: {
+            width: 1
+        },
+
+        label: {
+            show: false,
+            fontSize: 10,
+            formatter: '{value}'
+        }
+    };
+}
+
+export default ContourSeriesModel;
@@ -0,0 +1,238 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import { lerp } from 'zrender/src/tool/color';
+import ChartView from '../../view/Chart';
+import * as graphic from '../../util/graphic';
+import { createTextStyle } from '../../label/labelStyle';
+import { createClipPath } from '../helper/createClipPathFromCoordSys';
+import { PathProps } from 'zrender/src/graphic/Path';
+import ContourSeriesModel, { ContourLabelOption } from './ContourSeries';
+import Model from '../../model/Model';
+import * as vec2 from 'zrender/src/core/vector';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import type VisualMapModel from '../../component/visualMap/VisualMapModel';
+import { ContourLayout } from './contourLayout';
+import { ColorString } from '../../util/types';
+
+// The same as the default color of visualMap.
+const defaultColorRamp = ['#f6efa6', '#d88273', '#bf444c'];
+
+class ContourBandShape {
+    rings: number[][][] = [];
+}
+
+interface ContourBandProps extends PathProps {
+    shape?: Partial<ContourBandShape>
+}
+
+/**
+ * Band between two levels. Rings of the upper level are reversed,
+ * so that they are holes with the nonzero winding rule.
+ */
+class ContourBand extends graphic.Path<ContourBandProps> {
+
+    readonly type = 'contourBand';
+
+    shape: ContourBandShape;
+
+    constructor(opts?: ContourBandProps) {
+        super(opts);
+    }
+
+    getDefaultShape() {
+        return new ContourBandShape();
+    }
+
+    buildPath(ctx: CanvasRenderingContext2D, shape: ContourBandShape) {
+        const rings = shape.rings;
+        for (let i = 0; i < rings.length; i++) {
+            const ring = rings[i];
+            ctx.moveTo(ring[0][0], ring[0][1]);
+            for (let k = 1; k < ring.length; k++) {
+                ctx.lineTo(ring[k][0], ring[k][1]);
+            }
+            ctx.closePath();
+        }
+    }
+}
+
+class ContourView extends ChartView {
+
+    static readonly type = 'contour';
+    readonly type = ContourView.type;
+
+    render(seriesModel: ContourSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const group = this.group;
+        const layout = seriesModel.getData().getLayout('contour') as ContourLayout;
+
+        group.removeAll();
+
+        if (!layout) {
+            return;
+        }
+
+        let visualMapOfThisSeries: VisualMapModel;
+        ecModel.eachComponent('visualMap', function (visualMap: VisualMapModel) {
+            visualMap.eachTargetSeries(function (targetSeries) {
+                if (targetSeries === seriesModel) {
+                    visualMapOfThisSeries = visualMap;
+                }
+            });
+        });
+
+        const levels = layout.levels;
+        const extent = layout.extent;
+        const showBands = seriesModel.get('showBands');
+        const bandStyle = seriesModel.getModel('itemStyle').getItemStyle();
+        const lineStyleModel = seriesModel.getModel('lineStyle');
+        const labelModel = seriesModel.getModel('label');
+
+        zrUtil.each(levels, function (level, idx) {
+            const nextLevel = levels[idx + 1];
+            // Use the middle of the band, which is not ambiguous on the edge of pieces.
+            const upper = nextLevel ? Math.min(nextLevel.threshold, extent[1]) : extent[1];
+            const color = getLevelColor(
+                (Math.max(level.threshold, extent[0]) + upper) / 2, extent, visualMapOfThisSeries
+            );
+
+            if (showBands && color) {
+                group.add(new ContourBand({
+                    shape: {
+                        rings: level.rings.concat(nextLevel
+                            ? zrUtil.map(nextLevel.rings, ring => ring.slice().reverse())
+                            : []
+                        )
+                    },
+                    style: zrUtil.defaults({
+                        fill: color
+                    }, bandStyle),
+                    silent: true
+                }));
+            }
+        });
+
+        if (seriesModel.get('showLines')) {
+            zrUtil.each(levels, function (level) {
+                const lineColor = getLevelColor(level.threshold, extent, visualMapOfThisSeries);
+                const lineStyle = zrUtil.defaults(lineStyleModel.getLineStyle(), {
+                    stroke: showBands ? 'rgba(0,0,0,0.4)' : lineColor
+                });
+                zrUtil.each(level.lines, function (points) {
+                    group.add(new graphic.Polyline({
+                        shape: {
+                            points: points
+                        },
+                        style: lineStyle,
+                        silent: true
+                    }));
+                    if (labelModel.get('show')) {
+                        addLineLabel(group, points, level.threshold, labelModel, lineStyle.stroke as ColorString);
+                    }
+                });
+            });
+        }
+
+        const clipPath = seriesModel.get('clip', true)
+            ? createClipPath(seriesModel.coordinateSystem, false, seriesModel)
+            : null;
+        if (clipPath) {
+            group.setClipPath(clipPath);
+        }
+        else {
+            group.removeClipPath();
+        }
+    }
+
+    remove() {
+        this.group.removeAll();
+    }
+}
+
+function getLevelColor(value: number, extent: number[], visualMapModel: VisualMapModel): ColorString {
+    if (visualMapModel) {
+        const colorMapping = visualMapModel.targetVisuals[visualMapModel.getValueState(value)].color;
+        return colorMapping ? colorMapping.mapValueToVisual(value) as ColorString : null;
+    }
+    const span = extent[1] - extent[0];
+    return lerp(span ? (value - extent[0]) / span : 0.5, defaultColorRamp);
+}
+
+/**
+ * Put the label on the middle of the line along it.
+ * Labels are not shown on the short lines.
+ */
+function addLineLabel(
+    group: graphic.Group,
+    points: number[][],
+    value: number,
+    labelModel: Model<ContourLabelOption>,
+    inheritColor: ColorString
+) {
+    let length = 0;
+    for (let k = 1; k < points.length; k++) {
+        length += vec2.dist(points[k - 1], points[k]);
+    }
+
+    const formatter = labelModel.get('formatter');
+    const text = zrUtil.isFunction(formatter)
+        ? formatter(value)
+        : (formatter || '{value}').replace('{value}', value + '');
+    const fontSize = labelModel.get('fontSize') as number || 12;
+    if (length < text.length * fontSize * 2) {
+        return;
+    }
+
+    let remain = length / 2;
+    for (let k = 1; k < points.length; k++) {
+        const segLength = vec2.dist(points[k - 1], points[k]);
+        if (segLength >= remain && segLength > 0) {
+            const p0 = points[k - 1];
+            const p1 = points[k];
+            let rotation = -Math.atan2(p1[1] - p0[1], p1[0] - p0[0]);
+            // Keep the text upright.
+            if (rotation > Math.PI / 2) {
+                rotation -= Math.PI;
+            }
+            else if (rotation < -Math.PI / 2) {
+                rotation += Math.PI;
+            }
+            group.add(new graphic.Text({
+                x: p0[0] + (p1[0] - p0[0]) * remain / segLength,
+                y: p0[1] + (p1[1] - p0[1]) * remain / segLength,
+                rotation: rotation,
+                style: createTextStyle(labelModel, {
+                    text: text,
+                    align: 'center',
+                    verticalAlign: 'middle'
+                }, {
+                    inheritColor: inheritColor
+                }),
+                silent: true,
+                z2: 10
+            }));
+            return;
+        }
+        remain -= segLength;
+    }
+}
+
+export default ContourView;
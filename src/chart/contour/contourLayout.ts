@@ -0,0 +1,116 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { StageHandler } from '../../util/types';
+import ContourSeriesModel from './ContourSeries';
+import { map } from 'zrender/src/core/util';
+import {
+    createContourGrid, getContourThresholds, traceContour, ContourGrid
+} from './marchingSquares';
+
+export interface ContourLevelLayout {
+    threshold: number
+    /**
+     * Rings of the region not less than the threshold, in pixel.
+     */
+    rings: number[][][]
+    lines: number[][][]
+}
+
+export interface ContourLayout {
+    /**
+     * Extent of values on the grid.
+     */
+    extent: number[]
+    levels: ContourLevelLayout[]
+}
+
+const contourLayout: StageHandler = {
+
+    seriesType: 'contour',
+
+    reset: function (seriesModel: ContourSeriesModel) {
+        const coordSys = seriesModel.coordinateSystem;
+        if (!coordSys) {
+            return;
+        }
+
+        const data = seriesModel.getData();
+        const dims = map(coordSys.dimensions, function (dim) {
+            return data.mapDimension(dim);
+        });
+        dims.push(data.mapDimension('value'));
+
+        const points: number[][] = [];
+        data.each(dims, function (x: number, y: number, value: number) {
+            if (!isNaN(x) && !isNaN(y) && !isNaN(value)) {
+                points.push([x, y, value]);
+            }
+        });
+
+        if (!points.length) {
+            data.setLayout('contour', null);
+            return;
+        }
+
+        const grid = createContourGrid(points, seriesModel.get('gridSize'));
+        const extent = [Infinity, -Infinity];
+        for (let k = 0; k < grid.values.length; k++) {
+            const value = grid.values[k];
+            if (!isNaN(value)) {
+                extent[0] = Math.min(extent[0], value);
+                extent[1] = Math.max(extent[1], value);
+            }
+        }
+
+        function project(gridPoint: number[]) {
+            return coordSys.dataToPoint([
+                gridToData(grid.xs, gridPoint[0]),
+                gridToData(grid.ys, gridPoint[1])
+            ]);
+        }
+        function projectList(pointsList: number[][][]) {
+            return map(pointsList, function (gridPoints) {
+                return map(gridPoints, project);
+            });
+        }
+
+        const thresholds = getContourThresholds(extent, seriesModel.get('levels'));
+
+        data.setLayout('contour', {
+            extent: extent,
+            levels: map(thresholds, function (threshold) {
+                const level = traceContour(grid, threshold);
+                return {
+                    threshold: threshold,
+                    rings: projectList(level.rings),
+                    lines: projectList(level.lines)
+                };
+            })
+        } as ContourLayout);
+    }
+};
+
+function gridToData(list: ContourGrid['xs'], idx: number): number {
+    const idx0 = Math.min(Math.floor(idx), list.length - 1);
+    const frac = idx - idx0;
+    return frac ? list[idx0] + (list[idx0 + 1] - list[idx0]) * frac : list[idx0];
+}
+
+export default contourLayout;
@@ -0,0 +1,355 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { isArray, map } from 'zrender/src/core/util';
+import { intervalScaleNiceTicks } from '../../scale/helper';
+import { round } from '../../util/number';
+
+/**
+ * Values on a regular grid, where `values[j * xs.length + i]` is on `[xs[i], ys[j]]`.
+ * NaN means no value.
+ */
+export interface ContourGrid {
+    xs: number[]
+    ys: number[]
+    values: number[]
+}
+
+export interface ContourLevel {
+    threshold: number
+    /**
+     * Closed boundaries of the region not less than the threshold,
+     * in fractional grid index. Region is always on the right side of the
+     * boundary, so that holes are in the reversed direction of the outer rings.
+     */
+    rings: number[][][]
+    /**
+     * Isolines, which are rings broken on the edge of the grid.
+     */
+    lines: number[][][]
+}
+
+/**
+ * Use the points directly if they are on a lattice,
+ * otherwise interpolate them onto a `gridSize[0]` x `gridSize[1]` grid
+ * by inverse distance weighting.
+ */
+export function createContourGrid(points: number[][], gridSize: number[]): ContourGrid {
+    const xs = uniqueSorted(map(points, point => point[0]));
+    const ys = uniqueSorted(map(points, point => point[1]));
+    const nx = xs.length;
+    const ny = ys.length;
+
+    if (nx * ny === points.length) {
+        const values: number[] = [];
+        for (let k = 0; k < nx * ny; k++) {
+            values[k] = NaN;
+        }
+        let isLattice = true;
+        for (let k = 0; k < points.length; k++) {
+            const idx = binarySearch(ys, points[k][1]) * nx + binarySearch(xs, points[k][0]);
+            if (!isNaN(values[idx])) {
+                isLattice = false;
+                break;
+            }
+            values[idx] = points[k][2];
+        }
+        if (isLattice) {
+            return {xs: xs, ys: ys, values: values};
+        }
+    }
+
+    return interpolateGrid(points, [xs[0], xs[nx - 1]], [ys[0], ys[ny - 1]], gridSize);
+}
+
+function interpolateGrid(
+    points: number[][],
+    xExtent: number[],
+    yExtent: number[],
+    gridSize: number[]
+): ContourGrid {
+    const nx = Math.max(gridSize[0], 2);
+    const ny = Math.max(gridSize[1], 2);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const values: number[] = [];
+    // Distances are normalized by the extent so that x and y contribute equally.
+    const xSpan = (xExtent[1] - xExtent[0]) || 1;
+    const ySpan = (yExtent[1] - yExtent[0]) || 1;
+
+    for (let i = 0; i < nx; i++) {
+        xs.push(xExtent[0] + (xExtent[1] - xExtent[0]) * i / (nx - 1));
+    }
+    for (let j = 0; j < ny; j++) {
+        ys.push(yExtent[0] + (yExtent[1] - yExtent[0]) * j / (ny - 1));
+    }
+
+    for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+            let weightSum = 0;
+            let valueSum = 0;
+            let exactValue = NaN;
+            for (let k = 0; k < points.length; k++) {
+                const dx = (points[k][0] - xs[i]) / xSpan;
+                const dy = (points[k][1] - ys[j]) / ySpan;
+                const dist2 = dx * dx + dy * dy;
+                if (dist2 === 0) {
+                    exactValue = points[k][2];
+                    break;
+                }
+                const weight = 1 / dist2;
+                weightSum += weight;
+                valueSum += weight * points[k][2];
+            }
+            values.push(isNaN(exactValue) ? valueSum / weightSum : exactValue);
+        }
+    }
+
+    return {xs: xs, ys: ys, values: values};
+}
+
+/**
+ * Get thresholds by the count of nice levels or the specified list.
+ * The minimum is included when the count is specified, so that all the
+ * values are in a band.
+ */
+export function getContourThresholds(extent: number[], levels: number | number[]): number[] {
+    if (isArray(levels)) {
+        return levels.slice().sort((a, b) => a - b);
+    }
+    if (!(extent[1] > extent[0])) {
+        return isFinite(extent[0]) ? [extent[0]] : [];
+    }
+    const result = intervalScaleNiceTicks(extent as [number, number], levels || 10);
+    const thresholds = [];
+    for (
+        let val = result.niceTickExtent[0];
+        val <= extent[1];
+        val = round(val + result.interval, result.intervalPrecision)
+    ) {
+        thresholds.push(val);
+    }
+    if (!thresholds.length || thresholds[0] > extent[0]) {
+        thresholds.unshift(extent[0]);
+    }
+    return thresholds;
+}
+
+/**
+ * Marching squares on the grid padded with empty values, so that all the
+ * boundaries are closed.
+ */
+export function traceContour(grid: ContourGrid, threshold: number): ContourLevel {
+    const values = grid.values;
+    const nx = grid.xs.length;
+    const ny = grid.ys.length;
+    const next: Record<string, number[]> = {};
+    const borderSegments: Record<string, boolean> = {};
+    const starts: number[][] = [];
+
+    function isAbove(i: number, j: number) {
+        return i >= 0 && j >= 0 && i < nx && j < ny && values[j * nx + i] >= threshold;
+    }
+
+    for (let j = -1; j < ny; j++) {
+        for (let i = -1; i < nx; i++) {
+            // Corners and edge centers are in doubled index, clockwise from top left.
+            const corners = [[2 * i, 2 * j], [2 * i + 2, 2 * j], [2 * i + 2, 2 * j + 2], [2 * i, 2 * j + 2]];
+            const above = [isAbove(i, j), isAbove(i + 1, j), isAbove(i + 1, j + 1), isAbove(i, j + 1)];
+            const caseIdx = (+above[0]) | (+above[1] << 1) | (+above[2] << 2) | (+above[3] << 3);
+            const segments = getCaseSegments(caseIdx, isSaddleCenterAbove(i, j));
+            const isBorder = i < 0 || j < 0 || i === nx - 1 || j === ny - 1;
+
+            for (let k = 0; k < segments.length; k++) {
+                let p = getEdgeCenter(corners, segments[k][0]);
+                let q = getEdgeCenter(corners, segments[k][1]);
+                const testCorner = corners[segments[k][2]];
+                // Keep the region on the right side, where y is downward.
+                const cross = (q[0] - p[0]) * (testCorner[1] - p[1]) - (q[1] - p[1]) * (testCorner[0] - p[0]);
+                if ((cross > 0) !== above[segments[k][2]]) {
+                    const tmp = p;
+                    p = q;
+                    q = tmp;
+                }
+                const key = p[0] + ',' + p[1];
+                next[key] = q;
+                starts.push(p);
+                isBorder && (borderSegments[key] = true);
+            }
+        }
+    }
+
+    function isSaddleCenterAbove(i: number, j: number) {
+        if (i < 0 || j < 0 || i >= nx - 1 || j >= ny - 1) {
+            return false;
+        }
+        return (values[j * nx + i] + values[j * nx + i + 1]
+            + values[(j + 1) * nx + i] + values[(j + 1) * nx + i + 1]) / 4 >= threshold;
+    }
+
+    function toGridPoint(point: number[]): number[] {
+        const x = point[0];
+        const y = point[1];
+        if (x % 2) {
+            const j = y / 2;
+            const i0 = (x - 1) / 2;
+            return [interpolate(i0, j * nx + i0, j * nx + i0 + 1, nx), j];
+        }
+        const i = x / 2;
+        const j0 = (y - 1) / 2;
+        return [i, interpolate(j0, j0 * nx + i, (j0 + 1) * nx + i, ny)];
+    }
+
+    function interpolate(idx0: number, valueIdx0: number, valueIdx1: number, count: number) {
+        // Clamp on the edge of the grid.
+        if (idx0 < 0) {
+            return 0;
+        }
+        if (idx0 >= count - 1) {
+            return count - 1;
+        }
+        const v0 = values[valueIdx0];
+        const v1 = values[valueIdx1];
+        const t = (threshold - v0) / (v1 - v0);
+        return idx0 + (isFinite(t) ? Math.min(Math.max(t, 0), 1) : 0.5);
+    }
+
+    const visited: Record<string, boolean> = {};
+    const rings: number[][][] = [];
+    const lines: number[][][] = [];
+
+    for (let k = 0; k < starts.length; k++) {
+        let point = starts[k];
+        let key = point[0] + ',' + point[1];
+        if (visited[key]) {
+            continue;
+        }
+        const ring: number[][] = [];
+        const isBorderList: boolean[] = [];
+        while (point && !visited[key]) {
+            visited[key] = true;
+            ring.push(toGridPoint(point));
+            isBorderList.push(borderSegments[key]);
+            point = next[key];
+            key = point && point[0] + ',' + point[1];
+        }
+        rings.push(ring);
+        splitRing(ring, isBorderList, lines);
+    }
+
+    return {
+        threshold: threshold,
+        rings: rings,
+        lines: lines
+    };
+}
+
+/**
+ * Break the ring on the segments along the edge of the grid.
+ */
+function splitRing(ring: number[][], isBorderList: boolean[], out: number[][][]) {
+    const len = ring.length;
+    let firstBreak = -1;
+    for (let k = 0; k < len; k++) {
+        if (isBorderList[k]) {
+            firstBreak = k;
+            break;
+        }
+    }
+    if (firstBreak < 0) {
+        out.push(ring.concat([ring[0]]));
+        return;
+    }
+    let line: number[][] = [];
+    for (let n = 1; n <= len; n++) {
+        const k = (firstBreak + n) % len;
+        line.push(ring[k]);
+        if (isBorderList[k]) {
+            line.length > 1 && out.push(line);
+            line = [];
+        }
+    }
+}
+
+/**
+ * Segments of each case in [edgeFrom, edgeTo, testCorner].
+ * Edges are top, right, bottom, left as 0 - 3 and
+ * corners are top left, top right, bottom right, bottom left as 0 - 3.
+ */
+function getCaseSegments(caseIdx: number, saddleCenterAbove: boolean): number[][] {
+    switch (caseIdx) {
+        case 1:
+        case 14:
+            return [[0, 3, 0]];
+        case 2:
+        case 13:
+            return [[0, 1, 1]];
+        case 3:
+        case 12:
+            return [[3, 1, 0]];
+        case 4:
+        case 11:
+            return [[1, 2, 2]];
+        case 6:
+        case 9:
+            return [[0, 2, 0]];
+        case 7:
+        case 8:
+            return [[3, 2, 3]];
+        case 5:
+        case 10:
+            // Cut the corners that are different from the center.
+            return (caseIdx === 5) === saddleCenterAbove
+                ? [[0, 1, 1], [2, 3, 3]]
+                : [[0, 3, 0], [1, 2, 2]];
+    }
+    return [];
+}
+
+function getEdgeCenter(corners: number[][], edge: number): number[] {
+    const from = corners[edge];
+    const to = corners[(edge + 1) % 4];
+    return [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+}
+
+function uniqueSorted(list: number[]): number[] {
+    list = list.slice().sort((a, b) => a - b);
+    const result: number[] = [];
+    for (let k = 0; k < list.length; k++) {
+        if (!isNaN(list[k]) && list[k] !== result[result.length - 1]) {
+            result.push(list[k]);
+        }
+    }
+    return result;
+}
+
+function binarySearch(list: number[], val: number): number {
+    let lo = 0;
+    let hi = list.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (list[mid] < val) {
+            lo = mid + 1;
+        }
+        else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
@@ -0,0 +1,235 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import BaseBarSeriesModel, { BaseBarSeriesOption } from '../bar/BaseBarSeries';
+import { BarItemStyleOption, BarSeriesLabelOption } from '../bar/BarSeries';
+import createSeriesDataSimply from '../helper/createSeriesDataSimply';
+import {
+    OptionDataValue,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    SeriesEncodeOptionMixin,
+    DefaultStatesMixinEmphasis,
+    CallbackDataParams,
+    ItemStyleOption,
+    LineStyleOption
+} from '../../util/types';
+import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
+import type CartesianAxisModel from '../../coord/cartesian/AxisModel';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import { inheritDefaultOption } from '../../util/component';
+import { getDimensionTypeByAxis } from '../../data/helper/dimensionHelper';
+import { makeSeriesEncodeForAxisCoordSys } from '../../data/helper/sourceHelper';
+import { CoordDimensionDefinition } from '../../data/helper/createDimensions';
+import { BrushCommonSelectorsForSeries } from '../../component/brush/selector';
+import { curry, indexOf, isNumber } from 'zrender/src/core/util';
+
+/**
+ * How the dependent task is scheduled against the task it depends on.
+ */
+export type GanttDependencyType = 'finish-to-start' | 'start-to-start' | 'finish-to-finish' | 'start-to-finish';
+
+export interface GanttStateOption<TCbParams = never> {
+    itemStyle?: BarItemStyleOption<TCbParams>
+    label?: BarSeriesLabelOption
+}
+
+interface GanttStatesMixin {
+    emphasis?: DefaultStatesMixinEmphasis
+}
+
+export interface GanttDataItemOption extends GanttStateOption,
+    StatesOptionMixin<GanttStateOption, GanttStatesMixin>,
+    OptionDataItemObject<OptionDataValue> {
+    /**
+     * Ratio of the task that is done, from 0 to 1.
+     */
+    progress?: number
+
+    /**
+     * Draw the item as a diamond at the start. Items without end are milestones too.
+     */
+    milestone?: boolean
+
+    draggable?: boolean
+
+    cursor?: string
+}
+
+export interface GanttDependencyOption {
+    /**
+     * id, name or index of the data item.
+     */
+    source: string | number
+    target: string | number
+
+    type?: GanttDependencyType
+
+    lineStyle?: LineStyleOption
+}
+
+export interface GanttSeriesOption
+    extends BaseBarSeriesOption<GanttStateOption<CallbackDataParams>, GanttStatesMixin>,
+    GanttStateOption<CallbackDataParams>,
+    SeriesEncodeOptionMixin {
+
+    type?: 'gantt'
+
+    coordinateSystem?: 'cartesian2d'
+
+    clip?: boolean
+
+    /**
+     * Style of the done part of the task, which is drawn over the bar.
+     */
+    progressStyle?: ItemStyleOption
+
+    /**
+     * Size of the milestone diamond. Bar width is used by default.
+     */
+    milestoneSize?: number
+
+    /**
+     * If enabled, the bars can be dragged along the value axis,
+     * which triggers a `ganttreschedule` event with the new start and end.
+     */
+    draggable?: boolean
+
+    dependencies?: GanttDependencyOption[]
+
+    dependency?: {
+        lineStyle?: LineStyleOption
+        arrowSize?: number
+        /**
+         * Length of the line leaving and entering the bars.
+         */
+        gap?: number
+    }
+
+    data?: (GanttDataItemOption | OptionDataValue[])[]
+}
+
+class GanttSeriesModel extends BaseBarSeriesModel<GanttSeriesOption> {
+    static type = 'series.gantt';
+    type = GanttSeriesModel.type;
+
+    static dependencies = ['grid'];
+
+    coordinateSystem: Cartesian2D;
+
+    getInitialData(option: GanttSeriesOption, ecModel: GlobalModel): SeriesData {
+        const axisModels = [
+            ecModel.getComponent('xAxis', this.get('xAxisIndex')) as CartesianAxisModel,
+            ecModel.getComponent('yAxis', this.get('yAxisIndex')) as CartesianAxisModel
+        ];
+        const axisTypes = [axisModels[0].get('type'), axisModels[1].get('type')];
+        // The same rule as `Cartesian2D['getBaseAxis']`.
+        let baseAxisIndex = indexOf(axisTypes, 'category');
+        if (baseAxisIndex < 0) {
+            baseAxisIndex = Math.max(indexOf(axisTypes, 'time'), 0);
+        }
+        const baseAxisModel = axisModels[baseAxisIndex];
+        const valueAxisModel = axisModels[1 - baseAxisIndex];
+
+        const coordDimensions: CoordDimensionDefinition[] = [{
+            name: baseAxisIndex ? 'y' : 'x',
+            type: getDimensionTypeByAxis(baseAxisModel.get('type')),
+            ordinalMeta: baseAxisModel.get('type') === 'category' ? baseAxisModel.getOrdinalMeta() : null,
+            otherDims: {
+                tooltip: false,
+                itemName: 0
+            },
+            dimsDef: ['base']
+        }, {
+            name: baseAxisIndex ? 'x' : 'y',
+            type: getDimensionTypeByAxis(valueAxisModel.get('type')),
+            dimsDef: ['start', 'end']
+        }];
+
+        return createSeriesDataSimply(this, {
+            coordDimensions: coordDimensions,
+            dimensionsCount: 3,
+            encodeDefaulter: curry(makeSeriesEncodeForAxisCoordSys, coordDimensions, this as any)
+        });
+    }
+
+    /**
+     * Find the data index by id, name or raw index of the data item.
+     * Returns -1 if not found or filtered.
+     */
+    getDataIndexByRef(ref: string | number): number {
+        const data = this.getData();
+        if (isNumber(ref)) {
+            return data.indexOfRawIndex(ref);
+        }
+        const idx = data.indexOfName(ref);
+        if (idx >= 0) {
+            return idx;
+        }
+        for (let i = 0, len = data.count(); i < len; i++) {
+            if (data.getId(i) === ref) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    brushSelector(dataIndex: number, data: SeriesData, selectors: BrushCommonSelectorsForSeries): boolean {
+        return selectors.rect(data.getItemLayout(dataIndex));
+    }
+
+    static defaultOption: GanttSeriesOption = inheritDefaultOption(BaseBarSeriesModel.defaultOption, {
+        clip: true,
+
+        // Tasks of different series in the same row are overlapped.
+        barGap: '-100%',
+        barCategoryGap: '40%',
+
+        label: {
+            position: 'inside'
+        },
+
+        progressStyle: {
+            color: 'rgba(0,0,0,0.25)'
+        },
+
+        draggable: false,
+
+        dependency: {
+            lineStyle: {
+                color: '#666',
+                width: 1
+            },
+            arrowSize: 6,
+            gap: 8
+        },
+
+        // Dependencies are laid out with all the tasks.
+        progressive: 0,
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121'
+            }
+        }
+    });
+}
+
+export default GanttSeriesModel;
@@ -0,0 +1,316 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import ChartView from '../../view/Chart';
+import * as graphic from '../../util/graphic';
+import { setStatesStylesFromModel, toggleHoverEmphasis } from '../../util/states';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { createSymbol } from '../../util/symbol';
+import { createClipPath } from '../helper/createClipPathFromCoordSys';
+import GanttSeriesModel, { GanttDataItemOption } from './GanttSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import Model from '../../model/Model';
+import { GanttDependencyLayout, GanttItemLayout } from './ganttLayout';
+import { BuiltinTextPosition } from 'zrender/src/core/types';
+import { ColorString, LineStyleOption } from '../../util/types';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+
+class GanttView extends ChartView {
+    static type = 'gantt';
+    type = GanttView.type;
+
+    private _data: SeriesData;
+
+    private _dependencyGroup: graphic.Group;
+
+    render(seriesModel: GanttSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const data = seriesModel.getData();
+        const group = this.group;
+        const oldData = this._data;
+
+        if (!this._data) {
+            group.removeAll();
+            this._dependencyGroup = null;
+        }
+
+        data.diff(oldData)
+            .add(function (newIdx) {
+                if (data.getItemLayout(newIdx)) {
+                    const el = new graphic.Group();
+                    updateTask(el, data, newIdx, api, true);
+                    data.setItemGraphicEl(newIdx, el);
+                    group.add(el);
+                }
+            })
+            .update(function (newIdx, oldIdx) {
+                let el = oldData.getItemGraphicEl(oldIdx) as graphic.Group;
+
+                if (!data.getItemLayout(newIdx)) {
+                    group.remove(el);
+                    return;
+                }
+
+                const isInit = !el;
+                if (isInit) {
+                    el = new graphic.Group();
+                }
+                updateTask(el, data, newIdx, api, isInit);
+
+                group.add(el);
+                data.setItemGraphicEl(newIdx, el);
+            })
+            .remove(function (oldIdx) {
+                const el = oldData.getItemGraphicEl(oldIdx);
+                el && group.remove(el);
+            })
+            .execute();
+
+        this._renderDependencies(seriesModel);
+
+        const clipPath = seriesModel.get('clip', true)
+            ? createClipPath(seriesModel.coordinateSystem, false, seriesModel)
+            : null;
+        if (clipPath) {
+            group.setClipPath(clipPath);
+        }
+        else {
+            group.removeClipPath();
+        }
+
+        this._data = data;
+    }
+
+    private _renderDependencies(seriesModel: GanttSeriesModel) {
+        const dependencyModel = seriesModel.getModel('dependency');
+        const lineStyleModel = dependencyModel.getModel('lineStyle');
+        const arrowSize = dependencyModel.get('arrowSize');
+        const dependencyOptions = seriesModel.get('dependencies');
+        let dependencyGroup = this._dependencyGroup;
+
+        if (!dependencyGroup) {
+            dependencyGroup = this._dependencyGroup = new graphic.Group({
+                silent: true
+            });
+            this.group.add(dependencyGroup);
+        }
+        dependencyGroup.removeAll();
+
+        const dependencies = seriesModel.getData().getLayout('dependencies') as GanttDependencyLayout[];
+
+        zrUtil.each(dependencies, function (dependency) {
+            const points = dependency.points;
+            const lineStyle = new Model<LineStyleOption>(
+                dependencyOptions[dependency.index].lineStyle, lineStyleModel
+            ).getLineStyle();
+
+            dependencyGroup.add(new graphic.Polyline({
+                shape: {
+                    points: points
+                },
+                style: lineStyle
+            }));
+
+            if (arrowSize > 0) {
+                const end = points[points.length - 1];
+                const prev = points[points.length - 2];
+                const angle = Math.atan2(end[1] - prev[1], end[0] - prev[0]);
+                // Tip of the arrow is on the end point.
+                const arrow = createSymbol(
+                    'arrow', -arrowSize / 2, -arrowSize / 2, arrowSize, arrowSize, lineStyle.stroke
+                );
+                arrow.attr({
+                    x: end[0] - Math.cos(angle) * arrowSize / 2,
+                    y: end[1] - Math.sin(angle) * arrowSize / 2,
+                    rotation: -Math.PI / 2 - angle
+                });
+                dependencyGroup.add(arrow);
+            }
+        });
+    }
+
+    remove(ecModel: GlobalModel) {
+        this.group.removeAll();
+        this._data = null;
+        this._dependencyGroup = null;
+    }
+}
+
+function updateTask(
+    el: graphic.Group,
+    data: SeriesData,
+    dataIndex: number,
+    api: ExtensionAPI,
+    isInit: boolean
+) {
+    const seriesModel = data.hostModel as GanttSeriesModel;
+    const itemModel = data.getItemModel<GanttDataItemOption>(dataIndex);
+    const layout = data.getItemLayout(dataIndex) as GanttItemLayout;
+    const style = data.getItemVisual(dataIndex, 'style');
+    const isValueAxisH = !seriesModel.coordinateSystem.getBaseAxis().isHorizontal();
+
+    // Reset the offset made by dragging.
+    el.x = el.y = 0;
+
+    let body = el.childOfName('body') as graphic.Path;
+    if (body && (layout.milestone || !(body instanceof graphic.Rect))) {
+        el.remove(body);
+        body = null;
+    }
+    const bodyShape = layout.milestone ? null : {
+        x: layout.x,
+        y: layout.y,
+        width: layout.width,
+        height: layout.height,
+        r: itemModel.get(['itemStyle', 'borderRadius']) || 0
+    };
+
+    if (layout.milestone) {
+        body = createSymbol('diamond', layout.x, layout.y, layout.width, layout.height);
+        body.name = 'body';
+        el.add(body);
+    }
+    else if (!body) {
+        // Bar grows from the start.
+        body = new graphic.Rect({
+            name: 'body',
+            shape: zrUtil.extend({}, bodyShape)
+        });
+        (body as graphic.Rect).shape[isValueAxisH ? 'width' : 'height'] = 0;
+        el.add(body);
+        graphic.initProps(body, {shape: bodyShape}, seriesModel, dataIndex);
+    }
+    else {
+        graphic.updateProps(body, {shape: bodyShape}, seriesModel, dataIndex);
+    }
+
+    body.useStyle(style);
+
+    const draggable = itemModel.get('draggable');
+    body.attr('cursor', itemModel.getShallow('cursor') || (draggable ? 'move' : 'pointer'));
+
+    updateProgress(el, itemModel, layout, isValueAxisH, isInit);
+
+    setLabelStyle(
+        body, getLabelStatesModels(itemModel),
+        {
+            labelFetcher: seriesModel,
+            labelDataIndex: dataIndex,
+            defaultText: data.getName(dataIndex),
+            inheritColor: style.fill as ColorString,
+            defaultOpacity: style.opacity,
+            defaultOutsidePosition: (isValueAxisH ? 'right' : 'top') as BuiltinTextPosition
+        }
+    );
+
+    const emphasisModel = itemModel.getModel('emphasis');
+    setStatesStylesFromModel(body, itemModel);
+    toggleHoverEmphasis(el, emphasisModel.get('focus'), emphasisModel.get('blurScope'), emphasisModel.get('disabled'));
+
+    updateDragging(el, data, dataIndex, api, draggable, isValueAxisH);
+}
+
+function updateProgress(
+    el: graphic.Group,
+    itemModel: Model<GanttDataItemOption>,
+    layout: GanttItemLayout,
+    isValueAxisH: boolean,
+    isInit: boolean
+) {
+    const progress = itemModel.get('progress');
+    let progressRect = el.childOfName('progress') as graphic.Rect;
+
+    if (layout.milestone || !(progress > 0)) {
+        progressRect && el.remove(progressRect);
+        return;
+    }
+
+    const lengthKey = isValueAxisH ? 'width' : 'height';
+    const shape: RectLike = zrUtil.extend({}, layout);
+    shape[lengthKey] *= Math.min(progress, 1);
+
+    if (!progressRect) {
+        progressRect = new graphic.Rect({
+            name: 'progress',
+            silent: true,
+            z2: 1,
+            shape: zrUtil.extend({}, shape)
+        });
+        progressRect.shape[lengthKey] = 0;
+        el.add(progressRect);
+    }
+    graphic[isInit ? 'initProps' : 'updateProps'](progressRect, {shape: shape}, itemModel.parentModel);
+
+    progressRect.useStyle(
+        (itemModel.parentModel as GanttSeriesModel).getModel('progressStyle').getItemStyle()
+    );
+    progressRect.setShape('r', itemModel.get(['itemStyle', 'borderRadius']) || 0);
+}
+
+function updateDragging(
+    el: graphic.Group,
+    data: SeriesData,
+    dataIndex: number,
+    api: ExtensionAPI,
+    draggable: boolean,
+    isValueAxisH: boolean
+) {
+    const seriesModel = data.hostModel as GanttSeriesModel;
+
+    el.draggable = draggable;
+    if (!draggable) {
+        el.drift = el.ondragend = null;
+        return;
+    }
+
+    el.drift = function (this: typeof el, dx, dy) {
+        // Only move along the value axis to reschedule.
+        if (isValueAxisH) {
+            this.x += dx;
+        }
+        else {
+            this.y += dy;
+        }
+        this.markRedraw();
+    };
+    el.ondragend = function (this: typeof el) {
+        const coordSys = seriesModel.coordinateSystem;
+        const valueAxis = coordSys.getOtherAxis(coordSys.getBaseAxis());
+        const valueDims = data.mapDimensionsAll(valueAxis.dim);
+        const start = data.get(valueDims[0], dataIndex) as number;
+        const end = data.get(valueDims[1], dataIndex) as number;
+        const point = coordSys.dataToPoint(isValueAxisH ? [start, 0] : [0, start]);
+        point[0] += this.x;
+        point[1] += this.y;
+        const delta = valueAxis.pointToData(point) - start;
+
+        api.dispatchAction({
+            type: 'ganttReschedule',
+            seriesId: seriesModel.id,
+            dataIndex: data.getRawIndex(dataIndex),
+            name: data.getName(dataIndex),
+            start: start + delta,
+            end: isNaN(end) ? end : end + delta
+        });
+    };
+}
+
+export default GanttView;
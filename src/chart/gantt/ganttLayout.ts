@@ -0,0 +1,191 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import createRenderPlanner from '../helper/createRenderPlanner';
+import { StageHandler } from '../../util/types';
+import GanttSeriesModel, { GanttDataItemOption, GanttDependencyType } from './GanttSeries';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import { each } from 'zrender/src/core/util';
+
+/**
+ * The rect is from the start side to the end side of the task along the value axis,
+ * so that the width or height may be negative on inversed axis.
+ */
+export interface GanttItemLayout extends RectLike {
+    milestone: boolean
+}
+
+export interface GanttDependencyLayout {
+    /**
+     * Index in `series.dependencies`.
+     */
+    index: number
+    points: number[][]
+}
+
+const ganttLayout: StageHandler = {
+
+    seriesType: 'gantt',
+
+    plan: createRenderPlanner(),
+
+    reset: function (seriesModel: GanttSeriesModel) {
+        const coordSys = seriesModel.coordinateSystem;
+        if (!coordSys || coordSys.type !== 'cartesian2d') {
+            return;
+        }
+
+        const data = seriesModel.getData();
+        const baseAxis = coordSys.getBaseAxis();
+        const valueAxis = coordSys.getOtherAxis(baseAxis);
+        const isValueAxisH = valueAxis.isHorizontal();
+        const baseDim = data.mapDimension(baseAxis.dim);
+        const valueDims = data.mapDimensionsAll(valueAxis.dim);
+        const valueExtent = valueAxis.getExtent();
+        // Direction of time on screen.
+        const valueSign = valueExtent[1] >= valueExtent[0] ? 1 : -1;
+        // Bar width and offset are set in the layout of bar grid.
+        const columnWidth = data.getLayout('size');
+        const columnOffset = data.getLayout('offset');
+        const milestoneSize = seriesModel.get('milestoneSize') || columnWidth;
+
+        function dataToPoint(baseValue: number, value: number) {
+            return coordSys.dataToPoint(isValueAxisH ? [value, baseValue] : [baseValue, value]);
+        }
+
+        data.each(function (dataIndex) {
+            const baseValue = data.get(baseDim, dataIndex) as number;
+            const start = data.get(valueDims[0], dataIndex) as number;
+            const end = data.get(valueDims[1], dataIndex) as number;
+
+            if (isNaN(baseValue) || isNaN(start)) {
+                data.setItemLayout(dataIndex, null);
+                return;
+            }
+
+            const milestone = isNaN(end)
+                || !!data.getItemModel<GanttDataItemOption>(dataIndex).get('milestone');
+            const startPoint = dataToPoint(baseValue, start);
+            const vIdx = isValueAxisH ? 0 : 1;
+            let startCoord = startPoint[vIdx];
+            let length;
+            let bandStart = startPoint[1 - vIdx] + columnOffset;
+            let bandSize = columnWidth;
+
+            if (milestone) {
+                // A square centered on the start, which is drawn as a diamond.
+                startCoord -= valueSign * milestoneSize / 2;
+                length = valueSign * milestoneSize;
+                bandStart += (columnWidth - milestoneSize) / 2;
+                bandSize = milestoneSize;
+            }
+            else {
+                length = dataToPoint(baseValue, end)[vIdx] - startCoord;
+            }
+
+            data.setItemLayout(dataIndex, {
+                x: isValueAxisH ? startCoord : bandStart,
+                y: isValueAxisH ? bandStart : startCoord,
+                width: isValueAxisH ? length : bandSize,
+                height: isValueAxisH ? bandSize : length,
+                milestone: milestone
+            } as GanttItemLayout);
+        });
+
+        const dependencyModel = seriesModel.getModel('dependency');
+        const gap = dependencyModel.get('gap') || 0;
+        const dependencies: GanttDependencyLayout[] = [];
+
+        each(seriesModel.get('dependencies'), function (dependency, index) {
+            const sourceIdx = seriesModel.getDataIndexByRef(dependency.source);
+            const targetIdx = seriesModel.getDataIndexByRef(dependency.target);
+            const sourceLayout = sourceIdx >= 0 && data.getItemLayout(sourceIdx) as GanttItemLayout;
+            const targetLayout = targetIdx >= 0 && data.getItemLayout(targetIdx) as GanttItemLayout;
+            if (!sourceLayout || !targetLayout) {
+                return;
+            }
+            const points = routeDependency(
+                sourceLayout, targetLayout, dependency.type || 'finish-to-start',
+                isValueAxisH, valueSign, gap
+            );
+            dependencies.push({
+                index: index,
+                points: points
+            });
+        });
+
+        data.setLayout('dependencies', dependencies);
+    }
+};
+
+/**
+ * Route an orthogonal polyline from the side of the source task
+ * to the side of the target task.
+ */
+function routeDependency(
+    sourceLayout: GanttItemLayout,
+    targetLayout: GanttItemLayout,
+    type: GanttDependencyType,
+    isValueAxisH: boolean,
+    valueSign: number,
+    gap: number
+): number[][] {
+    const fromFinish = type === 'finish-to-start' || type === 'finish-to-finish';
+    const toStart = type === 'finish-to-start' || type === 'start-to-start';
+    // Calculate in [valueCoord, baseCoord] and transform at last.
+    const from = getAnchor(sourceLayout, fromFinish, isValueAxisH);
+    const to = getAnchor(targetLayout, !toStart, isValueAxisH);
+    const outSign = fromFinish ? valueSign : -valueSign;
+    const inSign = toStart ? valueSign : -valueSign;
+    const out = from[0] + outSign * gap;
+    const enter = to[0] - inSign * gap;
+    let points: number[][];
+
+    if (outSign !== inSign) {
+        // Turn on the outer one of the two.
+        const turn = outSign * (out - enter) >= 0 ? out : enter;
+        points = [from, [turn, from[1]], [turn, to[1]], to];
+    }
+    else if (outSign * (enter - out) >= 0) {
+        points = [from, [out, from[1]], [out, to[1]], to];
+    }
+    else {
+        // Go back in the middle of two rows.
+        let middle = (from[1] + to[1]) / 2;
+        if (from[1] === to[1]) {
+            middle += Math.abs(isValueAxisH ? sourceLayout.height : sourceLayout.width);
+        }
+        points = [from, [out, from[1]], [out, middle], [enter, middle], [enter, to[1]], to];
+    }
+
+    if (!isValueAxisH) {
+        each(points, function (point, idx) {
+            points[idx] = [point[1], point[0]];
+        });
+    }
+    return points;
+}
+
+function getAnchor(layout: GanttItemLayout, isEnd: boolean, isValueAxisH: boolean): number[] {
+    return isValueAxisH
+        ? [layout.x + (isEnd ? layout.width : 0), layout.y + layout.height / 2]
+        : [layout.y + (isEnd ? layout.height : 0), layout.x + layout.width / 2];
+}
+
+export default ganttLayout;
@@ -105,6 +105,12 @@ export interface GraphNodeItemOption extends SymbolOptionMixin, GraphNodeStateOp
      */
     category?: number | string
 
+    /**
+     * Id or name of the parent node in the hierarchy used by edge bundling.
+     * Nodes without parent are grouped by their category.
+     */
+    parent?: string
+
     draggable?: boolean
     cursor?: string
 }
@@ -210,6 +216,14 @@ export interface GraphSeriesOption
         rotateLabel?: boolean
     }
 
+    // Route edges along the node hierarchy, which only works
+    // in 'none' and 'circular' layout.
+    edgeBundling?: {
+        show?: boolean
+        // Straightness of the bundled edges in [0, 1]. 0 makes straight lines.
+        tension?: number
+    }
+
     // Configuration of force directed layout
     force?: {
         initLayout?: 'circular' | 'none'
@@ -431,6 +445,10 @@ class GraphSeriesModel extends SeriesModel<GraphSeriesOption> {
         circular: {
             rotateLabel: false
         },
+        edgeBundling: {
+            show: false,
+            tension: 0.85
+        },
         // Configuration of force directed layout
         force: {
             initLayout: null,
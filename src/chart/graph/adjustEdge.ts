@@ -113,13 +113,36 @@ export default function adjustEdge(graph: Graph, scale: number) {
                 vec2.clone(linePoints[0]),
                 vec2.clone(linePoints[1])
             ];
-            if (linePoints[2]) {
-                linePoints.__original.push(vec2.clone(linePoints[2]));
+            for (let i = 2; i < linePoints.length; i++) {
+                linePoints.__original.push(vec2.clone(linePoints[i]));
             }
         }
         const originalPoints = linePoints.__original;
+        // B-spline of bundled edge, whose ends are moved along
+        // the direction to the adjacent control points.
+        if (linePoints.length > 3) {
+            vec2.copy(pts2[0], originalPoints[0]);
+            vec2.copy(pts2[1], originalPoints[1]);
+
+            if (fromSymbol && fromSymbol !== 'none') {
+                const symbolSize = getSymbolSize(edge.node1);
+
+                vec2.sub(v, originalPoints[2], pts2[0]);
+                vec2.normalize(v, v);
+                vec2.scaleAndAdd(pts2[0], pts2[0], v, symbolSize * scale);
+            }
+            if (toSymbol && toSymbol !== 'none') {
+                const symbolSize = getSymbolSize(edge.node2);
+
+                vec2.sub(v, pts2[1], originalPoints[originalPoints.length - 1]);
+                vec2.normalize(v, v);
+                vec2.scaleAndAdd(pts2[1], pts2[1], v, -symbolSize * scale);
+            }
+            vec2.copy(linePoints[0], pts2[0]);
+            vec2.copy(linePoints[1], pts2[1]);
+        }
         // Quadratic curve
-        if (linePoints[2] != null) {
+        else if (linePoints[2] != null) {
             vec2.copy(pts[0], originalPoints[0]);
             vec2.copy(pts[1], originalPoints[2]);
             vec2.copy(pts[2], originalPoints[1]);
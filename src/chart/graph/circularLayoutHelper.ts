@@ -21,10 +21,16 @@
 import * as vec2 from 'zrender/src/core/vector';
 import {getSymbolSize, getNodeGlobalScale} from './graphHelper';
 import GraphSeriesModel, { GraphEdgeItemOption } from './GraphSeries';
-import Graph from '../../data/Graph';
-import SeriesData from '../../data/SeriesData';
+import { GraphNode } from '../../data/Graph';
 import * as zrUtil from 'zrender/src/core/util';
 import {getCurvenessForEdge} from '../helper/multipleGraphEdgeHelper';
+import {
+    isEdgeBundlingEnabled,
+    buildEdgeBundlingHierarchy,
+    getHierarchyLeaves,
+    layoutHierarchyRadial,
+    bundleEdges
+} from './edgeBundling';
 
 const PI = Math.PI;
 
@@ -77,7 +83,22 @@ export function circularLayout(
         return;
     }
 
-    _layoutNodesBasedOn[basedOn](seriesModel, graph, nodeData, r, cx, cy, count);
+    if (isEdgeBundlingEnabled(seriesModel)) {
+        // Leaves are placed on the circle with siblings adjacent,
+        // and the others are placed inside as a radial tree.
+        const hierarchy = buildEdgeBundlingHierarchy(seriesModel);
+        const leaves = getHierarchyLeaves(hierarchy);
+        _layoutNodesBasedOn[basedOn](seriesModel, leaves, r, cx, cy, leaves.length);
+        layoutHierarchyRadial(hierarchy, cx, cy, r);
+        bundleEdges(graph, hierarchy, seriesModel.get(['edgeBundling', 'tension']));
+        return;
+    }
+
+    const nodes: GraphNode[] = [];
+    graph.eachNode(function (node) {
+        nodes.push(node);
+    });
+    _layoutNodesBasedOn[basedOn](seriesModel, nodes, r, cx, cy, count);
 
     graph.eachEdge(function (edge, index) {
         let curveness = zrUtil.retrieve3(
@@ -104,8 +125,7 @@ export function circularLayout(
 interface LayoutNode {
     (
         seriesModel: GraphSeriesModel,
-        graph: Graph,
-        nodeData: SeriesData,
+        nodes: GraphNode[],
         r: number,
         cx: number,
         cy: number,
@@ -115,12 +135,16 @@ interface LayoutNode {
 
 const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
 
-    value(seriesModel, graph, nodeData, r, cx, cy, count) {
+    value(seriesModel, nodes, r, cx, cy, count) {
         let angle = 0;
-        const sum = nodeData.getSum('value');
+        let sum = 0;
+        zrUtil.each(nodes, function (node) {
+            const value = node.getValue('value') as number;
+            isNaN(value) || (sum += value);
+        });
         const unitAngle = Math.PI * 2 / (sum || count);
 
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             const value = node.getValue('value') as number;
             const radianHalf = unitAngle * (sum ? value : 1) / 2;
 
@@ -133,13 +157,13 @@ const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
         });
     },
 
-    symbolSize(seriesModel, graph, nodeData, r, cx, cy, count) {
+    symbolSize(seriesModel, nodes, r, cx, cy, count) {
         let sumRadian = 0;
         _symbolRadiansHalf.length = count;
 
         const nodeScale = getNodeGlobalScale(seriesModel);
 
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             let symbolSize = getSymbolSize(node);
 
             // Normally this case will not happen, but we still add
@@ -159,7 +183,7 @@ const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
         const halfRemainRadian = (2 * PI - sumRadian) / count / 2;
 
         let angle = 0;
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             const radianHalf = halfRemainRadian + _symbolRadiansHalf[node.dataIndex];
 
             angle += radianHalf;
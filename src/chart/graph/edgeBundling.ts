@@ -0,0 +1,264 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as vec2 from 'zrender/src/core/vector';
+import { each } from 'zrender/src/core/util';
+import GraphSeriesModel, { GraphNodeItemOption } from './GraphSeries';
+import Graph, { GraphNode } from '../../data/Graph';
+import { Dictionary } from '../../util/types';
+
+export interface EdgeBundlingHierarchyNode {
+    // Null for the root and the category groups.
+    node: GraphNode
+    parentNode: EdgeBundlingHierarchyNode
+    children: EdgeBundlingHierarchyNode[]
+    depth: number
+    point: number[]
+}
+
+export interface EdgeBundlingHierarchy {
+    root: EdgeBundlingHierarchyNode
+    // Indexed by the data index of graph node.
+    nodes: EdgeBundlingHierarchyNode[]
+}
+
+function createHierarchyNode(node: GraphNode): EdgeBundlingHierarchyNode {
+    return {
+        node: node,
+        parentNode: null,
+        children: [],
+        depth: 0,
+        point: null
+    };
+}
+
+export function isEdgeBundlingEnabled(seriesModel: GraphSeriesModel) {
+    return !!seriesModel.get(['edgeBundling', 'show']);
+}
+
+/**
+ * Build the hierarchy that edges are bundled along. The parent of a node is
+ * specified by `parent`, or else the virtual group of its category.
+ * Category groups and nodes without category are children of a virtual root.
+ */
+export function buildEdgeBundlingHierarchy(seriesModel: GraphSeriesModel): EdgeBundlingHierarchy {
+    const graph = seriesModel.getGraph();
+    const categoriesData = seriesModel.getCategoriesData();
+    const root = createHierarchyNode(null);
+    const nodes: EdgeBundlingHierarchyNode[] = [];
+    const categoryGroups: Dictionary<EdgeBundlingHierarchyNode> = {};
+
+    graph.eachNode(function (node) {
+        nodes[node.dataIndex] = createHierarchyNode(node);
+    });
+
+    graph.eachNode(function (node) {
+        const hierarchyNode = nodes[node.dataIndex];
+        const model = node.getModel<GraphNodeItemOption>();
+        const parentId = model.getShallow('parent');
+        const parentGraphNode = parentId != null ? graph.getNodeById(parentId + '') : null;
+        let parentNode = parentGraphNode && parentGraphNode.dataIndex >= 0
+            ? nodes[parentGraphNode.dataIndex] : null;
+
+        // Ignore the parent which makes a cycle.
+        let ancestor = parentNode;
+        while (ancestor) {
+            if (ancestor === hierarchyNode) {
+                parentNode = null;
+                break;
+            }
+            ancestor = ancestor.parentNode;
+        }
+
+        if (!parentNode) {
+            let category = model.getShallow('category');
+            if (category != null) {
+                if (typeof category === 'number') {
+                    category = categoriesData.getName(category);
+                }
+                // Add prefix to avoid conflict with Object.prototype.
+                const key = 'ec-' + category;
+                parentNode = categoryGroups[key];
+                if (!parentNode) {
+                    parentNode = categoryGroups[key] = createHierarchyNode(null);
+                    parentNode.parentNode = root;
+                    root.children.push(parentNode);
+                }
+            }
+            else {
+                parentNode = root;
+            }
+        }
+
+        hierarchyNode.parentNode = parentNode;
+        parentNode.children.push(hierarchyNode);
+    });
+
+    (function updateDepth(hierarchyNode: EdgeBundlingHierarchyNode, depth: number) {
+        hierarchyNode.depth = depth;
+        each(hierarchyNode.children, function (child) {
+            updateDepth(child, depth + 1);
+        });
+    })(root, 0);
+
+    return {
+        root: root,
+        nodes: nodes
+    };
+}
+
+/**
+ * Graph nodes without children in depth first order, in which siblings are adjacent.
+ */
+export function getHierarchyLeaves(hierarchy: EdgeBundlingHierarchy): GraphNode[] {
+    const leaves: GraphNode[] = [];
+    (function eachLeaf(hierarchyNode: EdgeBundlingHierarchyNode) {
+        if (!hierarchyNode.children.length) {
+            hierarchyNode.node && leaves.push(hierarchyNode.node);
+        }
+        each(hierarchyNode.children, eachLeaf);
+    })(hierarchy.root);
+    return leaves;
+}
+
+/**
+ * Layout the internal nodes of hierarchy as a radial tree, in which the leaves
+ * have been laid out on the circle. The graph nodes which have children
+ * are also laid out.
+ */
+export function layoutHierarchyRadial(
+    hierarchy: EdgeBundlingHierarchy,
+    cx: number,
+    cy: number,
+    r: number
+) {
+    let maxDepth = 0;
+    each(hierarchy.nodes, function (hierarchyNode) {
+        if (hierarchyNode && !hierarchyNode.children.length) {
+            maxDepth = Math.max(maxDepth, hierarchyNode.depth);
+        }
+    });
+
+    // Returns the angle extent of leaves.
+    function layout(hierarchyNode: EdgeBundlingHierarchyNode): number[] {
+        const children = hierarchyNode.children;
+        if (!children.length) {
+            const layout = hierarchyNode.node ? hierarchyNode.node.getLayout() : [cx, cy];
+            hierarchyNode.point = vec2.clone(layout);
+            let angle = Math.atan2(layout[1] - cy, layout[0] - cx);
+            angle < 0 && (angle += Math.PI * 2);
+            return [angle, angle];
+        }
+        const extent = [Infinity, -Infinity];
+        each(children, function (child) {
+            const childExtent = layout(child);
+            extent[0] = Math.min(extent[0], childExtent[0]);
+            extent[1] = Math.max(extent[1], childExtent[1]);
+        });
+        const angle = (extent[0] + extent[1]) / 2;
+        const radius = maxDepth ? r * hierarchyNode.depth / maxDepth : 0;
+        hierarchyNode.point = [
+            radius * Math.cos(angle) + cx,
+            radius * Math.sin(angle) + cy
+        ];
+        hierarchyNode.node && hierarchyNode.node.setLayout(vec2.clone(hierarchyNode.point));
+        return extent;
+    }
+
+    layout(hierarchy.root);
+}
+
+/**
+ * Place the virtual nodes of hierarchy at the center of their children,
+ * while the graph nodes keep their own layout.
+ */
+export function layoutHierarchyCentroid(hierarchy: EdgeBundlingHierarchy) {
+    (function layout(hierarchyNode: EdgeBundlingHierarchyNode) {
+        const children = hierarchyNode.children;
+        const center = [0, 0];
+        let count = 0;
+        each(children, function (child) {
+            layout(child);
+            if (!isNaN(child.point[0]) && !isNaN(child.point[1])) {
+                vec2.add(center, center, child.point);
+                count++;
+            }
+        });
+        hierarchyNode.point = hierarchyNode.node
+            ? vec2.clone(hierarchyNode.node.getLayout())
+            : count ? vec2.scale(center, center, 1 / count) : [NaN, NaN];
+    })(hierarchy.root);
+}
+
+function getHierarchyPath(
+    from: EdgeBundlingHierarchyNode,
+    to: EdgeBundlingHierarchyNode
+): EdgeBundlingHierarchyNode[] {
+    const start: EdgeBundlingHierarchyNode[] = [];
+    const end: EdgeBundlingHierarchyNode[] = [];
+    while (from.depth > to.depth) {
+        start.push(from);
+        from = from.parentNode;
+    }
+    while (to.depth > from.depth) {
+        end.push(to);
+        to = to.parentNode;
+    }
+    while (from !== to) {
+        start.push(from);
+        end.push(to);
+        from = from.parentNode;
+        to = to.parentNode;
+    }
+    // Common ancestor
+    start.push(from);
+    return start.concat(end.reverse());
+}
+
+/**
+ * Route each edge along the path between its nodes in the hierarchy.
+ * The edge layout is `[p1, p2, cp1, cp2, ...]`, and the control points are
+ * pulled toward the straight line between `p1` and `p2` by `1 - tension`.
+ */
+export function bundleEdges(graph: Graph, hierarchy: EdgeBundlingHierarchy, tension: number) {
+    tension = Math.min(Math.max(tension == null ? 0.85 : +tension, 0), 1);
+
+    graph.eachEdge(function (edge) {
+        const p1 = vec2.clone(edge.node1.getLayout());
+        const p2 = vec2.clone(edge.node2.getLayout());
+        const points = [p1, p2];
+
+        const path = getHierarchyPath(
+            hierarchy.nodes[edge.node1.dataIndex],
+            hierarchy.nodes[edge.node2.dataIndex]
+        );
+        const n = path.length - 1;
+        for (let i = 1; i < n; i++) {
+            const point = path[i].point;
+            if (isNaN(point[0]) || isNaN(point[1])) {
+                continue;
+            }
+            points.push([
+                tension * point[0] + (1 - tension) * (p1[0] + (p2[0] - p1[0]) * i / n),
+                tension * point[1] + (1 - tension) * (p1[1] + (p2[1] - p1[1]) * i / n)
+            ]);
+        }
+        edge.setLayout(points);
+    });
+}
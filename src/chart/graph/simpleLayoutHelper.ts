@@ -22,6 +22,12 @@ import GraphSeriesModel, { GraphNodeItemOption, GraphEdgeItemOption } from './Gr
 import Graph from '../../data/Graph';
 import * as zrUtil from 'zrender/src/core/util';
 import {getCurvenessForEdge} from '../helper/multipleGraphEdgeHelper';
+import {
+    isEdgeBundlingEnabled,
+    buildEdgeBundlingHierarchy,
+    layoutHierarchyCentroid,
+    bundleEdges
+} from './edgeBundling';
 
 
 export function simpleLayout(seriesModel: GraphSeriesModel) {
@@ -40,6 +46,12 @@ export function simpleLayout(seriesModel: GraphSeriesModel) {
 }
 
 export function simpleLayoutEdge(graph: Graph, seriesModel: GraphSeriesModel) {
+    if (isEdgeBundlingEnabled(seriesModel)) {
+        const hierarchy = buildEdgeBundlingHierarchy(seriesModel);
+        layoutHierarchyCentroid(hierarchy);
+        bundleEdges(graph, hierarchy, seriesModel.get(['edgeBundling', 'tension']));
+        return;
+    }
     graph.eachEdge(function (edge, index) {
         const curveness = zrUtil.retrieve3(
             edge.getModel<GraphEdgeItemOption>().get(['lineStyle', 'curveness']),
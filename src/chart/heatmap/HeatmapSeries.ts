@@ -30,6 +30,8 @@ import {
     StatesOptionMixin,
     SeriesEncodeOptionMixin,
     SeriesOnCalendarOptionMixin,
+    SeriesOnPolarOptionMixin,
+    SeriesOnSingleOptionMixin,
     DefaultStatesMixinEmphasis,
     CallbackDataParams
 } from '../../util/types';
@@ -38,11 +40,13 @@ import SeriesData from '../../data/SeriesData';
 import type Geo from '../../coord/geo/Geo';
 import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
 import type Calendar from '../../coord/calendar/Calendar';
+import type Polar from '../../coord/polar/Polar';
+import type Single from '../../coord/single/Single';
 
 type HeatmapDataValue = OptionDataValue[];
 
 export interface HeatmapStateOption<TCbParams = never> {
-    // Available on cartesian2d coordinate system
+    // Available on cartesian2d, polar and singleAxis coordinate system
     itemStyle?: ItemStyleOption<TCbParams> & {
         borderRadius?: number | number[]
     }
@@ -63,11 +67,13 @@ export interface HeatmapSeriesOption
     SeriesOnCartesianOptionMixin,
     SeriesOnGeoOptionMixin,
     SeriesOnCalendarOptionMixin,
+    SeriesOnPolarOptionMixin,
+    SeriesOnSingleOptionMixin,
     SeriesEncodeOptionMixin {
 
     type?: 'heatmap'
 
-    coordinateSystem?: 'cartesian2d' | 'geo' | 'calendar'
+    coordinateSystem?: 'cartesian2d' | 'geo' | 'calendar' | 'polar' | 'singleAxis'
 
     // Available on geo coordinate system
     blurSize?: number
@@ -84,9 +90,9 @@ class HeatmapSeriesModel extends SeriesModel<HeatmapSeriesOption> {
     static readonly type = 'series.heatmap';
     readonly type = HeatmapSeriesModel.type;
 
-    static readonly dependencies = ['grid', 'geo', 'calendar'];
+    static readonly dependencies = ['grid', 'geo', 'calendar', 'polar', 'singleAxis'];
     // @ts-ignore
-    coordinateSystem: Cartesian2D | Geo | Calendar;
+    coordinateSystem: Cartesian2D | Geo | Calendar | Polar | Single;
 
     getInitialData(option: HeatmapSeriesOption, ecModel: GlobalModel): SeriesData {
         return createSeriesData(null, this, {
@@ -116,6 +122,12 @@ class HeatmapSeriesModel extends SeriesModel<HeatmapSeriesOption> {
         // Geo coordinate system
         geoIndex: 0,
 
+        // Polar coordinate system
+        // polarIndex: 0,
+
+        // Single axis coordinate system
+        // singleAxisIndex: 0,
+
         blurSize: 30,
 
         pointSize: 20,
@@ -32,9 +32,13 @@ import { CoordinateSystem, isCoordinateSystemType } from '../../coord/Coordinate
 import { StageHandlerProgressParams, Dictionary, OptionDataValue } from '../../util/types';
 import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
 import type Calendar from '../../coord/calendar/Calendar';
+import type Polar from '../../coord/polar/Polar';
+import type Single from '../../coord/single/Single';
 import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
 import Element from 'zrender/src/Element';
 
+const RADIAN = Math.PI / 180;
+
 // Coord can be 'geo' 'bmap' 'amap' 'leaflet'...
 interface GeoLikeCoordSys extends CoordinateSystem {
     dimensions: ['lng', 'lat']
@@ -129,8 +133,10 @@ class HeatmapView extends ChartView {
         this.group.removeAll();
 
         const coordSys = seriesModel.coordinateSystem;
-        if (coordSys.type === 'cartesian2d' || coordSys.type === 'calendar') {
-            this._renderOnCartesianAndCalendar(seriesModel, api, 0, seriesModel.getData().count());
+        if (coordSys.type === 'cartesian2d' || coordSys.type === 'calendar'
+            || coordSys.type === 'polar' || coordSys.type === 'single'
+        ) {
+            this._renderCells(seriesModel, api, 0, seriesModel.getData().count());
         }
         else if (isGeoCoordSys(coordSys)) {
             this._renderOnGeo(
@@ -157,7 +163,7 @@ class HeatmapView extends ChartView {
             }
             else {
                 this._progressiveEls = [];
-                this._renderOnCartesianAndCalendar(seriesModel, api, params.start, params.end, true);
+                this._renderCells(seriesModel, api, params.start, params.end, true);
             }
         }
     }
@@ -166,7 +172,7 @@ class HeatmapView extends ChartView {
         graphic.traverseElements(this._progressiveEls || this.group, cb);
     }
 
-    _renderOnCartesianAndCalendar(
+    _renderCells(
         seriesModel: HeatmapSeriesModel,
         api: ExtensionAPI,
         start: number,
@@ -174,8 +180,10 @@ class HeatmapView extends ChartView {
         incremental?: boolean
     ) {
 
-        const coordSys = seriesModel.coordinateSystem as Cartesian2D | Calendar;
+        const coordSys = seriesModel.coordinateSystem as Cartesian2D | Calendar | Polar | Single;
         const isCartesian2d = isCoordinateSystemType<Cartesian2D>(coordSys, 'cartesian2d');
+        const isPolar = isCoordinateSystemType<Polar>(coordSys, 'polar');
+        const isSingle = isCoordinateSystemType<Single>(coordSys, 'single');
         let width;
         let height;
         let xAxisExtent;
@@ -200,6 +208,37 @@ class HeatmapView extends ChartView {
             xAxisExtent = xAxis.scale.getExtent();
             yAxisExtent = yAxis.scale.getExtent();
         }
+        else if (isPolar) {
+            const radiusAxis = coordSys.getRadiusAxis();
+            const angleAxis = coordSys.getAngleAxis();
+
+            if (__DEV__) {
+                if (!(radiusAxis.type === 'category' && angleAxis.type === 'category')) {
+                    throw new Error('Heatmap on polar must have two category axes');
+                }
+                if (!radiusAxis.onBand) {
+                    throw new Error('Heatmap on polar must have radius axis with boundaryGap true');
+                }
+            }
+
+            // Radius and angle (in degree) of the cells.
+            width = radiusAxis.getBandWidth();
+            height = angleAxis.getBandWidth();
+            xAxisExtent = radiusAxis.scale.getExtent();
+            yAxisExtent = angleAxis.scale.getExtent();
+        }
+        else if (isSingle) {
+            const singleAxis = coordSys.getAxis();
+
+            if (__DEV__) {
+                if (!(singleAxis.type === 'category' && singleAxis.onBand)) {
+                    throw new Error('Heatmap on singleAxis must have a category axis with boundaryGap true');
+                }
+            }
+
+            width = singleAxis.getBandWidth() + .5;
+            xAxisExtent = singleAxis.scale.getExtent();
+        }
 
         const group = this.group;
         const data = seriesModel.getData();
@@ -214,19 +253,19 @@ class HeatmapView extends ChartView {
         let blurScope = emphasisModel.get('blurScope');
         let emphasisDisabled = emphasisModel.get('disabled');
 
-        const dataDims = isCartesian2d
+        const dataDims = isCartesian2d || isPolar
             ? [
-                data.mapDimension('x'),
-                data.mapDimension('y'),
+                data.mapDimension(coordSys.dimensions[0]),
+                data.mapDimension(coordSys.dimensions[1]),
                 data.mapDimension('value')
             ]
             : [
-                data.mapDimension('time'),
+                data.mapDimension(coordSys.dimensions[0]),
                 data.mapDimension('value')
             ];
 
         for (let idx = start; idx < end; idx++) {
-            let rect;
+            let rect: graphic.Rect | graphic.Sector;
             const style = data.getItemVisual(idx, 'style');
 
             if (isCartesian2d) {
@@ -258,6 +297,69 @@ class HeatmapView extends ChartView {
                     style
                 });
             }
+            else if (isPolar) {
+                const dataDimRadius = data.get(dataDims[0], idx);
+                const dataDimAngle = data.get(dataDims[1], idx);
+
+                // Ignore empty data and out of extent data
+                if (isNaN(data.get(dataDims[2], idx) as number)
+                    || dataDimRadius < xAxisExtent[0]
+                    || dataDimRadius > xAxisExtent[1]
+                    || dataDimAngle < yAxisExtent[0]
+                    || dataDimAngle > yAxisExtent[1]
+                ) {
+                    continue;
+                }
+
+                const radius = coordSys.getRadiusAxis().dataToCoord(dataDimRadius);
+                const angle = coordSys.getAngleAxis().dataToCoord(dataDimAngle);
+
+                rect = new graphic.Sector({
+                    shape: {
+                        cx: coordSys.cx,
+                        cy: coordSys.cy,
+                        r0: Math.max(radius - width / 2, 0),
+                        r: radius + width / 2,
+                        // Positive angle is anti-clockwise, while positive radian of sector is clockwise.
+                        startAngle: -(angle - height / 2) * RADIAN,
+                        endAngle: -(angle + height / 2) * RADIAN,
+                        clockwise: false
+                    },
+                    style
+                });
+            }
+            else if (isSingle) {
+                const dataDimSingle = data.get(dataDims[0], idx);
+
+                // Ignore empty data and out of extent data
+                if (isNaN(data.get(dataDims[1], idx) as number)
+                    || dataDimSingle < xAxisExtent[0]
+                    || dataDimSingle > xAxisExtent[1]
+                ) {
+                    continue;
+                }
+
+                const point = coordSys.dataToPoint(dataDimSingle);
+                const singleRect = coordSys.getRect();
+
+                // The cell fills the area of single axis across the axis.
+                rect = new graphic.Rect({
+                    shape: coordSys.getAxis().orient === 'horizontal'
+                        ? {
+                            x: point[0] - width / 2,
+                            y: singleRect.y,
+                            width: width,
+                            height: singleRect.height
+                        }
+                        : {
+                            x: singleRect.x,
+                            y: point[1] - width / 2,
+                            width: singleRect.width,
+                            height: width
+                        },
+                    style
+                });
+            }
             else {
                 // Ignore empty data
                 if (isNaN(data.get(dataDims[1], idx) as number)) {
@@ -293,12 +395,19 @@ class HeatmapView extends ChartView {
                 labelStatesModels = getLabelStatesModels(itemModel);
             }
 
-            rect.shape.r = borderRadius;
+            if (rect instanceof graphic.Sector) {
+                rect.shape.cornerRadius = borderRadius;
+            }
+            else {
+                rect.shape.r = borderRadius;
+            }
 
             const rawValue = seriesModel.getRawValue(idx) as OptionDataValue[];
+            // Value is the second one on single axis.
+            const valueIndex = isSingle ? 1 : 2;
             let defaultText = '-';
-            if (rawValue && rawValue[2] != null) {
-                defaultText = rawValue[2] + '';
+            if (rawValue && rawValue[valueIndex] != null) {
+                defaultText = rawValue[valueIndex] + '';
             }
 
             setLabelStyle(
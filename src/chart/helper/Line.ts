@@ -17,7 +17,7 @@
 * under the License.
 */
 
-import { isArray, each } from 'zrender/src/core/util';
+import { isArray, each, map } from 'zrender/src/core/util';
 import * as vector from 'zrender/src/core/vector';
 import * as symbolUtil from '../../util/symbol';
 import ECLinePath from './LinePath';
@@ -116,6 +116,7 @@ function setLinePoints(targetShape: ECLinePath['shape'], points: number[][]) {
     type CurveShape = ECLinePath['shape'] & {
         cpx1: number
         cpy1: number
+        controlPoints?: number[][]
     };
 
     targetShape.x1 = points[0][0];
@@ -125,13 +126,21 @@ function setLinePoints(targetShape: ECLinePath['shape'], points: number[][]) {
     targetShape.percent = 1;
 
     const cp1 = points[2];
-    if (cp1) {
+    if (points.length > 3) {
+        // Bundled edge goes through several control points.
+        (targetShape as CurveShape).cpx1 = NaN;
+        (targetShape as CurveShape).cpy1 = NaN;
+        (targetShape as CurveShape).controlPoints = map(points.slice(2), vector.clone);
+    }
+    else if (cp1) {
         (targetShape as CurveShape).cpx1 = cp1[0];
         (targetShape as CurveShape).cpy1 = cp1[1];
+        (targetShape as CurveShape).controlPoints = null;
     }
     else {
         (targetShape as CurveShape).cpx1 = NaN;
         (targetShape as CurveShape).cpy1 = NaN;
+        (targetShape as CurveShape).controlPoints = null;
     }
 }
 
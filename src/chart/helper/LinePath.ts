@@ -23,6 +23,7 @@
 
 import * as graphic from '../../util/graphic';
 import * as vec2 from 'zrender/src/core/vector';
+import * as curveTool from 'zrender/src/core/curve';
 import { PathProps } from 'zrender/src/graphic/Path';
 import { ColorString } from '../../util/types';
 
@@ -43,6 +44,9 @@ class StraightLineShape {
 class CurveShape extends StraightLineShape {
     cpx1: number;
     cpy1: number;
+    // If more than one control points are given, a cubic B-spline
+    // through all of them is drawn instead, which is used by edge bundling.
+    controlPoints?: number[][];
 }
 
 interface ECLineProps extends PathProps {
@@ -52,6 +56,71 @@ function isStraightLine(shape: StraightLineShape | CurveShape): shape is Straigh
     return isNaN(+(shape as CurveShape).cpx1) || isNaN(+(shape as CurveShape).cpy1);
 }
 
+function isBSpline(shape: StraightLineShape | CurveShape): shape is CurveShape {
+    const controlPoints = (shape as CurveShape).controlPoints;
+    return !!controlPoints && controlPoints.length > 1;
+}
+
+/**
+ * Convert the uniform cubic B-spline into bezier segments, each one is
+ * `[x0, y0, cpx1, cpy1, cpx2, cpy2, x1, y1]`. The spline is clamped to
+ * the start and end point by the linear segments on both sides.
+ */
+function getBSplineSegments(shape: CurveShape): number[][] {
+    const points = [[shape.x1, shape.y1]].concat(shape.controlPoints, [[shape.x2, shape.y2]]);
+    const len = points.length;
+    const segments: number[][] = [];
+
+    function addSegment(x0: number, y0: number, x1: number, y1: number, x2: number, y2: number) {
+        const last = segments[segments.length - 1];
+        const startX = last ? last[6] : shape.x1;
+        const startY = last ? last[7] : shape.y1;
+        segments.push([
+            startX, startY,
+            (2 * x0 + x1) / 3, (2 * y0 + y1) / 3,
+            (x0 + 2 * x1) / 3, (y0 + 2 * y1) / 3,
+            (x0 + 4 * x1 + x2) / 6, (y0 + 4 * y1 + y2) / 6
+        ]);
+    }
+    function addLine(x: number, y: number) {
+        const last = segments[segments.length - 1];
+        const startX = last ? last[6] : shape.x1;
+        const startY = last ? last[7] : shape.y1;
+        segments.push([
+            startX, startY,
+            (2 * startX + x) / 3, (2 * startY + y) / 3,
+            (startX + 2 * x) / 3, (startY + 2 * y) / 3,
+            x, y
+        ]);
+    }
+
+    addLine((5 * points[0][0] + points[1][0]) / 6, (5 * points[0][1] + points[1][1]) / 6);
+    for (let i = 2; i < len; i++) {
+        addSegment(
+            points[i - 2][0], points[i - 2][1],
+            points[i - 1][0], points[i - 1][1],
+            points[i][0], points[i][1]
+        );
+    }
+    const end = points[len - 1];
+    addSegment(points[len - 2][0], points[len - 2][1], end[0], end[1], end[0], end[1]);
+    addLine(end[0], end[1]);
+
+    return segments;
+}
+
+function bSplinePointAt(shape: CurveShape, t: number, out: number[], isTangent?: boolean) {
+    const segments = getBSplineSegments(shape);
+    const pos = Math.min(Math.max(t, 0), 1) * segments.length;
+    const idx = Math.min(Math.floor(pos), segments.length - 1);
+    const seg = segments[idx];
+    const segT = pos - idx;
+    const at = isTangent ? curveTool.cubicDerivativeAt : curveTool.cubicAt;
+    out[0] = at(seg[0], seg[2], seg[4], seg[6], segT);
+    out[1] = at(seg[1], seg[3], seg[5], seg[7], segT);
+    return out;
+}
+
 class ECLinePath extends graphic.Path<ECLineProps> {
 
     type = 'ec-line';
@@ -74,7 +143,10 @@ class ECLinePath extends graphic.Path<ECLineProps> {
     }
 
     buildPath(ctx: CanvasRenderingContext2D, shape: StraightLineShape | CurveShape) {
-        if (isStraightLine(shape)) {
+        if (isBSpline(shape)) {
+            this._buildBSplinePath(ctx, shape);
+        }
+        else if (isStraightLine(shape)) {
             straightLineProto.buildPath.call(this, ctx, shape);
         }
         else {
@@ -83,7 +155,10 @@ class ECLinePath extends graphic.Path<ECLineProps> {
     }
 
     pointAt(t: number) {
-        if (isStraightLine(this.shape)) {
+        if (isBSpline(this.shape)) {
+            return bSplinePointAt(this.shape, t, []);
+        }
+        else if (isStraightLine(this.shape)) {
             return straightLineProto.pointAt.call(this, t);
         }
         else {
@@ -93,12 +168,38 @@ class ECLinePath extends graphic.Path<ECLineProps> {
 
     tangentAt(t: number) {
         const shape = this.shape;
-        const p = isStraightLine(shape)
+        const p = isBSpline(shape)
+            ? bSplinePointAt(shape, t, [], true)
+            : isStraightLine(shape)
             ? [shape.x2 - shape.x1, shape.y2 - shape.y1]
             : bezierCurveProto.tangentAt.call(this, t);
         return vec2.normalize(p, p);
     }
 
+    private _buildBSplinePath(ctx: CanvasRenderingContext2D, shape: CurveShape) {
+        const segments = getBSplineSegments(shape);
+        const pos = shape.percent * segments.length;
+        const tmp: number[] = [];
+
+        ctx.moveTo(shape.x1, shape.y1);
+        for (let i = 0; i < segments.length && i < pos; i++) {
+            const seg = segments[i];
+            if (pos - i < 1) {
+                // Only part of the last segment is drawn.
+                const t = pos - i;
+                curveTool.cubicSubdivide(seg[0], seg[2], seg[4], seg[6], t, tmp);
+                const cpx1 = tmp[1];
+                const cpx2 = tmp[2];
+                const x = tmp[3];
+                curveTool.cubicSubdivide(seg[1], seg[3], seg[5], seg[7], t, tmp);
+                ctx.bezierCurveTo(cpx1, tmp[1], cpx2, tmp[2], x, tmp[3]);
+            }
+            else {
+                ctx.bezierCurveTo(seg[2], seg[3], seg[4], seg[5], seg[6], seg[7]);
+            }
+        }
+    }
+
 }
 
 export default ECLinePath;
\ No newline at end of file
@@ -21,6 +21,7 @@ import prepareSeriesDataSchema, {PrepareSeriesDataSchemaParams} from '../../data
 import SeriesData from '../../data/SeriesData';
 import {extend, isArray} from 'zrender/src/core/util';
 import SeriesModel from '../../model/Series';
+import { Source } from '../../data/Source';
 
 /**
  * [Usage]:
@@ -35,7 +36,9 @@ import SeriesModel from '../../model/Series';
 export default function createSeriesDataSimply(
     seriesModel: SeriesModel,
     opt: PrepareSeriesDataSchemaParams | PrepareSeriesDataSchemaParams['coordDimensions'],
-    nameList?: string[]
+    nameList?: string[],
+    // Source of series is used by default.
+    source?: Source
 ): SeriesData {
     opt = isArray(opt) && {
         coordDimensions: opt
@@ -43,7 +46,7 @@ export default function createSeriesDataSimply(
         encodeDefine: seriesModel.getEncode()
     }, opt);
 
-    const source = seriesModel.getSource();
+    source = source || seriesModel.getSource();
 
     const { dimensions } = prepareSeriesDataSchema(source, opt as PrepareSeriesDataSchemaParams);
 
@@ -56,6 +56,51 @@ class WhiskerBoxCommonMixin<Opts extends CommonOption> {
      * @override
      */
     getInitialData(option: Opts, ecModel: GlobalModel): SeriesData {
+        const coordDimensions = this.getWhiskerBoxCoordDimensions(option, ecModel);
+        const data = option.data as WhiskerBoxCommonData;
+
+        // Clone a new data for next setOption({}) usage.
+        // Avoid modifying current data will affect further update.
+        if (data && coordDimensions[0].ordinalMeta) {
+            const newOptionData: WhiskerBoxCommonData = [];
+            zrUtil.each(data, function (item, index) {
+                let newItem;
+                if (zrUtil.isArray(item)) {
+                    newItem = item.slice();
+                    // Modify current using data.
+                    item.unshift(index);
+                }
+                else if (zrUtil.isArray(item.value)) {
+                    newItem = zrUtil.extend({}, item);
+                    newItem.value = newItem.value.slice();
+                    // Modify current using data.
+                    item.value.unshift(index);
+                }
+                else {
+                    newItem = item;
+                }
+                newOptionData.push(newItem);
+            });
+            option.data = newOptionData;
+        }
+
+        return createSeriesDataSimply(
+            this,
+            {
+                coordDimensions: coordDimensions,
+                dimensionsCount: this.defaultValueDimensions.length + 1,
+                encodeDefaulter: zrUtil.curry(
+                    makeSeriesEncodeForAxisCoordSys, coordDimensions, this as any
+                )
+            }
+        );
+    }
+
+    /**
+     * Decide the layout by the types of axes, and get the coordinate dimensions,
+     * which are the base dimension on the base axis followed by `defaultValueDimensions`.
+     */
+    getWhiskerBoxCoordDimensions(option: Opts, ecModel: GlobalModel): CoordDimensionDefinition[] {
         // When both types of xAxis and yAxis are 'value', layout is
         // needed to be specified by user. Otherwise, layout can be
         // judged by which axis is category.
@@ -66,7 +111,6 @@ class WhiskerBoxCommonMixin<Opts extends CommonOption> {
         const yAxisModel = ecModel.getComponent('yAxis', this.get('yAxisIndex')) as CartesianAxisModel;
         const xAxisType = xAxisModel.get('type');
         const yAxisType = yAxisModel.get('type');
-        let addOrdinal;
 
         // FIXME
         // Consider time axis.
@@ -74,12 +118,10 @@ class WhiskerBoxCommonMixin<Opts extends CommonOption> {
         if (xAxisType === 'category') {
             option.layout = 'horizontal';
             ordinalMeta = xAxisModel.getOrdinalMeta();
-            addOrdinal = true;
         }
         else if (yAxisType === 'category') {
             option.layout = 'vertical';
             ordinalMeta = yAxisModel.getOrdinalMeta();
-            addOrdinal = true;
         }
         else {
             option.layout = option.layout || 'horizontal';
@@ -92,35 +134,8 @@ class WhiskerBoxCommonMixin<Opts extends CommonOption> {
         const axisModels = [xAxisModel, yAxisModel];
         const baseAxisType = axisModels[baseAxisDimIndex].get('type');
         const otherAxisType = axisModels[1 - baseAxisDimIndex].get('type');
-        const data = option.data as WhiskerBoxCommonData;
 
-        // Clone a new data for next setOption({}) usage.
-        // Avoid modifying current data will affect further update.
-        if (data && addOrdinal) {
-            const newOptionData: WhiskerBoxCommonData = [];
-            zrUtil.each(data, function (item, index) {
-                let newItem;
-                if (zrUtil.isArray(item)) {
-                    newItem = item.slice();
-                    // Modify current using data.
-                    item.unshift(index);
-                }
-                else if (zrUtil.isArray(item.value)) {
-                    newItem = zrUtil.extend({}, item);
-                    newItem.value = newItem.value.slice();
-                    // Modify current using data.
-                    item.value.unshift(index);
-                }
-                else {
-                    newItem = item;
-                }
-                newOptionData.push(newItem);
-            });
-            option.data = newOptionData;
-        }
-
-        const defaultValueDimensions = this.defaultValueDimensions;
-        const coordDimensions: CoordDimensionDefinition[] = [{
+        return [{
             name: baseAxisDim,
             type: getDimensionTypeByAxis(baseAxisType),
             ordinalMeta: ordinalMeta,
@@ -132,19 +147,8 @@ class WhiskerBoxCommonMixin<Opts extends CommonOption> {
         }, {
             name: otherAxisDim,
             type: getDimensionTypeByAxis(otherAxisType),
-            dimsDef: defaultValueDimensions.slice()
+            dimsDef: this.defaultValueDimensions.slice()
         }];
-
-        return createSeriesDataSimply(
-            this,
-            {
-                coordDimensions: coordDimensions,
-                dimensionsCount: defaultValueDimensions.length + 1,
-                encodeDefaulter: zrUtil.curry(
-                    makeSeriesEncodeForAxisCoordSys, coordDimensions, this as any
-                )
-            }
-        );
     }
 
     /**
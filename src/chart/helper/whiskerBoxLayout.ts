@@ -0,0 +1,126 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import {parsePercent} from '../../util/number';
+import type GlobalModel from '../../model/Global';
+import type SeriesModel from '../../model/Series';
+import type Axis2D from '../../coord/cartesian/Axis2D';
+import type { SeriesOption } from '../../util/types';
+
+const each = zrUtil.each;
+
+interface WhiskerBoxSeriesModel extends SeriesModel<SeriesOption & {
+    boxWidth?: (string | number)[]
+}> {
+    getBaseAxis(): Axis2D
+}
+
+export interface WhiskerBoxGroupItem<T extends WhiskerBoxSeriesModel> {
+    seriesModels: T[]
+    axis: Axis2D
+    boxOffsetList: number[]
+    boxWidthList: number[]
+}
+
+/**
+ * Group series of the type by base axis.
+ */
+export function groupSeriesByBaseAxis<T extends WhiskerBoxSeriesModel>(
+    ecModel: GlobalModel,
+    seriesType: string
+): WhiskerBoxGroupItem<T>[] {
+    const result: WhiskerBoxGroupItem<T>[] = [];
+    const axisList: Axis2D[] = [];
+
+    ecModel.eachSeriesByType(seriesType, function (seriesModel: T) {
+        const baseAxis = seriesModel.getBaseAxis();
+        let idx = zrUtil.indexOf(axisList, baseAxis);
+
+        if (idx < 0) {
+            idx = axisList.length;
+            axisList[idx] = baseAxis;
+            result[idx] = {
+                axis: baseAxis,
+                seriesModels: []
+            } as WhiskerBoxGroupItem<T>;
+        }
+
+        result[idx].seriesModels.push(seriesModel);
+    });
+
+    return result;
+}
+
+/**
+ * Calculate offset and box width for each series.
+ *
+ * @param slotList Index of slot of each series, where series in the same slot
+ *        are placed at the same offset. Each series has its own slot by default.
+ */
+export function calculateBoxBase<T extends WhiskerBoxSeriesModel>(
+    groupItem: WhiskerBoxGroupItem<T>,
+    slotList?: number[]
+) {
+    const baseAxis = groupItem.axis;
+    const seriesModels = groupItem.seriesModels;
+
+    const boxWidthList: number[] = groupItem.boxWidthList = [];
+    const boxOffsetList: number[] = groupItem.boxOffsetList = [];
+    const boundList: number[][] = [];
+
+    let bandWidth: number;
+    if (baseAxis.type === 'category') {
+        bandWidth = baseAxis.getBandWidth();
+    }
+    else {
+        let maxDataCount = 0;
+        each(seriesModels, function (seriesModel) {
+            maxDataCount = Math.max(maxDataCount, seriesModel.getData().count());
+        });
+        const extent = baseAxis.getExtent();
+        bandWidth = Math.abs(extent[1] - extent[0]) / maxDataCount;
+    }
+
+    let slotCount = 0;
+    each(seriesModels, function (seriesModel, idx) {
+        let boxWidthBound = seriesModel.get('boxWidth');
+        if (!zrUtil.isArray(boxWidthBound)) {
+            boxWidthBound = [boxWidthBound, boxWidthBound];
+        }
+        boundList.push([
+            parsePercent(boxWidthBound[0], bandWidth) || 0,
+            parsePercent(boxWidthBound[1], bandWidth) || 0
+        ]);
+        slotCount = Math.max(slotCount, (slotList ? slotList[idx] : idx) + 1);
+    });
+
+    const availableWidth = bandWidth * 0.8 - 2;
+    const boxGap = availableWidth / slotCount * 0.3;
+    const boxWidth = (availableWidth - boxGap * (slotCount - 1)) / slotCount;
+    const base = boxWidth / 2 - availableWidth / 2;
+
+    each(seriesModels, function (seriesModel, idx) {
+        boxOffsetList.push(base + (boxGap + boxWidth) * (slotList ? slotList[idx] : idx));
+
+        boxWidthList.push(
+            Math.min(Math.max(boxWidth, boundList[idx][0]), boundList[idx][1])
+        );
+    });
+}
@@ -0,0 +1,171 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import SeriesModel from '../../model/Series';
+import createSeriesData from '../helper/createSeriesData';
+import {
+    SeriesOption,
+    SeriesOnCartesianOptionMixin,
+    SeriesOnGeoOptionMixin,
+    ItemStyleOption,
+    SeriesLabelOption,
+    OptionDataValue,
+    SeriesEncodeOptionMixin,
+    DefaultStatesMixinEmphasis,
+    CallbackDataParams
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import type Geo from '../../coord/geo/Geo';
+import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
+import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
+import { isNameSpecified } from '../../util/model';
+import { BrushCommonSelectorsForSeries } from '../../component/brush/selector';
+
+type HexbinDataValue = OptionDataValue[];
+
+/**
+ * How the values of points in a bin are aggregated.
+ * Bins are counted if the value dimension is not provided.
+ */
+export type HexbinAggregateType = 'count' | 'sum' | 'mean';
+
+export interface HexbinStateOption<TCbParams = never> {
+    itemStyle?: ItemStyleOption<TCbParams>
+    label?: SeriesLabelOption
+}
+
+interface HexbinStatesMixin {
+    emphasis?: DefaultStatesMixinEmphasis
+}
+
+export interface HexbinDataItemOption {
+    value: HexbinDataValue
+}
+
+export interface HexbinSeriesOption
+    extends SeriesOption<HexbinStateOption<CallbackDataParams>, HexbinStatesMixin>,
+    HexbinStateOption<CallbackDataParams>,
+    SeriesOnCartesianOptionMixin,
+    SeriesOnGeoOptionMixin,
+    SeriesEncodeOptionMixin {
+
+    type?: 'hexbin'
+
+    coordinateSystem?: 'cartesian2d' | 'geo'
+
+    /**
+     * Radius of the hexagons in pixel. Points are binned in pixel space,
+     * so they are binned again when the axes are zoomed or the map is roamed.
+     */
+    binSize?: number
+
+    aggregate?: HexbinAggregateType
+
+    clip?: boolean
+
+    data?: (HexbinDataItemOption | HexbinDataValue)[]
+}
+
+/**
+ * The data of the series is replaced with the bins in the layout stage.
+ * Bins have dimensions of the coordinate system, `count` and `value`,
+ * which is mapped by visualMap by default.
+ */
+class HexbinSeriesModel extends SeriesModel<HexbinSeriesOption> {
+    static readonly type = 'series.hexbin';
+    readonly type = HexbinSeriesModel.type;
+
+    static readonly dependencies = ['grid', 'geo'];
+
+    coordinateSystem: Cartesian2D | Geo;
+
+    getInitialData(option: HexbinSeriesOption, ecModel: GlobalModel): SeriesData {
+        return createSeriesData(null, this, {
+            generateCoord: 'value'
+        });
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries: boolean
+    ) {
+        const data = this.getData();
+        const params = this.getDataParams(dataIndex);
+        const aggregate = this.get('aggregate');
+        const localeModel = this.ecModel.getLocaleModel();
+        const blocks = [
+            createTooltipMarkup('nameValue', {
+                markerType: 'item',
+                markerColor: params.color as string,
+                name: localeModel.get(['series', 'hexbin', 'count']),
+                value: data.get('count', dataIndex) as number
+            })
+        ];
+        if (aggregate !== 'count') {
+            blocks.push(createTooltipMarkup('nameValue', {
+                name: localeModel.get(['series', 'hexbin', aggregate]),
+                value: data.get('value', dataIndex) as number
+            }));
+        }
+        return createTooltipMarkup('section', {
+            header: this.name,
+            noHeader: multipleSeries || !isNameSpecified(this),
+            blocks: blocks
+        });
+    }
+
+    brushSelector(dataIndex: number, data: SeriesData, selectors: BrushCommonSelectorsForSeries): boolean {
+        return selectors.point(data.getItemLayout(dataIndex));
+    }
+
+    static defaultOption: HexbinSeriesOption = {
+
+        coordinateSystem: 'cartesian2d',
+
+        // zlevel: 0,
+
+        z: 2,
+
+        // Geo coordinate system
+        geoIndex: 0,
+
+        binSize: 10,
+
+        aggregate: 'count',
+
+        clip: true,
+
+        // All the points are needed in binning.
+        progressive: 0,
+
+        itemStyle: {
+            borderWidth: 0
+        },
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121',
+                borderWidth: 1
+            }
+        }
+    };
+}
+
+export default HexbinSeriesModel;
@@ -0,0 +1,115 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as graphic from '../../util/graphic';
+import { toggleHoverEmphasis } from '../../util/states';
+import ChartView from '../../view/Chart';
+import HexbinSeriesModel from './HexbinSeries';
+import type GlobalModel from '../../model/Global';
+import type ExtensionAPI from '../../core/ExtensionAPI';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { createClipPath } from '../helper/createClipPathFromCoordSys';
+import { isArray } from 'zrender/src/core/util';
+
+/**
+ * Points of the pointy-topped hexagon.
+ */
+function getHexagonPoints(cx: number, cy: number, r: number): number[][] {
+    const points = [];
+    for (let i = 0; i < 6; i++) {
+        const angle = Math.PI / 3 * i - Math.PI / 2;
+        points.push([cx + r * Math.cos(angle), cy + r * Math.sin(angle)]);
+    }
+    return points;
+}
+
+class HexbinView extends ChartView {
+
+    static readonly type = 'hexbin';
+    readonly type = HexbinView.type;
+
+    render(seriesModel: HexbinSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const group = this.group;
+        const data = seriesModel.getData();
+        const radius = data.getLayout('radius') as number;
+
+        group.removeAll();
+
+        if (radius == null) {
+            return;
+        }
+
+        const emphasisModel = seriesModel.getModel('emphasis');
+        const emphasisStyle = emphasisModel.getModel('itemStyle').getItemStyle();
+        const blurStyle = seriesModel.getModel(['blur', 'itemStyle']).getItemStyle();
+        const selectStyle = seriesModel.getModel(['select', 'itemStyle']).getItemStyle();
+        const labelStatesModels = getLabelStatesModels(seriesModel);
+        const focus = emphasisModel.get('focus');
+        const blurScope = emphasisModel.get('blurScope');
+        const emphasisDisabled = emphasisModel.get('disabled');
+
+        data.each(function (idx) {
+            const center = data.getItemLayout(idx) as number[];
+            const style = data.getItemVisual(idx, 'style');
+            // Size from visualMap is the diameter of hexagon, which is not larger than the bin.
+            let symbolSize = data.getItemVisual(idx, 'symbolSize');
+            symbolSize = isArray(symbolSize) ? symbolSize[0] : symbolSize;
+            const r = symbolSize != null ? Math.min(symbolSize / 2, radius) : radius;
+
+            const hexagon = new graphic.Polygon({
+                shape: {
+                    points: getHexagonPoints(center[0], center[1], r)
+                },
+                style: style
+            });
+
+            setLabelStyle(hexagon, labelStatesModels, {
+                labelFetcher: seriesModel,
+                labelDataIndex: idx,
+                defaultOpacity: style.opacity,
+                defaultText: data.get('value', idx) + ''
+            });
+
+            hexagon.ensureState('emphasis').style = emphasisStyle;
+            hexagon.ensureState('blur').style = blurStyle;
+            hexagon.ensureState('select').style = selectStyle;
+
+            toggleHoverEmphasis(hexagon, focus, blurScope, emphasisDisabled);
+
+            group.add(hexagon);
+            data.setItemGraphicEl(idx, hexagon);
+        });
+
+        const clipPath = seriesModel.get('clip', true)
+            ? createClipPath(seriesModel.coordinateSystem, false, seriesModel)
+            : null;
+        if (clipPath) {
+            group.setClipPath(clipPath);
+        }
+        else {
+            group.removeClipPath();
+        }
+    }
+
+    remove() {
+        this.group.removeAll();
+    }
+}
+
+export default HexbinView;
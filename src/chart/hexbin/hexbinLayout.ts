@@ -0,0 +1,157 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { StageHandler } from '../../util/types';
+import HexbinSeriesModel from './HexbinSeries';
+import SeriesData from '../../data/SeriesData';
+import { isCoordinateSystemType } from '../../coord/CoordinateSystem';
+import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
+import { map } from 'zrender/src/core/util';
+
+const SQRT3 = Math.sqrt(3);
+
+interface HexbinBin {
+    // Center in pixel.
+    x: number
+    y: number
+    count: number
+    sum: number
+}
+
+/**
+ * Find the hexagon containing the point on the lattice of pointy-topped hexagons,
+ * whose first center is at the origin.
+ * Returns the column and row of the hexagon.
+ */
+export function hexbinPoint(x: number, y: number, radius: number): number[] {
+    const dy = radius * 1.5;
+    const py = y / dy;
+    let row = Math.round(py);
+    let col = nearestCol(x, row, radius);
+
+    // Near the slanted edges, the point may be in the hexagon of the adjacent row,
+    // which is decided by the distance to the centers.
+    if (Math.abs(py - row) * 3 > 1) {
+        const row2 = row + (py < row ? -1 : 1);
+        const col2 = nearestCol(x, row2, radius);
+        const center = hexbinCenter(col, row, radius);
+        const center2 = hexbinCenter(col2, row2, radius);
+        if (distSquare(center, x, y) > distSquare(center2, x, y)) {
+            col = col2;
+            row = row2;
+        }
+    }
+    return [col, row];
+}
+
+/**
+ * Center of the hexagon in `hexbinPoint`.
+ */
+export function hexbinCenter(col: number, row: number, radius: number): number[] {
+    return [(col + (row & 1) / 2) * radius * SQRT3, row * radius * 1.5];
+}
+
+const hexbinLayout: StageHandler = {
+
+    seriesType: 'hexbin',
+
+    reset: function (seriesModel: HexbinSeriesModel) {
+        const coordSys = seriesModel.coordinateSystem;
+        if (!coordSys) {
+            return;
+        }
+
+        const data = seriesModel.getData();
+        const radius = Math.max(seriesModel.get('binSize'), 1);
+        const valueDim = data.mapDimension('value');
+        const aggregate = valueDim ? seriesModel.get('aggregate') : 'count';
+        const dims = map(coordSys.dimensions, function (dim) {
+            return data.mapDimension(dim);
+        });
+        const isCartesian = isCoordinateSystemType<Cartesian2D>(coordSys, 'cartesian2d');
+        // The lattice starts from the corner of grid, so that it does not move with the chart.
+        const area = isCartesian ? (coordSys as Cartesian2D).getArea() : null;
+        const origin = area ? [area.x, area.y] : [0, 0];
+
+        const binMap: Record<string, HexbinBin> = {};
+        const bins: HexbinBin[] = [];
+        const pt: number[] = [];
+        const out: number[] = [];
+
+        for (let i = 0, len = data.count(); i < len; i++) {
+            pt[0] = data.get(dims[0], i) as number;
+            pt[1] = data.get(dims[1], i) as number;
+            const value = valueDim ? data.get(valueDim, i) as number : 1;
+            if (isNaN(pt[0]) || isNaN(pt[1]) || (aggregate !== 'count' && isNaN(value))) {
+                continue;
+            }
+            const point = coordSys.dataToPoint(pt, false, out);
+            // Points out of the grid are not binned. They are
+            // usually filtered by dataZoom too.
+            if (!point || isNaN(point[0]) || isNaN(point[1]) || (isCartesian && !coordSys.containPoint(point))) {
+                continue;
+            }
+
+            const colRow = hexbinPoint(point[0] - origin[0], point[1] - origin[1], radius);
+            const key = colRow[0] + '_' + colRow[1];
+            let bin = binMap[key];
+            if (!bin) {
+                const center = hexbinCenter(colRow[0], colRow[1], radius);
+                bin = binMap[key] = {
+                    x: center[0] + origin[0],
+                    y: center[1] + origin[1],
+                    count: 0,
+                    sum: 0
+                };
+                bins.push(bin);
+            }
+            bin.count++;
+            bin.sum += value;
+        }
+
+        const binData = new SeriesData(coordSys.dimensions.concat(['count', 'value']), seriesModel);
+        binData.initData(map(bins, function (bin) {
+            const coord = coordSys.pointToData([bin.x, bin.y]);
+            return [
+                coord[0],
+                coord[1],
+                bin.count,
+                aggregate === 'sum' ? bin.sum
+                    : aggregate === 'mean' ? bin.sum / bin.count
+                    : bin.count
+            ];
+        }));
+        for (let i = 0; i < bins.length; i++) {
+            binData.setItemLayout(i, [bins[i].x, bins[i].y]);
+        }
+        binData.setLayout('radius', radius);
+
+        seriesModel.setData(binData);
+    }
+};
+
+function nearestCol(x: number, row: number, radius: number): number {
+    return Math.round(x / (radius * SQRT3) - (row & 1) / 2);
+}
+
+function distSquare(center: number[], x: number, y: number): number {
+    return (center[0] - x) * (center[0] - x) + (center[1] - y) * (center[1] - y);
+}
+
+export default hexbinLayout;
@@ -0,0 +1,248 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import SeriesModel from '../../model/Series';
+import Tree, { TreeNode } from '../../data/Tree';
+import { wrapTreePathInfo } from '../helper/treeHelper';
+import {
+    SeriesOption,
+    BoxLayoutOptionMixin,
+    SeriesLabelOption,
+    ItemStyleOption,
+    OptionDataValue,
+    CallbackDataParams,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    DefaultEmphasisFocus,
+    SunburstColorByMixin
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import Model from '../../model/Model';
+import enableAriaDecalForTree from '../helper/enableAriaDecalForTree';
+import { completeTreeValue } from '../sunburst/SunburstSeries';
+
+interface IcicleItemStyleOption<TCbParams = never> extends ItemStyleOption<TCbParams> {
+    borderRadius?: number | number[]
+}
+
+interface IcicleLabelOption extends SeriesLabelOption {
+    silent?: boolean
+}
+
+interface IcicleDataParams extends CallbackDataParams {
+    treePathInfo: {
+        name: string,
+        dataIndex: number
+        value: IcicleSeriesNodeItemOption['value']
+    }[]
+}
+
+interface IcicleStatesMixin {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus | 'descendant' | 'ancestor'
+    }
+}
+
+export interface IcicleStateOption<TCbParams = never> {
+    itemStyle?: IcicleItemStyleOption<TCbParams>
+    label?: IcicleLabelOption
+}
+
+export interface IcicleSeriesNodeItemOption extends
+    IcicleStateOption<CallbackDataParams>,
+    StatesOptionMixin<IcicleStateOption<CallbackDataParams>, IcicleStatesMixin>,
+    OptionDataItemObject<OptionDataValue> {
+
+    nodeClick?: 'rootToNode' | 'link' | false
+    // Available when nodeClick is link
+    link?: string
+    target?: string
+
+    children?: IcicleSeriesNodeItemOption[]
+
+    cursor?: string
+}
+
+export interface IcicleSeriesLevelOption
+    extends IcicleStateOption, StatesOptionMixin<IcicleStateOption, IcicleStatesMixin> {
+}
+
+interface SortParam {
+    dataIndex: number
+    depth: number
+    height: number
+    getValue(): number
+}
+
+export interface IcicleSeriesOption extends
+    SeriesOption<IcicleStateOption, IcicleStatesMixin>, IcicleStateOption,
+    SunburstColorByMixin,
+    BoxLayoutOptionMixin {
+
+    type?: 'icicle'
+
+    /**
+     * 'horizontal': levels from left to right.
+     * 'vertical': levels from top to bottom.
+     */
+    orient?: 'horizontal' | 'vertical'
+
+    nodeClick?: 'rootToNode' | 'link' | false
+
+    renderLabelForZeroData?: boolean
+
+    levels?: IcicleSeriesLevelOption[]
+
+    sort?: 'desc' | 'asc' | ((a: SortParam, b: SortParam) => number)
+
+    data?: IcicleSeriesNodeItemOption[]
+}
+
+class IcicleSeriesModel extends SeriesModel<IcicleSeriesOption> {
+
+    static readonly type = 'series.icicle';
+    readonly type = IcicleSeriesModel.type;
+
+    ignoreStyleOnData = true;
+
+    private _viewRoot: TreeNode;
+    private _levelModels: Model<IcicleSeriesLevelOption>[];
+
+    getInitialData(option: IcicleSeriesOption, ecModel: GlobalModel) {
+        // Create a virtual root.
+        const root = { name: option.name, children: option.data } as IcicleSeriesNodeItemOption;
+
+        completeTreeValue(root);
+
+        const levelModels = this._levelModels =
+            zrUtil.map(option.levels || [], function (levelDefine) {
+                return new Model(levelDefine, this, ecModel);
+            }, this);
+
+        const tree = Tree.createTree(root, this, beforeLink);
+
+        function beforeLink(nodeData: SeriesData) {
+            nodeData.wrapMethod('getItemModel', function (model, idx) {
+                const node = tree.getNodeByDataIndex(idx);
+                const levelModel = levelModels[node.depth];
+                levelModel && (model.parentModel = levelModel);
+                return model;
+            });
+        }
+        return tree.data;
+    }
+
+    optionUpdated() {
+        this.resetViewRoot();
+    }
+
+    /*
+     * @override
+     */
+    getDataParams(dataIndex: number) {
+        const params = super.getDataParams.apply(this, arguments as any) as IcicleDataParams;
+
+        const node = this.getData().tree.getNodeByDataIndex(dataIndex);
+        params.treePathInfo = wrapTreePathInfo<IcicleSeriesNodeItemOption['value']>(node, this);
+
+        return params;
+    }
+
+    getLevelModel(node: TreeNode) {
+        return this._levelModels && this._levelModels[node.depth];
+    }
+
+    static defaultOption: IcicleSeriesOption = {
+        // zlevel: 0,
+        z: 2,
+
+        left: 'center',
+        top: 'middle',
+        width: '80%',
+        height: '80%',
+
+        orient: 'horizontal',
+
+        // 'rootToNode', 'link', or false
+        nodeClick: 'rootToNode',
+
+        renderLabelForZeroData: false,
+
+        label: {
+            show: true,
+            position: 'inside',
+            overflow: 'truncate',
+            distance: 5,
+            silent: true
+        },
+        itemStyle: {
+            borderWidth: 1,
+            borderColor: 'white',
+            borderType: 'solid',
+            opacity: 1
+        },
+
+        emphasis: {
+            focus: 'descendant'
+        },
+
+        blur: {
+            itemStyle: {
+                opacity: 0.2
+            },
+            label: {
+                opacity: 0.1
+            }
+        },
+
+        animationDuration: 1000,
+        animationDurationUpdate: 500,
+
+        data: [],
+
+        // The same as sunburst.
+        sort: 'desc'
+    };
+
+    getViewRoot() {
+        return this._viewRoot;
+    }
+
+    resetViewRoot(viewRoot?: TreeNode) {
+        viewRoot
+            ? (this._viewRoot = viewRoot)
+            : (viewRoot = this._viewRoot);
+
+        const root = this.getRawData().tree.root;
+
+        if (!viewRoot
+            || (viewRoot !== root && !root.contains(viewRoot))
+        ) {
+            this._viewRoot = root;
+        }
+    }
+
+    enableAriaDecal() {
+        enableAriaDecalForTree(this);
+    }
+}
+
+export default IcicleSeriesModel;
@@ -0,0 +1,243 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import * as graphic from '../../util/graphic';
+import ChartView from '../../view/Chart';
+import DataDiffer from '../../data/DataDiffer';
+import IcicleSeriesModel, { IcicleSeriesNodeItemOption } from './IcicleSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import { TreeNode } from '../../data/Tree';
+import { ROOT_TO_NODE_ACTION } from '../sunburst/sunburstAction';
+import { IcicleItemLayout } from './icicleLayout';
+import { windowOpen } from '../../util/format';
+import { getECData } from '../../util/innerStore';
+import { findEventDispatcher } from '../../util/event';
+import BoundingRect from 'zrender/src/core/BoundingRect';
+import { toggleHoverEmphasis, SPECIAL_STATES } from '../../util/states';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { createOrUpdatePatternFromDecal } from '../../util/decal';
+import { PathStyleProps } from 'zrender/src/graphic/Path';
+
+// Labels are not displayed on the rects lower than it.
+const LABEL_MIN_HEIGHT = 10;
+
+class IcicleView extends ChartView {
+
+    static readonly type = 'icicle';
+    readonly type = IcicleView.type;
+
+    seriesModel: IcicleSeriesModel;
+    api: ExtensionAPI;
+
+    private _data: SeriesData;
+
+    private _oldNodes: TreeNode[];
+
+    init() {
+        this._initEvents();
+    }
+
+    render(
+        seriesModel: IcicleSeriesModel,
+        ecModel: GlobalModel,
+        api: ExtensionAPI
+    ) {
+        this.seriesModel = seriesModel;
+        this.api = api;
+
+        const group = this.group;
+        const data = seriesModel.getData();
+        const oldData = this._data;
+        const virtualRoot = data.tree.root;
+        const viewRoot = seriesModel.getViewRoot();
+        const isHorizontal = seriesModel.get('orient') !== 'vertical';
+        const renderLabelForZeroData = seriesModel.get('renderLabelForZeroData');
+
+        const newNodes: TreeNode[] = [];
+        // The virtual root is displayed for rolling up.
+        viewRoot !== virtualRoot && newNodes.push(virtualRoot);
+        viewRoot.eachNode(function (node) {
+            if (node !== virtualRoot && (renderLabelForZeroData || node.getValue())) {
+                newNodes.push(node);
+            }
+        });
+        const oldNodes = this._oldNodes || [];
+
+        function getKey(node: TreeNode) {
+            return node.getId();
+        }
+
+        new DataDiffer(oldNodes, newNodes, getKey, getKey)
+            .add(function (newIdx) {
+                const node = newNodes[newIdx];
+                const layout = node.getLayout() as IcicleItemLayout;
+                const rect = new graphic.Rect();
+                updateRect(rect, node, seriesModel, api);
+                group.add(rect);
+                data.setItemGraphicEl(node.dataIndex, rect);
+
+                // Grow along the levels.
+                rect.setShape(layout);
+                rect.setShape(isHorizontal ? 'width' : 'height', 0);
+                graphic.initProps(rect, {
+                    shape: isHorizontal ? {width: layout.width} : {height: layout.height}
+                }, seriesModel, node.dataIndex);
+            })
+            .update(function (newIdx, oldIdx) {
+                const node = newNodes[newIdx];
+                const rect = oldData.getItemGraphicEl(oldNodes[oldIdx].dataIndex) as graphic.Rect;
+                updateRect(rect, node, seriesModel, api);
+                data.setItemGraphicEl(node.dataIndex, rect);
+                graphic.updateProps(rect, {
+                    shape: node.getLayout()
+                }, seriesModel, node.dataIndex);
+            })
+            .remove(function (oldIdx) {
+                const oldNode = oldNodes[oldIdx];
+                const rect = oldData.getItemGraphicEl(oldNode.dataIndex);
+                if (!rect) {
+                    return;
+                }
+                // Data is not changed when drilling down.
+                if (oldData === data) {
+                    data.setItemGraphicEl(oldNode.dataIndex, null);
+                }
+                graphic.removeElementWithFadeOut(rect, seriesModel, oldNode.dataIndex);
+            })
+            .execute();
+
+        this._data = data;
+        this._oldNodes = newNodes;
+    }
+
+    private _initEvents() {
+        this.group.on('click', (e) => {
+            const seriesModel = this.seriesModel;
+            const el = findEventDispatcher(e.target, target => getECData(target).dataIndex != null, true);
+            if (!el || !seriesModel) {
+                return;
+            }
+            const node = seriesModel.getData().tree.getNodeByDataIndex(getECData(el).dataIndex);
+            const viewRoot = seriesModel.getViewRoot();
+
+            // Click the virtual root to roll up.
+            if (node === seriesModel.getData().tree.root) {
+                viewRoot.parentNode && this._rootToNode(viewRoot.parentNode);
+                return;
+            }
+
+            const itemModel = node.getModel<IcicleSeriesNodeItemOption>();
+            const nodeClick = itemModel.get('nodeClick');
+            if (nodeClick === 'rootToNode') {
+                this._rootToNode(node);
+            }
+            else if (nodeClick === 'link') {
+                const link = itemModel.get('link');
+                if (link) {
+                    windowOpen(link, itemModel.get('target', true) || '_blank');
+                }
+            }
+        });
+    }
+
+    private _rootToNode(node: TreeNode) {
+        if (node !== this.seriesModel.getViewRoot()) {
+            this.api.dispatchAction({
+                type: ROOT_TO_NODE_ACTION,
+                from: this.uid,
+                seriesId: this.seriesModel.id,
+                targetNode: node
+            });
+        }
+    }
+
+    containPoint(point: number[], seriesModel: IcicleSeriesModel) {
+        const rect = seriesModel.getData().getLayout('rect') as IcicleItemLayout;
+        return !!rect && BoundingRect.prototype.contain.call(rect, point[0], point[1]);
+    }
+
+    remove() {
+        this.group.removeAll();
+        this._data = null;
+        this._oldNodes = null;
+    }
+}
+
+function updateRect(
+    rect: graphic.Rect,
+    node: TreeNode,
+    seriesModel: IcicleSeriesModel,
+    api: ExtensionAPI
+) {
+    const itemModel = node.getModel<IcicleSeriesNodeItemOption>();
+    const emphasisModel = itemModel.getModel('emphasis');
+    const layout = node.getLayout() as IcicleItemLayout;
+
+    const style = zrUtil.extend({}, node.getVisual('style')) as PathStyleProps;
+    const decal = node.getVisual('decal');
+    if (decal) {
+        style.decal = createOrUpdatePatternFromDecal(decal, api);
+    }
+    rect.useStyle(style);
+    rect.setShape('r', itemModel.get(['itemStyle', 'borderRadius']) || 0);
+
+    zrUtil.each(SPECIAL_STATES, function (stateName) {
+        const itemStyleModel = itemModel.getModel([stateName, 'itemStyle']);
+        const state = rect.ensureState(stateName);
+        state.style = itemStyleModel.getItemStyle();
+        const borderRadius = itemStyleModel.get('borderRadius');
+        borderRadius != null && (state.shape = {r: borderRadius});
+    });
+
+    setLabelStyle(
+        rect,
+        getLabelStatesModels(itemModel),
+        {
+            labelFetcher: seriesModel,
+            labelDataIndex: node.dataIndex,
+            defaultText: node.name,
+            defaultOpacity: style.opacity
+        }
+    );
+    const label = rect.getTextContent();
+    if (label) {
+        label.silent = itemModel.get(['label', 'silent']);
+        // Truncate the text in the rect.
+        label.style.width = Math.max(layout.width - (itemModel.get(['label', 'distance']) || 0) * 2, 0);
+        if (layout.height < LABEL_MIN_HEIGHT) {
+            label.ignore = true;
+        }
+    }
+
+    const cursorStyle = itemModel.getShallow('cursor');
+    cursorStyle && rect.attr('cursor', cursorStyle);
+
+    const focus = emphasisModel.get('focus');
+    const focusOrIndices =
+        focus === 'ancestor' ? node.getAncestorsIndices()
+        : focus === 'descendant' ? node.getDescendantIndices()
+        : focus;
+
+    toggleHoverEmphasis(rect, focusOrIndices, emphasisModel.get('blurScope'), emphasisModel.get('disabled'));
+}
+
+export default IcicleView;
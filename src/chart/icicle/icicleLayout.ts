@@ -0,0 +1,106 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import * as layout from '../../util/layout';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import IcicleSeriesModel from './IcicleSeries';
+import { TreeNode } from '../../data/Tree';
+import { initChildren } from '../sunburst/sunburstLayout';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+
+export type IcicleItemLayout = RectLike;
+
+export default function icicleLayout(
+    ecModel: GlobalModel,
+    api: ExtensionAPI
+) {
+    ecModel.eachSeriesByType('icicle', function (seriesModel: IcicleSeriesModel) {
+        const rect = layout.getLayoutRect(
+            seriesModel.getBoxLayoutParams(), {
+                width: api.getWidth(),
+                height: api.getHeight()
+            }
+        );
+        const isHorizontal = seriesModel.get('orient') !== 'vertical';
+        seriesModel.getData().setLayout('rect', rect);
+
+        const virtualRoot = seriesModel.getData().tree.root;
+        const viewRoot = seriesModel.getViewRoot();
+        const rootDepth = viewRoot.depth;
+
+        const sort = seriesModel.get('sort');
+        if (sort != null) {
+            initChildren(viewRoot, sort);
+        }
+
+        // Levels are along the depth axis, and values are along the other.
+        const depthLength = isHorizontal ? rect.width : rect.height;
+        const valueLength = isHorizontal ? rect.height : rect.width;
+
+        // The same as sunburst, the virtual root is displayed
+        // on the first level for rolling up if drilled down.
+        const renderRollupNode = rootDepth > 0;
+        const levels = viewRoot.height - (renderRollupNode ? -1 : 1);
+        const sizePerLevel = depthLength / (levels || 1);
+
+        const sum = viewRoot.getValue() as number;
+        const unitSize = sum ? valueLength / sum : 0;
+
+        function setNodeLayout(node: TreeNode, levelIndex: number, start: number, size: number) {
+            const depthStart = sizePerLevel * levelIndex;
+            node.setLayout(isHorizontal
+                ? {
+                    x: rect.x + depthStart,
+                    y: rect.y + start,
+                    width: sizePerLevel,
+                    height: size
+                }
+                : {
+                    x: rect.x + start,
+                    y: rect.y + depthStart,
+                    width: size,
+                    height: sizePerLevel
+                }
+            );
+        }
+
+        function layoutNode(node: TreeNode, start: number) {
+            if (node !== virtualRoot) {
+                setNodeLayout(
+                    node,
+                    node.depth - rootDepth - (renderRollupNode ? -1 : 1),
+                    start,
+                    (node.getValue() as number) * unitSize
+                );
+            }
+            zrUtil.each(node.children, function (child) {
+                layoutNode(child, start);
+                start += (child.getValue() as number) * unitSize;
+            });
+        }
+
+        if (renderRollupNode) {
+            setNodeLayout(virtualRoot, 0, 0, valueLength);
+        }
+
+        layoutNode(viewRoot, 0);
+    });
+}
@@ -110,6 +110,15 @@ export interface PieSeriesOption extends
 
     clockwise?: boolean
     startAngle?: number
+    /**
+     * End angle of the pie. 'auto' is a full circle from `startAngle`.
+     * For example, `startAngle: 180, endAngle: 0` is a semi-circle.
+     */
+    endAngle?: number | 'auto'
+    /**
+     * Angle of the gap between sectors.
+     */
+    padAngle?: number
     minAngle?: number
     minShowLabelAngle?: number
 
@@ -208,6 +217,8 @@ class PieSeriesModel extends SeriesModel<PieSeriesOption> {
         // 默认顺时针
         clockwise: true,
         startAngle: 90,
+        endAngle: 'auto',
+        padAngle: 0,
         // 最小角度改为0
         minAngle: 0,
 
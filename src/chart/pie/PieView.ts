@@ -33,7 +33,9 @@ import { setLabelLineStyle, getLabelLineStatesModels } from '../../label/labelGu
 import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
 import { getSectorCornerRadius } from '../helper/pieHelper';
 import { saveOldStyle } from '../../animation/basicTransition';
-import { getBasicPieLayout } from './pieLayout';
+import { getBasicPieLayout, getPieArc } from './pieLayout';
+
+const PI2 = Math.PI * 2;
 
 /**
  * Piece of pie including Sector, Label, LabelLine
@@ -261,7 +263,9 @@ class PieView extends ChartView {
         // when all data are filtered, show lightgray empty circle
         if (data.count() === 0 && seriesModel.get('showEmptyCircle')) {
             const sector = new graphic.Sector({
-                shape: getBasicPieLayout(seriesModel, api)
+                shape: extend(extend(getBasicPieLayout(seriesModel, api), getPieArc(seriesModel)), {
+                    clockwise: seriesModel.get('clockwise')
+                })
             });
             sector.useStyle(seriesModel.getModel('emptyCircleStyle').getItemStyle());
             this._emptyCircleSector = sector;
@@ -309,7 +313,18 @@ class PieView extends ChartView {
             const dx = point[0] - itemLayout.cx;
             const dy = point[1] - itemLayout.cy;
             const radius = Math.sqrt(dx * dx + dy * dy);
-            return radius <= itemLayout.r && radius >= itemLayout.r0;
+            if (radius > itemLayout.r || radius < itemLayout.r0) {
+                return false;
+            }
+            // The pie may be an arc.
+            const startAngle = data.getLayout('startAngle');
+            const sweepAngle = Math.abs(data.getLayout('endAngle') - startAngle);
+            if (sweepAngle >= PI2) {
+                return true;
+            }
+            const angle = Math.atan2(dy, dx);
+            const angleFromStart = (seriesModel.get('clockwise') ? angle - startAngle : startAngle - angle) % PI2;
+            return (angleFromStart + PI2) % PI2 <= sweepAngle;
         }
     }
 }
@@ -347,6 +347,7 @@ export default function pieLabelLayout(
     let cy;
     let hasLabelRotate = false;
     const minShowLabelRadian = (seriesModel.get('minShowLabelAngle') || 0) * RADIAN;
+    const hasPadAngle = seriesModel.get('padAngle') > 0;
 
     const viewRect = data.getLayout('viewRect') as RectLike;
     const r = data.getLayout('r') as number;
@@ -392,10 +393,17 @@ export default function pieLabelLayout(
         let labelLineLen2 = labelLineModel.get('length2');
         labelLineLen2 = parsePercent(labelLineLen2, viewWidth);
 
-        if (Math.abs(sectorShape.endAngle - sectorShape.startAngle) < minShowLabelRadian) {
+        const itemLayout = data.getItemLayout(idx) as Sector['shape'];
+        if (Math.abs(sectorShape.endAngle - sectorShape.startAngle) < minShowLabelRadian
+            // Sectors smaller than `padAngle` are collapsed and not visible.
+            || (hasPadAngle && itemLayout.startAngle === itemLayout.endAngle)
+        ) {
             each(label.states, setNotShow);
-            each(labelLine.states, setNotShow);
-            label.ignore = labelLine.ignore = true;
+            label.ignore = true;
+            if (labelLine) {
+                each(labelLine.states, setNotShow);
+                labelLine.ignore = true;
+            }
             return;
         }
 
@@ -24,11 +24,15 @@ import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import PieSeriesModel from './PieSeries';
 import { SectorShape } from 'zrender/src/graphic/shape/Sector';
+import SeriesModel from '../../model/Series';
+import { BoxLayoutOptionMixin, CircleLayoutOptionMixin, SeriesOption } from '../../util/types';
 
 const PI2 = Math.PI * 2;
 const RADIAN = Math.PI / 180;
 
-function getViewRect(seriesModel: PieSeriesModel, api: ExtensionAPI) {
+type CircleLayoutSeriesModel = SeriesModel<SeriesOption & CircleLayoutOptionMixin & BoxLayoutOptionMixin>;
+
+function getViewRect(seriesModel: CircleLayoutSeriesModel, api: ExtensionAPI) {
     return layout.getLayoutRect(
         seriesModel.getBoxLayoutParams(), {
             width: api.getWidth(),
@@ -37,7 +41,7 @@ function getViewRect(seriesModel: PieSeriesModel, api: ExtensionAPI) {
     );
 }
 
-export function getBasicPieLayout(seriesModel: PieSeriesModel, api: ExtensionAPI):
+export function getBasicPieLayout(seriesModel: CircleLayoutSeriesModel, api: ExtensionAPI):
     Pick<SectorShape, 'cx' | 'cy' | 'r' | 'r0'> {
     const viewRect = getViewRect(seriesModel, api);
 
@@ -65,6 +69,32 @@ export function getBasicPieLayout(seriesModel: PieSeriesModel, api: ExtensionAPI
     };
 }
 
+/**
+ * Get start and end angle of the whole pie in radian, where `endAngle`
+ * is after `startAngle` in the direction of `clockwise`.
+ */
+export function getPieArc(seriesModel: PieSeriesModel): { startAngle: number, endAngle: number } {
+    const startAngleOption = seriesModel.get('startAngle');
+    const endAngleOption = seriesModel.get('endAngle');
+    const dir = seriesModel.get('clockwise') ? 1 : -1;
+    const startAngle = -startAngleOption * RADIAN;
+
+    let sweepAngle = PI2;
+    if (endAngleOption != null && endAngleOption !== 'auto') {
+        // Angle in option is anticlockwise.
+        sweepAngle = ((startAngleOption - endAngleOption) * dir % 360 + 360) % 360 * RADIAN;
+        // Same start and end means a full circle.
+        if (!sweepAngle) {
+            sweepAngle = PI2;
+        }
+    }
+
+    return {
+        startAngle: startAngle,
+        endAngle: startAngle + dir * sweepAngle
+    };
+}
+
 export default function pieLayout(
     seriesType: 'pie',
     ecModel: GlobalModel,
@@ -77,9 +107,16 @@ export default function pieLayout(
 
         const { cx, cy, r, r0 } = getBasicPieLayout(seriesModel, api);
 
-        const startAngle = -seriesModel.get('startAngle') * RADIAN;
+        const { startAngle, endAngle: arcEndAngle } = getPieArc(seriesModel);
+        const totalAngle = Math.abs(arcEndAngle - startAngle);
+
+        const padAngle = (seriesModel.get('padAngle') || 0) * RADIAN;
+        const halfPadAngle = padAngle / 2;
 
         const minAngle = seriesModel.get('minAngle') * RADIAN;
+        // Padding is taken from the angle of each sector,
+        // so sectors reaching `minAngle` need extra space for it.
+        const minAndPadAngle = minAngle + padAngle;
 
         let validDataCount = 0;
         data.each(valueDim, function (value: number) {
@@ -88,7 +125,7 @@ export default function pieLayout(
 
         const sum = data.getSum(valueDim);
         // Sum may be 0
-        let unitRadian = Math.PI / (sum || validDataCount) * 2;
+        let unitRadian = totalAngle / (sum || validDataCount);
 
         const clockwise = seriesModel.get('clockwise');
 
@@ -100,13 +137,13 @@ export default function pieLayout(
         extent[0] = 0;
 
         // In the case some sector angle is smaller than minAngle
-        let restAngle = PI2;
+        let restAngle = totalAngle;
         let valueSumLargerThanMinAngle = 0;
 
         let currentAngle = startAngle;
         const dir = clockwise ? 1 : -1;
 
-        data.setLayout({ viewRect, r });
+        data.setLayout({ viewRect, r, startAngle, endAngle: arcEndAngle });
 
         data.each(valueDim, function (value: number, idx: number) {
             let angle;
@@ -132,22 +169,20 @@ export default function pieLayout(
                     ? unitRadian : (value * unitRadian);
             }
             else {
-                angle = PI2 / validDataCount;
+                angle = totalAngle / validDataCount;
             }
 
-            if (angle < minAngle) {
-                angle = minAngle;
-                restAngle -= minAngle;
+            if (angle < minAndPadAngle) {
+                angle = minAndPadAngle;
+                restAngle -= minAndPadAngle;
             }
             else {
                 valueSumLargerThanMinAngle += value;
             }
 
             const endAngle = currentAngle + dir * angle;
-            data.setItemLayout(idx, {
+            data.setItemLayout(idx, zrUtil.extend({
                 angle: angle,
-                startAngle: currentAngle,
-                endAngle: endAngle,
                 clockwise: clockwise,
                 cx: cx,
                 cy: cy,
@@ -155,24 +190,28 @@ export default function pieLayout(
                 r: roseType
                     ? linearMap(value, extent, [r0, r])
                     : r
-            });
+            }, padSectorAngles(currentAngle, endAngle, halfPadAngle, dir)));
 
             currentAngle = endAngle;
         });
 
         // Some sector is constrained by minAngle
         // Rest sectors needs recalculate angle
-        if (restAngle < PI2 && validDataCount) {
+        if (restAngle < totalAngle && validDataCount) {
             // Average the angle if rest angle is not enough after all angles is
             // Constrained by minAngle
             if (restAngle <= 1e-3) {
-                const angle = PI2 / validDataCount;
+                const angle = totalAngle / validDataCount;
                 data.each(valueDim, function (value: number, idx: number) {
                     if (!isNaN(value)) {
                         const layout = data.getItemLayout(idx);
                         layout.angle = angle;
-                        layout.startAngle = startAngle + dir * idx * angle;
-                        layout.endAngle = startAngle + dir * (idx + 1) * angle;
+                        zrUtil.extend(layout, padSectorAngles(
+                            startAngle + dir * idx * angle,
+                            startAngle + dir * (idx + 1) * angle,
+                            halfPadAngle,
+                            dir
+                        ));
                     }
                 });
             }
@@ -182,10 +221,11 @@ export default function pieLayout(
                 data.each(valueDim, function (value: number, idx: number) {
                     if (!isNaN(value)) {
                         const layout = data.getItemLayout(idx);
-                        const angle = layout.angle === minAngle
-                            ? minAngle : value * unitRadian;
-                        layout.startAngle = currentAngle;
-                        layout.endAngle = currentAngle + dir * angle;
+                        const angle = layout.angle === minAndPadAngle
+                            ? minAndPadAngle : value * unitRadian;
+                        zrUtil.extend(layout, padSectorAngles(
+                            currentAngle, currentAngle + dir * angle, halfPadAngle, dir
+                        ));
                         currentAngle += dir * angle;
                     }
                 });
@@ -193,3 +233,26 @@ export default function pieLayout(
         }
     });
 }
+
+/**
+ * Shrink the sector by `halfPadAngle` on both sides.
+ * Sectors smaller than the padding are collapsed to the middle.
+ */
+function padSectorAngles(
+    startAngle: number,
+    endAngle: number,
+    halfPadAngle: number,
+    dir: 1 | -1
+): Pick<SectorShape, 'startAngle' | 'endAngle'> {
+    if (Math.abs(endAngle - startAngle) <= halfPadAngle * 2) {
+        const midAngle = (startAngle + endAngle) / 2;
+        return {
+            startAngle: midAngle,
+            endAngle: midAngle
+        };
+    }
+    return {
+        startAngle: startAngle + dir * halfPadAngle,
+        endAngle: endAngle - dir * halfPadAngle
+    };
+}
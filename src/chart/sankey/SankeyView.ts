@@ -46,6 +46,11 @@ class SankeyPathShape {
 
     extent = 0;
     orient: LayoutOrient;
+
+    // Circular edge is routed around the diagram, through the channel below it.
+    circular = false;
+    channel = 0;
+    legGap = 0;
 }
 
 interface SankeyPathProps extends PathProps {
@@ -65,6 +70,10 @@ class SankeyPath extends graphic.Path<SankeyPathProps> {
 
     buildPath(ctx: CanvasRenderingContext2D, shape: SankeyPathShape) {
         const extent = shape.extent;
+        if (shape.circular) {
+            buildCircularPath(ctx, shape);
+            return;
+        }
         ctx.moveTo(shape.x1, shape.y1);
         ctx.bezierCurveTo(
             shape.cpx1, shape.cpy1,
@@ -99,6 +108,30 @@ class SankeyPath extends graphic.Path<SankeyPathProps> {
     }
 }
 
+function buildCircularPath(ctx: CanvasRenderingContext2D, shape: SankeyPathShape) {
+    const isVertical = shape.orient === 'vertical';
+    // Use coordinates along (breadth, depth), where nodes of a depth are in the same column.
+    const b1 = isVertical ? shape.y1 : shape.x1;
+    const d1 = isVertical ? shape.x1 : shape.y1;
+    const b2 = isVertical ? shape.y2 : shape.x2;
+    const d2 = isVertical ? shape.x2 : shape.y2;
+    const w = shape.extent;
+    const channel = shape.channel;
+    const gap = shape.legGap;
+    const points = [
+        [b1, d1], [b1 + gap + w, d1], [b1 + gap + w, channel + w],
+        [b2 - gap - w, channel + w], [b2 - gap - w, d2], [b2, d2],
+        [b2, d2 + w], [b2 - gap, d2 + w], [b2 - gap, channel],
+        [b1 + gap, channel], [b1 + gap, d1 + w], [b1, d1 + w]
+    ];
+    for (let i = 0; i < points.length; i++) {
+        const x = isVertical ? points[i][1] : points[i][0];
+        const y = isVertical ? points[i][0] : points[i][1];
+        i ? ctx.lineTo(x, y) : ctx.moveTo(x, y);
+    }
+    ctx.closePath();
+}
+
 class SankeyView extends ChartView {
 
     static readonly type = 'sankey';
@@ -160,6 +193,9 @@ class SankeyView extends ChartView {
 
             curve.shape.extent = Math.max(1, edgeLayout.dy);
             curve.shape.orient = orient;
+            curve.shape.circular = !!edgeLayout.circular;
+            curve.shape.channel = edgeLayout.channel;
+            curve.shape.legGap = edgeLayout.legGap;
 
             if (orient === 'vertical') {
                 x1 = (dragX1 != null ? dragX1 * width : n1Layout.x) + edgeLayout.sy;
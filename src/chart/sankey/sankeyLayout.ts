@@ -47,6 +47,8 @@ export default function sankeyLayout(ecModel: GlobalModel, api: ExtensionAPI) {
 
         computeNodeValues(nodes);
 
+        markCircularEdges(nodes, edges);
+
         const filteredNodes = zrUtil.filter(nodes, function (node) {
             return node.getLayout().value === 0;
         });
@@ -87,6 +89,67 @@ function layoutSankey(
     computeNodeBreadths(nodes, edges, nodeWidth, width, height, orient, nodeAlign);
     computeNodeDepths(nodes, edges, height, width, nodeGap, iterations, orient);
     computeEdgeDepths(nodes, orient);
+    computeCircularEdges(nodes, edges, height, width, nodeGap, orient);
+}
+
+/**
+ * Detect cycles by depth-first search, and mark the back edges as circular,
+ * which are routed around the diagram and ignored when computing node positions.
+ */
+function markCircularEdges(nodes: GraphNode[], edges: GraphEdge[]) {
+    // 1: in the search path, 2: finished.
+    const nodeStates: number[] = [];
+
+    zrUtil.each(edges, function (edge) {
+        edge.setLayout({circular: false}, true);
+    });
+
+    // Use an explicit stack rather than recursion, which may overflow on a long chain.
+    function visit(startNode: GraphNode) {
+        const stack: GraphNode[] = [startNode];
+        // Index of the next out edge to visit of each node in the stack.
+        const edgeCursors: number[] = [0];
+        nodeStates[startNode.dataIndex] = 1;
+
+        while (stack.length) {
+            const top = stack.length - 1;
+            const node = stack[top];
+            const edge = node.outEdges[edgeCursors[top]++];
+            if (!edge) {
+                nodeStates[node.dataIndex] = 2;
+                stack.pop();
+                edgeCursors.pop();
+                continue;
+            }
+            const targetState = nodeStates[edge.node2.dataIndex];
+            if (targetState === 1) {
+                edge.setLayout({circular: true}, true);
+            }
+            else if (!targetState) {
+                nodeStates[edge.node2.dataIndex] = 1;
+                stack.push(edge.node2);
+                edgeCursors.push(0);
+            }
+        }
+    }
+
+    // Start from sources, so that the main flow keeps from left to right.
+    zrUtil.each(nodes, function (node) {
+        !node.inEdges.length && !nodeStates[node.dataIndex] && visit(node);
+    });
+    zrUtil.each(nodes, function (node) {
+        !nodeStates[node.dataIndex] && visit(node);
+    });
+}
+
+function isCircularEdge(edge: GraphEdge): boolean {
+    return edge.getLayout().circular;
+}
+
+function getForwardEdges(edges: GraphEdge[]): GraphEdge[] {
+    return zrUtil.filter(edges, function (edge) {
+        return !isCircularEdge(edge);
+    });
 }
 
 /**
@@ -105,8 +168,8 @@ function computeNodeValues(nodes: GraphNode[]) {
 /**
  * Compute the x-position for each node.
  *
- * Here we use Kahn algorithm to detect cycle when we traverse
- * the node to computer the initial x position.
+ * Here we use Kahn algorithm to traverse the node to computer the
+ * initial x position, where circular edges are ignored.
  */
 function computeNodeBreadths(
     nodes: GraphNode[],
@@ -132,7 +195,7 @@ function computeNodeBreadths(
         remainEdges[i] = 1;
     }
     for (let i = 0; i < nodes.length; i++) {
-        indegreeArr[i] = nodes[i].inEdges.length;
+        indegreeArr[i] = getForwardEdges(nodes[i].inEdges).length;
         if (indegreeArr[i] === 0) {
             zeroIndegrees.push(nodes[i]);
         }
@@ -154,8 +217,9 @@ function computeNodeBreadths(
                 ? node.setLayout({dy: nodeWidth}, true)
                 : node.setLayout({dx: nodeWidth}, true);
 
-            for (let edgeIdx = 0; edgeIdx < node.outEdges.length; edgeIdx++) {
-                const edge = node.outEdges[edgeIdx];
+            const outEdges = getForwardEdges(node.outEdges);
+            for (let edgeIdx = 0; edgeIdx < outEdges.length; edgeIdx++) {
+                const edge = outEdges[edgeIdx];
                 const indexEdge = edges.indexOf(edge);
                 remainEdges[indexEdge] = 0;
                 const targetNode = edge.node2;
@@ -171,7 +235,7 @@ function computeNodeBreadths(
     }
 
     for (let i = 0; i < remainEdges.length; i++) {
-        if (remainEdges[i] === 1) {
+        if (remainEdges[i] === 1 && !isCircularEdge(edges[i])) {
             throw new Error('Sankey is a DAG, the original data has cycle!');
         }
     }
@@ -206,8 +270,9 @@ function adjustNodeWithNodeAlign(
             for (let i = 0; i < remainNodes.length; i++) {
                 const node = remainNodes[i];
                 node.setLayout({skNodeHeight: nodeHeight}, true);
-                for (let j = 0; j < node.inEdges.length; j++) {
-                    const edge = node.inEdges[j];
+                const inEdges = getForwardEdges(node.inEdges);
+                for (let j = 0; j < inEdges.length; j++) {
+                    const edge = inEdges[j];
                     if (nextSourceNode.indexOf(edge.node1) < 0) {
                         nextSourceNode.push(edge.node1);
                     }
@@ -238,7 +303,7 @@ function adjustNodeWithNodeAlign(
  */
 function moveSinksRight(nodes: GraphNode[], maxDepth: number) {
     zrUtil.each(nodes, function (node) {
-        if (!isNodeDepth(node) && !node.outEdges.length) {
+        if (!isNodeDepth(node) && !getForwardEdges(node.outEdges).length) {
             node.setLayout({depth: maxDepth}, true);
         }
     });
@@ -427,13 +492,14 @@ function relaxRightToLeft(
 ) {
     zrUtil.each(nodesByBreadth.slice().reverse(), function (nodes) {
         zrUtil.each(nodes, function (node) {
-            if (node.outEdges.length) {
-                let y = sum(node.outEdges, weightedTarget, orient)
-                    / sum(node.outEdges, getEdgeValue);
+            const outEdges = getForwardEdges(node.outEdges);
+            if (outEdges.length) {
+                let y = sum(outEdges, weightedTarget, orient)
+                    / sum(outEdges, getEdgeValue);
 
                 if (isNaN(y)) {
-                    const len = node.outEdges.length;
-                    y = len ? sum(node.outEdges, centerTarget, orient) / len : 0;
+                    const len = outEdges.length;
+                    y = len ? sum(outEdges, centerTarget, orient) / len : 0;
                 }
 
                 if (orient === 'vertical') {
@@ -492,13 +558,14 @@ function sum<T>(array: T[], cb: (item: T, orient?: LayoutOrient) => number, orie
 function relaxLeftToRight(nodesByBreadth: GraphNode[][], alpha: number, orient: LayoutOrient) {
     zrUtil.each(nodesByBreadth, function (nodes) {
         zrUtil.each(nodes, function (node) {
-            if (node.inEdges.length) {
-                let y = sum(node.inEdges, weightedSource, orient)
-                        / sum(node.inEdges, getEdgeValue);
+            const inEdges = getForwardEdges(node.inEdges);
+            if (inEdges.length) {
+                let y = sum(inEdges, weightedSource, orient)
+                        / sum(inEdges, getEdgeValue);
 
                 if (isNaN(y)) {
-                    const len = node.inEdges.length;
-                    y = len ? sum(node.inEdges, centerSource, orient) / len : 0;
+                    const len = inEdges.length;
+                    y = len ? sum(inEdges, centerSource, orient) / len : 0;
                 }
 
                 if (orient === 'vertical') {
@@ -520,11 +587,14 @@ function relaxLeftToRight(nodesByBreadth: GraphNode[][], alpha: number, orient:
 function computeEdgeDepths(nodes: GraphNode[], orient: LayoutOrient) {
     const keyAttr = orient === 'vertical' ? 'x' : 'y';
     zrUtil.each(nodes, function (node) {
+        // Circular edges are put in the end, which are routed below the diagram.
         node.outEdges.sort(function (a, b) {
-            return a.node2.getLayout()[keyAttr] - b.node2.getLayout()[keyAttr];
+            return (+isCircularEdge(a) - +isCircularEdge(b))
+                || a.node2.getLayout()[keyAttr] - b.node2.getLayout()[keyAttr];
         });
         node.inEdges.sort(function (a, b) {
-            return a.node1.getLayout()[keyAttr] - b.node1.getLayout()[keyAttr];
+            return (+isCircularEdge(a) - +isCircularEdge(b))
+                || a.node1.getLayout()[keyAttr] - b.node1.getLayout()[keyAttr];
         });
     });
     zrUtil.each(nodes, function (node) {
@@ -539,4 +609,66 @@ function computeEdgeDepths(nodes: GraphNode[], orient: LayoutOrient) {
             ty += edge.getLayout().dy;
         });
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Shrink the diagram to leave space for circular edges, and assign each circular
+ * edge a channel below the diagram. The inner channels are for the edges with
+ * shorter span so that the edges cross less.
+ */
+function computeCircularEdges(
+    nodes: GraphNode[],
+    edges: GraphEdge[],
+    height: number,
+    width: number,
+    nodeGap: number,
+    orient: LayoutOrient
+) {
+    const circularEdges = zrUtil.filter(edges, isCircularEdge);
+    if (!circularEdges.length) {
+        return;
+    }
+    const viewWidth = orient === 'vertical' ? width : height;
+
+    const circularWidth = sum(circularEdges, function (edge) {
+        return edge.getLayout().dy;
+    });
+    const scale = Math.max(0, viewWidth - nodeGap * circularEdges.length) / (viewWidth + circularWidth);
+
+    zrUtil.each(nodes, function (node) {
+        const layout = node.getLayout();
+        orient === 'vertical'
+            ? node.setLayout({x: layout.x * scale, dx: layout.dx * scale}, true)
+            : node.setLayout({y: layout.y * scale, dy: layout.dy * scale}, true);
+    });
+    zrUtil.each(edges, function (edge) {
+        const layout = edge.getLayout();
+        edge.setLayout({
+            dy: layout.dy * scale,
+            sy: layout.sy * scale,
+            ty: layout.ty * scale
+        }, true);
+    });
+
+    circularEdges.sort(function (a, b) {
+        return getEdgeSpan(a) - getEdgeSpan(b);
+    });
+
+    let channel = viewWidth * scale;
+    let legGap = 0;
+    zrUtil.each(circularEdges, function (edge) {
+        const edgeDy = edge.getLayout().dy;
+        channel += nodeGap;
+        legGap += nodeGap / 2;
+        edge.setLayout({
+            channel: channel,
+            legGap: legGap
+        }, true);
+        channel += edgeDy;
+        legGap += edgeDy;
+    });
+}
+
+function getEdgeSpan(edge: GraphEdge) {
+    return edge.node1.getLayout().depth - edge.node2.getLayout().depth;
+}
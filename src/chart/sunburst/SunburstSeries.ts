@@ -315,7 +315,7 @@ class SunburstSeriesModel extends SeriesModel<SunburstSeriesOption> {
 
 
 
-function completeTreeValue(dataNode: SunburstSeriesNodeItemOption) {
+export function completeTreeValue(dataNode: SunburstSeriesNodeItemOption) {
     // Postorder travel tree.
     // If value of none-leaf node is not set,
     // calculate it by suming up the value of all children.
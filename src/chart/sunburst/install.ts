@@ -31,6 +31,6 @@ export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerSeriesModel(SunburstSeriesModel);
     registers.registerLayout(curry(sunburstLayout, 'sunburst'));
     registers.registerProcessor(curry(dataFilter, 'sunburst'));
-    registers.registerVisual(sunburstVisual);
+    registers.registerVisual(curry(sunburstVisual, 'sunburst'));
     installSunburstAction(registers);
 }
\ No newline at end of file
@@ -22,16 +22,20 @@
  */
 
 import SunburstSeriesModel from './SunburstSeries';
+import type IcicleSeriesModel from '../icicle/IcicleSeries';
 import { Payload } from '../../util/types';
 import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
-import { extend } from 'zrender/src/core/util';
+import { each, extend } from 'zrender/src/core/util';
 import { deprecateReplaceLog } from '../../util/log';
 import { EChartsExtensionInstallRegisters } from '../../extension';
 import { retrieveTargetInfo, aboveViewRoot } from '../helper/treeHelper';
 
 export const ROOT_TO_NODE_ACTION = 'sunburstRootToNode';
 
+// Icicle series shares the drill-down action with sunburst.
+const ROOT_TO_NODE_SERIES_TYPES = ['sunburst', 'icicle'];
+
 interface SunburstRootToNodePayload extends Payload {}
 
 
@@ -49,12 +53,14 @@ export function installSunburstAction(registers: EChartsExtensionInstallRegister
         {type: ROOT_TO_NODE_ACTION, update: 'updateView'},
         function (payload: SunburstRootToNodePayload, ecModel: GlobalModel) {
 
-            ecModel.eachComponent(
-                {mainType: 'series', subType: 'sunburst', query: payload},
-                handleRootToNode
-            );
+            each(ROOT_TO_NODE_SERIES_TYPES, function (subType) {
+                ecModel.eachComponent(
+                    {mainType: 'series', subType: subType, query: payload},
+                    handleRootToNode
+                );
+            });
 
-            function handleRootToNode(model: SunburstSeriesModel, index: number) {
+            function handleRootToNode(model: SunburstSeriesModel | IcicleSeriesModel, index: number) {
                 const targetInfo = retrieveTargetInfo(payload, [ROOT_TO_NODE_ACTION], model);
 
                 if (targetInfo) {
@@ -184,7 +184,7 @@ export default function sunburstLayout(
 /**
  * Init node children by order and update visual
  */
-function initChildren(node: TreeNode, sortOrder?: SunburstSeriesOption['sort']) {
+export function initChildren(node: TreeNode, sortOrder?: SunburstSeriesOption['sort']) {
     const children = node.children || [];
 
     node.children = sort(children, sortOrder);
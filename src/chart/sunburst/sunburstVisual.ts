@@ -20,16 +20,20 @@
 import { lift } from 'zrender/src/tool/color';
 import { extend, isString } from 'zrender/src/core/util';
 import GlobalModel from '../../model/Global';
-import SunburstSeriesModel, { SunburstSeriesNodeItemOption } from './SunburstSeries';
+import { SunburstSeriesNodeItemOption } from './SunburstSeries';
+import SeriesModel from '../../model/Series';
 import { Dictionary, ColorString } from '../../util/types';
 import { TreeNode } from '../../data/Tree';
 
-export default function sunburstVisual(ecModel: GlobalModel) {
+/**
+ * Also used by icicle series.
+ */
+export default function sunburstVisual(seriesType: 'sunburst' | 'icicle', ecModel: GlobalModel) {
 
     const paletteScope: Dictionary<ColorString> = {};
 
     // Default color strategy
-    function pickColor(node: TreeNode, seriesModel: SunburstSeriesModel, treeHeight: number) {
+    function pickColor(node: TreeNode, seriesModel: SeriesModel, treeHeight: number) {
         // Choose color from palette based on the first level.
         let current = node;
         while (current && current.depth > 1) {
@@ -43,7 +47,7 @@ export default function sunburstVisual(ecModel: GlobalModel) {
         return color;
     }
 
-    ecModel.eachSeriesByType('sunburst', function (seriesModel: SunburstSeriesModel) {
+    ecModel.eachSeriesByType(seriesType, function (seriesModel: SeriesModel) {
         const data = seriesModel.getData();
         const tree = data.tree;
 
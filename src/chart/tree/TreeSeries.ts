@@ -87,6 +87,33 @@ export interface TreeSeriesOption extends
 
     layout?: 'orthogonal' | 'radial'
 
+    /**
+     * If align all the leaves on the deepest level, which is known as dendrogram or cluster layout.
+     */
+    dendrogram?: boolean
+
+    /**
+     * If reorder the children in layout to reduce the edges crossing the subtrees of siblings.
+     * It's only available in dendrogram, where the edges may span several levels.
+     * Edges of the tidy tree only link the adjacent levels and never cross.
+     * The order of data is not changed.
+     */
+    minimizeCrossing?: boolean
+
+    /**
+     * How the space between adjacent nodes on the same level is decided.
+     * 'uniform': the nodes are spread evenly to fill the view.
+     * 'label': the space is decided by the size of the symbol and label of each node,
+     * so that labels are not overlapped. It's only available in orthogonal layout.
+     */
+    nodeSpacing?: 'uniform' | 'label'
+
+    /**
+     * Gap in pixels between the adjacent nodes when `nodeSpacing` is 'label'.
+     * It's doubled between the nodes of different parents.
+     */
+    nodeGap?: number
+
     edgeShape?: 'polyline' | 'curve'
 
     /**
@@ -260,6 +287,14 @@ class TreeSeriesModel extends SeriesModel<TreeSeriesOption> {
         // the layout of the tree, two value can be selected, 'orthogonal' or 'radial'
         layout: 'orthogonal',
 
+        dendrogram: false,
+
+        minimizeCrossing: false,
+
+        nodeSpacing: 'uniform',
+
+        nodeGap: 10,
+
         // value can be 'polyline'
         edgeShape: 'curve',
 
@@ -37,6 +37,7 @@ import * as layout from '../../util/layout';
 import { TreeNode } from '../../data/Tree';
 import TreeSeriesModel from './TreeSeries';
 import ExtensionAPI from '../../core/ExtensionAPI';
+import { eachAfter, eachBefore } from './traversalHelper';
 
 interface HierNode {
     defaultAncestor: TreeLayoutNode,
@@ -149,6 +150,100 @@ export function secondWalk(node: TreeLayoutNode) {
 }
 
 
+/**
+ * Layout of the dendrogram (also known as cluster layout). Leaves are placed in order
+ * with the given separation and each parent is placed at the mean of its children.
+ * Different from the tidy tree, all the leaves are aligned on the deepest level.
+ *
+ * If `minimizeCrossing`, the children are reordered for layout, see `orderChildrenByHeight`.
+ *
+ * Returns the level of each visible node, indexed by data index.
+ */
+export function clusterWalk(
+    root: TreeLayoutNode,
+    separation: SeparationFunc,
+    minimizeCrossing?: boolean
+): number[] {
+    // Height of the visible subtree.
+    const heights: number[] = [];
+    const levels: number[] = [];
+
+    eachAfter(root, function (node: TreeLayoutNode) {
+        const children = node.isExpand ? node.children : [];
+        let height = 0;
+        for (let i = 0; i < children.length; i++) {
+            height = Math.max(height, heights[children[i].dataIndex] + 1);
+        }
+        heights[node.dataIndex] = height;
+    }, null);
+
+    // Place the leaves in the order of depth-first traversal.
+    const stack = [root];
+    let previousLeaf: TreeLayoutNode = null;
+    let leafX = 0;
+    let node;
+    while (node = stack.pop()) { // jshint ignore:line
+        let children = node.isExpand ? node.children : [];
+        if (children.length) {
+            children = minimizeCrossing ? orderChildrenByHeight(children, heights) : children;
+            for (let i = children.length - 1; i >= 0; i--) {
+                stack.push(children[i]);
+            }
+        }
+        else {
+            leafX = previousLeaf ? leafX + separation(previousLeaf, node) : 0;
+            previousLeaf = node;
+            node.setLayout({x: leafX}, true);
+        }
+    }
+
+    eachAfter(root, function (node: TreeLayoutNode) {
+        const children = node.isExpand ? node.children : [];
+        if (children.length) {
+            let sumX = 0;
+            for (let i = 0; i < children.length; i++) {
+                sumX += children[i].getLayout().x;
+            }
+            node.setLayout({x: sumX / children.length}, true);
+        }
+    }, null);
+
+    const rootHeight = heights[root.dataIndex];
+    eachBefore(root, function (node) {
+        levels[node.dataIndex] = rootHeight - heights[node.dataIndex];
+    });
+
+    return levels;
+}
+
+/**
+ * In dendrogram, the edge to a child of lower subtree reaches a deeper level, and it
+ * crosses the subtrees of the siblings between the child and the parent. So the children
+ * are grouped by the height of their subtrees, and each group is split to the two sides
+ * from the highest one, which leaves the lowest ones in the middle near the parent.
+ * The original order is kept in each group, so nothing changes if all the children
+ * are of the same height.
+ */
+function orderChildrenByHeight(children: TreeLayoutNode[], heights: number[]): TreeLayoutNode[] {
+    const groups: TreeLayoutNode[][] = [];
+    for (let i = 0; i < children.length; i++) {
+        const height = heights[children[i].dataIndex];
+        (groups[height] || (groups[height] = [])).push(children[i]);
+    }
+    let left: TreeLayoutNode[] = [];
+    let right: TreeLayoutNode[] = [];
+    for (let height = groups.length - 1; height >= 0; height--) {
+        const group = groups[height];
+        if (group) {
+            const half = Math.ceil(group.length / 2);
+            left = left.concat(group.slice(0, half));
+            right = group.slice(half).concat(right);
+        }
+    }
+    return left.concat(right);
+}
+
+
 export function separation(cb?: SeparationFunc) {
     return arguments.length ? cb : defaultSeparation;
 }
@@ -25,14 +25,18 @@ import {
     init,
     firstWalk,
     secondWalk,
+    clusterWalk,
     separation as sep,
     radialCoordinate,
     getViewRect,
     TreeLayoutNode
 } from './layoutHelper';
 import GlobalModel from '../../model/Global';
+import { TreeNode } from '../../data/Tree';
 import ExtensionAPI from '../../core/ExtensionAPI';
-import TreeSeriesModel from './TreeSeries';
+import TreeSeriesModel, { TreeSeriesNodeItemOption } from './TreeSeries';
+import { isFunction } from 'zrender/src/core/util';
+import { normalizeSymbolSize } from '../../util/symbol';
 
 export default function treeLayout(ecModel: GlobalModel, api: ExtensionAPI) {
     ecModel.eachSeriesByType('tree', function (seriesModel: TreeSeriesModel) {
@@ -44,6 +48,10 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
     const layoutInfo = getViewRect(seriesModel, api);
     seriesModel.layoutInfo = layoutInfo;
     const layout = seriesModel.get('layout');
+    const orient = seriesModel.getOrient();
+    const isBreadthVertical = orient === 'RL' || orient === 'LR';
+    // Spacing by label is not supported in radial layout, where the space is angular.
+    const isLabelSpacing = layout !== 'radial' && seriesModel.get('nodeSpacing') === 'label';
     let width = 0;
     let height = 0;
     let separation = null;
@@ -55,6 +63,16 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
             return (node1.parentNode === node2.parentNode ? 1 : 2) / node1.depth;
         });
     }
+    else if (isLabelSpacing) {
+        width = layoutInfo.width;
+        height = layoutInfo.height;
+        const nodeSizes = getNodeBreadthSizes(seriesModel, isBreadthVertical);
+        const nodeGap = seriesModel.get('nodeGap');
+        separation = sep(function (node1, node2) {
+            return (nodeSizes[node1.dataIndex] + nodeSizes[node2.dataIndex]) / 2
+                + nodeGap * (node1.parentNode === node2.parentNode ? 1 : 2);
+        });
+    }
     else {
         width = layoutInfo.width;
         height = layoutInfo.height;
@@ -65,14 +83,22 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
     const realRoot = virtualRoot.children[0];
 
     if (realRoot) {
-        init(virtualRoot);
-        eachAfter(realRoot, firstWalk, separation);
-        virtualRoot.hierNode.modifier = -realRoot.hierNode.prelim;
-        eachBefore(realRoot, secondWalk);
+        let levels: number[];
+        if (seriesModel.get('dendrogram')) {
+            levels = clusterWalk(realRoot, separation, seriesModel.get('minimizeCrossing'));
+        }
+        else {
+            init(virtualRoot);
+            eachAfter(realRoot, firstWalk, separation);
+            virtualRoot.hierNode.modifier = -realRoot.hierNode.prelim;
+            eachBefore(realRoot, secondWalk);
+        }
+        // here we use (node.depth - 1), bucause the real root's depth is 1
+        const getLevel = (node: TreeNode) => (levels ? levels[node.dataIndex] : node.depth - 1);
 
         let left = realRoot;
         let right = realRoot;
-        let bottom = realRoot;
+        let bottomLevel = 0;
         eachBefore(realRoot, function (node: TreeLayoutNode) {
             const x = node.getLayout().x;
             if (x < left.getLayout().x) {
@@ -81,52 +107,88 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
             if (x > right.getLayout().x) {
                 right = node;
             }
-            if (node.depth > bottom.depth) {
-                bottom = node;
-            }
+            bottomLevel = Math.max(bottomLevel, getLevel(node));
         });
 
         const delta = left === right ? 1 : separation(left, right) / 2;
         const tx = delta - left.getLayout().x;
+        const breadthExtent = right.getLayout().x + delta + tx;
         let kx = 0;
         let ky = 0;
         let coorX = 0;
         let coorY = 0;
         if (layout === 'radial') {
-            kx = width / (right.getLayout().x + delta + tx);
-            // here we use (node.depth - 1), bucause the real root's depth is 1
-            ky = height / ((bottom.depth - 1) || 1);
+            kx = width / breadthExtent;
+            ky = height / (bottomLevel || 1);
             eachBefore(realRoot, function (node) {
                 coorX = (node.getLayout().x + tx) * kx;
-                coorY = (node.depth - 1) * ky;
+                coorY = getLevel(node) * ky;
                 const finalCoor = radialCoordinate(coorX, coorY);
                 node.setLayout({x: finalCoor.x, y: finalCoor.y, rawX: coorX, rawY: coorY}, true);
             });
         }
         else {
-            const orient = seriesModel.getOrient();
-            if (orient === 'RL' || orient === 'LR') {
-                ky = height / (right.getLayout().x + delta + tx);
-                kx = width / ((bottom.depth - 1) || 1);
+            const breadth = isBreadthVertical ? height : width;
+            // Separation in label spacing is in pixels, so only shrink the tree if it can't be
+            // put in the view, and center it otherwise.
+            const kBreadth = isLabelSpacing
+                ? Math.min(1, breadth / breadthExtent)
+                : breadth / breadthExtent;
+            const offset = isLabelSpacing ? (breadth - breadthExtent * kBreadth) / 2 : 0;
+            if (isBreadthVertical) {
+                kx = width / (bottomLevel || 1);
                 eachBefore(realRoot, function (node) {
-                    coorY = (node.getLayout().x + tx) * ky;
+                    coorY = (node.getLayout().x + tx) * kBreadth + offset;
                     coorX = orient === 'LR'
-                        ? (node.depth - 1) * kx
-                        : width - (node.depth - 1) * kx;
+                        ? getLevel(node) * kx
+                        : width - getLevel(node) * kx;
                     node.setLayout({x: coorX, y: coorY}, true);
                 });
             }
             else if (orient === 'TB' || orient === 'BT') {
-                kx = width / (right.getLayout().x + delta + tx);
-                ky = height / ((bottom.depth - 1) || 1);
+                ky = height / (bottomLevel || 1);
                 eachBefore(realRoot, function (node) {
-                    coorX = (node.getLayout().x + tx) * kx;
+                    coorX = (node.getLayout().x + tx) * kBreadth + offset;
                     coorY = orient === 'TB'
-                        ? (node.depth - 1) * ky
-                        : height - (node.depth - 1) * ky;
+                        ? getLevel(node) * ky
+                        : height - getLevel(node) * ky;
                     node.setLayout({x: coorX, y: coorY}, true);
                 });
             }
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Get the size of each node along the breadth direction of the tree,
+ * which covers both the symbol and the label.
+ */
+function getNodeBreadthSizes(seriesModel: TreeSeriesModel, isBreadthVertical: boolean): number[] {
+    const data = seriesModel.getData();
+    const sizes: number[] = [];
+
+    data.each(function (idx) {
+        const itemModel = data.getItemModel<TreeSeriesNodeItemOption>(idx);
+        let symbolSize = itemModel.get('symbolSize');
+        if (isFunction(symbolSize)) {
+            symbolSize = symbolSize(seriesModel.getRawValue(idx), seriesModel.getDataParams(idx));
+        }
+        let size = normalizeSymbolSize(symbolSize)[isBreadthVertical ? 1 : 0];
+
+        const labelModel = itemModel.getModel('label');
+        if (labelModel.get('show')) {
+            const text = seriesModel.getFormattedLabel(idx, 'normal') || data.getName(idx);
+            const rect = labelModel.getTextRect(text + '');
+            const rotate = (labelModel.get('rotate') || 0) * Math.PI / 180;
+            const cos = Math.abs(Math.cos(rotate));
+            const sin = Math.abs(Math.sin(rotate));
+            size = Math.max(size, isBreadthVertical
+                ? rect.width * sin + rect.height * cos
+                : rect.width * cos + rect.height * sin
+            );
+        }
+        sizes[idx] = size;
+    });
+
+    return sizes;
+}
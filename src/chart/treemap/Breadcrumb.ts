@@ -21,11 +21,12 @@ import * as graphic from '../../util/graphic';
 import {getECData} from '../../util/innerStore';
 import * as layout from '../../util/layout';
 import {wrapTreePathInfo} from '../helper/treeHelper';
-import TreemapSeriesModel, { TreemapSeriesNodeItemOption, TreemapSeriesOption } from './TreemapSeries';
+import { TreemapSeriesNodeItemOption, TreemapSeriesOption } from './TreemapSeries';
+import SeriesModel from '../../model/Series';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import { TreeNode } from '../../data/Tree';
 import { curry, defaults } from 'zrender/src/core/util';
-import { ZRElementEvent, BoxLayoutOptionMixin, ECElement } from '../../util/types';
+import { ZRElementEvent, BoxLayoutOptionMixin, ECElement, SeriesOption } from '../../util/types';
 import Element from 'zrender/src/Element';
 import Model from '../../model/Model';
 import { convertOptionIdName } from '../../util/model';
@@ -55,6 +56,11 @@ interface LayoutParam {
     }[]
 }
 
+/**
+ * Series of tree data which navigates with breadcrumb, like treemap and circlePacking.
+ */
+type BreadcrumbHostSeriesModel = SeriesModel<SeriesOption & Pick<TreemapSeriesOption, 'breadcrumb'>>;
+
 type BreadcrumbItemStyleModel = Model<TreemapSeriesOption['breadcrumb']['itemStyle']>;
 type BreadcrumbEmphasisItemStyleModel = Model<TreemapSeriesOption['breadcrumb']['emphasis']>;
 type BreadcrumbTextStyleModel = Model<TreemapSeriesOption['breadcrumb']['itemStyle']['textStyle']>;
@@ -68,7 +74,7 @@ class Breadcrumb {
     }
 
     render(
-        seriesModel: TreemapSeriesModel,
+        seriesModel: BreadcrumbHostSeriesModel,
         api: ExtensionAPI,
         targetNode: TreeNode,
         onSelect: OnSelectCallback
@@ -137,7 +143,7 @@ class Breadcrumb {
      * @private
      */
     _renderContent(
-        seriesModel: TreemapSeriesModel,
+        seriesModel: BreadcrumbHostSeriesModel,
         layoutParam: LayoutParam,
         normalStyleModel: BreadcrumbItemStyleModel,
         emphasisModel: BreadcrumbEmphasisItemStyleModel,
@@ -221,14 +227,14 @@ function makeItemPoints(x: number, y: number, itemWidth: number, itemHeight: num
 }
 
 // Package custom mouse event.
-function packEventData(el: Element, seriesModel: TreemapSeriesModel, itemNode: TreeNode) {
+function packEventData(el: Element, seriesModel: BreadcrumbHostSeriesModel, itemNode: TreeNode) {
     getECData(el).eventData = {
         componentType: 'series',
-        componentSubType: 'treemap',
+        componentSubType: seriesModel.subType,
         componentIndex: seriesModel.componentIndex,
         seriesIndex: seriesModel.seriesIndex,
         seriesName: seriesModel.name,
-        seriesType: 'treemap',
+        seriesType: seriesModel.subType,
         selfType: 'breadcrumb', // Distinguish with click event on treemap node.
         nodeData: {
             dataIndex: itemNode && itemNode.dataIndex,
@@ -49,6 +49,8 @@ import enableAriaDecalForTree from '../helper/enableAriaDecalForTree';
 // Only support numberic value.
 type TreemapSeriesDataValue = number | number[];
 
+export type TreemapTiling = 'squarify' | 'resquarify' | 'binary' | 'slice' | 'dice' | 'sliceDice';
+
 interface BreadcrumbItemStyleOption extends ItemStyleOption {
     // TODO: textStyle should be in breadcrumb.label
     textStyle?: LabelOption
@@ -165,6 +167,7 @@ export interface TreemapSeriesOption
     /**
      * If sort in desc order.
      * Default to be desc. asc has strange effect
+     * `true` is desc in 'squarify' and 'resquarify', and data order in other tilings.
      */
     sort?: boolean | 'asc' | 'desc'
 
@@ -174,6 +177,22 @@ export interface TreemapSeriesOption
     clipWindow?: 'origin' | 'fullscreen'
 
     squareRatio?: number
+
+    /**
+     * Algorithm to divide the area of a node for its children.
+     * 'squarify': Rows of children with aspect ratio close to `squareRatio`.
+     * 'resquarify': The same as 'squarify' but reuses the rows of the last layout
+     *     if children are not changed, so that the nodes keep their positions
+     *     when values are updated, like in `timeline`.
+     * 'binary': Recursively split children into two balanced parts.
+     * 'slice': Children are stacked vertically.
+     * 'dice': Children are placed horizontally.
+     * 'sliceDice': Alternate 'dice' and 'slice' by the depth.
+     * Children are not sorted in tilings other than 'squarify' and 'resquarify'
+     * unless `sort` is 'asc' or 'desc', so that their positions are stable.
+     */
+    tiling?: TreemapTiling
+
     /**
      * Nodes on depth from root are regarded as leaves.
      * Count from zero (zero represents only view root).
@@ -244,6 +263,7 @@ class TreemapSeriesModel extends SeriesModel<TreemapSeriesOption> {
 
         clipWindow: 'origin',
         squareRatio: 0.5 * (1 + Math.sqrt(5)), // golden ratio
+        tiling: 'squarify',
         leafDepth: null,
 
         drillDownIcon: '▶',                 // Use html character temporarily because it is complicated
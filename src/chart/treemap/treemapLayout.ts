@@ -32,12 +32,14 @@ import BoundingRect, { RectLike } from 'zrender/src/core/BoundingRect';
 import {parsePercent, MAX_SAFE_INTEGER} from '../../util/number';
 import * as layout from '../../util/layout';
 import * as helper from '../helper/treeHelper';
-import TreemapSeriesModel, { TreemapSeriesNodeItemOption } from './TreemapSeries';
+import TreemapSeriesModel, { TreemapSeriesNodeItemOption, TreemapTiling } from './TreemapSeries';
 import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
-import { TreeNode } from '../../data/Tree';
+import Tree, { TreeNode } from '../../data/Tree';
 import Model from '../../model/Model';
 import { TreemapRenderPayload, TreemapMovePayload, TreemapZoomToNodePayload } from './treemapAction';
+import { makeInner } from '../../util/model';
+import { Dictionary } from '../../util/types';
 
 const mathMax = Math.max;
 const mathMin = Math.min;
@@ -77,6 +79,29 @@ type OrderBy = 'asc' | 'desc' | boolean;
 type LayoutRow = TreemapLayoutNode[] & {
     area: number
 };
+
+/**
+ * Row of the squarified layout, recorded for 'resquarify'.
+ */
+interface TilingRow {
+    ids: string[]
+    horizontal: boolean
+}
+
+interface LayoutOptions {
+    sort?: OrderBy
+    squareRatio?: number
+    leafDepth?: number
+    tiling?: TreemapTiling
+    // Rows by id of the parent node.
+    tilingRows?: Dictionary<TilingRow[]>
+}
+
+const inner = makeInner<{
+    tilingRows: Dictionary<TilingRow[]>
+    // The tree that the rows are pruned for.
+    tree: Tree
+}, TreemapSeriesModel>();
 /**
  * @public
  */
@@ -131,16 +156,24 @@ export default {
                 ? [rootRect.width, rootRect.height]
                 : [containerWidth, containerHeight];
 
+            const tiling = seriesOption.tiling;
+            const isSquarify = !tiling || tiling === 'squarify' || tiling === 'resquarify';
             let sort = seriesOption.sort;
             if (sort && sort !== 'asc' && sort !== 'desc') {
-                // Default to be desc order.
-                sort = 'desc';
+                // Default to be desc order in squarify, and data order in other tilings,
+                // where the positions of nodes are kept stable.
+                sort = isSquarify ? 'desc' : null;
             }
-            const options = {
+            const options: LayoutOptions = {
                 squareRatio: seriesOption.squareRatio,
                 sort: sort,
-                leafDepth: seriesOption.leafDepth
+                leafDepth: seriesOption.leafDepth,
+                tiling: tiling
             };
+            if (tiling === 'resquarify') {
+                // Rows are kept across updates of data.
+                options.tilingRows = prepareTilingRows(seriesModel, viewRoot);
+            }
 
             // layout should be cleared because using updateView but not update.
             viewRoot.hostTree.clearLayouts();
@@ -198,8 +231,9 @@ export default {
 };
 
 /**
- * Layout treemap with squarify algorithm.
- * The original presentation of this algorithm
+ * Layout treemap recursively, where the area of a node is divided
+ * for its children by the algorithm in `options.tiling`.
+ * The original presentation of the squarify algorithm
  * was made by Mark Bruls, Kees Huizing, and Jarke J. van Wijk
  * <https://graphics.ethz.ch/teaching/scivis_common/Literature/squarifiedTreeMaps.pdf>.
  * The implementation of this algorithm was originally copied from "d3.js"
@@ -212,16 +246,13 @@ export default {
  * @param {Object} options
  * @param {string} options.sort 'asc' or 'desc'
  * @param {number} options.squareRatio
+ * @param {string} options.tiling
  * @param {boolean} hideChildren
  * @param {number} depth
  */
 function squarify(
     node: TreemapLayoutNode,
-    options: {
-        sort?: OrderBy
-        squareRatio?: number
-        leafDepth?: number
-    },
+    options: LayoutOptions,
     hideChildren: boolean,
     depth: number
 ) {
@@ -264,7 +295,50 @@ function squarify(
     }
 
     const rect = {x: layoutOffset, y: layoutOffsetUpper, width: width, height: height};
-    let rowFixedLength = mathMin(width, height);
+    const tiling = options.tiling;
+
+    if (tiling === 'slice' || tiling === 'dice' || tiling === 'sliceDice') {
+        // 'sliceDice' starts from 'dice' on the root.
+        sliceDice(
+            viewChildren,
+            rect,
+            halfGapWidth,
+            tiling === 'sliceDice' ? !(node.depth % 2) : tiling === 'dice'
+        );
+    }
+    else if (tiling === 'binary') {
+        binary(viewChildren, rect, halfGapWidth);
+    }
+    else if (tiling === 'resquarify') {
+        resquarify(node, viewChildren, rect, halfGapWidth, options);
+    }
+    else {
+        squarifyRows(viewChildren, rect, halfGapWidth, options.squareRatio);
+    }
+
+    if (!hideChildren) {
+        const childrenVisibleMin = nodeModel.get('childrenVisibleMin');
+        if (childrenVisibleMin != null && totalArea < childrenVisibleMin) {
+            hideChildren = true;
+        }
+    }
+
+    for (let i = 0, len = viewChildren.length; i < len; i++) {
+        squarify(viewChildren[i], options, hideChildren, depth + 1);
+    }
+}
+
+/**
+ * Position children in rows of good aspect ratio. Returns the rows.
+ */
+function squarifyRows(
+    viewChildren: TreemapLayoutNode[],
+    rect: RectLike,
+    halfGapWidth: number,
+    squareRatio: number
+): TilingRow[] {
+    const rows: TilingRow[] = [];
+    let rowFixedLength = mathMin(rect.width, rect.height);
     let best = Infinity; // the best row score so far
     const row = [] as LayoutRow;
     row.area = 0;
@@ -274,7 +348,7 @@ function squarify(
 
         row.push(child);
         row.area += child.getLayout().area;
-        const score = worst(row, rowFixedLength, options.squareRatio);
+        const score = worst(row, rowFixedLength, squareRatio);
 
         // continue with this orientation
         if (score <= best) {
@@ -284,6 +358,7 @@ function squarify(
         // abort, and try a different orientation
         else {
             row.area -= row.pop().getLayout().area;
+            rows.push(makeTilingRow(row, rowFixedLength === rect.width));
             position(row, rowFixedLength, rect, halfGapWidth, false);
             rowFixedLength = mathMin(rect.width, rect.height);
             row.length = row.area = 0;
@@ -292,21 +367,198 @@ function squarify(
     }
 
     if (row.length) {
+        rows.push(makeTilingRow(row, rowFixedLength === rect.width));
         position(row, rowFixedLength, rect, halfGapWidth, true);
     }
 
-    if (!hideChildren) {
-        const childrenVisibleMin = nodeModel.get('childrenVisibleMin');
-        if (childrenVisibleMin != null && totalArea < childrenVisibleMin) {
-            hideChildren = true;
-        }
+    return rows;
+}
+
+function makeTilingRow(row: LayoutRow, horizontal: boolean): TilingRow {
+    return {
+        ids: zrUtil.map(row, function (node) {
+            return node.getId();
+        }),
+        horizontal: horizontal
+    };
+}
+
+/**
+ * Rows of the nodes that do not exist in the tree any more are removed.
+ */
+function prepareTilingRows(
+    seriesModel: TreemapSeriesModel,
+    viewRoot: TreemapLayoutNode
+): Dictionary<TilingRow[]> {
+    const store = inner(seriesModel);
+    const tree = viewRoot.hostTree;
+    const tilingRows = store.tilingRows || (store.tilingRows = {});
+    if (store.tree !== tree) {
+        const existingIds: Dictionary<boolean> = {};
+        tree.root.eachNode(function (node) {
+            existingIds[node.getId()] = true;
+        });
+        each(zrUtil.keys(tilingRows), function (id) {
+            if (!existingIds[id]) {
+                delete tilingRows[id];
+            }
+        });
+        store.tree = tree;
     }
+    return tilingRows;
+}
 
-    for (let i = 0, len = viewChildren.length; i < len; i++) {
-        squarify(viewChildren[i], options, hideChildren, depth + 1);
+/**
+ * Position children in the rows of the last layout if children are not changed.
+ * The rows keep their orientations and only their sizes are changed by the new values,
+ * so that the nodes are stable.
+ */
+function resquarify(
+    node: TreemapLayoutNode,
+    viewChildren: TreemapLayoutNode[],
+    rect: RectLike,
+    halfGapWidth: number,
+    options: LayoutOptions
+) {
+    const nodeId = node.getId();
+    const childrenById: Dictionary<TreemapLayoutNode> = {};
+    each(viewChildren, function (child) {
+        childrenById[child.getId()] = child;
+    });
+
+    const lastRows = options.tilingRows[nodeId];
+    let lastCount = 0;
+    let matchedCount = 0;
+    each(lastRows, function (lastRow) {
+        each(lastRow.ids, function (id) {
+            lastCount++;
+            childrenById[id] && matchedCount++;
+        });
+    });
+
+    if (lastCount !== viewChildren.length || matchedCount !== lastCount) {
+        options.tilingRows[nodeId] = squarifyRows(viewChildren, rect, halfGapWidth, options.squareRatio);
+        return;
+    }
+
+    for (let i = 0; i < lastRows.length; i++) {
+        const row = [] as LayoutRow;
+        row.area = 0;
+        each(lastRows[i].ids, function (id) {
+            row.push(childrenById[id]);
+            row.area += childrenById[id].getLayout().area;
+        });
+        position(
+            row,
+            lastRows[i].horizontal ? rect.width : rect.height,
+            rect,
+            halfGapWidth,
+            i === lastRows.length - 1,
+            lastRows[i].horizontal
+        );
     }
 }
 
+/**
+ * 'slice' stacks children vertically, and 'dice' places children horizontally.
+ */
+function sliceDice(
+    viewChildren: TreemapLayoutNode[],
+    rect: RectLike,
+    halfGapWidth: number,
+    isDice: boolean
+) {
+    const row = viewChildren.slice() as LayoutRow;
+    row.area = 0;
+    each(row, function (child) {
+        row.area += child.getLayout().area;
+    });
+    position(row, isDice ? rect.width : rect.height, rect, halfGapWidth, true, isDice);
+}
+
+/**
+ * Split children into two parts of nearly equal areas, along the longer side
+ * of the rect, until each part has one child.
+ * The implementation refers to `d3.treemapBinary` of "d3-hierarchy".
+ */
+function binary(
+    viewChildren: TreemapLayoutNode[],
+    rect: RectLike,
+    halfGapWidth: number
+) {
+    const len = viewChildren.length;
+    // sums[i] is the sum of areas of children before i.
+    const sums = [0];
+    for (let i = 0; i < len; i++) {
+        sums[i + 1] = sums[i] + viewChildren[i].getLayout().area;
+    }
+
+    function partition(
+        start: number, end: number, area: number,
+        x0: number, y0: number, x1: number, y1: number
+    ) {
+        if (start >= end - 1) {
+            setCellLayout(viewChildren[start], x0, y0, x1 - x0, y1 - y0, halfGapWidth);
+            return;
+        }
+
+        const areaOffset = sums[start];
+        const areaTarget = area / 2 + areaOffset;
+        // Binary search the split point closest to the half.
+        let k = start + 1;
+        let hi = end - 1;
+        while (k < hi) {
+            const mid = (k + hi) >>> 1;
+            if (sums[mid] < areaTarget) {
+                k = mid + 1;
+            }
+            else {
+                hi = mid;
+            }
+        }
+        if (areaTarget - sums[k - 1] < sums[k] - areaTarget && start + 1 < k) {
+            k--;
+        }
+
+        const areaLeft = sums[k] - areaOffset;
+        const areaRight = area - areaLeft;
+
+        if (x1 - x0 > y1 - y0) {
+            const xk = area ? (x0 * areaRight + x1 * areaLeft) / area : x1;
+            partition(start, k, areaLeft, x0, y0, xk, y1);
+            partition(k, end, areaRight, xk, y0, x1, y1);
+        }
+        else {
+            const yk = area ? (y0 * areaRight + y1 * areaLeft) / area : y1;
+            partition(start, k, areaLeft, x0, y0, x1, yk);
+            partition(k, end, areaRight, x0, yk, x1, y1);
+        }
+    }
+
+    partition(0, len, sums[len], rect.x, rect.y, rect.x + rect.width, rect.y + rect.height);
+}
+
+/**
+ * Set layout of a cell, considering the gap in the same way as `position`.
+ */
+function setCellLayout(
+    node: TreemapLayoutNode,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    halfGapWidth: number
+) {
+    const cellWidth = mathMax(width - 2 * halfGapWidth, 0);
+    const cellHeight = mathMax(height - 2 * halfGapWidth, 0);
+    node.setLayout({
+        x: x + mathMin(halfGapWidth, cellWidth / 2),
+        y: y + mathMin(halfGapWidth, cellHeight / 2),
+        width: cellWidth,
+        height: cellHeight
+    } as TreemapItemLayout, true);
+}
+
 /**
  * Set area to each child, and calculate data extent for visual coding.
  */
@@ -314,10 +566,7 @@ function initChildren(
     node: TreemapLayoutNode,
     nodeModel: NodeModel,
     totalArea: number,
-    options: {
-        sort?: OrderBy
-        leafDepth?: number
-    },
+    options: LayoutOptions,
     hideChildren: boolean,
     depth: number
 ) {
@@ -511,13 +760,15 @@ function worst(row: LayoutRow, rowFixedLength: number, ratio: number) {
 
 /**
  * Positions the specified row of nodes. Modifies `rect`.
+ * `horizontal` is needed if rect.width equals rect.height.
  */
 function position(
     row: LayoutRow,
     rowFixedLength: number,
     rect: RectLike,
     halfGapWidth: number,
-    flush?: boolean
+    flush?: boolean,
+    horizontal?: boolean
 ) {
     // When rowFixedLength === rect.width,
     // it is horizontal subdivision,
@@ -528,7 +779,7 @@ function position(
     // wh[idx0WhenH] means: when horizontal,
     //      wh[idx0WhenH] => wh[0] => 'width'.
     //      xy[idx1WhenH] => xy[1] => 'y'.
-    const idx0WhenH = rowFixedLength === rect.width ? 0 : 1;
+    const idx0WhenH = (horizontal != null ? horizontal : rowFixedLength === rect.width) ? 0 : 1;
     const idx1WhenH = 1 - idx0WhenH;
     const xy = ['x', 'y'] as const;
     const wh = ['width', 'height'] as const;
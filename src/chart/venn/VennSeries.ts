@@ -0,0 +1,169 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { isArray, map } from 'zrender/src/core/util';
+import SeriesModel from '../../model/Series';
+import Model from '../../model/Model';
+import createSeriesDataSimply from '../helper/createSeriesDataSimply';
+import {
+    SeriesOption,
+    BoxLayoutOptionMixin,
+    OptionDataValueNumeric,
+    SeriesLabelOption,
+    ItemStyleOption,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    DefaultStatesMixinEmphasis,
+    CallbackDataParams
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+
+export interface VennStateOption<TCbParams = never> {
+    itemStyle?: ItemStyleOption<TCbParams>
+    label?: SeriesLabelOption
+}
+
+interface VennStatesMixin {
+    emphasis?: DefaultStatesMixinEmphasis
+}
+
+export interface VennDataItemOption extends VennStateOption,
+    StatesOptionMixin<VennStateOption, VennStatesMixin>,
+    OptionDataItemObject<OptionDataValueNumeric> {
+    /**
+     * Names of the sets. An item of one set gives the size of the set,
+     * and an item of more sets gives the size of their intersection.
+     */
+    sets: string[]
+}
+
+export interface VennIntersectionsOption extends VennStateOption<CallbackDataParams>,
+    StatesOptionMixin<VennStateOption, VennStatesMixin> {
+}
+
+export interface VennSeriesOption
+    extends SeriesOption<VennStateOption<CallbackDataParams>, VennStatesMixin>,
+    VennStateOption<CallbackDataParams>,
+    BoxLayoutOptionMixin {
+    type?: 'venn'
+
+    /**
+     * Style of the intersection regions, which overrides the style of series.
+     * The intersections are transparent by default, so the colors of sets are mixed.
+     */
+    intersections?: VennIntersectionsOption
+
+    data?: VennDataItemOption[]
+}
+
+class VennSeriesModel extends SeriesModel<VennSeriesOption> {
+    static readonly type = 'series.venn';
+    readonly type = VennSeriesModel.type;
+
+    static readonly layoutMode = 'box' as const;
+
+    getInitialData(option: VennSeriesOption, ecModel: GlobalModel): SeriesData {
+        // Name the item by its sets if not specified.
+        const nameList = map(option.data || [], function (item) {
+            return item && item.name == null && isArray(item.sets)
+                ? item.sets.join(' ∩ ')
+                : null;
+        });
+        const data = createSeriesDataSimply(this, ['value'], nameList);
+
+        const intersectionsModel = new Model(option.intersections || {}, this, ecModel);
+        const seriesModel = this;
+        data.wrapMethod('getItemModel', function (model, idx) {
+            if (seriesModel.getItemSets(idx).length > 1) {
+                model.parentModel = intersectionsModel;
+            }
+            return model;
+        });
+
+        return data;
+    }
+
+    /**
+     * Get names of the sets of the data item.
+     */
+    getItemSets(dataIndex: number): string[] {
+        const dataItem = this.getData().getRawDataItem(dataIndex) as VennDataItemOption;
+        const sets = dataItem && dataItem.sets;
+        return isArray(sets) ? map(sets, set => set + '') : [];
+    }
+
+    static defaultOption: VennSeriesOption = {
+        // zlevel: 0,
+        z: 2,
+
+        colorBy: 'data',
+
+        left: '10%',
+        top: '10%',
+        right: '10%',
+        bottom: '10%',
+
+        label: {
+            show: true,
+            position: 'inside',
+            color: '#333'
+        },
+
+        itemStyle: {
+            opacity: 0.6,
+            borderColor: '#fff',
+            borderWidth: 1
+        },
+
+        intersections: {
+            label: {
+                formatter: '{c}'
+            },
+            itemStyle: {
+                color: 'transparent',
+                opacity: 1,
+                borderWidth: 0
+            },
+            emphasis: {
+                itemStyle: {
+                    color: 'rgba(0,0,0,0.2)'
+                }
+            }
+        },
+
+        emphasis: {
+            focus: 'self',
+            itemStyle: {
+                opacity: 0.8
+            }
+        },
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121'
+            }
+        },
+
+        animationEasing: 'cubicOut',
+        animationDuration: 1000
+    };
+}
+
+export default VennSeriesModel;
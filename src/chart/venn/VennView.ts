@@ -0,0 +1,188 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { PathProps } from 'zrender/src/graphic/Path';
+import { ElementTextConfig } from 'zrender/src/Element';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import { calculateTextPosition, TextPositionCalculationResult } from 'zrender/src/contain/text';
+import * as graphic from '../../util/graphic';
+import { toggleHoverEmphasis, setStatesStylesFromModel } from '../../util/states';
+import ChartView from '../../view/Chart';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import VennSeriesModel, { VennDataItemOption } from './VennSeries';
+import { VennRegionLayout } from './vennLayout';
+import { VennArc } from './vennSolver';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { saveOldStyle } from '../../animation/basicTransition';
+
+class VennRegionShape {
+    arcs: VennArc[] = [];
+
+    labelX = 0;
+    labelY = 0;
+}
+
+interface VennRegionProps extends PathProps {
+    shape?: Partial<VennRegionShape>
+}
+
+/**
+ * Region of a set or an intersection, bounded by arcs.
+ */
+class VennRegion extends graphic.Path<VennRegionProps> {
+    shape: VennRegionShape;
+
+    constructor(opts?: VennRegionProps) {
+        super(opts);
+    }
+
+    getDefaultShape() {
+        return new VennRegionShape();
+    }
+
+    buildPath(ctx: CanvasRenderingContext2D, shape: VennRegionShape) {
+        const arcs = shape.arcs;
+        for (let i = 0; i < arcs.length; i++) {
+            const arc = arcs[i];
+            if (!i) {
+                ctx.moveTo(arc.cx + arc.r * Math.cos(arc.startAngle), arc.cy + arc.r * Math.sin(arc.startAngle));
+            }
+            ctx.arc(arc.cx, arc.cy, arc.r, arc.startAngle, arc.endAngle, false);
+        }
+        arcs.length && ctx.closePath();
+    }
+}
+
+class VennView extends ChartView {
+
+    static readonly type = 'venn';
+    readonly type = VennView.type;
+
+    private _data: SeriesData;
+
+    render(seriesModel: VennSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const data = seriesModel.getData();
+        const oldData = this._data;
+        const group = this.group;
+
+        data.diff(oldData)
+            .add(function (idx) {
+                const region = new VennRegion();
+                updateRegion(region, seriesModel, idx, true);
+                data.setItemGraphicEl(idx, region);
+                group.add(region);
+            })
+            .update(function (newIdx, oldIdx) {
+                const region = oldData.getItemGraphicEl(oldIdx) as VennRegion;
+                updateRegion(region, seriesModel, newIdx, false);
+                data.setItemGraphicEl(newIdx, region);
+                group.add(region);
+            })
+            .remove(function (idx) {
+                graphic.removeElementWithFadeOut(oldData.getItemGraphicEl(idx), seriesModel, idx);
+            })
+            .execute();
+
+        this._data = data;
+    }
+
+    remove() {
+        this.group.removeAll();
+        this._data = null;
+    }
+
+    dispose() {}
+}
+
+function updateRegion(
+    region: VennRegion,
+    seriesModel: VennSeriesModel,
+    idx: number,
+    firstCreate: boolean
+) {
+    const data = seriesModel.getData();
+    const itemModel = data.getItemModel<VennDataItemOption>(idx);
+    const emphasisModel = itemModel.getModel('emphasis');
+    const layout = data.getItemLayout(idx) as VennRegionLayout;
+    const style = data.getItemVisual(idx, 'style');
+
+    region.setShape(layout);
+    // Intersections of more sets are above.
+    region.z2 = seriesModel.getItemSets(idx).length;
+    region.ignore = !layout.arcs.length;
+
+    if (firstCreate) {
+        const opacity = style.opacity;
+        region.useStyle(style);
+        region.style.opacity = 0;
+        graphic.initProps(region, {
+            style: {
+                opacity: opacity == null ? 1 : opacity
+            }
+        }, seriesModel, idx);
+    }
+    else {
+        saveOldStyle(region);
+        region.useStyle(style);
+    }
+
+    setStatesStylesFromModel(region, itemModel);
+
+    region.calculateTextPosition = calculateRegionTextPosition;
+    setLabelStyle(region, getLabelStatesModels(itemModel), {
+        labelFetcher: seriesModel,
+        labelDataIndex: idx,
+        defaultText: data.getName(idx)
+    });
+
+    toggleHoverEmphasis(
+        region,
+        emphasisModel.get('focus'),
+        emphasisModel.get('blurScope'),
+        emphasisModel.get('disabled')
+    );
+}
+
+/**
+ * Put label inside at the point that is the farthest from the boundaries
+ * of the region, excluding the other regions.
+ */
+function calculateRegionTextPosition(
+    this: VennRegion,
+    out: TextPositionCalculationResult,
+    opts: {
+        position?: ElementTextConfig['position']
+        distance?: number
+    },
+    boundingRect: RectLike
+) {
+    if (opts.position !== 'inside') {
+        return calculateTextPosition(out, opts, boundingRect);
+    }
+    out = out || {} as TextPositionCalculationResult;
+    out.x = this.shape.labelX;
+    out.y = this.shape.labelY;
+    out.align = 'center';
+    out.verticalAlign = 'middle';
+    return out;
+}
+
+export default VennView;
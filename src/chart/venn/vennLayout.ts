@@ -0,0 +1,134 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { indexOf } from 'zrender/src/core/util';
+import * as layout from '../../util/layout';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import VennSeriesModel from './VennSeries';
+import { Dictionary } from '../../util/types';
+import { warn } from '../../util/log';
+import {
+    solveVenn,
+    intersectionArcs,
+    findLabelPosition,
+    VennArc,
+    VennCircle,
+    VennOverlap
+} from './vennSolver';
+
+export interface VennRegionLayout {
+    /**
+     * Boundary of the region. Empty if the sets don't intersect.
+     */
+    arcs: VennArc[]
+    labelX: number
+    labelY: number
+}
+
+export default function vennLayout(ecModel: GlobalModel, api: ExtensionAPI) {
+    ecModel.eachSeriesByType('venn', function (seriesModel: VennSeriesModel) {
+        const data = seriesModel.getData();
+        const valueDim = data.mapDimension('value');
+        const rect = layout.getLayoutRect(seriesModel.getBoxLayoutParams(), {
+            width: api.getWidth(),
+            height: api.getHeight()
+        });
+
+        // Index of circle of each set.
+        const circleIndices: Dictionary<number> = {};
+        const radius: number[] = [];
+        data.each(valueDim, function (value: number, idx) {
+            const sets = seriesModel.getItemSets(idx);
+            if (sets.length === 1 && circleIndices[sets[0]] == null) {
+                circleIndices[sets[0]] = radius.length;
+                radius.push(Math.sqrt(Math.max(value, 0) / Math.PI) || 0);
+            }
+        });
+
+        // Circles of sets of each item, indexed by data index.
+        const itemCircleIndices: number[][] = [];
+        const overlaps: VennOverlap[] = [];
+        data.each(valueDim, function (value: number, idx) {
+            const sets = seriesModel.getItemSets(idx);
+            const indices: number[] = [];
+            for (let i = 0; i < sets.length; i++) {
+                const circleIndex = circleIndices[sets[i]];
+                if (circleIndex == null) {
+                    if (__DEV__) {
+                        warn('Size of set "' + sets[i] + '" is not specified in venn series.');
+                    }
+                    return;
+                }
+                indices.push(circleIndex);
+            }
+            itemCircleIndices[idx] = indices;
+            if (indices.length === 2) {
+                overlaps.push({i: indices[0], j: indices[1], size: value});
+            }
+        });
+
+        const circles = solveVenn(radius, overlaps);
+        fitCircles(circles, rect);
+
+        data.each(function (idx) {
+            const indices = itemCircleIndices[idx];
+            const inside: VennCircle[] = [];
+            const outside: VennCircle[] = [];
+            for (let i = 0; i < circles.length; i++) {
+                (indices && indexOf(indices, i) >= 0 ? inside : outside).push(circles[i]);
+            }
+            const arcs = inside.length ? intersectionArcs(inside) : [];
+            const labelPosition = arcs.length ? findLabelPosition(inside, outside) : [NaN, NaN];
+            data.setItemLayout(idx, {
+                arcs: arcs,
+                labelX: labelPosition[0],
+                labelY: labelPosition[1]
+            } as VennRegionLayout);
+        });
+    });
+}
+
+/**
+ * Scale and translate the circles to the center of the rect.
+ */
+function fitCircles(circles: VennCircle[], rect: layout.LayoutRect) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (let i = 0; i < circles.length; i++) {
+        const circle = circles[i];
+        minX = Math.min(minX, circle.x - circle.r);
+        minY = Math.min(minY, circle.y - circle.r);
+        maxX = Math.max(maxX, circle.x + circle.r);
+        maxY = Math.max(maxY, circle.y + circle.r);
+    }
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const scale = width > 0 && height > 0 ? Math.min(rect.width / width, rect.height / height) : 0;
+    const cx = rect.x + rect.width / 2;
+    const cy = rect.y + rect.height / 2;
+    for (let i = 0; i < circles.length; i++) {
+        const circle = circles[i];
+        circle.x = cx + (circle.x - (minX + maxX) / 2) * scale;
+        circle.y = cy + (circle.y - (minY + maxY) / 2) * scale;
+        circle.r *= scale;
+    }
+}
@@ -0,0 +1,509 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Placement of circles in area-proportional Venn and Euler diagrams.
+ *
+ * The distance between two circles is solved from the size of their intersection.
+ * Circles are placed greedily by these distances and then adjusted by minimizing
+ * the stress of all the distances. So the pairwise intersections are exact for
+ * two sets, and for three sets if the distances can form a triangle. In other cases,
+ * and for the intersections of more than two sets, the areas are approximated.
+ */
+
+export interface VennCircle {
+    x: number
+    y: number
+    r: number
+}
+
+/**
+ * Size of the intersection of circle `i` and circle `j`.
+ */
+export interface VennOverlap {
+    i: number
+    j: number
+    size: number
+}
+
+/**
+ * Arc on the boundary of a region, which can be drawn by `ctx.arc` directly.
+ */
+export interface VennArc {
+    cx: number
+    cy: number
+    r: number
+    startAngle: number
+    endAngle: number
+}
+
+interface IntersectionPoint {
+    x: number
+    y: number
+    parents: number[]
+}
+
+const PI = Math.PI;
+const PI2 = PI * 2;
+const mathSqrt = Math.sqrt;
+const mathAbs = Math.abs;
+const mathMin = Math.min;
+const mathMax = Math.max;
+
+const EPSILON = 1e-10;
+const MAX_ITERATIONS = 500;
+
+// Kind of the distance constraint between two circles.
+const EXACT = 0;
+// The sets are disjoint, so circles should not be closer than the distance.
+const AT_LEAST = 1;
+// One set is the subset of another, so circles should not be farther than the distance.
+const AT_MOST = 2;
+
+/**
+ * Area of the intersection of two circles.
+ */
+export function circleOverlap(r1: number, r2: number, d: number): number {
+    if (d >= r1 + r2) {
+        return 0;
+    }
+    if (d <= mathAbs(r1 - r2)) {
+        const r = mathMin(r1, r2);
+        return PI * r * r;
+    }
+    const w1 = r1 - (d * d - r2 * r2 + r1 * r1) / (2 * d);
+    const w2 = r2 - (d * d - r1 * r1 + r2 * r2) / (2 * d);
+    return circularSegmentArea(r1, w1) + circularSegmentArea(r2, w2);
+}
+
+/**
+ * Distance between the centers of two circles that the area of
+ * their intersection is `overlap`.
+ */
+export function distanceFromOverlap(r1: number, r2: number, overlap: number): number {
+    const r = mathMin(r1, r2);
+    if (overlap <= 0) {
+        return r1 + r2;
+    }
+    if (overlap >= PI * r * r) {
+        return mathAbs(r1 - r2);
+    }
+    // The area decreases monotonically with the distance.
+    let low = mathAbs(r1 - r2);
+    let high = r1 + r2;
+    for (let i = 0; i < 60; i++) {
+        const mid = (low + high) / 2;
+        if (circleOverlap(r1, r2, mid) > overlap) {
+            low = mid;
+        }
+        else {
+            high = mid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Place circles with the given radius by the sizes of pairwise intersections.
+ * Pairs not in `overlaps` are considered disjoint.
+ */
+export function solveVenn(radius: number[], overlaps: VennOverlap[]): VennCircle[] {
+    const count = radius.length;
+    const circles: VennCircle[] = [];
+    const distances: number[][] = [];
+    const kinds: number[][] = [];
+    const totalOverlaps: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+        circles.push({x: 0, y: 0, r: radius[i]});
+        distances.push([]);
+        kinds.push([]);
+        totalOverlaps.push(0);
+        for (let j = 0; j < count; j++) {
+            distances[i][j] = radius[i] + radius[j];
+            kinds[i][j] = AT_LEAST;
+        }
+    }
+    for (let k = 0; k < overlaps.length; k++) {
+        const i = overlaps[k].i;
+        const j = overlaps[k].j;
+        const size = overlaps[k].size;
+        const minRadius = mathMin(radius[i], radius[j]);
+        if (i === j || !(size > 0)) {
+            continue;
+        }
+        distances[i][j] = distances[j][i] = distanceFromOverlap(radius[i], radius[j], size);
+        kinds[i][j] = kinds[j][i] = size >= PI * minRadius * minRadius ? AT_MOST : EXACT;
+        totalOverlaps[i] += size;
+        totalOverlaps[j] += size;
+    }
+
+    if (count < 2) {
+        return circles;
+    }
+
+    placeGreedily(circles, distances, kinds, totalOverlaps);
+    minimizeStress(circles, distances, kinds);
+
+    return circles;
+}
+
+/**
+ * Get the arcs on the boundary of the intersection of all the circles.
+ * The arcs are in clockwise order on the screen. Returns an empty list if the
+ * intersection is empty.
+ */
+export function intersectionArcs(circles: VennCircle[]): VennArc[] {
+    const points: IntersectionPoint[] = [];
+    for (let i = 0; i < circles.length; i++) {
+        for (let j = i + 1; j < circles.length; j++) {
+            const pair = circleCircleIntersection(circles[i], circles[j]);
+            for (let k = 0; k < pair.length; k++) {
+                const p = pair[k];
+                if (containedInCircles(p.x, p.y, circles) && !hasPoint(points, p.x, p.y)) {
+                    points.push({x: p.x, y: p.y, parents: [i, j]});
+                }
+            }
+        }
+    }
+
+    const arcs: VennArc[] = [];
+    if (points.length > 1) {
+        // The intersection is convex, so the points can be sorted around the centroid.
+        let centerX = 0;
+        let centerY = 0;
+        for (let i = 0; i < points.length; i++) {
+            centerX += points[i].x / points.length;
+            centerY += points[i].y / points.length;
+        }
+        points.sort(function (a, b) {
+            return Math.atan2(a.y - centerY, a.x - centerX) - Math.atan2(b.y - centerY, b.x - centerX);
+        });
+        for (let i = 0; i < points.length; i++) {
+            const p1 = points[i];
+            const p2 = points[(i + 1) % points.length];
+            let arc: VennArc = null;
+            let arcLength = Infinity;
+            for (let k = 0; k < p1.parents.length; k++) {
+                const circleIndex = p1.parents[k];
+                if (p2.parents[0] !== circleIndex && p2.parents[1] !== circleIndex) {
+                    continue;
+                }
+                const circle = circles[circleIndex];
+                const startAngle = Math.atan2(p1.y - circle.y, p1.x - circle.x);
+                let endAngle = Math.atan2(p2.y - circle.y, p2.x - circle.x);
+                if (endAngle < startAngle) {
+                    endAngle += PI2;
+                }
+                const midAngle = (startAngle + endAngle) / 2;
+                const midX = circle.x + circle.r * Math.cos(midAngle);
+                const midY = circle.y + circle.r * Math.sin(midAngle);
+                const length = (endAngle - startAngle) * circle.r;
+                // The arc is on the boundary only if it's inside the other circles.
+                if (containedInCircles(midX, midY, circles) && length < arcLength) {
+                    arcLength = length;
+                    arc = {
+                        cx: circle.x,
+                        cy: circle.y,
+                        r: circle.r,
+                        startAngle: startAngle,
+                        endAngle: endAngle
+                    };
+                }
+            }
+            arc && arcs.push(arc);
+        }
+    }
+    else {
+        // No crossing, the intersection is either the smallest circle or empty.
+        let smallest = circles[0];
+        for (let i = 1; i < circles.length; i++) {
+            if (circles[i].r < smallest.r) {
+                smallest = circles[i];
+            }
+        }
+        let contained = smallest && smallest.r > 0;
+        for (let i = 0; i < circles.length && contained; i++) {
+            const circle = circles[i];
+            contained = distance(smallest.x, smallest.y, circle.x, circle.y) + smallest.r
+                <= circle.r + tolerance(circle);
+        }
+        if (contained) {
+            arcs.push({
+                cx: smallest.x,
+                cy: smallest.y,
+                r: smallest.r,
+                startAngle: 0,
+                endAngle: PI2
+            });
+        }
+    }
+    return arcs;
+}
+
+/**
+ * Find the point that is inside all of the `inside` circles and outside all of
+ * the `outside` circles, and is the farthest from the boundaries.
+ * If there is no such point, find the one inside the `inside` circles only.
+ */
+export function findLabelPosition(inside: VennCircle[], outside: VennCircle[]): number[] {
+    let point = searchMaxMargin(inside, outside);
+    if (point[2] < 0 && outside.length) {
+        point = searchMaxMargin(inside, []);
+    }
+    return [point[0], point[1]];
+}
+
+function circularSegmentArea(r: number, width: number): number {
+    return r * r * Math.acos(1 - width / r) - (r - width) * mathSqrt(width * (2 * r - width));
+}
+
+function distance(x1: number, y1: number, x2: number, y2: number): number {
+    return mathSqrt((x1 - x2) * (x1 - x2) + (y1 - y2) * (y1 - y2));
+}
+
+function tolerance(circle: VennCircle): number {
+    return mathMax(circle.r, 1) * 1e-6;
+}
+
+function containedInCircles(x: number, y: number, circles: VennCircle[]): boolean {
+    for (let i = 0; i < circles.length; i++) {
+        const circle = circles[i];
+        if (distance(x, y, circle.x, circle.y) > circle.r + tolerance(circle)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function hasPoint(points: IntersectionPoint[], x: number, y: number): boolean {
+    for (let i = 0; i < points.length; i++) {
+        if (mathAbs(points[i].x - x) < 1e-6 && mathAbs(points[i].y - y) < 1e-6) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function circleCircleIntersection(c1: VennCircle, c2: VennCircle): {x: number, y: number}[] {
+    const d = distance(c1.x, c1.y, c2.x, c2.y);
+    if (d >= c1.r + c2.r || d <= mathAbs(c1.r - c2.r) || d < EPSILON) {
+        return [];
+    }
+    const a = (c1.r * c1.r - c2.r * c2.r + d * d) / (2 * d);
+    const h = mathSqrt(mathMax(c1.r * c1.r - a * a, 0));
+    const x0 = c1.x + a * (c2.x - c1.x) / d;
+    const y0 = c1.y + a * (c2.y - c1.y) / d;
+    const rx = -(c2.y - c1.y) * h / d;
+    const ry = (c2.x - c1.x) * h / d;
+    return [{x: x0 + rx, y: y0 + ry}, {x: x0 - rx, y: y0 - ry}];
+}
+
+/**
+ * Place the circles one by one, beginning with the one of the most overlaps.
+ * Each circle is placed at the target distance of a placed circle, at the angle
+ * where the stress of the placed circles is minimal.
+ */
+function placeGreedily(
+    circles: VennCircle[],
+    distances: number[][],
+    kinds: number[][],
+    totalOverlaps: number[]
+) {
+    const count = circles.length;
+    const order: number[] = [];
+    for (let i = 0; i < count; i++) {
+        order.push(i);
+    }
+    order.sort(function (a, b) {
+        return totalOverlaps[b] - totalOverlaps[a] || circles[b].r - circles[a].r;
+    });
+
+    const placed = [order[0]];
+    for (let k = 1; k < count; k++) {
+        const current = order[k];
+        const circle = circles[current];
+        let bestX = 0;
+        let bestY = 0;
+        let bestLoss = Infinity;
+        for (let m = 0; m < placed.length; m++) {
+            const other = circles[placed[m]];
+            const d = distances[current][placed[m]];
+            for (let step = 0; step < 12; step++) {
+                const angle = step / 12 * PI2;
+                circle.x = other.x + d * Math.cos(angle);
+                circle.y = other.y + d * Math.sin(angle);
+                let loss = 0;
+                for (let n = 0; n < placed.length; n++) {
+                    const target = placed[n];
+                    loss += pairLoss(circle, circles[target], distances[current][target], kinds[current][target]);
+                }
+                if (loss < bestLoss - EPSILON) {
+                    bestLoss = loss;
+                    bestX = circle.x;
+                    bestY = circle.y;
+                }
+            }
+        }
+        circle.x = bestX;
+        circle.y = bestY;
+        placed.push(current);
+    }
+}
+
+function pairLoss(c1: VennCircle, c2: VennCircle, target: number, kind: number): number {
+    const diff = distance(c1.x, c1.y, c2.x, c2.y) - target;
+    if ((kind === AT_LEAST && diff > 0) || (kind === AT_MOST && diff < 0)) {
+        return 0;
+    }
+    return diff * diff;
+}
+
+function totalLoss(circles: VennCircle[], distances: number[][], kinds: number[][]): number {
+    let loss = 0;
+    for (let i = 0; i < circles.length; i++) {
+        for (let j = i + 1; j < circles.length; j++) {
+            loss += pairLoss(circles[i], circles[j], distances[i][j], kinds[i][j]);
+        }
+    }
+    return loss;
+}
+
+/**
+ * Gradient descent of the stress, with the step adapted to the change of loss.
+ */
+function minimizeStress(circles: VennCircle[], distances: number[][], kinds: number[][]) {
+    const count = circles.length;
+    let scale = 0;
+    for (let i = 0; i < count; i++) {
+        scale = mathMax(scale, circles[i].r);
+    }
+    const minLoss = scale * scale * EPSILON;
+
+    let loss = totalLoss(circles, distances, kinds);
+    let rate = 0.1;
+    const gradX: number[] = [];
+    const gradY: number[] = [];
+    const oldX: number[] = [];
+    const oldY: number[] = [];
+
+    for (let iter = 0; iter < MAX_ITERATIONS && loss > minLoss && rate > EPSILON; iter++) {
+        for (let i = 0; i < count; i++) {
+            gradX[i] = gradY[i] = 0;
+        }
+        for (let i = 0; i < count; i++) {
+            for (let j = i + 1; j < count; j++) {
+                const c1 = circles[i];
+                const c2 = circles[j];
+                let dx = c1.x - c2.x;
+                let dy = c1.y - c2.y;
+                let d = mathSqrt(dx * dx + dy * dy);
+                if (d < EPSILON) {
+                    // Separate the coincident circles in an arbitrary direction.
+                    dx = 1;
+                    dy = 0;
+                    d = 1;
+                }
+                const diff = d - distances[i][j];
+                const kind = kinds[i][j];
+                if ((kind === AT_LEAST && diff > 0) || (kind === AT_MOST && diff < 0)) {
+                    continue;
+                }
+                const gx = 2 * diff * dx / d;
+                const gy = 2 * diff * dy / d;
+                gradX[i] += gx;
+                gradY[i] += gy;
+                gradX[j] -= gx;
+                gradY[j] -= gy;
+            }
+        }
+        for (let i = 0; i < count; i++) {
+            oldX[i] = circles[i].x;
+            oldY[i] = circles[i].y;
+            circles[i].x -= rate * gradX[i];
+            circles[i].y -= rate * gradY[i];
+        }
+        const newLoss = totalLoss(circles, distances, kinds);
+        if (newLoss < loss) {
+            loss = newLoss;
+            rate *= 1.2;
+        }
+        else {
+            for (let i = 0; i < count; i++) {
+                circles[i].x = oldX[i];
+                circles[i].y = oldY[i];
+            }
+            rate /= 2;
+        }
+    }
+}
+
+/**
+ * Search on a grid in the smallest `inside` circle and refine around the best point.
+ * Returns [x, y, margin].
+ */
+function searchMaxMargin(inside: VennCircle[], outside: VennCircle[]): number[] {
+    let smallest = inside[0];
+    for (let i = 1; i < inside.length; i++) {
+        if (inside[i].r < smallest.r) {
+            smallest = inside[i];
+        }
+    }
+    const gridCount = 16;
+    let bestX = smallest.x;
+    let bestY = smallest.y;
+    let bestMargin = getMargin(bestX, bestY, inside, outside);
+    let step = smallest.r * 2 / gridCount;
+    let centerX = smallest.x;
+    let centerY = smallest.y;
+    let halfCount = gridCount / 2;
+
+    for (let round = 0; round < 6 && step > 0; round++) {
+        for (let i = -halfCount; i <= halfCount; i++) {
+            for (let j = -halfCount; j <= halfCount; j++) {
+                const x = centerX + i * step;
+                const y = centerY + j * step;
+                const margin = getMargin(x, y, inside, outside);
+                if (margin > bestMargin) {
+                    bestMargin = margin;
+                    bestX = x;
+                    bestY = y;
+                }
+            }
+        }
+        centerX = bestX;
+        centerY = bestY;
+        step /= 2;
+        halfCount = 2;
+    }
+    return [bestX, bestY, bestMargin];
+}
+
+function getMargin(x: number, y: number, inside: VennCircle[], outside: VennCircle[]): number {
+    let margin = Infinity;
+    for (let i = 0; i < inside.length; i++) {
+        const circle = inside[i];
+        margin = mathMin(margin, circle.r - distance(x, y, circle.x, circle.y));
+    }
+    for (let i = 0; i < outside.length; i++) {
+        const circle = outside[i];
+        margin = mathMin(margin, distance(x, y, circle.x, circle.y) - circle.r);
+    }
+    return margin;
+}
@@ -0,0 +1,263 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import SeriesModel from '../../model/Series';
+import {WhiskerBoxCommonMixin} from '../helper/whiskerBoxCommon';
+import {
+    SeriesOption,
+    SeriesOnCartesianOptionMixin,
+    LayoutOrient,
+    ItemStyleOption,
+    LineStyleOption,
+    OptionDataValueNumeric,
+    StatesOptionMixin,
+    DefaultEmphasisFocus,
+    CallbackDataParams
+} from '../../util/types';
+import type Axis2D from '../../coord/cartesian/Axis2D';
+import Cartesian2D from '../../coord/cartesian/Cartesian2D';
+import GlobalModel from '../../model/Global';
+import SeriesData from '../../data/SeriesData';
+import { extend, isArray } from 'zrender/src/core/util';
+import createSeriesDataSimply from '../helper/createSeriesDataSimply';
+import { DefaultDataProvider } from '../../data/helper/dataProvider';
+import { createSourceFromSeriesDataOption } from '../../data/Source';
+import { asc, quantile } from '../../util/number';
+import { getBandwidth, kernelDensity, ViolinBandwidthOption } from './kernelDensity';
+
+// Raw samples of one violin.
+type ViolinDataValue = OptionDataValueNumeric[];
+
+export interface ViolinStateOption<TCbParams = never> {
+    itemStyle?: ItemStyleOption<TCbParams>
+}
+
+export interface ViolinDataItemOption
+    extends ViolinStateOption, StatesOptionMixin<ViolinStateOption, ExtraStateOption> {
+    name?: string
+    value: ViolinDataValue
+}
+
+interface ExtraStateOption {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus
+    }
+}
+
+export interface ViolinSeriesOption
+    extends SeriesOption<ViolinStateOption<CallbackDataParams>, ExtraStateOption>,
+    ViolinStateOption<CallbackDataParams>,
+    SeriesOnCartesianOptionMixin {
+    type?: 'violin'
+
+    coordinateSystem?: 'cartesian2d'
+
+    layout?: LayoutOrient
+    /**
+     * [min, max] can be percent of band width.
+     */
+    boxWidth?: (string | number)[]
+
+    /**
+     * Bandwidth of the kernel density estimation.
+     * Can be a number or the name of the rule of thumb.
+     */
+    bandwidth?: ViolinBandwidthOption
+
+    /**
+     * Count of points where the density is estimated.
+     */
+    densityResolution?: number
+
+    /**
+     * Extend the density beyond the extreme samples by `cut` times the bandwidth,
+     * so that the tails of violin are not cut flat. 0 limits the density to the
+     * extent of samples.
+     */
+    cut?: number
+
+    /**
+     * Draw the whole violin, or only the half on the positive side
+     * (right in horizontal layout and top in vertical layout) or the negative side.
+     * Half violins of the series on the same axis share the same place,
+     * which is useful to compare two groups.
+     */
+    side?: 'both' | 'positive' | 'negative'
+
+    /**
+     * Overlay inside the violin. 'box' is a mini boxplot,
+     * 'quartile' draws the lines at quartiles across the violin.
+     */
+    inner?: 'box' | 'quartile' | 'none'
+
+    innerStyle?: LineStyleOption
+
+    data?: (ViolinDataValue | ViolinDataItemOption)[]
+}
+
+class ViolinSeriesModel extends SeriesModel<ViolinSeriesOption> {
+
+    static readonly type = 'series.violin';
+    readonly type = ViolinSeriesModel.type;
+
+    static readonly dependencies = ['xAxis', 'yAxis', 'grid'];
+
+    coordinateSystem: Cartesian2D;
+
+    /**
+     * Summary of samples, which are used in tooltip and axis extent.
+     */
+    defaultValueDimensions = [
+        {name: 'min', defaultTooltip: true},
+        {name: 'Q1', defaultTooltip: true},
+        {name: 'median', defaultTooltip: true},
+        {name: 'Q3', defaultTooltip: true},
+        {name: 'max', defaultTooltip: true},
+        // Extent of the estimated density, which is included in the axis extent.
+        {name: 'lower'},
+        {name: 'upper'}
+    ];
+
+    visualDrawType = 'fill' as const;
+
+    // Samples sorted ascending of each data item, indexed by raw index.
+    private _sampleList: number[][];
+
+    // List of [value, density] of each data item, indexed by raw index.
+    private _densityList: number[][][];
+
+    getInitialData(option: ViolinSeriesOption, ecModel: GlobalModel): SeriesData {
+        const bandwidthOption = this.get('bandwidth');
+        const resolution = this.get('densityResolution');
+        const cut = Math.max(this.get('cut') || 0, 0);
+        const sampleList: number[][] = this._sampleList = [];
+        const densityList: number[][][] = this._densityList = [];
+
+        // Samples in the source (either `series.data` or dataset) are summarized to
+        // [index, min, Q1, median, Q3, max, lower, upper] in a new source, where
+        // [lower, upper] is the extent of density. Violins are placed by index if
+        // there is no category axis.
+        const provider = new DefaultDataProvider(this.getSource());
+        const summaryItems: (OptionDataValueNumeric[] | ViolinDataItemOption)[] = [];
+        for (let index = 0, count = provider.count(); index < count; index++) {
+            const item = provider.getItem(index) as ViolinDataValue | ViolinDataItemOption;
+            const samples = isArray(item) ? item : item && item.value;
+            const ascList: number[] = [];
+            for (let i = 0; i < (isArray(samples) ? samples.length : 0); i++) {
+                const val = samples[i] == null ? NaN : +samples[i];
+                isNaN(val) || ascList.push(val);
+            }
+            asc(ascList);
+
+            const density = ascList.length
+                ? kernelDensity(ascList, getBandwidth(ascList, bandwidthOption), resolution, cut)
+                : [];
+            sampleList.push(ascList);
+            densityList.push(density);
+
+            const summary: OptionDataValueNumeric[] = ascList.length
+                ? [
+                    index,
+                    ascList[0],
+                    quantile(ascList, 0.25),
+                    quantile(ascList, 0.5),
+                    quantile(ascList, 0.75),
+                    ascList[ascList.length - 1],
+                    density[0][0],
+                    density[density.length - 1][0]
+                ]
+                : [index, '-', '-', '-', '-', '-', '-', '-'];
+
+            summaryItems.push(isArray(item) || !item
+                ? summary
+                : extend(extend({}, item), {value: summary})
+            );
+        }
+
+        const coordDimensions = this.getWhiskerBoxCoordDimensions(option, ecModel);
+        return createSeriesDataSimply(this, {
+            coordDimensions: coordDimensions,
+            dimensionsCount: this.defaultValueDimensions.length + 1,
+            // Dimensions of summary are fixed, `encode` is for the upstream samples.
+            encodeDefine: null
+        }, null, createSourceFromSeriesDataOption(summaryItems));
+    }
+
+    /**
+     * Get samples sorted ascending.
+     */
+    getSamples(dataIndex: number): number[] {
+        return this._sampleList[this.getData().getRawIndex(dataIndex)] || [];
+    }
+
+    /**
+     * Get list of [value, density], in which value is ascending.
+     */
+    getDensity(dataIndex: number): number[][] {
+        return this._densityList[this.getData().getRawIndex(dataIndex)] || [];
+    }
+
+    static defaultOption: ViolinSeriesOption = {
+        // zlevel: 0,
+        z: 2,
+        coordinateSystem: 'cartesian2d',
+        legendHoverLink: true,
+
+        layout: null,
+        boxWidth: [7, 100],
+
+        bandwidth: 'scott',
+        densityResolution: 50,
+        cut: 2,
+
+        side: 'both',
+
+        inner: 'box',
+        innerStyle: {
+            color: '#333',
+            width: 1
+        },
+
+        itemStyle: {
+            borderWidth: 0,
+            opacity: 0.8
+        },
+
+        emphasis: {
+            itemStyle: {
+                opacity: 1,
+                shadowBlur: 5,
+                shadowOffsetX: 1,
+                shadowOffsetY: 1,
+                shadowColor: 'rgba(0,0,0,0.2)'
+            }
+        },
+
+        animationDuration: 800
+    };
+}
+
+interface ViolinSeriesModel extends WhiskerBoxCommonMixin<ViolinSeriesOption> {
+    getBaseAxis(): Axis2D
+}
+ViolinSeriesModel.prototype.getBaseAxis = WhiskerBoxCommonMixin.prototype.getBaseAxis;
+ViolinSeriesModel.prototype.getWhiskerBoxCoordDimensions =
+    WhiskerBoxCommonMixin.prototype.getWhiskerBoxCoordDimensions;
+
+export default ViolinSeriesModel;
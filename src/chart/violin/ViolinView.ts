@@ -0,0 +1,201 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import ChartView from '../../view/Chart';
+import * as graphic from '../../util/graphic';
+import { setStatesStylesFromModel, toggleHoverEmphasis } from '../../util/states';
+import ViolinSeriesModel, { ViolinDataItemOption } from './ViolinSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import { ViolinItemLayout } from './violinLayout';
+import { saveOldStyle } from '../../animation/basicTransition';
+
+class ViolinView extends ChartView {
+    static type = 'violin';
+    type = ViolinView.type;
+
+    private _data: SeriesData;
+
+    render(seriesModel: ViolinSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const data = seriesModel.getData();
+        const group = this.group;
+        const oldData = this._data;
+
+        // There is no old data only when first rendering or switching from
+        // stream mode to normal mode, where previous elements should be removed.
+        if (!this._data) {
+            group.removeAll();
+        }
+
+        // Violin body grows from the center line on the base axis.
+        const baseDim = seriesModel.get('layout') === 'horizontal' ? 0 : 1;
+
+        data.diff(oldData)
+            .add(function (newIdx) {
+                if (data.hasValue(newIdx)) {
+                    const el = createViolin(data, newIdx, baseDim);
+                    data.setItemGraphicEl(newIdx, el);
+                    group.add(el);
+                }
+            })
+            .update(function (newIdx, oldIdx) {
+                let el = oldData.getItemGraphicEl(oldIdx) as graphic.Group;
+
+                // Empty data
+                if (!data.hasValue(newIdx)) {
+                    group.remove(el);
+                    return;
+                }
+
+                if (!el) {
+                    el = createViolin(data, newIdx, baseDim);
+                }
+                else {
+                    saveOldStyle(el.childOfName('body') as graphic.Polygon);
+                    updateViolinData(el, data, newIdx);
+                }
+
+                group.add(el);
+
+                data.setItemGraphicEl(newIdx, el);
+            })
+            .remove(function (oldIdx) {
+                const el = oldData.getItemGraphicEl(oldIdx);
+                el && group.remove(el);
+            })
+            .execute();
+
+        this._data = data;
+    }
+
+    remove(ecModel: GlobalModel) {
+        const group = this.group;
+        const data = this._data;
+        this._data = null;
+        data && data.eachItemGraphicEl(function (el) {
+            el && group.remove(el);
+        });
+    }
+}
+
+function createViolin(data: SeriesData, dataIndex: number, baseDim: number) {
+    const itemLayout = data.getItemLayout(dataIndex) as ViolinItemLayout;
+    const el = new graphic.Group();
+    const body = new graphic.Polygon({
+        name: 'body',
+        shape: {
+            points: zrUtil.map(itemLayout.points, function (point) {
+                point = point.slice();
+                point[baseDim] = itemLayout.initBaseline;
+                return point;
+            })
+        }
+    });
+    const inner = new graphic.Group({
+        name: 'inner',
+        silent: true
+    });
+    el.add(body);
+    el.add(inner);
+
+    updateViolinData(el, data, dataIndex, true);
+
+    return el;
+}
+
+function updateViolinData(
+    el: graphic.Group,
+    data: SeriesData,
+    dataIndex: number,
+    isInit?: boolean
+) {
+    const seriesModel = data.hostModel as ViolinSeriesModel;
+    const itemLayout = data.getItemLayout(dataIndex) as ViolinItemLayout;
+    const body = el.childOfName('body') as graphic.Polygon;
+    const updateMethod = graphic[isInit ? 'initProps' : 'updateProps'];
+
+    updateMethod(
+        body,
+        {shape: {points: itemLayout.points}},
+        seriesModel,
+        dataIndex
+    );
+
+    body.useStyle(data.getItemVisual(dataIndex, 'style'));
+
+    updateInner(el.childOfName('inner') as graphic.Group, itemLayout, seriesModel);
+
+    const itemModel = data.getItemModel<ViolinDataItemOption>(dataIndex);
+    const emphasisModel = itemModel.getModel('emphasis');
+
+    setStatesStylesFromModel(body, itemModel);
+
+    toggleHoverEmphasis(el, emphasisModel.get('focus'), emphasisModel.get('blurScope'), emphasisModel.get('disabled'));
+}
+
+function updateInner(innerGroup: graphic.Group, itemLayout: ViolinItemLayout, seriesModel: ViolinSeriesModel) {
+    const inner = seriesModel.get('inner');
+    const lineStyle = seriesModel.getModel('innerStyle').getLineStyle();
+
+    innerGroup.removeAll();
+
+    if (inner === 'box') {
+        const stats = itemLayout.stats;
+        // A thick bar of IQR on the whisker line.
+        const barWidth = Math.min(Math.max(lineStyle.lineWidth * 4, 3), itemLayout.halfWidth);
+        innerGroup.add(createLine(stats[0], stats[4], lineStyle));
+        innerGroup.add(createLine(stats[1], stats[3], zrUtil.defaults({
+            lineWidth: barWidth
+        }, lineStyle)));
+        innerGroup.add(new graphic.Circle({
+            shape: {
+                cx: stats[2][0],
+                cy: stats[2][1],
+                r: barWidth / 3
+            },
+            style: {
+                fill: '#fff'
+            }
+        }));
+    }
+    else if (inner === 'quartile') {
+        zrUtil.each(itemLayout.quartileLines, function (line, idx) {
+            // Median is dashed and quartiles are dotted by default.
+            innerGroup.add(createLine(line[0], line[1], zrUtil.defaults({
+                lineDash: lineStyle.lineDash || (idx === 1 ? [6, 3] : [2, 3])
+            }, lineStyle)));
+        });
+    }
+}
+
+function createLine(from: number[], to: number[], style: graphic.Line['style']) {
+    return new graphic.Line({
+        shape: {
+            x1: from[0],
+            y1: from[1],
+            x2: to[0],
+            y2: to[1]
+        },
+        style: style
+    });
+}
+
+export default ViolinView;
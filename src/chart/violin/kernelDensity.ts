@@ -0,0 +1,90 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { quantile } from '../../util/number';
+
+export type ViolinBandwidthOption = number | 'scott' | 'silverman';
+
+/**
+ * Bandwidth of gaussian kernel by the rule of thumb.
+ * See <https://en.wikipedia.org/wiki/Kernel_density_estimation#A_rule-of-thumb_bandwidth_estimator>
+ *
+ * @param ascList Samples sorted ascending.
+ */
+export function getBandwidth(ascList: number[], bandwidth: ViolinBandwidthOption): number {
+    if (typeof bandwidth === 'number' && bandwidth > 0) {
+        return bandwidth;
+    }
+
+    const n = ascList.length;
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+        sum += ascList[i];
+    }
+    const mean = sum / n;
+    let sumSquare = 0;
+    for (let i = 0; i < n; i++) {
+        sumSquare += (ascList[i] - mean) * (ascList[i] - mean);
+    }
+    const std = n > 1 ? Math.sqrt(sumSquare / (n - 1)) : 0;
+    const iqr = n ? quantile(ascList, 0.75) - quantile(ascList, 0.25) : 0;
+
+    let spread = std;
+    let factor = 1.06;
+    if (bandwidth === 'silverman') {
+        // Use IQR to be robust to outliers.
+        spread = iqr > 0 ? Math.min(std, iqr / 1.34) : std;
+        factor = 0.9;
+    }
+    const result = factor * spread * Math.pow(n, -0.2);
+
+    // All samples are the same.
+    return result > 0 ? result : (Math.abs(mean) * 0.1 || 1);
+}
+
+/**
+ * Estimate the density with gaussian kernel at `steps` points evenly
+ * placed in the extent of samples, extended by `cut` times the bandwidth.
+ *
+ * @param ascList Samples sorted ascending.
+ * @return List of [value, density].
+ */
+export function kernelDensity(ascList: number[], bandwidth: number, steps: number, cut?: number): number[][] {
+    const n = ascList.length;
+    const result: number[][] = [];
+    if (!n) {
+        return result;
+    }
+
+    const min = ascList[0] - (cut || 0) * bandwidth;
+    const max = ascList[n - 1] + (cut || 0) * bandwidth;
+    steps = min === max ? 1 : Math.max(Math.round(steps), 2);
+    const coef = 1 / (n * bandwidth * Math.sqrt(2 * Math.PI));
+
+    for (let i = 0; i < steps; i++) {
+        const value = steps > 1 ? min + (max - min) * i / (steps - 1) : min;
+        let density = 0;
+        for (let j = 0; j < n; j++) {
+            const u = (value - ascList[j]) / bandwidth;
+            density += Math.exp(-u * u / 2);
+        }
+        result.push([value, density * coef]);
+    }
+    return result;
+}
@@ -0,0 +1,187 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import type GlobalModel from '../../model/Global';
+import ViolinSeriesModel from './ViolinSeries';
+import { groupSeriesByBaseAxis, calculateBoxBase } from '../helper/whiskerBoxLayout';
+
+const each = zrUtil.each;
+
+export interface ViolinItemLayout {
+    // Outline of the violin body.
+    points: number[][]
+    // Points of [min, Q1, median, Q3, max] on the center line.
+    stats: number[][]
+    // Lines across the violin body at [Q1, median, Q3].
+    quartileLines: number[][][]
+    // Position of the center line on the base axis,
+    // where the body grows from in the initial animation.
+    initBaseline: number
+    // Half width of the violin slot.
+    halfWidth: number
+}
+
+export default function violinLayout(ecModel: GlobalModel) {
+
+    const groupResult = groupSeriesByBaseAxis<ViolinSeriesModel>(ecModel, 'violin');
+
+    each(groupResult, function (groupItem) {
+        const seriesModels = groupItem.seriesModels;
+
+        if (!seriesModels.length) {
+            return;
+        }
+
+        calculateBoxBase(groupItem, getSlotList(seriesModels));
+
+        each(seriesModels, function (seriesModel, idx) {
+            layoutSingleSeries(
+                seriesModel,
+                groupItem.boxOffsetList[idx],
+                groupItem.boxWidthList[idx]
+            );
+        });
+    });
+}
+
+/**
+ * All the half violins on the same axis share one slot.
+ */
+function getSlotList(seriesModels: ViolinSeriesModel[]): number[] {
+    const slotList: number[] = [];
+    let slotCount = 0;
+    let halfSlot: number;
+    each(seriesModels, function (seriesModel) {
+        const side = seriesModel.get('side');
+        if (side === 'positive' || side === 'negative') {
+            if (halfSlot == null) {
+                halfSlot = slotCount++;
+            }
+            slotList.push(halfSlot);
+        }
+        else {
+            slotList.push(slotCount++);
+        }
+    });
+    return slotList;
+}
+
+/**
+ * Calculate points location for each series.
+ */
+function layoutSingleSeries(seriesModel: ViolinSeriesModel, offset: number, boxWidth: number) {
+    const coordSys = seriesModel.coordinateSystem;
+    const data = seriesModel.getData();
+    const halfWidth = boxWidth / 2;
+    const cDimIdx = seriesModel.get('layout') === 'horizontal' ? 0 : 1;
+    const vDimIdx = 1 - cDimIdx;
+    const coordDims = ['x', 'y'];
+    const cDim = data.mapDimension(coordDims[cDimIdx]);
+    // [min, Q1, median, Q3, max], the density extent is not drawn as stats.
+    const vDims = data.mapDimensionsAll(coordDims[vDimIdx]).slice(0, 5);
+    const side = seriesModel.get('side');
+    // Positive side is right in horizontal layout and top in vertical layout.
+    const positiveSign = cDimIdx === 0 ? 1 : -1;
+    const hasPositive = side !== 'negative';
+    const hasNegative = side !== 'positive';
+
+    if (cDim == null || vDims.length < 5) {
+        return;
+    }
+
+    for (let dataIndex = 0; dataIndex < data.count(); dataIndex++) {
+        const axisDimVal = data.get(cDim, dataIndex) as number;
+        const density = seriesModel.getDensity(dataIndex);
+
+        const stats = zrUtil.map(vDims, function (dim) {
+            return getPoint(axisDimVal, data.get(dim, dataIndex) as number);
+        });
+        const center = stats[2][cDimIdx];
+
+        // Each violin is scaled to the same max width.
+        let maxDensity = 0;
+        each(density, function (item) {
+            maxDensity = Math.max(maxDensity, item[1]);
+        });
+        const widthScale = maxDensity ? halfWidth / maxDensity : 0;
+
+        const positivePoints: number[][] = [];
+        const negativePoints: number[][] = [];
+        each(density, function (item) {
+            const point = getPoint(axisDimVal, item[0]);
+            const w = item[1] * widthScale;
+            const positivePoint = point.slice();
+            positivePoint[cDimIdx] += hasPositive ? positiveSign * w : 0;
+            point[cDimIdx] -= hasNegative ? positiveSign * w : 0;
+            positivePoints.push(positivePoint);
+            negativePoints.push(point);
+        });
+
+        const quartileLines = zrUtil.map([1, 2, 3], function (statIdx) {
+            const val = data.get(vDims[statIdx], dataIndex) as number;
+            const w = interpolateDensity(density, val) * widthScale;
+            const from = stats[statIdx].slice();
+            const to = stats[statIdx].slice();
+            from[cDimIdx] -= hasNegative ? positiveSign * w : 0;
+            to[cDimIdx] += hasPositive ? positiveSign * w : 0;
+            return [from, to];
+        });
+
+        data.setItemLayout(dataIndex, {
+            points: positivePoints.concat(negativePoints.reverse()),
+            stats: stats,
+            quartileLines: quartileLines,
+            initBaseline: center,
+            halfWidth: halfWidth
+        } as ViolinItemLayout);
+    }
+
+    function getPoint(axisDimVal: number, val: number) {
+        const p = [];
+        p[cDimIdx] = axisDimVal;
+        p[vDimIdx] = val;
+        let point;
+        if (isNaN(axisDimVal) || isNaN(val)) {
+            point = [NaN, NaN];
+        }
+        else {
+            point = coordSys.dataToPoint(p);
+            point[cDimIdx] += offset;
+        }
+        return point;
+    }
+}
+
+/**
+ * Linear interpolation in the list of [value, density].
+ */
+function interpolateDensity(density: number[][], val: number): number {
+    for (let i = 0; i < density.length; i++) {
+        const item = density[i];
+        if (item[0] >= val) {
+            const prev = density[i - 1];
+            if (!prev || item[0] === prev[0]) {
+                return item[1];
+            }
+            return prev[1] + (item[1] - prev[1]) * (val - prev[0]) / (item[0] - prev[0]);
+        }
+    }
+    return density.length ? density[density.length - 1][1] : 0;
+}
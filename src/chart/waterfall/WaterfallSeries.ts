@@ -0,0 +1,252 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import BaseBarSeriesModel, { BaseBarSeriesOption } from '../bar/BaseBarSeries';
+import { BarItemStyleOption, BarSeriesLabelOption } from '../bar/BarSeries';
+import {
+    OptionDataValue,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    SeriesEncodeOptionMixin,
+    DefaultStatesMixinEmphasis,
+    CallbackDataParams,
+    ItemStyleOption,
+    LineStyleOption
+} from '../../util/types';
+import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
+import { inheritDefaultOption } from '../../util/component';
+import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
+import { isNameSpecified } from '../../util/model';
+import { round } from '../../util/number';
+import { isObject } from 'zrender/src/core/util';
+
+/**
+ * 'total' is a bar from zero to the running total.
+ * 'subtotal' is a bar from the previous total or subtotal to the running total.
+ */
+export type WaterfallTotalType = 'total' | 'subtotal';
+
+export type WaterfallItemKind = 'increase' | 'decrease' | 'total';
+
+export interface WaterfallStateOption<TCbParams = never> {
+    itemStyle?: BarItemStyleOption<TCbParams>
+    label?: BarSeriesLabelOption
+}
+
+interface WaterfallStatesMixin {
+    emphasis?: DefaultStatesMixinEmphasis
+}
+
+export interface WaterfallDataItemOption extends WaterfallStateOption,
+    StatesOptionMixin<WaterfallStateOption, WaterfallStatesMixin>,
+    OptionDataItemObject<OptionDataValue> {
+    /**
+     * Mark the item as a total bar. The value of it is ignored
+     * and the running total is used instead.
+     */
+    total?: WaterfallTotalType
+
+    cursor?: string
+}
+
+export interface WaterfallSeriesOption
+    extends BaseBarSeriesOption<WaterfallStateOption<CallbackDataParams>, WaterfallStatesMixin>,
+    WaterfallStateOption<CallbackDataParams>,
+    SeriesEncodeOptionMixin {
+
+    type?: 'waterfall'
+
+    coordinateSystem?: 'cartesian2d'
+
+    /**
+     * Style of bars with positive delta. Overridden by `itemStyle` in data item.
+     */
+    increaseStyle?: ItemStyleOption
+
+    /**
+     * Style of bars with negative delta.
+     */
+    decreaseStyle?: ItemStyleOption
+
+    /**
+     * Style of total and subtotal bars. Color from palette is used if not specified.
+     */
+    totalStyle?: ItemStyleOption
+
+    /**
+     * Lines between the end of each bar and the start of the next one.
+     */
+    connector?: {
+        show?: boolean
+        lineStyle?: LineStyleOption
+    }
+
+    data?: (WaterfallDataItemOption | OptionDataValue | OptionDataValue[])[]
+}
+
+class WaterfallSeriesModel extends BaseBarSeriesModel<WaterfallSeriesOption> {
+    static type = 'series.waterfall';
+    type = WaterfallSeriesModel.type;
+
+    static dependencies = ['grid'];
+
+    coordinateSystem: Cartesian2D;
+
+    /**
+     * Start and end of the running total of each item, indexed by raw index.
+     */
+    private _runningStarts: number[] = [];
+    private _runningEnds: number[] = [];
+
+    /**
+     * Compute the running totals based on the values on `valueDim`.
+     * Returns the extent of all the bars.
+     */
+    computeRunningTotals(valueDim: string): [number, number] {
+        const rawData = this.getRawData();
+        const starts: number[] = this._runningStarts = [];
+        const ends: number[] = this._runningEnds = [];
+        const extent: [number, number] = [Infinity, -Infinity];
+        let level = 0;
+        let lastTotal = 0;
+
+        for (let i = 0, len = rawData.count(); i < len; i++) {
+            const totalType = getTotalType(rawData.getRawDataItem(i));
+            let start;
+            let end;
+            if (totalType) {
+                start = totalType === 'total' ? 0 : lastTotal;
+                end = lastTotal = level;
+            }
+            else {
+                const delta = rawData.get(valueDim, i) as number;
+                if (isNaN(delta)) {
+                    start = end = NaN;
+                }
+                else {
+                    start = level;
+                    // Avoid accumulating floating point error like 0.1 + 0.2.
+                    end = level = round(level + delta);
+                }
+            }
+            starts[i] = start;
+            ends[i] = end;
+            if (!isNaN(start)) {
+                extent[0] = Math.min(extent[0], start, end);
+                extent[1] = Math.max(extent[1], start, end);
+            }
+        }
+
+        return extent;
+    }
+
+    /**
+     * Get [start, end] of the bar. Values are NaN if the item is empty.
+     */
+    getRunningTotal(dataIndex: number): [number, number] {
+        const rawIndex = this.getData().getRawIndex(dataIndex);
+        const start = this._runningStarts[rawIndex];
+        const end = this._runningEnds[rawIndex];
+        return start == null ? [NaN, NaN] : [start, end];
+    }
+
+    getItemKind(dataIndex: number): WaterfallItemKind {
+        const data = this.getData();
+        if (getTotalType(data.getRawDataItem(dataIndex))) {
+            return 'total';
+        }
+        const runningTotal = this.getRunningTotal(dataIndex);
+        return runningTotal[1] < runningTotal[0] ? 'decrease' : 'increase';
+    }
+
+    // Override Series.getDataParams()
+    getDataParams(dataIndex: number) {
+        const params = super.getDataParams(dataIndex);
+        if (this.getItemKind(dataIndex) === 'total') {
+            // Value of total bar is the running total.
+            params.value = this.getRunningTotal(dataIndex)[1];
+        }
+        return params;
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries: boolean
+    ) {
+        const params = this.getDataParams(dataIndex);
+        const runningTotal = this.getRunningTotal(dataIndex);
+        const blocks = [
+            createTooltipMarkup('nameValue', {
+                markerType: 'item',
+                markerColor: params.color as string,
+                name: params.name,
+                value: params.value as number,
+                noValue: isNaN(params.value as number)
+            })
+        ];
+        if (this.getItemKind(dataIndex) !== 'total') {
+            // Show the cumulative value under the delta.
+            blocks.push(createTooltipMarkup('nameValue', {
+                name: this.ecModel.getLocaleModel().get(['series', 'waterfall', 'runningTotal']),
+                value: runningTotal[1],
+                noValue: isNaN(runningTotal[1])
+            }));
+        }
+        return createTooltipMarkup('section', {
+            header: this.name,
+            noHeader: multipleSeries || !isNameSpecified(this),
+            blocks: blocks
+        });
+    }
+
+    static defaultOption: WaterfallSeriesOption = inheritDefaultOption(BaseBarSeriesModel.defaultOption, {
+        increaseStyle: {
+            color: '#91cc75'
+        },
+        decreaseStyle: {
+            color: '#ee6666'
+        },
+        totalStyle: {},
+
+        connector: {
+            show: true,
+            lineStyle: {
+                color: '#aaa',
+                width: 1,
+                type: 'solid'
+            }
+        },
+
+        // Running totals are computed in sequence.
+        progressive: 0,
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121'
+            }
+        }
+    });
+}
+
+function getTotalType(dataItem: unknown): WaterfallTotalType {
+    const totalType = isObject(dataItem) && (dataItem as WaterfallDataItemOption).total;
+    return totalType === 'total' || totalType === 'subtotal' ? totalType : null;
+}
+
+export default WaterfallSeriesModel;
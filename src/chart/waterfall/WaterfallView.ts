@@ -0,0 +1,194 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import ChartView from '../../view/Chart';
+import * as graphic from '../../util/graphic';
+import { setStatesStylesFromModel, toggleHoverEmphasis } from '../../util/states';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { getDefaultLabel } from '../helper/labelHelper';
+import WaterfallSeriesModel, { WaterfallDataItemOption } from './WaterfallSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import SeriesData from '../../data/SeriesData';
+import { WaterfallConnectorLayout } from './waterfallLayout';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import { saveOldStyle } from '../../animation/basicTransition';
+import { BuiltinTextPosition } from 'zrender/src/core/types';
+import { ColorString } from '../../util/types';
+
+class WaterfallView extends ChartView {
+    static type = 'waterfall';
+    type = WaterfallView.type;
+
+    private _data: SeriesData;
+
+    private _connectorGroup: graphic.Group;
+
+    render(seriesModel: WaterfallSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const data = seriesModel.getData();
+        const group = this.group;
+        const oldData = this._data;
+
+        if (!this._data) {
+            group.removeAll();
+            this._connectorGroup = null;
+        }
+
+        const isValueAxisH = !seriesModel.coordinateSystem.getBaseAxis().isHorizontal();
+
+        data.diff(oldData)
+            .add(function (newIdx) {
+                if (data.getItemLayout(newIdx)) {
+                    const el = createRect(data, newIdx, isValueAxisH);
+                    data.setItemGraphicEl(newIdx, el);
+                    group.add(el);
+                }
+            })
+            .update(function (newIdx, oldIdx) {
+                let el = oldData.getItemGraphicEl(oldIdx) as graphic.Rect;
+
+                if (!data.getItemLayout(newIdx)) {
+                    group.remove(el);
+                    return;
+                }
+
+                if (!el) {
+                    el = createRect(data, newIdx, isValueAxisH);
+                }
+                else {
+                    saveOldStyle(el);
+                    graphic.updateProps(el, {
+                        shape: data.getItemLayout(newIdx)
+                    }, seriesModel, newIdx);
+                    updateStyle(el, data, newIdx, isValueAxisH);
+                }
+
+                group.add(el);
+                data.setItemGraphicEl(newIdx, el);
+            })
+            .remove(function (oldIdx) {
+                const el = oldData.getItemGraphicEl(oldIdx);
+                el && group.remove(el);
+            })
+            .execute();
+
+        this._renderConnectors(seriesModel);
+
+        this._data = data;
+    }
+
+    private _renderConnectors(seriesModel: WaterfallSeriesModel) {
+        const connectorModel = seriesModel.getModel('connector');
+        let connectorGroup = this._connectorGroup;
+
+        if (!connectorGroup) {
+            connectorGroup = this._connectorGroup = new graphic.Group({
+                silent: true
+            });
+            this.group.add(connectorGroup);
+        }
+        connectorGroup.removeAll();
+
+        if (!connectorModel.get('show')) {
+            return;
+        }
+
+        const lineStyle = connectorModel.getModel('lineStyle').getLineStyle();
+        const connectors = seriesModel.getData().getLayout('connectors') as WaterfallConnectorLayout[];
+
+        zrUtil.each(connectors, function (points) {
+            connectorGroup.add(new graphic.Line({
+                shape: {
+                    x1: points[0][0],
+                    y1: points[0][1],
+                    x2: points[1][0],
+                    y2: points[1][1]
+                },
+                style: lineStyle
+            }));
+        });
+    }
+
+    remove(ecModel: GlobalModel) {
+        this.group.removeAll();
+        this._data = null;
+        this._connectorGroup = null;
+    }
+}
+
+function createRect(data: SeriesData, dataIndex: number, isValueAxisH: boolean) {
+    const layout = data.getItemLayout(dataIndex) as RectLike;
+    // Bar grows from the start of the running total.
+    const initShape = zrUtil.extend({}, layout);
+    initShape[isValueAxisH ? 'width' : 'height'] = 0;
+
+    const rect = new graphic.Rect({
+        shape: initShape
+    });
+    graphic.initProps(rect, {
+        shape: layout
+    }, data.hostModel, dataIndex);
+
+    updateStyle(rect, data, dataIndex, isValueAxisH);
+
+    return rect;
+}
+
+function updateStyle(
+    el: graphic.Rect,
+    data: SeriesData,
+    dataIndex: number,
+    isValueAxisH: boolean
+) {
+    const seriesModel = data.hostModel as WaterfallSeriesModel;
+    const itemModel = data.getItemModel<WaterfallDataItemOption>(dataIndex);
+    const layout = data.getItemLayout(dataIndex) as RectLike;
+    const style = data.getItemVisual(dataIndex, 'style');
+
+    el.setShape('r', itemModel.get(['itemStyle', 'borderRadius']) || 0);
+    el.useStyle(style);
+
+    const cursorStyle = itemModel.getShallow('cursor');
+    cursorStyle && el.attr('cursor', cursorStyle);
+
+    const labelPositionOutside = isValueAxisH
+        ? (layout.width >= 0 ? 'right' : 'left')
+        : (layout.height >= 0 ? 'bottom' : 'top');
+
+    setLabelStyle(
+        el, getLabelStatesModels(itemModel),
+        {
+            labelFetcher: seriesModel,
+            labelDataIndex: dataIndex,
+            defaultText: seriesModel.getItemKind(dataIndex) === 'total'
+                ? seriesModel.getRunningTotal(dataIndex)[1] + ''
+                : getDefaultLabel(data, dataIndex),
+            inheritColor: style.fill as ColorString,
+            defaultOpacity: style.opacity,
+            defaultOutsidePosition: labelPositionOutside as BuiltinTextPosition
+        }
+    );
+
+    const emphasisModel = itemModel.getModel('emphasis');
+    toggleHoverEmphasis(el, emphasisModel.get('focus'), emphasisModel.get('blurScope'), emphasisModel.get('disabled'));
+    setStatesStylesFromModel(el, itemModel);
+}
+
+export default WaterfallView;
@@ -0,0 +1,132 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import createRenderPlanner from '../helper/createRenderPlanner';
+import { StageHandler } from '../../util/types';
+import WaterfallSeriesModel from './WaterfallSeries';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+
+export type WaterfallConnectorLayout = number[][];
+
+const waterfallLayout: StageHandler = {
+
+    seriesType: 'waterfall',
+
+    plan: createRenderPlanner(),
+
+    reset: function (seriesModel: WaterfallSeriesModel) {
+        const coordSys = seriesModel.coordinateSystem;
+        if (!coordSys || coordSys.type !== 'cartesian2d') {
+            return;
+        }
+
+        const data = seriesModel.getData();
+        const baseAxis = coordSys.getBaseAxis();
+        const valueAxis = coordSys.getOtherAxis(baseAxis);
+        const baseDim = data.mapDimension(baseAxis.dim);
+        const isValueAxisH = valueAxis.isHorizontal();
+        const barMinHeight = seriesModel.get('barMinHeight') || 0;
+        // Bar width and offset are set in the layout of bar grid.
+        const columnWidth = data.getLayout('size');
+        const columnOffset = data.getLayout('offset');
+
+        function dataToPoint(baseValue: number, value: number) {
+            return coordSys.dataToPoint(isValueAxisH ? [value, baseValue] : [baseValue, value]);
+        }
+
+        const connectors: WaterfallConnectorLayout[] = [];
+        let lastLayout: RectLike;
+        let lastEndCoord: number;
+
+        data.each(function (dataIndex) {
+            const runningTotal = seriesModel.getRunningTotal(dataIndex);
+            const baseValue = data.get(baseDim, dataIndex) as number;
+
+            if (isNaN(runningTotal[0]) || isNaN(baseValue)) {
+                data.setItemLayout(dataIndex, null);
+                return;
+            }
+
+            const startPoint = dataToPoint(baseValue, runningTotal[0]);
+            const endPoint = dataToPoint(baseValue, runningTotal[1]);
+            let layout: RectLike;
+            let endCoord: number;
+
+            if (isValueAxisH) {
+                let width = endPoint[0] - startPoint[0];
+                if (Math.abs(width) < barMinHeight) {
+                    width = (width < 0 ? -1 : 1) * barMinHeight;
+                }
+                layout = {
+                    x: startPoint[0],
+                    y: startPoint[1] + columnOffset,
+                    width: width,
+                    height: columnWidth
+                };
+                endCoord = endPoint[0];
+            }
+            else {
+                let height = endPoint[1] - startPoint[1];
+                if (Math.abs(height) < barMinHeight) {
+                    height = (height <= 0 ? -1 : 1) * barMinHeight;
+                }
+                layout = {
+                    x: startPoint[0] + columnOffset,
+                    y: startPoint[1],
+                    width: columnWidth,
+                    height: height
+                };
+                endCoord = endPoint[1];
+            }
+
+            data.setItemLayout(dataIndex, layout);
+
+            if (lastLayout) {
+                connectors.push(getConnector(lastLayout, layout, lastEndCoord, isValueAxisH));
+            }
+            lastLayout = layout;
+            lastEndCoord = endCoord;
+        });
+
+        data.setLayout('connectors', connectors);
+    }
+};
+
+/**
+ * Connect the facing sides of two bars at the end of the previous bar,
+ * which also works on inversed base axis.
+ */
+function getConnector(
+    prevLayout: RectLike,
+    layout: RectLike,
+    valueCoord: number,
+    isValueAxisH: boolean
+): WaterfallConnectorLayout {
+    const baseXY = isValueAxisH ? 'y' : 'x';
+    const sizeWH = isValueAxisH ? 'height' : 'width';
+    const prevStart = prevLayout[baseXY];
+    const start = layout[baseXY];
+    const from = start >= prevStart ? prevStart + prevLayout[sizeWH] : prevStart;
+    const to = start >= prevStart ? start : start + layout[sizeWH];
+    return isValueAxisH
+        ? [[valueCoord, from], [valueCoord, to]]
+        : [[from, valueCoord], [to, valueCoord]];
+}
+
+export default waterfallLayout;
@@ -0,0 +1,46 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { StageHandler } from '../../util/types';
+import WaterfallSeriesModel from './WaterfallSeries';
+
+const waterfallProcessor: StageHandler = {
+
+    seriesType: 'waterfall',
+
+    reset: function (seriesModel: WaterfallSeriesModel) {
+        const coordSys = seriesModel.coordinateSystem;
+        if (!coordSys || coordSys.type !== 'cartesian2d') {
+            return;
+        }
+
+        const data = seriesModel.getData();
+        const valueAxis = coordSys.getOtherAxis(coordSys.getBaseAxis());
+        const valueDim = data.mapDimension(valueAxis.dim);
+        const extent = seriesModel.computeRunningTotals(valueDim);
+
+        // Bars are drawn from start to end of the running total rather than
+        // from zero to the delta, so the value axis should cover all of them.
+        if (extent[0] <= extent[1]) {
+            data.setApproximateExtent(extent, valueDim);
+        }
+    }
+};
+
+export default waterfallProcessor;
@@ -0,0 +1,51 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import createRenderPlanner from '../helper/createRenderPlanner';
+import { StageHandler } from '../../util/types';
+import WaterfallSeriesModel from './WaterfallSeries';
+import { extend } from 'zrender/src/core/util';
+
+const waterfallVisual: StageHandler = {
+
+    seriesType: 'waterfall',
+
+    plan: createRenderPlanner(),
+
+    reset: function (seriesModel: WaterfallSeriesModel) {
+        const kindStyles = {
+            increase: seriesModel.getModel('increaseStyle').getItemStyle(),
+            decrease: seriesModel.getModel('decreaseStyle').getItemStyle(),
+            total: seriesModel.getModel('totalStyle').getItemStyle()
+        };
+
+        return {
+            progress(params, data) {
+                let dataIndex;
+                while ((dataIndex = params.next()) != null) {
+                    // Style in data item will override it later in the data style task.
+                    const existsStyle = data.ensureUniqueItemVisual(dataIndex, 'style');
+                    extend(existsStyle, kindStyles[seriesModel.getItemKind(dataIndex)]);
+                }
+            }
+        };
+    }
+};
+
+export default waterfallVisual;
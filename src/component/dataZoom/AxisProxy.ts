@@ -31,6 +31,8 @@ import { unionAxisExtentFromData } from '../../coord/axisHelper';
 import { ensureScaleRawExtentInfo } from '../../coord/scaleRawExtentInfo';
 import { getAxisMainType, isCoordSupported, DataZoomAxisDimension } from './helper';
 import { SINGLE_REFERRING } from '../../util/model';
+import { getValidLinthresh, symlogInverse, symlogTransform } from '../../scale/Symlog';
+import { SymlogAxisBaseOption } from '../../coord/axisCommonTypes';
 
 const each = zrUtil.each;
 const asc = numberUtil.asc;
@@ -146,6 +148,8 @@ class AxisProxy {
         const axisModel = this.getAxisModel();
         const scale = axisModel.axis.scale;
         const rangePropMode = this._dataZoomModel.getRangePropMode();
+        const percentMapper = getPercentMapper(axisModel);
+        const linearDataExtent = [percentMapper.toLinear(dataExtent[0]), percentMapper.toLinear(dataExtent[1])];
         const percentExtent = [0, 100];
         const percentWindow = [] as unknown as [number, number];
         const valueWindow = [] as unknown as [number, number];
@@ -172,9 +176,9 @@ class AxisProxy {
             if (rangePropMode[idx] === 'percent') {
                 boundPercent == null && (boundPercent = percentExtent[idx]);
                 // Use scale.parse to math round for category or time axis.
-                boundValue = scale.parse(numberUtil.linearMap(
-                    boundPercent, percentExtent, dataExtent
-                ));
+                boundValue = scale.parse(percentMapper.fromLinear(numberUtil.linearMap(
+                    boundPercent, percentExtent, linearDataExtent
+                )));
             }
             else {
                 hasPropModeValue = true;
@@ -183,7 +187,7 @@ class AxisProxy {
                 // This calculation can not be inversed, because all of values that
                 // are overflow the `dataExtent` will be calculated to percent '100%'
                 boundPercent = numberUtil.linearMap(
-                    boundValue, dataExtent, percentExtent
+                    percentMapper.toLinear(boundValue), linearDataExtent, percentExtent
                 );
             }
 
@@ -220,8 +224,11 @@ class AxisProxy {
                 spans['max' + suffix as 'maxSpan' | 'maxValueSpan']
             );
             for (let i = 0; i < 2; i++) {
-                toWindow[i] = numberUtil.linearMap(fromWindow[i], fromExtent, toExtent, true);
-                toValue && (toWindow[i] = scale.parse(toWindow[i]));
+                toWindow[i] = toValue
+                    ? scale.parse(percentMapper.fromLinear(
+                        numberUtil.linearMap(fromWindow[i], fromExtent, linearDataExtent, true)
+                    ))
+                    : numberUtil.linearMap(percentMapper.toLinear(fromWindow[i]), linearDataExtent, toExtent, true);
             }
         }
 
@@ -432,4 +439,28 @@ function calculateDataExtent(axisProxy: AxisProxy, axisDim: string, seriesModels
     return [rawExtentResult.min, rawExtentResult.max] as [number, number];
 }
 
+/**
+ * The percent window is linear to the value transformed by the axis,
+ * which is not the raw value in symlog axis.
+ */
+function getPercentMapper(axisModel: AxisBaseModel): {
+    toLinear: (val: number) => number
+    fromLinear: (val: number) => number
+} {
+    if (axisModel.get('type') === 'symlog') {
+        const linthresh = getValidLinthresh(
+            (axisModel as AxisBaseModel<SymlogAxisBaseOption>).get('linthresh')
+        );
+        const base = (axisModel as AxisBaseModel<SymlogAxisBaseOption>).get('logBase');
+        return {
+            toLinear: val => symlogTransform(val, linthresh, base),
+            fromLinear: val => symlogInverse(val, linthresh, base)
+        };
+    }
+    return {
+        toLinear: val => val,
+        fromLinear: val => val
+    };
+}
+
 export default AxisProxy;
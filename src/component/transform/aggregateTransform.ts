@@ -0,0 +1,233 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import {
+    DataTransformOption, ExternalDataTransform, ExternalDimensionDefinition
+} from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionName, OptionDataValue, OptionSourceDataArrayRows
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { createHashMap, each, hasOwn, isNumber, map } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import {
+    AggregateMethod, aggregators, checkUpstreamSourceFormat, getUpstreamDimensionInfo,
+    isValidAggregateMethod, makeGroupKey, normalizeAggregateMethod, retrieveNumericValue
+} from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'aggregate',
+ *     config: {
+ *         groupBy: ['Country', 'Year'],
+ *         resultDimensions: [
+ *             { from: 'Country' },
+ *             { from: 'Year' },
+ *             { from: 'Income', method: 'sum', name: 'Total Income' },
+ *             { from: 'Income', method: 'median' },
+ *             { method: 'count', name: 'Records' }
+ *         ]
+ *     }
+ * }
+ * ```
+ */
+
+export interface AggregateTransformOption extends DataTransformOption {
+    type: 'aggregate';
+    config: {
+        // If not specified, all of the data are aggregated into one line.
+        groupBy?: DimensionLoose | DimensionLoose[];
+        resultDimensions: AggregateResultDimensionOption[];
+    };
+}
+
+interface AggregateResultDimensionOption {
+    // Dimension in upstream. Can be omitted only if `method` is 'count', which counts
+    // the rows, otherwise 'count' counts the non-empty values of the dimension.
+    from?: DimensionLoose;
+    // By default 'first'.
+    method?: AggregateMethod;
+    // Name of the result dimension. By default the name of the `from` dimension if
+    // method is 'first', otherwise like 'sum(Income)', or 'count' if `from` is omitted.
+    // Names should be unique.
+    name?: DimensionName;
+}
+
+type AggregateGroup = {
+    rowCount: number;
+    // Raw values of the first row in the group, for method 'first'.
+    firstValues: OptionDataValue[];
+    // Numeric values collected for each result dimension.
+    valueLists: number[][];
+    // Count of non-empty values for each result dimension of method 'count'.
+    valueCounts: number[];
+};
+
+let sampleLog = '';
+if (__DEV__) {
+    sampleLog = [
+        'Valid config is like:',
+        '{ groupBy: "Country", resultDimensions: [{ from: "Country" }, { from: "Income", method: "sum" }] }'
+    ].join(' ');
+}
+
+
+export const aggregateTransform: ExternalDataTransform<AggregateTransformOption> = {
+
+    type: 'echarts:aggregate',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as AggregateTransformOption['config'];
+        let errMsg = '';
+
+        checkUpstreamSourceFormat(upstream, 'aggregate');
+
+        const groupByDimInfoList = map(normalizeToArray(config.groupBy), function (dimLoose) {
+            return getUpstreamDimensionInfo(upstream, dimLoose, config);
+        });
+
+        const resultDimOptionList = normalizeToArray(config.resultDimensions);
+        if (!resultDimOptionList.length) {
+            if (__DEV__) {
+                errMsg = 'Empty `resultDimensions` in aggregate transform. ' + sampleLog;
+            }
+            throwError(errMsg);
+        }
+
+        const resultDimNameMap = createHashMap<boolean, DimensionName>();
+        const resultDimList: {
+            method: AggregateMethod;
+            // Null only if method is 'count'.
+            dimInfo: ExternalDimensionDefinition;
+            name: DimensionName;
+        }[] = map(resultDimOptionList, function (resultDimOption) {
+            const method = normalizeAggregateMethod(resultDimOption.method || 'first');
+
+            if (!isValidAggregateMethod(method)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Illegal method "' + resultDimOption.method + '" in aggregate transform.\n',
+                        'Illegal config:', resultDimOption, '.\n'
+                    );
+                }
+                throwError(errMsg);
+            }
+
+            const dimInfo = (method === 'count' && resultDimOption.from == null)
+                ? null
+                : getUpstreamDimensionInfo(upstream, resultDimOption.from, resultDimOption);
+
+            let name = resultDimOption.name;
+            if (name == null) {
+                name = !dimInfo
+                    ? 'count'
+                    : method === 'first'
+                    ? dimInfo.name
+                    : resultDimOption.method + '(' + dimInfo.name + ')';
+            }
+            if (resultDimNameMap.get(name)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Duplicated result dimension name "' + name + '" in aggregate transform.\n',
+                        'Illegal config:', resultDimOption, '.\n'
+                    );
+                }
+                throwError(errMsg);
+            }
+            resultDimNameMap.set(name, true);
+
+            return {
+                method: method,
+                dimInfo: dimInfo,
+                name: name
+            };
+        });
+
+        // Keep the order of the first appearance of each group.
+        const groupMap = createHashMap<AggregateGroup, string>();
+        const groupList: AggregateGroup[] = [];
+
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            const rawItem = upstream.getRawDataItem(i);
+
+            const groupKey = makeGroupKey(upstream, rawItem, groupByDimInfoList);
+            let group = groupMap.get(groupKey);
+            if (!group) {
+                group = {
+                    rowCount: 0,
+                    firstValues: [],
+                    valueLists: [],
+                    valueCounts: []
+                };
+                each(resultDimList, function (resultDim, idx) {
+                    group.firstValues[idx] = resultDim.dimInfo
+                        ? upstream.retrieveValueFromItem(rawItem, resultDim.dimInfo.index)
+                        : null;
+                    group.valueLists[idx] = [];
+                    group.valueCounts[idx] = 0;
+                });
+                groupMap.set(groupKey, group);
+                groupList.push(group);
+            }
+
+            group.rowCount++;
+            for (let j = 0; j < resultDimList.length; j++) {
+                const resultDim = resultDimList[j];
+                if (resultDim.method === 'count') {
+                    resultDim.dimInfo && !isEmptyValue(
+                        upstream.retrieveValueFromItem(rawItem, resultDim.dimInfo.index)
+                    ) && group.valueCounts[j]++;
+                }
+                else if (hasOwn(aggregators, resultDim.method)) {
+                    const val = retrieveNumericValue(upstream, rawItem, resultDim.dimInfo);
+                    !isNaN(val) && group.valueLists[j].push(val);
+                }
+            }
+        }
+
+        const resultData: OptionSourceDataArrayRows = map(groupList, function (group) {
+            return map(resultDimList, function (resultDim, idx) {
+                const method = resultDim.method;
+                return method === 'count'
+                    ? (resultDim.dimInfo ? group.valueCounts[idx] : group.rowCount)
+                    : method === 'first'
+                    ? group.firstValues[idx]
+                    : aggregators[method](group.valueLists[idx]);
+            });
+        });
+
+        return {
+            data: resultData,
+            dimensions: map(resultDimList, function (resultDim) {
+                return resultDim.name;
+            })
+        };
+    }
+};
+
+/**
+ * Like `count(column)` in SQL, null, '' and '-' (see `parseDataValue`) are not counted.
+ */
+function isEmptyValue(val: OptionDataValue): boolean {
+    return val == null || val === '' || val === '-' || (isNumber(val) && isNaN(val));
+}
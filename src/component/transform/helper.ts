@@ -0,0 +1,188 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import {
+    ExternalSource, ExternalDimensionDefinition, DataTransformDataItem
+} from '../../data/helper/transform';
+import {
+    Dictionary, DimensionDefinitionLoose, DimensionLoose, DimensionName, OptionDataValue,
+    SOURCE_FORMAT_ARRAY_ROWS, SOURCE_FORMAT_OBJECT_ROWS
+} from '../../util/types';
+import { extend, hasOwn, isArray, isNumber, map } from 'zrender/src/core/util';
+import { makePrintable, throwError } from '../../util/log';
+import { asc, quantile } from '../../util/number';
+
+
+export type AggregateMethod = 'sum' | 'count' | 'first' | 'min' | 'max' | 'average' | 'avg' | 'median';
+
+
+
+/**
+ * Get dimension info from upstream, throw error if not found.
+ * @param illegalConfig Only used to print error message.
+ */
+export function getUpstreamDimensionInfo(
+    upstream: ExternalSource,
+    dimLoose: DimensionLoose,
+    illegalConfig: unknown
+): ExternalDimensionDefinition {
+    let errMsg = '';
+    const dimInfo = dimLoose != null ? upstream.getDimensionInfo(dimLoose) : null;
+    if (!dimInfo) {
+        if (__DEV__) {
+            errMsg = makePrintable(
+                'Can not find dimension info via: ' + dimLoose + '.\n',
+                'Existing dimensions: ', upstream.cloneAllDimensionInfo(), '.\n',
+                'Illegal config:', illegalConfig, '.\n'
+            );
+        }
+        throwError(errMsg);
+    }
+    return dimInfo;
+}
+
+/**
+ * Transforms that read raw data items only support array rows and object rows.
+ */
+export function checkUpstreamSourceFormat(upstream: ExternalSource, transformType: string): void {
+    const sourceFormat = upstream.sourceFormat;
+    if (sourceFormat !== SOURCE_FORMAT_ARRAY_ROWS
+        && sourceFormat !== SOURCE_FORMAT_OBJECT_ROWS
+    ) {
+        let errMsg = '';
+        if (__DEV__) {
+            errMsg = 'sourceFormat "' + sourceFormat + '" is not supported in ' + transformType + ' transform yet';
+        }
+        throwError(errMsg);
+    }
+}
+
+/**
+ * @return The number value, or NaN if the value is not numeric.
+ */
+export function retrieveNumericValue(
+    upstream: ExternalSource,
+    rawItem: DataTransformDataItem,
+    dimInfo: ExternalDimensionDefinition
+): number {
+    const val = upstream.convertValue(upstream.retrieveValueFromItem(rawItem, dimInfo.index), dimInfo);
+    return isNumber(val) ? val : NaN;
+}
+
+/**
+ * Copy the data item and append values to it, keeping the format (array or object) of the item.
+ */
+export function appendValuesToDataItem(
+    rawItem: DataTransformDataItem,
+    names: DimensionName[],
+    values: OptionDataValue[]
+): DataTransformDataItem {
+    if (isArray(rawItem)) {
+        return rawItem.concat(values);
+    }
+    const newItem = extend({}, rawItem);
+    for (let i = 0; i < names.length; i++) {
+        newItem[names[i]] = values[i];
+    }
+    return newItem;
+}
+
+/**
+ * Dimensions of the upstream followed by the given extra dimensions.
+ */
+export function appendDimensionsToUpstream(
+    upstream: ExternalSource,
+    extraDimensions: DimensionDefinitionLoose[]
+): DimensionDefinitionLoose[] {
+    return map(upstream.cloneAllDimensionInfo(), function (dimInfo): DimensionDefinitionLoose {
+        return {
+            name: dimInfo.name,
+            displayName: dimInfo.displayName
+        };
+    }).concat(extraDimensions);
+}
+
+/**
+ * Make a key of the values on the given dimensions, which is used to group data items.
+ */
+export function makeGroupKey(
+    upstream: ExternalSource,
+    rawItem: DataTransformDataItem,
+    dimInfoList: ExternalDimensionDefinition[]
+): string {
+    let groupKey = '';
+    for (let i = 0; i < dimInfoList.length; i++) {
+        // Use a separator that not likely to be in the values.
+        groupKey += upstream.retrieveValueFromItem(rawItem, dimInfoList[i].index) + '\0';
+    }
+    return groupKey;
+}
+
+const METHOD_ALIAS: Dictionary<AggregateMethod> = {
+    avg: 'average'
+};
+
+/**
+ * Calculate the aggregated value from the collected numeric values.
+ * NaN is returned if there is no valid value.
+ */
+export const aggregators: {[method in AggregateMethod]?: (values: number[]) => number} = {
+    sum: function (values) {
+        let sum = 0;
+        for (let i = 0; i < values.length; i++) {
+            sum += values[i];
+        }
+        return values.length ? sum : NaN;
+    },
+    min: function (values) {
+        let min = values.length ? Infinity : NaN;
+        for (let i = 0; i < values.length; i++) {
+            values[i] < min && (min = values[i]);
+        }
+        return min;
+    },
+    max: function (values) {
+        let max = values.length ? -Infinity : NaN;
+        for (let i = 0; i < values.length; i++) {
+            values[i] > max && (max = values[i]);
+        }
+        return max;
+    },
+    average: function (values) {
+        return aggregators.sum(values) / values.length;
+    },
+    median: function (values) {
+        return values.length ? quantile(asc(values), 0.5) : NaN;
+    }
+};
+
+/**
+ * @return The normalized method, which is lower case and not alias.
+ */
+export function normalizeAggregateMethod(method: string): AggregateMethod {
+    const methodLower = method.toLowerCase();
+    return (hasOwn(METHOD_ALIAS, methodLower) ? METHOD_ALIAS[methodLower] : methodLower) as AggregateMethod;
+}
+
+/**
+ * Methods other than 'count' and 'first' calculate on numeric values.
+ */
+export function isValidAggregateMethod(method: AggregateMethod): boolean {
+    return method === 'count' || method === 'first' || hasOwn(aggregators, method);
+}
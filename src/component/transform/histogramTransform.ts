@@ -0,0 +1,342 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import { DimensionDefinitionLoose, DimensionLoose, OptionDataValue } from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { filter, hasOwn, isArray, isObject, map } from 'zrender/src/core/util';
+import { asc, quantile, round } from '../../util/number';
+import { checkUpstreamSourceFormat, getUpstreamDimensionInfo, retrieveNumericValue } from './helper';
+
+/**
+ * Bin a numeric dimension, and optionally estimate the kernel density.
+ *
+ * @usage
+ *
+ * ```js
+ * dataset: [{
+ *     source: [...]
+ * }, {
+ *     transform: {
+ *         type: 'histogram',
+ *         config: {
+ *             dimension: 'Age',
+ *             method: 'freedmanDiaconis',
+ *             kde: true
+ *         }
+ *     }
+ * }, {
+ *     // The KDE curve, with dimensions `['x', 'density']`.
+ *     fromDatasetIndex: 1,
+ *     fromTransformResult: 1
+ * }]
+ * ```
+ *
+ * The first result contains the bins, with dimensions
+ * `['center', 'count', 'start', 'end', 'density', 'label']`.
+ * `density` is `count / (total * binWidth)`, so that bins and KDE curve can share an axis.
+ * Each bin contains values in `[start, end)`, except that the last one contains `end`.
+ */
+
+export interface HistogramTransformOption extends DataTransformOption {
+    type: 'histogram';
+    config: {
+        // By default the first dimension.
+        dimension?: DimensionLoose;
+        // How to decide the bin width. By default 'sturges'.
+        // Not used if `binWidth` or `binEdges` is specified.
+        method?: HistogramBinMethod;
+        // Fixed bin width. Bins are aligned to the multiples of it.
+        // An error is thrown if it makes more than 10000 bins.
+        binWidth?: number;
+        // Explicit ascending bin edges. Values out of them are ignored.
+        binEdges?: number[];
+        // Whether to output the kernel density estimation as the second result.
+        kde?: boolean | {
+            // Bandwidth of the gaussian kernel. By default calculated by Silverman's rule of thumb.
+            bandwidth?: number;
+            // Count of points of the curve. By default 100.
+            sampleCount?: number;
+        };
+    };
+}
+
+type HistogramBinMethod = 'sturges' | 'scott' | 'freedmanDiaconis';
+
+// Avoid allocating a huge number of bins by a tiny bin width.
+const MAX_BIN_COUNT = 1e4;
+
+type HistogramBin = {
+    start: number;
+    end: number;
+    count: number;
+};
+
+/**
+ * Calculate bin width by the given method.
+ * Might return 0 or NaN if the spread of values can not be measured.
+ */
+const binWidthCalculators: {[method in HistogramBinMethod]: (ascValues: number[]) => number} = {
+    sturges: function (ascValues) {
+        const binCount = Math.ceil(Math.log(ascValues.length) / Math.LN2) + 1;
+        return (ascValues[ascValues.length - 1] - ascValues[0]) / binCount;
+    },
+    scott: function (ascValues) {
+        return 3.49 * standardDeviation(ascValues) * Math.pow(ascValues.length, -1 / 3);
+    },
+    freedmanDiaconis: function (ascValues) {
+        const iqr = quantile(ascValues, 0.75) - quantile(ascValues, 0.25);
+        return 2 * iqr * Math.pow(ascValues.length, -1 / 3);
+    }
+};
+
+function standardDeviation(values: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+        sum += values[i];
+    }
+    const mean = sum / values.length;
+    let variance = 0;
+    for (let i = 0; i < values.length; i++) {
+        variance += (values[i] - mean) * (values[i] - mean);
+    }
+    return values.length > 1 ? Math.sqrt(variance / (values.length - 1)) : 0;
+}
+
+function makeEdges(
+    ascValues: number[],
+    config: HistogramTransformOption['config']
+): number[] {
+    const min = ascValues[0];
+    const max = ascValues[ascValues.length - 1];
+    let errMsg = '';
+
+    if (config.binEdges != null) {
+        const binEdges = config.binEdges;
+        // Non-finite and duplicated edges are removed, which make bins of zero width.
+        const edges: number[] = [];
+        if (isArray(binEdges)) {
+            const ascEdges = asc(map(filter(binEdges, function (edge) {
+                return edge != null && isFinite(+edge);
+            }), function (edge) {
+                return +edge;
+            }));
+            for (let i = 0; i < ascEdges.length; i++) {
+                if (!i || ascEdges[i] !== ascEdges[i - 1]) {
+                    edges.push(ascEdges[i]);
+                }
+            }
+        }
+        if (edges.length < 2) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    '`binEdges` should be an array of at least two distinct finite numbers.\n',
+                    'Illegal config:', config
+                );
+            }
+            throwError(errMsg);
+        }
+        return edges;
+    }
+
+    if (!ascValues.length) {
+        return [];
+    }
+    if (min === max) {
+        return [min - 0.5, min + 0.5];
+    }
+
+    let binWidth = config.binWidth;
+    let alignStart = true;
+    if (binWidth == null) {
+        const method = config.method || 'sturges';
+        if (!hasOwn(binWidthCalculators, method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Illegal method in histogram transform.',
+                    'Only "sturges", "scott" and "freedmanDiaconis" are supported.\n',
+                    'Illegal config:', config
+                );
+            }
+            throwError(errMsg);
+        }
+        binWidth = binWidthCalculators[method](ascValues);
+        // Fall back to sturges if the spread of values is not enough for the method,
+        // or the width is too small like the values are concentrated with a few outliers.
+        if (!(binWidth > 0) || (max - min) / binWidth > MAX_BIN_COUNT) {
+            binWidth = binWidthCalculators.sturges(ascValues);
+        }
+        alignStart = false;
+    }
+    else if (!(binWidth > 0)) {
+        if (__DEV__) {
+            errMsg = makePrintable('`binWidth` should be a positive number.\n', 'Illegal config:', config);
+        }
+        throwError(errMsg);
+    }
+
+    const start = alignStart ? Math.floor(min / binWidth) * binWidth : min;
+    const binCount = Math.max(1, Math.ceil(round((max - start) / binWidth, 10)));
+    if (binCount > MAX_BIN_COUNT) {
+        if (__DEV__) {
+            errMsg = makePrintable(
+                '`binWidth` is too small for the extent of values, which makes more than '
+                    + MAX_BIN_COUNT + ' bins.\n',
+                'Illegal config:', config
+            );
+        }
+        throwError(errMsg);
+    }
+    // Remove the float error accumulated, where the precision is relative to the bin width,
+    // otherwise the edges collapse if the bin width is tiny.
+    const precision = 10 - Math.floor(Math.log(binWidth) / Math.LN10);
+    const edges = [];
+    for (let i = 0; i <= binCount; i++) {
+        edges.push(round(start + i * binWidth, precision));
+    }
+    // The last value is in the last bin when it is exactly on the edge.
+    if (edges[binCount] < max) {
+        edges.push(round(start + (binCount + 1) * binWidth, precision));
+    }
+    return edges;
+}
+
+function makeBins(ascValues: number[], edges: number[]): HistogramBin[] {
+    const bins: HistogramBin[] = [];
+    for (let i = 0; i < edges.length - 1; i++) {
+        bins.push({start: edges[i], end: edges[i + 1], count: 0});
+    }
+    let binIdx = 0;
+    for (let i = 0; i < ascValues.length && bins.length; i++) {
+        const val = ascValues[i];
+        if (val < edges[0]) {
+            continue;
+        }
+        while (binIdx < bins.length - 1 && val >= bins[binIdx].end) {
+            binIdx++;
+        }
+        const bin = bins[binIdx];
+        if (val < bin.end || (binIdx === bins.length - 1 && val === bin.end)) {
+            bin.count++;
+        }
+    }
+    return bins;
+}
+
+/**
+ * Silverman's rule of thumb.
+ */
+function getDefaultBandwidth(ascValues: number[]): number {
+    const std = standardDeviation(ascValues);
+    const iqr = quantile(ascValues, 0.75) - quantile(ascValues, 0.25);
+    const spread = iqr > 0 ? Math.min(std, iqr / 1.34) : std;
+    return 0.9 * (spread || 1) * Math.pow(ascValues.length, -0.2);
+}
+
+function estimateDensity(
+    ascValues: number[],
+    extent: number[],
+    bandwidth: number,
+    sampleCount: number
+): OptionDataValue[][] {
+    const result = [];
+    const len = ascValues.length;
+    const step = (extent[1] - extent[0]) / (sampleCount - 1);
+    const factor = 1 / (len * bandwidth * Math.sqrt(2 * Math.PI));
+    for (let i = 0; i < sampleCount; i++) {
+        const x = extent[0] + step * i;
+        let sum = 0;
+        for (let j = 0; j < len; j++) {
+            const u = (x - ascValues[j]) / bandwidth;
+            sum += Math.exp(-0.5 * u * u);
+        }
+        result.push([x, sum * factor]);
+    }
+    return result;
+}
+
+
+export const histogramTransform: ExternalDataTransform<HistogramTransformOption> = {
+
+    type: 'echarts:histogram',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as HistogramTransformOption['config'];
+
+        checkUpstreamSourceFormat(upstream, 'histogram');
+
+        const dimInfo = getUpstreamDimensionInfo(upstream, config.dimension != null ? config.dimension : 0, config);
+
+        const values: number[] = [];
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            const val = retrieveNumericValue(upstream, upstream.getRawDataItem(i), dimInfo);
+            !isNaN(val) && values.push(val);
+        }
+        asc(values);
+
+        const edges = makeEdges(values, config);
+        const bins = makeBins(values, edges);
+        let total = 0;
+        for (let i = 0; i < bins.length; i++) {
+            total += bins[i].count;
+        }
+
+        const binData = map(bins, function (bin) {
+            const binWidth = bin.end - bin.start;
+            return [
+                round((bin.start + bin.end) / 2, 10),
+                bin.count,
+                bin.start,
+                bin.end,
+                total ? bin.count / (total * binWidth) : 0,
+                bin.start + ' - ' + bin.end
+            ];
+        });
+        const binDimensions: DimensionDefinitionLoose[] = [
+            'center', 'count', 'start', 'end', 'density', { name: 'label', type: 'ordinal' }
+        ];
+
+        if (!config.kde) {
+            return {
+                data: binData,
+                dimensions: binDimensions
+            };
+        }
+
+        const kdeOption = isObject(config.kde) ? config.kde : {};
+        const bandwidth = kdeOption.bandwidth > 0
+            ? kdeOption.bandwidth
+            : values.length ? getDefaultBandwidth(values) : 1;
+        const sampleCount = Math.max(2, Math.round(kdeOption.sampleCount || 100));
+        const kdeExtent = edges.length
+            ? [Math.min(edges[0], values[0]), Math.max(edges[edges.length - 1], values[values.length - 1])]
+            : [];
+
+        return [{
+            data: binData,
+            dimensions: binDimensions
+        }, {
+            data: values.length && kdeExtent.length
+                ? estimateDensity(values, kdeExtent, bandwidth, sampleCount)
+                : [],
+            dimensions: ['x', 'density']
+        }];
+    }
+};
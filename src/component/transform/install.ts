@@ -20,8 +20,19 @@
 import { EChartsExtensionInstallRegisters } from '../../extension';
 import {filterTransform} from './filterTransform';
 import {sortTransform} from './sortTransform';
+import {aggregateTransform} from './aggregateTransform';
+import {pivotTransform, unpivotTransform} from './pivotTransform';
+import {rollingTransform} from './rollingTransform';
+import {regressionTransform} from './regressionTransform';
+import {histogramTransform} from './histogramTransform';
 
 export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerTransform(filterTransform);
     registers.registerTransform(sortTransform);
+    registers.registerTransform(aggregateTransform);
+    registers.registerTransform(pivotTransform);
+    registers.registerTransform(unpivotTransform);
+    registers.registerTransform(rollingTransform);
+    registers.registerTransform(regressionTransform);
+    registers.registerTransform(histogramTransform);
 }
\ No newline at end of file
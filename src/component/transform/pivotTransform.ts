@@ -0,0 +1,313 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import {
+    DataTransformOption, ExternalDataTransform, ExternalDataTransformResultItem, ExternalDimensionDefinition
+} from '../../data/helper/transform';
+import {
+    Dictionary, DimensionDefinitionLoose, DimensionLoose, DimensionName, OptionDataValue, OptionSourceDataArrayRows
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { createHashMap, map } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import {
+    AggregateMethod, aggregators, checkUpstreamSourceFormat, getUpstreamDimensionInfo,
+    isValidAggregateMethod, makeGroupKey, normalizeAggregateMethod, retrieveNumericValue
+} from './helper';
+
+/**
+ * Reshape long format data to wide format.
+ *
+ * @usage
+ *
+ * ```js
+ * // Upstream: ['date', 'metric', 'value'], ...
+ * // Result: ['date', 'cpu', 'memory', ...], ...
+ * transform: {
+ *     type: 'pivot',
+ *     config: {
+ *         index: 'date',
+ *         columns: 'metric',
+ *         values: 'value'
+ *     }
+ * }
+ * ```
+ *
+ * If multiple `values` are specified, one result is output for each of them,
+ * which can be referenced by `fromTransformResult`.
+ */
+
+export interface PivotTransformOption extends DataTransformOption {
+    type: 'pivot';
+    config: {
+        // Dimensions that identify a row in the result.
+        index: DimensionLoose | DimensionLoose[];
+        // Each distinct value of this dimension makes a column in the result.
+        columns: DimensionLoose;
+        values: DimensionLoose | DimensionLoose[];
+        // How to merge values that have the same index and column. By default 'first'.
+        method?: AggregateMethod;
+    };
+}
+
+/**
+ * Reshape wide format data to long format.
+ *
+ * @usage
+ *
+ * ```js
+ * // Upstream: ['date', 'cpu', 'memory'], ...
+ * // Result: ['date', 'metric', 'value'], ...
+ * transform: {
+ *     type: 'unpivot',
+ *     config: {
+ *         index: 'date',
+ *         columns: ['cpu', 'memory'],
+ *         nameDimension: 'metric',
+ *         valueDimension: 'value'
+ *     }
+ * }
+ * ```
+ */
+
+export interface UnpivotTransformOption extends DataTransformOption {
+    type: 'unpivot';
+    config: {
+        // Dimensions that are kept in each result row.
+        index?: DimensionLoose | DimensionLoose[];
+        // Dimensions to be reshaped. By default all of the dimensions that are not in `index`.
+        columns?: DimensionLoose | DimensionLoose[];
+        // Name of the result dimension that holds the original dimension names. By default 'name'.
+        nameDimension?: DimensionName;
+        // Name of the result dimension that holds the values. By default 'value'.
+        valueDimension?: DimensionName;
+    };
+}
+
+type PivotCell = {
+    first: OptionDataValue;
+    values: number[];
+};
+
+type PivotRow = {
+    indexValues: OptionDataValue[];
+    // Cells by column key, each of which has one item for each `values` dimension.
+    cells: Dictionary<PivotCell[]>;
+};
+
+
+export const pivotTransform: ExternalDataTransform<PivotTransformOption> = {
+
+    type: 'echarts:pivot',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as PivotTransformOption['config'];
+        let errMsg = '';
+
+        checkUpstreamSourceFormat(upstream, 'pivot');
+
+        const indexDimInfoList = map(normalizeToArray(config.index), function (dimLoose) {
+            return getUpstreamDimensionInfo(upstream, dimLoose, config);
+        });
+        const columnsDimInfo = getUpstreamDimensionInfo(upstream, config.columns, config);
+        const valuesDimInfoList = map(normalizeToArray(config.values), function (dimLoose) {
+            return getUpstreamDimensionInfo(upstream, dimLoose, config);
+        });
+
+        if (!valuesDimInfoList.length) {
+            if (__DEV__) {
+                errMsg = makePrintable('Empty `values` in pivot transform.\n', 'Illegal config:', config);
+            }
+            throwError(errMsg);
+        }
+
+        const method = normalizeAggregateMethod(config.method || 'first');
+        if (!isValidAggregateMethod(method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Illegal method "' + config.method + '" in pivot transform.\n', 'Illegal config:', config
+                );
+            }
+            throwError(errMsg);
+        }
+
+        // Keep the order of the first appearance of rows and columns.
+        const rowMap = createHashMap<PivotRow, string>();
+        const rowList: PivotRow[] = [];
+        const columnKeyMap = createHashMap<boolean, string>();
+        const columnKeyList: string[] = [];
+
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            const rawItem = upstream.getRawDataItem(i);
+
+            // Items without column value are skipped, which can not be a dimension name.
+            const columnValue = upstream.retrieveValueFromItem(rawItem, columnsDimInfo.index);
+            if (columnValue == null || columnValue === '') {
+                continue;
+            }
+
+            const rowKey = makeGroupKey(upstream, rawItem, indexDimInfoList);
+            let row = rowMap.get(rowKey);
+            if (!row) {
+                row = {
+                    indexValues: map(indexDimInfoList, function (dimInfo) {
+                        return upstream.retrieveValueFromItem(rawItem, dimInfo.index);
+                    }),
+                    cells: {}
+                };
+                rowMap.set(rowKey, row);
+                rowList.push(row);
+            }
+
+            const columnKey = columnValue + '';
+            if (!columnKeyMap.get(columnKey)) {
+                columnKeyMap.set(columnKey, true);
+                columnKeyList.push(columnKey);
+            }
+
+            let cells = row.cells[columnKey];
+            if (!cells) {
+                cells = row.cells[columnKey] = map(valuesDimInfoList, function (dimInfo) {
+                    return {
+                        first: upstream.retrieveValueFromItem(rawItem, dimInfo.index),
+                        values: []
+                    };
+                });
+            }
+            for (let j = 0; j < valuesDimInfoList.length; j++) {
+                const val = retrieveNumericValue(upstream, rawItem, valuesDimInfoList[j]);
+                !isNaN(val) && cells[j].values.push(val);
+            }
+        }
+
+        const dimensions: DimensionDefinitionLoose[] = map(indexDimInfoList, function (dimInfo) {
+            return dimInfo.name;
+        }).concat(columnKeyList);
+
+        const dimensionNameMap = createHashMap<boolean, string>();
+        for (let i = 0; i < dimensions.length; i++) {
+            const name = dimensions[i] as DimensionName;
+            if (name == null) {
+                continue;
+            }
+            if (dimensionNameMap.get(name)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Duplicated dimension name "' + name + '" in pivot transform, where a value of `columns`'
+                            + ' is the same as an `index` dimension.\n',
+                        'Illegal config:', config
+                    );
+                }
+                throwError(errMsg);
+            }
+            dimensionNameMap.set(name, true);
+        }
+
+        return map(valuesDimInfoList, function (valuesDimInfo, valuesIdx) {
+            const resultData: OptionSourceDataArrayRows = map(rowList, function (row) {
+                const line: OptionDataValue[] = row.indexValues.slice();
+                for (let j = 0; j < columnKeyList.length; j++) {
+                    const cells = row.cells[columnKeyList[j]];
+                    line.push(cells ? getCellValue(cells[valuesIdx], method) : null);
+                }
+                return line;
+            });
+            return {
+                data: resultData,
+                dimensions: dimensions.slice()
+            } as ExternalDataTransformResultItem;
+        });
+    }
+};
+
+function getCellValue(cell: PivotCell, method: AggregateMethod): OptionDataValue {
+    return method === 'first'
+        ? cell.first
+        : method === 'count'
+        ? cell.values.length
+        : aggregators[method](cell.values);
+}
+
+
+export const unpivotTransform: ExternalDataTransform<UnpivotTransformOption> = {
+
+    type: 'echarts:unpivot',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as UnpivotTransformOption['config'];
+
+        checkUpstreamSourceFormat(upstream, 'unpivot');
+
+        const indexDimInfoList = map(normalizeToArray(config.index), function (dimLoose) {
+            return getUpstreamDimensionInfo(upstream, dimLoose, config);
+        });
+
+        let columnsDimInfoList: ExternalDimensionDefinition[];
+        if (config.columns != null) {
+            columnsDimInfoList = map(normalizeToArray(config.columns), function (dimLoose) {
+                return getUpstreamDimensionInfo(upstream, dimLoose, config);
+            });
+        }
+        else {
+            const indexDimIndices = createHashMap<boolean, number>();
+            for (let i = 0; i < indexDimInfoList.length; i++) {
+                indexDimIndices.set(indexDimInfoList[i].index, true);
+            }
+            columnsDimInfoList = [];
+            const allDimInfoList = upstream.cloneAllDimensionInfo();
+            for (let i = 0; i < allDimInfoList.length; i++) {
+                !indexDimIndices.get(allDimInfoList[i].index) && columnsDimInfoList.push(allDimInfoList[i]);
+            }
+        }
+
+        // Use dimension index as the name if dimension name is not defined.
+        const columnNames = map(columnsDimInfoList, function (dimInfo) {
+            return dimInfo.name != null ? dimInfo.name : dimInfo.index + '';
+        });
+
+        const resultData: OptionSourceDataArrayRows = [];
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            const rawItem = upstream.getRawDataItem(i);
+            const indexValues = map(indexDimInfoList, function (dimInfo) {
+                return upstream.retrieveValueFromItem(rawItem, dimInfo.index);
+            });
+            for (let j = 0; j < columnsDimInfoList.length; j++) {
+                resultData.push(indexValues.concat(
+                    columnNames[j],
+                    upstream.retrieveValueFromItem(rawItem, columnsDimInfoList[j].index)
+                ));
+            }
+        }
+
+        const dimensions: DimensionDefinitionLoose[] = map(indexDimInfoList, function (dimInfo) {
+            return dimInfo.name;
+        });
+        dimensions.push(
+            { name: config.nameDimension || 'name', type: 'ordinal' },
+            { name: config.valueDimension || 'value' }
+        );
+
+        return {
+            data: resultData,
+            dimensions: dimensions
+        };
+    }
+};
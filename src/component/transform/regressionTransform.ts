@@ -0,0 +1,489 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import { DimensionDefinitionLoose, DimensionLoose, OptionDataValue } from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { hasOwn, map } from 'zrender/src/core/util';
+import { round } from '../../util/number';
+import { checkUpstreamSourceFormat, getUpstreamDimensionInfo, retrieveNumericValue } from './helper';
+
+/**
+ * Fit a regression to the upstream data.
+ *
+ * @usage
+ *
+ * ```js
+ * dataset: [{
+ *     source: [...]
+ * }, {
+ *     transform: {
+ *         type: 'regression',
+ *         config: {
+ *             method: 'polynomial',
+ *             x: 'Year',
+ *             y: 'Income',
+ *             order: 3,
+ *             formulaOn: 'end'
+ *         }
+ *     }
+ * }, {
+ *     // The fitting result: one row of `method`, `formula`, `r2`, `c0`, `c1`, ...
+ *     fromDatasetIndex: 1,
+ *     fromTransformResult: 1
+ * }]
+ * ```
+ *
+ * The first result contains the fitted points, with dimensions `[x, y]`,
+ * and an extra dimension 'formula' if `formulaOn` is not 'none'.
+ *
+ * The second result contains one row of the fitting metadata, where the
+ * coefficients `c0, c1, ...` are defined as:
+ * + 'linear': `y = c0 + c1 * x`
+ * + 'polynomial': `y = c0 + c1 * x + c2 * x^2 + ...`
+ * + 'exponential': `y = c0 * e^(c1 * x)`
+ * + 'logarithmic': `y = c0 + c1 * ln(x)`
+ * + 'loess': no coefficients.
+ */
+
+export interface RegressionTransformOption extends DataTransformOption {
+    type: 'regression';
+    config: {
+        // By default 'linear'.
+        method?: RegressionMethod;
+        // By default the first dimension.
+        x?: DimensionLoose;
+        // By default the second dimension.
+        y?: DimensionLoose;
+        // Order of 'polynomial'. By default 2.
+        order?: number;
+        // Fraction of data used in each local fitting of 'loess', in (0, 1]. By default 0.3.
+        bandwidth?: number;
+        // Which fitted points the formula is put on. By default 'none'.
+        formulaOn?: 'start' | 'end' | 'all' | 'none';
+        // Precision of the numbers in formula. By default 2.
+        precision?: number;
+    };
+}
+
+type RegressionMethod = 'linear' | 'polynomial' | 'exponential' | 'logarithmic' | 'loess';
+
+type RegressionPoint = [number, number];
+
+type RegressionResult = {
+    // Fitted y of each point.
+    fitted: number[];
+    coefficients: number[];
+    formula: string;
+};
+
+type RegressionFitter = (
+    points: RegressionPoint[],
+    config: RegressionTransformOption['config']
+) => RegressionResult;
+
+type PolynomialFit = {
+    // Coefficients of `x` from the lowest degree.
+    coefficients: number[];
+    // Coefficients of the normalized `t = (x - center) / halfRange`, which are
+    // used in evaluation to avoid the loss of precision of large `x`.
+    normalizedCoefficients: number[];
+    center: number;
+    halfRange: number;
+};
+
+/**
+ * Least squares of polynomial of `order`, where `order` 1 means linear.
+ * `x` is normalized to [-1, 1] before fitting, otherwise the normal equations of
+ * powers of `x` like years are too ill-conditioned to solve.
+ * Return null if it can not be solved.
+ */
+function fitPolynomial(points: RegressionPoint[], order: number): PolynomialFit {
+    const size = order + 1;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let k = 0; k < points.length; k++) {
+        min = Math.min(min, points[k][0]);
+        max = Math.max(max, points[k][0]);
+    }
+    const center = (min + max) / 2;
+    // All of the x are the same, which can only be solved if `order` is 0.
+    const halfRange = (max - min) / 2 || 1;
+
+    // Augmented matrix of the normal equations.
+    const matrix: number[][] = [];
+    for (let i = 0; i < size; i++) {
+        const row = [];
+        for (let j = 0; j <= size; j++) {
+            row.push(0);
+        }
+        matrix.push(row);
+    }
+    for (let k = 0; k < points.length; k++) {
+        const t = (points[k][0] - center) / halfRange;
+        const y = points[k][1];
+        for (let i = 0; i < size; i++) {
+            for (let j = 0; j < size; j++) {
+                matrix[i][j] += Math.pow(t, i + j);
+            }
+            matrix[i][size] += Math.pow(t, i) * y;
+        }
+    }
+    const normalizedCoefficients = solveLinearEquations(matrix);
+    if (!normalizedCoefficients) {
+        return null;
+    }
+
+    // Expand `sum(a_i * ((x - center) / halfRange)^i)` in Horner's form.
+    let coefficients = [normalizedCoefficients[order]];
+    for (let i = order - 1; i >= 0; i--) {
+        const next = [normalizedCoefficients[i] - coefficients[0] * center / halfRange];
+        for (let k = 1; k <= coefficients.length; k++) {
+            next.push(
+                coefficients[k - 1] / halfRange
+                - (k < coefficients.length ? coefficients[k] * center / halfRange : 0)
+            );
+        }
+        coefficients = next;
+    }
+
+    return {
+        coefficients: coefficients,
+        normalizedCoefficients: normalizedCoefficients,
+        center: center,
+        halfRange: halfRange
+    };
+}
+
+/**
+ * Gaussian elimination with partial pivoting on an augmented matrix.
+ * Return null if the matrix is singular, where the pivot is negligible
+ * relative to the largest entry of the matrix.
+ */
+function solveLinearEquations(matrix: number[][]): number[] {
+    const size = matrix.length;
+    let scale = 0;
+    for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+            scale = Math.max(scale, Math.abs(matrix[i][j]));
+        }
+    }
+    const epsilon = scale * 1e-12;
+
+    for (let i = 0; i < size; i++) {
+        let pivot = i;
+        for (let j = i + 1; j < size; j++) {
+            if (Math.abs(matrix[j][i]) > Math.abs(matrix[pivot][i])) {
+                pivot = j;
+            }
+        }
+        if (!(Math.abs(matrix[pivot][i]) > epsilon)) {
+            return null;
+        }
+        const tmp = matrix[i];
+        matrix[i] = matrix[pivot];
+        matrix[pivot] = tmp;
+
+        for (let j = i + 1; j < size; j++) {
+            const factor = matrix[j][i] / matrix[i][i];
+            for (let k = i; k <= size; k++) {
+                matrix[j][k] -= factor * matrix[i][k];
+            }
+        }
+    }
+
+    const result: number[] = [];
+    for (let i = size - 1; i >= 0; i--) {
+        let val = matrix[i][size];
+        for (let j = i + 1; j < size; j++) {
+            val -= matrix[i][j] * result[j];
+        }
+        result[i] = val / matrix[i][i];
+    }
+    return result;
+}
+
+function evaluatePolynomial(fit: PolynomialFit, x: number): number {
+    const coefficients = fit.normalizedCoefficients;
+    const t = (x - fit.center) / fit.halfRange;
+    let result = 0;
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+        result = result * t + coefficients[i];
+    }
+    return result;
+}
+
+function formatNumber(val: number, precision: number): string {
+    return round(val, precision) + '';
+}
+
+function formatPolynomial(coefficients: number[], precision: number, variable: string): string {
+    let formula = '';
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+        const coef = coefficients[i];
+        const sign = coef < 0 ? '-' : '+';
+        const term = formatNumber(Math.abs(coef), precision)
+            + (i > 1 ? variable + '^' + i : i === 1 ? variable : '');
+        formula += formula ? ' ' + sign + ' ' + term : (sign === '-' ? '-' : '') + term;
+    }
+    return 'y = ' + formula;
+}
+
+function getPrecision(config: RegressionTransformOption['config']): number {
+    return config.precision != null ? config.precision : 2;
+}
+
+function makePolynomialFitter(getOrder: (config: RegressionTransformOption['config']) => number): RegressionFitter {
+    return function (points, config) {
+        const fit = fitPolynomial(points, getOrder(config));
+        return fit ? {
+            fitted: map(points, function (point) {
+                return evaluatePolynomial(fit, point[0]);
+            }),
+            coefficients: fit.coefficients,
+            formula: formatPolynomial(fit.coefficients, getPrecision(config), 'x')
+        } : null;
+    };
+}
+
+/**
+ * Weighted linear regression around each point, with tricube weights.
+ */
+function fitLoess(points: RegressionPoint[], bandwidth: number): number[] {
+    const len = points.length;
+    const neighborCount = Math.min(len, Math.max(2, Math.floor(bandwidth * len)));
+
+    return map(points, function (point, idx) {
+        const x = point[0];
+        // Points are sorted by x, so the nearest neighbors are in a continuous range.
+        let start = idx;
+        let end = idx;
+        while (end - start + 1 < neighborCount) {
+            if (start === 0) {
+                end++;
+            }
+            else if (end === len - 1) {
+                start--;
+            }
+            else if (x - points[start - 1][0] <= points[end + 1][0] - x) {
+                start--;
+            }
+            else {
+                end++;
+            }
+        }
+        const maxDistance = Math.max(x - points[start][0], points[end][0] - x) || 1;
+
+        let sumW = 0;
+        let sumWX = 0;
+        let sumWY = 0;
+        let sumWXX = 0;
+        let sumWXY = 0;
+        for (let i = start; i <= end; i++) {
+            const px = points[i][0];
+            const py = points[i][1];
+            const ratio = Math.abs(px - x) / maxDistance;
+            const w = Math.pow(1 - ratio * ratio * ratio, 3);
+            sumW += w;
+            sumWX += w * px;
+            sumWY += w * py;
+            sumWXX += w * px * px;
+            sumWXY += w * px * py;
+        }
+        if (!sumW) {
+            return point[1];
+        }
+        const meanX = sumWX / sumW;
+        const meanY = sumWY / sumW;
+        const varianceX = sumWXX / sumW - meanX * meanX;
+        // All of the x are the same (or near).
+        if (Math.abs(varianceX) < 1e-12) {
+            return meanY;
+        }
+        const slope = (sumWXY / sumW - meanX * meanY) / varianceX;
+        return meanY + slope * (x - meanX);
+    });
+}
+
+const fitters: {[method in RegressionMethod]: RegressionFitter} = {
+    linear: makePolynomialFitter(function () {
+        return 1;
+    }),
+    polynomial: makePolynomialFitter(function (config) {
+        return config.order != null ? Math.max(1, Math.round(config.order)) : 2;
+    }),
+    exponential: function (points, config) {
+        // Fit `ln(y) = ln(c0) + c1 * x`.
+        const logPoints: RegressionPoint[] = [];
+        for (let i = 0; i < points.length; i++) {
+            if (points[i][1] <= 0) {
+                return null;
+            }
+            logPoints.push([points[i][0], Math.log(points[i][1])]);
+        }
+        const linearFit = fitPolynomial(logPoints, 1);
+        if (!linearFit) {
+            return null;
+        }
+        const linearCoefficients = linearFit.coefficients;
+        const coefficients = [Math.exp(linearCoefficients[0]), linearCoefficients[1]];
+        const precision = getPrecision(config);
+        return {
+            // Evaluate with the normalized `x` as the fitting, because `c0` may
+            // overflow or underflow with large `x`.
+            fitted: map(points, function (point) {
+                return Math.exp(evaluatePolynomial(linearFit, point[0]));
+            }),
+            coefficients: coefficients,
+            formula: 'y = ' + formatNumber(coefficients[0], precision)
+                + 'e^(' + formatNumber(coefficients[1], precision) + 'x)'
+        };
+    },
+    logarithmic: function (points, config) {
+        // Fit `y = c0 + c1 * ln(x)`.
+        const logPoints: RegressionPoint[] = [];
+        for (let i = 0; i < points.length; i++) {
+            if (points[i][0] <= 0) {
+                return null;
+            }
+            logPoints.push([Math.log(points[i][0]), points[i][1]]);
+        }
+        const fit = fitPolynomial(logPoints, 1);
+        return fit ? {
+            fitted: map(logPoints, function (point) {
+                return evaluatePolynomial(fit, point[0]);
+            }),
+            coefficients: fit.coefficients,
+            formula: formatPolynomial(fit.coefficients, getPrecision(config), 'ln(x)')
+        } : null;
+    },
+    loess: function (points, config) {
+        const bandwidth = config.bandwidth;
+        return {
+            fitted: fitLoess(points, bandwidth > 0 && bandwidth <= 1 ? bandwidth : 0.3),
+            coefficients: [],
+            formula: ''
+        };
+    }
+};
+
+/**
+ * Coefficient of determination.
+ */
+function calculateR2(points: RegressionPoint[], fitted: number[]): number {
+    let sumY = 0;
+    for (let i = 0; i < points.length; i++) {
+        sumY += points[i][1];
+    }
+    const meanY = sumY / points.length;
+    let ssTotal = 0;
+    let ssResidual = 0;
+    for (let i = 0; i < points.length; i++) {
+        const y = points[i][1];
+        ssTotal += (y - meanY) * (y - meanY);
+        ssResidual += (y - fitted[i]) * (y - fitted[i]);
+    }
+    return ssTotal ? 1 - ssResidual / ssTotal : ssResidual ? 0 : 1;
+}
+
+
+export const regressionTransform: ExternalDataTransform<RegressionTransformOption> = {
+
+    type: 'echarts:regression',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as RegressionTransformOption['config'];
+        const method = config.method || 'linear';
+        const formulaOn = config.formulaOn || 'none';
+        let errMsg = '';
+
+        checkUpstreamSourceFormat(upstream, 'regression');
+
+        if (!hasOwn(fitters, method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Illegal method in regression transform. Only "linear", "polynomial", "exponential",',
+                    '"logarithmic" and "loess" are supported.\n',
+                    'Illegal config:', config
+                );
+            }
+            throwError(errMsg);
+        }
+
+        const xDimInfo = getUpstreamDimensionInfo(upstream, config.x != null ? config.x : 0, config);
+        const yDimInfo = getUpstreamDimensionInfo(upstream, config.y != null ? config.y : 1, config);
+
+        const points: RegressionPoint[] = [];
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            const rawItem = upstream.getRawDataItem(i);
+            const x = retrieveNumericValue(upstream, rawItem, xDimInfo);
+            const y = retrieveNumericValue(upstream, rawItem, yDimInfo);
+            if (!isNaN(x) && !isNaN(y)) {
+                points.push([x, y]);
+            }
+        }
+        points.sort(function (a, b) {
+            return a[0] - b[0];
+        });
+
+        const result = points.length ? fitters[method](points, config) : null;
+
+        const xName = xDimInfo.name != null ? xDimInfo.name : 'x';
+        const yName = yDimInfo.name != null ? yDimInfo.name : 'y';
+        const pointDimensions: DimensionDefinitionLoose[] = [{ name: xName }, { name: yName }];
+        formulaOn !== 'none' && pointDimensions.push({ name: 'formula', type: 'ordinal' });
+
+        const lastIndex = points.length - 1;
+        const pointData = result ? map(points, function (point, idx) {
+            const row: OptionDataValue[] = [point[0], result.fitted[idx]];
+            if (formulaOn !== 'none') {
+                const hasFormula = formulaOn === 'all'
+                    || (formulaOn === 'start' && idx === 0)
+                    || (formulaOn === 'end' && idx === lastIndex);
+                row.push(hasFormula ? result.formula : null);
+            }
+            return row;
+        }) : [];
+
+        const coefficients = result ? result.coefficients : [];
+        const metaDimensions: DimensionDefinitionLoose[] = [
+            { name: 'method', type: 'ordinal' },
+            { name: 'formula', type: 'ordinal' },
+            { name: 'r2' }
+        ];
+        const metaRow: OptionDataValue[] = [
+            method,
+            result ? result.formula : null,
+            result ? calculateR2(points, result.fitted) : null
+        ];
+        for (let i = 0; i < coefficients.length; i++) {
+            metaDimensions.push({ name: 'c' + i });
+            metaRow.push(coefficients[i]);
+        }
+
+        return [{
+            data: pointData,
+            dimensions: pointDimensions
+        }, {
+            data: [metaRow],
+            dimensions: metaDimensions
+        }];
+    }
+};
@@ -0,0 +1,245 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import {
+    DataTransformOption, ExternalDataTransform, DataTransformDataItem, ExternalDataTransformResultItem
+} from '../../data/helper/transform';
+import { Dictionary, DimensionLoose, DimensionName } from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { hasOwn, map } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { SortOrderComparator } from '../../data/helper/dataValueHelper';
+import {
+    appendDimensionsToUpstream, appendValuesToDataItem, checkUpstreamSourceFormat,
+    getUpstreamDimensionInfo, retrieveNumericValue
+} from './helper';
+
+/**
+ * Append dimensions calculated on a trailing window of each data item.
+ *
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'rolling',
+ *     config: {
+ *         orderBy: 'date',
+ *         resultDimensions: [
+ *             { from: 'close', method: 'average', size: 5, name: 'MA5' },
+ *             { from: 'close', method: 'ema', size: 12, name: 'EMA12' },
+ *             { from: 'close', method: 'bollingerUpper', size: 20, multiplier: 2, name: 'BOLL_UP' },
+ *             { from: 'close', method: 'bollingerLower', size: 20, multiplier: 2, name: 'BOLL_LOW' }
+ *         ]
+ *     }
+ * }
+ * ```
+ *
+ * The value is `null` until there are `size` valid values in the window.
+ * 'ema' is seeded by the simple moving average of the first full window, and it is
+ * seeded again after `null` values, so that the data before a gap is not carried over.
+ * `size` is rounded to integer.
+ */
+
+export interface RollingTransformOption extends DataTransformOption {
+    type: 'rolling';
+    config: {
+        // The data items are sorted ascendingly by this dimension before calculating.
+        // If not specified, the original order is used.
+        orderBy?: DimensionLoose;
+        resultDimensions: RollingResultDimensionOption | RollingResultDimensionOption[];
+    };
+}
+
+type RollingMethod = 'sum' | 'average' | 'sma' | 'ema' | 'std' | 'min' | 'max'
+    | 'bollingerUpper' | 'bollingerLower';
+
+interface RollingResultDimensionOption {
+    from: DimensionLoose;
+    method: RollingMethod;
+    // Count of data items in the window.
+    size: number;
+    // Name of the appended dimension. By default `${method}${size}` with the rounded size.
+    name?: DimensionName;
+    // Multiplier of standard deviation for bollinger bands. By default 2.
+    multiplier?: number;
+}
+
+type RollingCalculator = (
+    // Valid values in the current window.
+    windowValues: number[],
+    // Result of the previous data item, used by recursive methods like 'ema'.
+    prevResult: number,
+    resultDim: RollingResultDimensionOption
+) => number;
+
+function sum(values: number[]): number {
+    let result = 0;
+    for (let i = 0; i < values.length; i++) {
+        result += values[i];
+    }
+    return result;
+}
+
+function std(values: number[]): number {
+    const mean = sum(values) / values.length;
+    let variance = 0;
+    for (let i = 0; i < values.length; i++) {
+        variance += (values[i] - mean) * (values[i] - mean);
+    }
+    // Population standard deviation, which is used in bollinger bands.
+    return Math.sqrt(variance / values.length);
+}
+
+function getMultiplier(resultDim: RollingResultDimensionOption): number {
+    return resultDim.multiplier != null ? resultDim.multiplier : 2;
+}
+
+const calculators: Dictionary<RollingCalculator> = {
+    sum: sum,
+    average: function (values) {
+        return sum(values) / values.length;
+    },
+    ema: function (values, prevResult, resultDim) {
+        // Seeded by the simple moving average of the first window.
+        if (prevResult == null) {
+            return sum(values) / values.length;
+        }
+        // The window is full, whose length is the rounded size.
+        const alpha = 2 / (values.length + 1);
+        return alpha * values[values.length - 1] + (1 - alpha) * prevResult;
+    },
+    std: std,
+    min: function (values) {
+        let min = Infinity;
+        for (let i = 0; i < values.length; i++) {
+            values[i] < min && (min = values[i]);
+        }
+        return min;
+    },
+    max: function (values) {
+        let max = -Infinity;
+        for (let i = 0; i < values.length; i++) {
+            values[i] > max && (max = values[i]);
+        }
+        return max;
+    },
+    bollingerUpper: function (values, prevResult, resultDim) {
+        return sum(values) / values.length + getMultiplier(resultDim) * std(values);
+    },
+    bollingerLower: function (values, prevResult, resultDim) {
+        return sum(values) / values.length - getMultiplier(resultDim) * std(values);
+    }
+};
+calculators.sma = calculators.average;
+
+
+export const rollingTransform: ExternalDataTransform<RollingTransformOption> = {
+
+    type: 'echarts:rolling',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {} as RollingTransformOption['config'];
+        let errMsg = '';
+
+        checkUpstreamSourceFormat(upstream, 'rolling');
+
+        const resultDimOptionList = normalizeToArray(config.resultDimensions);
+        if (!resultDimOptionList.length) {
+            if (__DEV__) {
+                errMsg = makePrintable('Empty `resultDimensions` in rolling transform.\n', 'Illegal config:', config);
+            }
+            throwError(errMsg);
+        }
+
+        const resultDimList = map(resultDimOptionList, function (resultDimOption) {
+            const method = resultDimOption.method;
+            const size = Math.round(resultDimOption.size);
+            if (!hasOwn(calculators, method) || !(size >= 1)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Rolling transform requires a valid "method" and a "size" not less than 1.\n',
+                        'Illegal config:', resultDimOption, '.\n'
+                    );
+                }
+                throwError(errMsg);
+            }
+            return {
+                option: resultDimOption,
+                dimInfo: getUpstreamDimensionInfo(upstream, resultDimOption.from, resultDimOption),
+                size: size,
+                calculator: calculators[method],
+                name: resultDimOption.name != null ? resultDimOption.name : method + size
+            };
+        });
+
+        const rawItems: DataTransformDataItem[] = [];
+        for (let i = 0, len = upstream.count(); i < len; i++) {
+            rawItems.push(upstream.getRawDataItem(i));
+        }
+
+        if (config.orderBy != null) {
+            const orderDimIdx = getUpstreamDimensionInfo(upstream, config.orderBy, config).index;
+            const comparator = new SortOrderComparator('asc', null);
+            rawItems.sort(function (item0, item1) {
+                return comparator.evaluate(
+                    upstream.retrieveValueFromItem(item0, orderDimIdx),
+                    upstream.retrieveValueFromItem(item1, orderDimIdx)
+                );
+            });
+        }
+
+        const resultValuesList = map(resultDimList, function (resultDim) {
+            const size = resultDim.size;
+            const values = map(rawItems, function (rawItem) {
+                return retrieveNumericValue(upstream, rawItem, resultDim.dimInfo);
+            });
+            const results: number[] = [];
+            let prevResult: number = null;
+
+            for (let i = 0; i < values.length; i++) {
+                const windowValues = [];
+                for (let j = Math.max(0, i - size + 1); j <= i; j++) {
+                    !isNaN(values[j]) && windowValues.push(values[j]);
+                }
+                const result = windowValues.length === size && !isNaN(values[i])
+                    ? resultDim.calculator(windowValues, prevResult, resultDim.option)
+                    : null;
+                results.push(result);
+                // Reset after a gap, so that 'ema' is seeded again.
+                prevResult = result;
+            }
+            return results;
+        });
+
+        const names = map(resultDimList, function (resultDim) {
+            return resultDim.name;
+        });
+        const resultData = map(rawItems, function (rawItem, idx) {
+            return appendValuesToDataItem(rawItem, names, map(resultValuesList, function (results) {
+                return results[idx];
+            }));
+        });
+
+        return {
+            data: resultData as ExternalDataTransformResultItem['data'],
+            dimensions: appendDimensionsToUpstream(upstream, names)
+        };
+    }
+};
@@ -24,7 +24,7 @@ import {
 } from '../util/types';
 
 
-export const AXIS_TYPES = {value: 1, category: 1, time: 1, log: 1} as const;
+export const AXIS_TYPES = {value: 1, category: 1, time: 1, log: 1, symlog: 1} as const;
 export type OptionAxisType = keyof typeof AXIS_TYPES;
 
 export interface AxisBaseOptionCommon extends ComponentOption,
@@ -158,6 +158,19 @@ export interface LogAxisBaseOption extends NumericAxisBaseOptionCommon {
     axisLabel?: AxisLabelOption<'log'>;
     logBase?: number;
 }
+export interface SymlogAxisBaseOption extends NumericAxisBaseOptionCommon {
+    type?: 'symlog';
+    axisLabel?: AxisLabelOption<'symlog'>;
+    /**
+     * Base of the logarithmic part, which determines where the ticks are placed.
+     */
+    logBase?: number;
+    /**
+     * Values in `[-linthresh, linthresh]` are displayed (approximately) linearly.
+     * Should be positive, otherwise the default `1` is used.
+     */
+    linthresh?: number;
+}
 export interface TimeAxisBaseOption extends NumericAxisBaseOptionCommon {
     type?: 'time';
     axisLabel?: AxisLabelOption<'time'>;
@@ -209,6 +222,7 @@ export type TimeAxisLabelFormatterOption = string
 type LabelFormatters = {
     value: AxisLabelValueFormatter | string
     log: AxisLabelValueFormatter | string
+    symlog: AxisLabelValueFormatter | string
     category: AxisLabelCategoryFormatter | string
     time: TimeAxisLabelFormatterOption
 };
@@ -262,5 +276,5 @@ interface SplitAreaOption {
 }
 
 
-export type AxisBaseOption = ValueAxisBaseOption | LogAxisBaseOption
+export type AxisBaseOption = ValueAxisBaseOption | LogAxisBaseOption | SymlogAxisBaseOption
     | CategoryAxisBaseOption | TimeAxisBaseOption | AxisBaseOptionCommon;
@@ -191,10 +191,16 @@ const logAxis: AxisBaseOption = zrUtil.defaults({
     logBase: 10
 }, valueAxis);
 
+const symlogAxis: AxisBaseOption = zrUtil.defaults({
+    logBase: 10,
+    linthresh: 1
+}, valueAxis);
+
 
 export default {
     category: categoryAxis,
     value: valueAxis,
     time: timeAxis,
-    log: logAxis
+    log: logAxis,
+    symlog: symlogAxis
 };
@@ -32,11 +32,13 @@ import TimeScale from '../scale/Time';
 import Model from '../model/Model';
 import { AxisBaseModel } from './AxisBaseModel';
 import LogScale from '../scale/Log';
+import SymlogScale, { getValidLinthresh } from '../scale/Symlog';
 import Axis from './Axis';
 import {
     AxisBaseOption,
     CategoryAxisBaseOption,
     LogAxisBaseOption,
+    SymlogAxisBaseOption,
     TimeAxisLabelFormatterOption,
     ValueAxisBaseOption
 } from './axisCommonTypes';
@@ -161,6 +163,12 @@ export function niceScaleExtent(
     if (scale instanceof LogScale) {
         scale.base = model.get('logBase');
     }
+    else if (scale instanceof SymlogScale) {
+        scale.base = model.get('logBase');
+        scale.linthresh = getValidLinthresh(
+            (inModel as AxisBaseModel<SymlogAxisBaseOption>).get('linthresh')
+        );
+    }
 
     const scaleType = scale.type;
     const interval = model.get('interval');
@@ -206,7 +214,7 @@ export function createScaleByModel(model: AxisBaseModel, axisType?: string): Sca
                     useUTC: model.ecModel.get('useUTC')
                 });
             default:
-                // case 'value'/'interval', 'log', or others.
+                // case 'value'/'interval', 'log', 'symlog', or others.
                 return new (Scale.getClass(axisType) || IntervalScale)();
         }
     }
@@ -170,6 +170,36 @@ class Scheduler {
         });
     }
 
+    /**
+     * Get the other series processed together with the given series by overall data
+     * processor tasks (like the filtering of dataZoom), which depend on the data of each other.
+     */
+    getOverallTaskPeerSeries(ecModel: GlobalModel, seriesModel: SeriesModel): SeriesModel[] {
+        const peerMap = createHashMap<SeriesModel>();
+        const stageTaskMap = this._stageTaskMap;
+        each(this._dataProcessorHandlers, function (handler) {
+            // Legacy overall tasks without target series are not considered, which are
+            // piped to all series but do not process the data of series (like legend filter).
+            if (!handler.seriesType && !handler.getTargetSeries) {
+                return;
+            }
+            const record = stageTaskMap.get(handler.uid);
+            const overallTask = record && record.overallTask;
+            if (overallTask && overallTask.agentStubMap.get(seriesModel.uid)) {
+                overallTask.agentStubMap.each(function (stub) {
+                    const model = stub.context.model;
+                    model !== seriesModel && peerMap.set(model.uid, model);
+                });
+            }
+        });
+        const peers: SeriesModel[] = [];
+        // Keep the order of series.
+        ecModel.eachSeries(function (model) {
+            peerMap.get(model.uid) && peers.push(model);
+        });
+        return peers;
+    }
+
     // If seriesModel provided, incremental threshold is check by series data.
     getPerformArgs(task: GeneralTask, isBlock?: boolean): {
         step: number, modBy: number, modDataCount: number
@@ -106,7 +106,9 @@ import {
     ScaleDataValue,
     ZRElementEventName,
     ECElementEvent,
-    AnimationOption
+    AnimationOption,
+    OptionDataItem,
+    OptionSourceDataColumnar
 } from '../util/types';
 import Displayable from 'zrender/src/graphic/Displayable';
 import { seriesSymbolTask, dataSymbolTask } from '../visual/symbol';
@@ -231,6 +233,16 @@ export interface ResizeOpts {
     silent?: boolean // by default false.
 };
 
+export interface StreamDataOpts {
+    seriesIndex: number
+    // Data items in the same format as `series.data`,
+    // or columns if the data is from a columnar source.
+    data: ArrayLike<OptionDataItem> | OptionSourceDataColumnar
+    // Max count of data kept, the oldest data are evicted.
+    capacity?: number
+    silent?: boolean
+};
+
 interface PostIniter {
     (chart: EChartsType): void
 }
@@ -286,6 +298,7 @@ let doConvertPixel: (
     value: (number | number[]) | (ScaleDataValue | ScaleDataValue[])
 ) => (number | number[]);
 let updateStreamModes: (ecIns: ECharts, ecModel: GlobalModel) => void;
+let updateStreamedSeries: (ecIns: ECharts, seriesModel: SeriesModel) => void;
 let doDispatchAction: (this: ECharts, payload: Payload, silent: boolean) => void;
 let flushPendingActions: (this: ECharts, silent: boolean) => void;
 let triggerUpdatedEvent: (this: ECharts, silent: boolean) => void;
@@ -1427,6 +1440,79 @@ class ECharts extends Eventful<ECEventDefinition> {
         this.getZr().wakeUp();
     }
 
+    /**
+     * Append data to a series and evict the oldest data to keep at most `capacity` data,
+     * which is used in streaming like live telemetry.
+     * Unlike `appendData`, the coordinate systems are updated and the shifting is animated,
+     * but the option is not merged again and other series are not processed again like `setOption`.
+     * The data of series can not be streamed if the data store is shared by other series,
+     * which happens when several series use the same dataset.
+     */
+    streamData(params: StreamDataOpts): void {
+        if (this[IN_MAIN_PROCESS_KEY]) {
+            if (__DEV__) {
+                error('`streamData` should not be called during main process.');
+            }
+            return;
+        }
+
+        if (this._disposed) {
+            disposedWarning(this.id);
+            return;
+        }
+
+        const ecModel = this.getModel();
+        const seriesModel = ecModel.getSeriesByIndex(params.seriesIndex) as SeriesModel;
+
+        if (__DEV__) {
+            assert(params.data && seriesModel);
+        }
+
+        const store = seriesModel.getRawData().getStore();
+        let storeShared = false;
+        ecModel.eachSeries(function (otherSeriesModel) {
+            storeShared = storeShared
+                || (otherSeriesModel !== seriesModel && otherSeriesModel.getRawData().getStore() === store);
+        });
+        if (storeShared) {
+            if (__DEV__) {
+                error('`streamData` is not supported on the data shared by several series in the same dataset.');
+            }
+            return;
+        }
+
+        seriesModel.streamData(params);
+
+        const silent = params.silent;
+        let needPrepare = false;
+        if (this[PENDING_UPDATE]) {
+            needPrepare = true;
+            this[PENDING_UPDATE] = null;
+        }
+
+        this[IN_MAIN_PROCESS_KEY] = true;
+
+        try {
+            if (needPrepare) {
+                prepare(this);
+                updateMethods.update.call(this);
+            }
+            else {
+                updateStreamedSeries(this, seriesModel);
+            }
+        }
+        catch (e) {
+            this[IN_MAIN_PROCESS_KEY] = false;
+            throw e;
+        }
+
+        this[IN_MAIN_PROCESS_KEY] = false;
+
+        flushPendingActions.call(this, silent);
+
+        triggerUpdatedEvent.call(this, silent);
+    }
+
 
     // A work around for no `internal` modifier in ts yet but
     // need to strictly hide private methods to JS users.
@@ -1861,6 +1947,56 @@ class ECharts extends Eventful<ECEventDefinition> {
             }
         };
 
+        /**
+         * Only the streamed series is restored and processed again. Other series are
+         * laid out again only if the extents of axes are changed or the streamed series
+         * is stacked.
+         */
+        updateStreamedSeries = function (ecIns: ECharts, seriesModel: SeriesModel): void {
+            const ecModel = ecIns._model;
+            const api = ecIns._api;
+            const scheduler = ecIns._scheduler;
+            const coordSysMgr = ecIns._coordSysMgr;
+            const payload: Payload = {type: 'streamData', seriesIndex: seriesModel.componentIndex};
+            const oldAxisExtents = getAxisExtents(seriesModel);
+
+            ecModel.setUpdatePayload(payload);
+
+            scheduler.restoreData(ecModel, payload);
+            // The overall tasks are performed again on all of their target series. So the series
+            // processed together with the streamed one (like the ones filtered by the same dataZoom)
+            // should be restored too, otherwise they would be processed on the processed data.
+            each(scheduler.getOverallTaskPeerSeries(ecModel, seriesModel), function (peerSeriesModel) {
+                peerSeriesModel.restoreData();
+            });
+
+            scheduler.performSeriesTasks(ecModel);
+
+            // Create new coordinate system like `update`, where the extents of scale are determined.
+            coordSysMgr.create(ecModel, api);
+
+            scheduler.performDataProcessorTasks(ecModel, payload);
+
+            updateStreamModes(ecIns, ecModel);
+
+            coordSysMgr.update(ecModel, api);
+
+            const axisExtents = getAxisExtents(seriesModel);
+            let axisChanged = axisExtents.length !== oldAxisExtents.length;
+            for (let i = 0; i < axisExtents.length && !axisChanged; i++) {
+                axisChanged = axisExtents[i] !== oldAxisExtents[i];
+            }
+
+            clearColorPalette(ecModel);
+            scheduler.performVisualTasks(ecModel, payload, {
+                setDirty: axisChanged || !!seriesModel.getData().getCalculationInfo('stackedDimension')
+            });
+
+            render(ecIns, ecModel, api, payload, {});
+
+            lifecycle.trigger('afterupdate', ecModel, api);
+        };
+
         updateStreamModes = function (ecIns: ECharts, ecModel: GlobalModel): void {
             const chartsMap = ecIns._chartsMap;
             const scheduler = ecIns._scheduler;
@@ -2584,6 +2720,19 @@ const MOUSE_EVENT_NAMES: ZRElementEventName[] = [
     'mousedown', 'mouseup', 'globalout', 'contextmenu'
 ];
 
+/**
+ * Extents of scale and pixel of the axes, which the layout of series depends on.
+ */
+function getAxisExtents(seriesModel: SeriesModel): number[] {
+    const coordSys = seriesModel.coordinateSystem;
+    const extents: number[] = [];
+    coordSys && coordSys.getAxis && each(coordSys.dimensions, function (dim) {
+        const axis = coordSys.getAxis(dim);
+        axis && extents.push.apply(extents, axis.scale.getExtent().concat(axis.getExtent()));
+    });
+    return extents;
+}
+
 function disposedWarning(id: string): void {
     if (__DEV__) {
         console.warn('Instance ' + id + ' has been disposed');
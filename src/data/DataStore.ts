@@ -22,6 +22,7 @@ import {
     DimensionIndex,
     DimensionName,
     OptionDataItem,
+    OptionSourceDataColumnar,
     ParsedValue,
     ParsedValueNumeric
 } from '../util/types';
@@ -55,7 +56,7 @@ export type DataStoreDimensionType = keyof typeof dataCtors;
 
 type DataTypedArray = Uint32Array | Int32Array | Uint16Array | Float64Array;
 type DataTypedArrayConstructor = typeof Uint32Array | typeof Int32Array | typeof Uint16Array | typeof Float64Array;
-type DataArrayLikeConstructor = typeof Array | DataTypedArrayConstructor;
+export type DataArrayLikeConstructor = typeof Array | DataTypedArrayConstructor;
 
 
 type DataValueChunk = ArrayLike<ParsedValue>;
@@ -138,7 +139,8 @@ function prepareStore(
     if (append) {
         const oldStore = store[dimIdx];
         const oldLen = oldStore && oldStore.length;
-        if (!(oldLen === end)) {
+        // The chunk may be larger than `end` if data are evicted, see `DataStore#evictData`.
+        if (!(oldLen >= end)) {
             const newStore = new DataCtor(end);
             // The cost of the copy is probably inconsiderable
             // within the initial chunkSize.
@@ -173,6 +175,9 @@ class DataStore {
     private _count: number = 0;
     private _rawCount: number = 0;
 
+    // Whether the chunks are created by the store and can be modified in place.
+    private _chunksOwned: boolean;
+
     private _dimensions: DataStoreDimensionDefine[];
     private _dimValueGetter: DimValueGetter;
 
@@ -199,6 +204,7 @@ class DataStore {
 
         // Clear
         this._chunks = [];
+        this._chunksOwned = false;
         this._indices = null;
         this.getRawIndex = this._getRawIdxIdentity;
 
@@ -272,18 +278,26 @@ class DataStore {
         dimIdx: number,
         ordinalMeta: OrdinalMeta
     ): void {
-        const chunk = this._chunks[dimIdx];
+        let chunk = this._chunks[dimIdx];
         const dim = this._dimensions[dimIdx];
         const rawExtents = this._rawExtent;
 
         const offset = dim.ordinalOffset || 0;
-        const len = chunk.length;
+        // The chunk may be larger than the count if data are evicted.
+        const len = this._rawCount;
 
         if (offset === 0) {
             // We need to reset the rawExtent if collect is from start.
             // Because this dimension may be guessed as number and calcuating a wrong extent.
             rawExtents[dimIdx] = getInitialExtent();
         }
+        else if (dim.ordinalMeta && dim.ordinalMeta !== ordinalMeta) {
+            // The collected ordinals are of another ordinal meta (like the one created from
+            // the dictionary of columnar source), which need to be mapped to the given one.
+            this._remapOrdinals(dimIdx, dim.ordinalMeta, ordinalMeta, offset);
+            // The chunk is replaced in remapping.
+            chunk = this._chunks[dimIdx];
+        }
 
         const dimRawExtent = rawExtents[dimIdx];
 
@@ -301,6 +315,41 @@ class DataStore {
         dim.type = 'ordinal';   // Force to be ordinal
     }
 
+    private _remapOrdinals(
+        dimIdx: number,
+        fromOrdinalMeta: OrdinalMeta,
+        toOrdinalMeta: OrdinalMeta,
+        offset: number
+    ): void {
+        const categories = fromOrdinalMeta.categories;
+        const ordinalMap = map(categories, category => toOrdinalMeta.parseAndCollect(category));
+        let isIdentity = true;
+        for (let i = 0; i < ordinalMap.length && isIdentity; i++) {
+            isIdentity = ordinalMap[i] === i;
+        }
+        if (isIdentity) {
+            return;
+        }
+
+        // Do not modify the chunk in place, which may be the typed array of user.
+        const chunk = this._chunks[dimIdx];
+        const newChunk = new dataCtors.ordinal(chunk.length) as number[];
+        const dimRawExtent = this._rawExtent[dimIdx] = getInitialExtent();
+        for (let i = 0; i < chunk.length; i++) {
+            if (i >= offset) {
+                newChunk[i] = chunk[i] as number;
+                continue;
+            }
+            const ordinal = ordinalMap[chunk[i] as number];
+            const val = newChunk[i] = ordinal == null ? NaN : ordinal;
+            if (!isNaN(val)) {
+                dimRawExtent[0] = Math.min(val, dimRawExtent[0]);
+                dimRawExtent[1] = Math.max(val, dimRawExtent[1]);
+            }
+        }
+        this._chunks[dimIdx] = newChunk;
+    }
+
     getOrdinalMeta(dimIdx: number): OrdinalMeta {
         const dimInfo = this._dimensions[dimIdx];
         const ordinalMeta = dimInfo.ordinalMeta;
@@ -315,7 +364,7 @@ class DataStore {
     /**
      * Caution: Can be only called on raw data (before `this._indices` created).
      */
-    appendData(data: ArrayLike<any>): number[] {
+    appendData(data: ArrayLike<any> | OptionSourceDataColumnar): number[] {
         if (__DEV__) {
             assert(!this._indices, 'appendData can only be called on raw data.');
         }
@@ -335,6 +384,83 @@ class DataStore {
         return [start, end];
     }
 
+    /**
+     * Remove the first `count` data, which is used to keep a fixed capacity window.
+     * The data are shifted in place and the capacity of the chunks is kept, so that the
+     * following `appendData` does not need to reallocate them.
+     * Caution: Can be only called on raw data (before `this._indices` created).
+     * The stores cloned before share the chunks and should not be used any more.
+     */
+    evictData(count: number): void {
+        if (__DEV__) {
+            assert(!this._indices, 'evictData can only be called on raw data.');
+        }
+
+        const rawCount = this._rawCount;
+        count = Math.min(count, rawCount);
+        if (!(count > 0)) {
+            return;
+        }
+
+        const newCount = rawCount - count;
+        const dimensions = this._dimensions;
+        const chunks = this._chunks;
+        const rawExtent = this._rawExtent;
+
+        if (!this._chunksOwned) {
+            // The chunks may be the typed arrays of user (see `fillStorage`),
+            // which are copied once before modified in place.
+            for (let dimIdx = 0; dimIdx < chunks.length; dimIdx++) {
+                chunks[dimIdx] && (chunks[dimIdx] = cloneChunk(chunks[dimIdx]));
+            }
+            this._chunksOwned = true;
+        }
+
+        for (let dimIdx = 0; dimIdx < chunks.length; dimIdx++) {
+            const chunk = chunks[dimIdx] as ParsedValue[];
+            if (!chunk) {
+                continue;
+            }
+            const dimRawExtent = rawExtent[dimIdx] || (rawExtent[dimIdx] = getInitialExtent());
+            let min = dimRawExtent[0];
+            let max = dimRawExtent[1];
+            // Only recalculate the extent when the evicted data are on the boundary.
+            let extentEvicted = false;
+            for (let i = 0; i < count; i++) {
+                const val = chunk[i] as ParsedValueNumeric;
+                if (val <= min || val >= max) {
+                    extentEvicted = true;
+                    break;
+                }
+            }
+            if (extentEvicted) {
+                min = Infinity;
+                max = -Infinity;
+            }
+
+            for (let i = count; i < rawCount; i++) {
+                const val = chunk[i] as ParsedValueNumeric;
+                chunk[i - count] = val;
+                if (extentEvicted) {
+                    val < min && (min = val);
+                    val > max && (max = val);
+                }
+            }
+            dimRawExtent[0] = min;
+            dimRawExtent[1] = max;
+
+            const dim = dimensions[dimIdx];
+            if (dim && dim.ordinalOffset) {
+                dim.ordinalOffset = Math.max(0, dim.ordinalOffset - count);
+            }
+        }
+
+        this._provider.evictData(count);
+
+        this._extent = [];
+        this._rawCount = this._count = newCount;
+    }
+
     appendValues(values: any[][], minFillLen?: number): { start: number; end: number } {
         const chunks = this._chunks;
         const dimensions = this._dimensions;
@@ -392,7 +518,7 @@ class DataStore {
         }
 
         if (provider.fillStorage) {
-            provider.fillStorage(start, end, chunks, rawExtent);
+            provider.fillStorage(start, end, chunks, rawExtent, dimensions);
         }
         else {
             let dataItem = [] as OptionDataItem;
@@ -1013,6 +1139,160 @@ class DataStore {
         return target;
     }
 
+    /**
+     * Large data down sampling keeping both the min and the max data of each frame,
+     * in the original order, so that the envelope (including spikes) is preserved.
+     * @param valueDimension
+     * @param rate
+     */
+    minmaxDownSample(
+        valueDimension: DimensionIndex,
+        rate: number
+    ): DataStore {
+        const target = this.clone([], true);
+        const dimStore = this._chunks[valueDimension];
+        const len = this.count();
+        const frameSize = Math.floor(1 / rate);
+
+        const newIndices = new (getIndicesCtor(this._rawCount))(Math.ceil(len / frameSize) * 2);
+
+        let offset = 0;
+        for (let i = 0; i < len; i += frameSize) {
+            const frameEnd = Math.min(i + frameSize, len);
+            let minIdx = -1;
+            let maxIdx = -1;
+            let min = Infinity;
+            let max = -Infinity;
+
+            for (let idx = i; idx < frameEnd; idx++) {
+                const y = dimStore[this.getRawIndex(idx)] as number;
+                if (isNaN(y)) {
+                    continue;
+                }
+                if (y < min) {
+                    min = y;
+                    minIdx = idx;
+                }
+                if (y > max) {
+                    max = y;
+                    maxIdx = idx;
+                }
+            }
+
+            if (minIdx < 0) {
+                // Keep the empty frame as a NaN point, so that the line breaks here.
+                newIndices[offset++] = this.getRawIndex(i);
+            }
+            else {
+                // Keep the order of indices.
+                newIndices[offset++] = this.getRawIndex(Math.min(minIdx, maxIdx));
+                minIdx !== maxIdx && (newIndices[offset++] = this.getRawIndex(Math.max(minIdx, maxIdx)));
+            }
+        }
+
+        target._count = offset;
+        target._indices = newIndices;
+
+        target._updateGetRawIdx();
+
+        return target;
+    }
+
+    /**
+     * Large data down sampling using M4: the data are split into buckets by the value on
+     * base dimension (usually one bucket for one pixel column), and the first, the last,
+     * the min and the max data of each bucket are kept, in the original order.
+     * @param baseDimension
+     * @param valueDimension
+     * @param bucketCount
+     * @param baseExtent Extent on base dimension split into buckets, which is usually the
+     *        extent of axis. Data extent is used by default. Data out of the extent are
+     *        put into two extra buckets on both sides.
+     */
+    m4DownSample(
+        baseDimension: DimensionIndex,
+        valueDimension: DimensionIndex,
+        bucketCount: number,
+        baseExtent?: number[]
+    ): DataStore {
+        const target = this.clone([], true);
+        const baseStore = this._chunks[baseDimension];
+        const valueStore = this._chunks[valueDimension];
+        const len = this.count();
+        baseExtent = baseExtent || this.getDataExtent(baseDimension);
+        const baseMin = Math.min(baseExtent[0], baseExtent[1]);
+        const baseSpan = Math.abs(baseExtent[1] - baseExtent[0]);
+
+        bucketCount = Math.max(1, Math.floor(bucketCount));
+        // Bucket 0 and the last bucket are for data out of the extent.
+        const totalBucketCount = bucketCount + 2;
+        // first, last, min, max of each bucket.
+        const bucketIndices = new Int32Array(totalBucketCount * 4);
+        const bucketMin = new Float64Array(totalBucketCount);
+        const bucketMax = new Float64Array(totalBucketCount);
+        for (let i = 0; i < bucketIndices.length; i++) {
+            bucketIndices[i] = -1;
+        }
+
+        for (let idx = 0; idx < len; idx++) {
+            const rawIndex = this.getRawIndex(idx);
+            const x = baseStore[rawIndex] as number;
+            if (isNaN(x)) {
+                continue;
+            }
+            const bucket = x < baseMin
+                ? 0
+                : x > baseMin + baseSpan
+                ? totalBucketCount - 1
+                : baseSpan > 0
+                ? Math.min(Math.floor((x - baseMin) / baseSpan * bucketCount), bucketCount - 1) + 1
+                : 1;
+            const offset = bucket * 4;
+            if (bucketIndices[offset] < 0) {
+                bucketIndices[offset] = idx;
+            }
+            bucketIndices[offset + 1] = idx;
+
+            const y = valueStore[rawIndex] as number;
+            if (isNaN(y)) {
+                continue;
+            }
+            if (bucketIndices[offset + 2] < 0 || y < bucketMin[bucket]) {
+                bucketIndices[offset + 2] = idx;
+                bucketMin[bucket] = y;
+            }
+            if (bucketIndices[offset + 3] < 0 || y > bucketMax[bucket]) {
+                bucketIndices[offset + 3] = idx;
+                bucketMax[bucket] = y;
+            }
+        }
+
+        // Mark the picked data, so that the original order is kept even if
+        // the data are not sorted on the base dimension.
+        const picked = new Uint8Array(len);
+        let pickedCount = 0;
+        for (let i = 0; i < bucketIndices.length; i++) {
+            const idx = bucketIndices[i];
+            if (idx >= 0 && !picked[idx]) {
+                picked[idx] = 1;
+                pickedCount++;
+            }
+        }
+
+        const newIndices = new (getIndicesCtor(this._rawCount))(pickedCount);
+        let offset = 0;
+        for (let idx = 0; idx < len; idx++) {
+            picked[idx] && (newIndices[offset++] = this.getRawIndex(idx));
+        }
+
+        target._count = offset;
+        target._indices = newIndices;
+
+        target._updateGetRawIdx();
+
+        return target;
+    }
+
 
     /**
      * Large data down sampling on given dimension
@@ -1281,6 +1561,8 @@ class DataStore {
 
             keyedColumns: getDimValueSimply,
 
+            columnar: getDimValueSimply,
+
             original(
                 this: DataStore, dataItem: any, property: string, dataIndex: number, dimIndex: number
             ): ParsedValue {
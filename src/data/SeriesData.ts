@@ -35,7 +35,8 @@ import {
     ModelOption, SeriesDataType, OptionSourceData, SOURCE_FORMAT_TYPED_ARRAY, SOURCE_FORMAT_ORIGINAL,
     DecalObject,
     OrdinalNumber,
-    OrdinalRawValue
+    OrdinalRawValue,
+    OptionSourceDataColumnar
 } from '../util/types';
 import {convertOptionIdName, isDataItemOption} from '../util/model';
 import { setCommonECData } from '../util/innerStore';
@@ -94,7 +95,7 @@ const TRANSFERABLE_PROPERTIES = [
     'hasItemOption', '_nameList', '_idList', '_invertedIndicesMap',
     '_dimSummary', 'userOutput',
     '_rawData', '_dimValueGetter',
-    '_nameDimIdx', '_idDimIdx', '_nameRepeatCount'
+    '_nameDimIdx', '_idDimIdx', '_nameRepeatCount', '_idOffset'
 ];
 
 const CLONE_PROPERTIES = [
@@ -201,6 +202,9 @@ class SeriesData<
     private _nameList: string[] = [];
     private _idList: string[] = [];
 
+    // Count of data evicted, so that the ids generated by index keep unchanged.
+    private _idOffset: number = 0;
+
     // Models of data option is stored sparse for optimizing memory cost
     // Never used yet (not used yet).
     // private _optionModels: Model[] = [];
@@ -254,10 +258,14 @@ class SeriesData<
 
     // Methods that create a new list based on this list should be listed here.
     // Notice that those method should `RETURN` the new list.
-    TRANSFERABLE_METHODS = ['cloneShallow', 'downSample', 'lttbDownSample', 'map'] as const;
+    TRANSFERABLE_METHODS = [
+        'cloneShallow', 'downSample', 'lttbDownSample', 'minmaxDownSample', 'm4DownSample', 'map'
+    ] as const;
     // Methods that change indices of this list should be listed here.
     CHANGABLE_METHODS = ['filterSelf', 'selectRange'] as const;
-    DOWNSAMPLE_METHODS = ['downSample', 'lttbDownSample'] as const;
+    DOWNSAMPLE_METHODS = [
+        'downSample', 'lttbDownSample', 'minmaxDownSample', 'm4DownSample'
+    ] as const;
 
     /**
      * @param dimensionsInput.dimensions
@@ -563,10 +571,30 @@ class SeriesData<
     /**
      * Caution: Can be only called on raw data (before `this._indices` created).
      */
-    appendData(data: ArrayLike<any>): void {
+    appendData(data: ArrayLike<any> | OptionSourceDataColumnar): void {
         const range = this._store.appendData(data);
         this._doInit(range[0], range[1]);
     }
+
+    /**
+     * Remove the first `count` data.
+     * The ids generated by index keep unchanged, so that the shift can be animated.
+     * Caution: Can be only called on raw data (before `this._indices` created).
+     */
+    evictData(count: number): void {
+        const store = this._store;
+        const oldCount = store.count();
+        store.evictData(count);
+        const evictedCount = oldCount - store.count();
+
+        if (evictedCount) {
+            // Not modify the lists in place, which may be shared with the data cloned before.
+            this._nameList = this._nameList.slice(evictedCount);
+            this._idList = this._idList.slice(evictedCount);
+            this._idOffset += evictedCount;
+            prepareInvertedIndex(this);
+        }
+    }
     /**
      * Caution: Can be only called on raw data (before `this._indices` created).
      * This method does not modify `rawData` (`dataProvider`), but only
@@ -1115,6 +1143,41 @@ class SeriesData<
         return list as SeriesData<HostModel>;
     }
 
+    /**
+     * Large data down sampling keeping both min and max of each frame
+     */
+    minmaxDownSample(
+        valueDimension: DimensionLoose,
+        rate: number
+    ): SeriesData<HostModel> {
+        const list = cloneListForMapAndSample(this);
+        list._store = this._store.minmaxDownSample(
+            this._getStoreDimIndex(valueDimension),
+            rate
+        );
+        return list as SeriesData<HostModel>;
+    }
+
+    /**
+     * Large data down sampling keeping the first, last, min and max of each bucket
+     * on base dimension
+     */
+    m4DownSample(
+        baseDimension: DimensionLoose,
+        valueDimension: DimensionLoose,
+        bucketCount: number,
+        baseExtent?: number[]
+    ): SeriesData<HostModel> {
+        const list = cloneListForMapAndSample(this);
+        list._store = this._store.m4DownSample(
+            this._getStoreDimIndex(baseDimension),
+            this._getStoreDimIndex(valueDimension),
+            bucketCount,
+            baseExtent
+        );
+        return list as SeriesData<HostModel>;
+    }
+
     getRawDataItem(idx: number) {
         return this._store.getRawDataItem(idx);
     }
@@ -1418,7 +1481,7 @@ class SeriesData<
                 id = getIdNameFromStore(data, data._idDimIdx, rawIndex);
             }
             if (id == null) {
-                id = ID_PREFIX + rawIndex;
+                id = ID_PREFIX + (rawIndex + data._idOffset);
             }
             return id;
         };
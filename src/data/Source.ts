@@ -29,6 +29,7 @@ import {
     SOURCE_FORMAT_UNKNOWN,
     SOURCE_FORMAT_KEYED_COLUMNS,
     SOURCE_FORMAT_TYPED_ARRAY,
+    SOURCE_FORMAT_COLUMNAR,
     DimensionName,
     OptionSourceHeader,
     DimensionDefinitionLoose,
@@ -40,7 +41,10 @@ import {
     OptionSourceDataArrayRows,
     SERIES_LAYOUT_BY_ROW,
     OptionSourceDataOriginal,
-    OptionSourceDataKeyedColumns
+    OptionSourceDataKeyedColumns,
+    OptionSourceDataColumnar,
+    OptionSourceDataColumn,
+    DimensionType
 } from '../util/types';
 import { DatasetOption } from '../component/dataset/install';
 import { getDataItemValue } from '../util/model';
@@ -79,6 +83,17 @@ import { BE_ORDINAL, guessOrdinal } from './helper/sourceHelper';
  *
  * + "typedArray"
  *
+ * + "columnar":
+ * Arrow-style table, where typed arrays are used without copy, and
+ * dictionary-encoded strings are used as categories.
+ * {
+ *     numRows: 4,
+ *     columns: [
+ *         {name: 'product', values: new Int32Array([0, 1, 2, 1]), dictionary: ['Latte', 'Tea', 'Cocoa']},
+ *         {name: 'score', values: new Float64Array([95.8, 81.4, 91.2, 76.9])}
+ *     ]
+ * }
+ *
  * + "unknown"
  */
 
@@ -246,7 +261,9 @@ export function cloneSourceShallow(source: Source): Source {
         seriesLayoutBy: source.seriesLayoutBy,
         dimensionsDefine: clone(source.dimensionsDefine),
         startIndex: source.startIndex,
-        dimensionsDetectedCount: source.dimensionsDetectedCount
+        dimensionsDetectedCount: source.dimensionsDetectedCount,
+        // Keep the dimensions returned by transform, which the downstream series relies on.
+        metaRawOption: clone(source.metaRawOption)
     });
 }
 
@@ -281,6 +298,9 @@ export function detectSourceFormat(data: DatasetOption['source']): SourceFormat
             }
         }
     }
+    else if (isColumnarSourceData(data)) {
+        sourceFormat = SOURCE_FORMAT_COLUMNAR;
+    }
     else if (isObject(data)) {
         for (const key in data) {
             if (hasOwn(data, key) && isArrayLike((data as Dictionary<unknown>)[key])) {
@@ -293,6 +313,36 @@ export function detectSourceFormat(data: DatasetOption['source']): SourceFormat
     return sourceFormat;
 }
 
+function isColumnarSourceData(data: DatasetOption['source']): data is OptionSourceDataColumnar {
+    const columns = isObject(data) && (data as OptionSourceDataColumnar).columns;
+    if (!isArray(columns) || !columns.length) {
+        return false;
+    }
+    for (let i = 0; i < columns.length; i++) {
+        const column = columns[i];
+        if (!isObject(column) || isArray(column) || !isArrayLike(column.values)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Dimension type of columnar data, so that the typed array can be used in store directly.
+ */
+function getColumnDimensionType(column: OptionSourceDataColumn): DimensionType {
+    const values = column.values;
+    if (column.dictionary) {
+        return 'ordinal';
+    }
+    if (typeof Int32Array !== 'undefined' && values instanceof Int32Array) {
+        return 'int';
+    }
+    if (isTypedArray(values)) {
+        return 'float';
+    }
+}
+
 /**
  * Determine the source definitions from data standalone dimensions definitions
  * are not specified.
@@ -383,6 +433,17 @@ function determineSourceDimensions(
             });
         }
     }
+    else if (sourceFormat === SOURCE_FORMAT_COLUMNAR) {
+        if (!dimensionsDefine) {
+            dimensionsDefine = map((data as OptionSourceDataColumnar).columns, function (column) {
+                return {
+                    name: column.name,
+                    type: getColumnDimensionType(column)
+                };
+            });
+        }
+        dimensionsDetectedCount = (data as OptionSourceDataColumnar).columns.length;
+    }
     else if (sourceFormat === SOURCE_FORMAT_ORIGINAL) {
         const value0 = getDataItemValue((data as OptionSourceDataOriginal)[0]);
         dimensionsDetectedCount = isArray(value0) && value0.length || 1;
@@ -21,7 +21,11 @@
 // ??? refactor? check the outer usage of data provider.
 // merge with defaultDimValueGetter?
 
-import {isTypedArray, extend, assert, each, isObject, bind} from 'zrender/src/core/util';
+import {
+    isTypedArray, extend, assert, each, isObject, bind, map, createHashMap, HashMap
+} from 'zrender/src/core/util';
+import { parseDataValue } from './dataValueHelper';
+import OrdinalMeta from '../OrdinalMeta';
 import {getDataItemValue} from '../../util/model';
 import { createSourceFromSeriesDataOption, Source, isSourceInstance } from '../Source';
 import {ArrayLike, Dictionary} from 'zrender/src/core/types';
@@ -30,13 +34,17 @@ import {
     SOURCE_FORMAT_OBJECT_ROWS,
     SOURCE_FORMAT_KEYED_COLUMNS,
     SOURCE_FORMAT_TYPED_ARRAY,
+    SOURCE_FORMAT_COLUMNAR,
     SOURCE_FORMAT_ARRAY_ROWS,
     SERIES_LAYOUT_BY_COLUMN,
     SERIES_LAYOUT_BY_ROW,
     DimensionName, DimensionIndex, OptionSourceData,
-    OptionDataItem, OptionDataValue, SourceFormat, SeriesLayoutBy, ParsedValue, DimensionLoose, NullUndefined
+    OptionDataItem, OptionDataValue, SourceFormat, SeriesLayoutBy, ParsedValue, DimensionLoose, NullUndefined,
+    OptionSourceDataColumnar, OptionSourceDataColumn, OrdinalRawValue,
+    OptionSourceDataArrayRows, OptionSourceDataObjectRows
 } from '../../util/types';
 import SeriesData from '../SeriesData';
+import type { DataStoreDimensionDefine, DataArrayLikeConstructor } from '../DataStore';
 
 export interface DataProvider {
     /**
@@ -54,13 +62,19 @@ export interface DataProvider {
     getSource(): Source;
     count(): number;
     getItem(idx: number, out?: OptionDataItem): OptionDataItem;
+    /**
+     * The chunks in `out` can be replaced, like using the typed array in source directly.
+     */
     fillStorage?(
         start: number,
         end: number,
         out: ArrayLike<ParsedValue>[],
-        extent: number[][]
+        extent: number[][],
+        dimensions?: DataStoreDimensionDefine[]
     ): void
-    appendData?(newData: ArrayLike<OptionDataItem>): void;
+    appendData?(newData: ArrayLike<OptionDataItem> | OptionSourceDataColumnar): void;
+    // Remove the first `count` data items.
+    evictData?(count: number): void;
     clean?(): void;
 }
 
@@ -73,7 +87,8 @@ export interface DefaultDataProvider {
         start: number,
         end: number,
         out: ArrayLike<ParsedValue>[],
-        extent: number[][]
+        extent: number[][],
+        dimensions?: DataStoreDimensionDefine[]
     ): void
 }
 /**
@@ -90,6 +105,12 @@ export class DefaultDataProvider implements DataProvider {
 
     private _dimSize: number;
 
+    // Whether `_data` is a copy owned by the provider, which can be modified in place.
+    private _dataOwned: boolean;
+
+    // Index of each category in the dictionaries of the owned columnar data.
+    private _dictionaryMaps: HashMap<number, OrdinalRawValue>[];
+
     pure: boolean;
 
     persistent: boolean;
@@ -143,6 +164,9 @@ export class DefaultDataProvider implements DataProvider {
     appendData(newData: OptionSourceData): void {
     }
 
+    evictData(count: number): void {
+    }
+
     clean(): void {
     }
 
@@ -166,6 +190,13 @@ export class DefaultDataProvider implements DataProvider {
                 provider.count = countForTypedArray;
                 provider.fillStorage = fillStorageForTypedArray;
             }
+            else if (sourceFormat === SOURCE_FORMAT_COLUMNAR) {
+                const rawItemGetter = getRawSourceItemGetter(sourceFormat, seriesLayoutBy);
+                provider.getItem = bind(rawItemGetter, null, data, startIndex, dimsDef);
+                const rawCounter = getRawSourceDataCounter(sourceFormat, seriesLayoutBy);
+                provider.count = bind(rawCounter, null, data, startIndex, dimsDef);
+                provider.fillStorage = fillStorageForColumnar;
+            }
             else {
                 const rawItemGetter = getRawSourceItemGetter(sourceFormat, seriesLayoutBy);
                 provider.getItem = bind(rawItemGetter, null, data, startIndex, dimsDef);
@@ -212,6 +243,115 @@ export class DefaultDataProvider implements DataProvider {
             }
         };
 
+        const fillStorageForColumnar: DefaultDataProvider['fillStorage'] = function (
+            this: DefaultDataProvider,
+            start: number,
+            end: number,
+            storage: ArrayLike<ParsedValue>[],
+            extent: number[][],
+            dimensions: DataStoreDimensionDefine[]
+        ) {
+            const columns = (this._data as OptionSourceDataColumnar).columns;
+
+            for (let dim = 0; dim < columns.length && dim < storage.length; dim++) {
+                const column = columns[dim];
+                const values = column.values;
+                const dimExtent = extent[dim];
+                const dimDefine = dimensions && dimensions[dim] || {};
+                let min = dimExtent[0] == null ? Infinity : dimExtent[0];
+                let max = dimExtent[1] == null ? -Infinity : dimExtent[1];
+
+                if (column.dictionary) {
+                    const ordinalExtent = fillDictionaryColumn(column, start, end, storage, dim, dimDefine);
+                    min = Math.min(min, ordinalExtent[0]);
+                    max = Math.max(max, ordinalExtent[1]);
+                }
+                else if (start === 0
+                    && values.length === end
+                    && isTypedArray(values)
+                    && values.constructor === storage[dim].constructor
+                ) {
+                    // Zero copy. The chunks of store will not be modified in place.
+                    storage[dim] = values as ArrayLike<number>;
+                    for (let i = 0; i < end; i++) {
+                        const val = values[i] as number;
+                        val < min && (min = val);
+                        val > max && (max = val);
+                    }
+                }
+                else {
+                    const arr = storage[dim];
+                    for (let i = start; i < end; i++) {
+                        const val = parseDataValue(getColumnValue(column, i), dimDefine);
+                        arr[i] = val;
+                        val < min && (min = val as number);
+                        val > max && (max = val as number);
+                    }
+                }
+                dimExtent[0] = min;
+                dimExtent[1] = max;
+            }
+        };
+
+        /**
+         * The dictionary is collected to the ordinal meta of the dimension, and the indices
+         * are mapped to ordinals directly rather than decoded to strings and collected again.
+         * The ordinal meta is created from the dictionary if not exists, where the indices are
+         * the ordinals, so that they are used without copy if they are in a typed array.
+         * @return Extent of the ordinals.
+         */
+        function fillDictionaryColumn(
+            column: OptionSourceDataColumn,
+            start: number,
+            end: number,
+            storage: ArrayLike<ParsedValue>[],
+            dimIdx: number,
+            dimDefine: DataStoreDimensionDefine
+        ): number[] {
+            const values = column.values as ArrayLike<number>;
+            const dictionary = column.dictionary;
+            const ordinalMeta = dimDefine.ordinalMeta || (dimDefine.ordinalMeta = new OrdinalMeta({
+                needCollect: true,
+                deduplication: true
+            }));
+            const ordinals: number[] = [];
+            let isIdentity = true;
+            for (let i = 0; i < dictionary.length; i++) {
+                ordinals[i] = ordinalMeta.parseAndCollect(dictionary[i]);
+                isIdentity = isIdentity && ordinals[i] === i;
+            }
+            // The ordinals in store are of the meta, which do not need to be collected again.
+            dimDefine.ordinalOffset = end;
+
+            let min = Infinity;
+            let max = -Infinity;
+            let useValues = isIdentity && start === 0 && values.length === end && isTypedArray(values);
+            for (let i = start; i < end && useValues; i++) {
+                const idx = values[i];
+                // Empty value is not allowed in the chunk of ordinals.
+                useValues = idx >= 0 && idx < dictionary.length && idx === Math.floor(idx);
+                idx < min && (min = idx);
+                idx > max && (max = idx);
+            }
+            if (useValues) {
+                storage[dimIdx] = values;
+                return [min, max];
+            }
+
+            min = Infinity;
+            max = -Infinity;
+            const arr = storage[dimIdx];
+            for (let i = start; i < end; i++) {
+                const idx = values[i];
+                // Negative index or null means empty value.
+                const val = idx == null || idx < 0 || ordinals[idx] == null ? NaN : ordinals[idx];
+                arr[i] = val;
+                val < min && (min = val);
+                val > max && (max = val);
+            }
+            return [min, max];
+        }
+
         const countForTypedArray: DefaultDataProvider['count'] = function (
             this: DefaultDataProvider
         ) {
@@ -222,19 +362,24 @@ export class DefaultDataProvider implements DataProvider {
 
             [SOURCE_FORMAT_ARRAY_ROWS + '_' + SERIES_LAYOUT_BY_COLUMN]: {
                 pure: true,
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                evictData: evictDataSimply
             },
 
             [SOURCE_FORMAT_ARRAY_ROWS + '_' + SERIES_LAYOUT_BY_ROW]: {
                 pure: true,
                 appendData: function () {
                     throw new Error('Do not support appendData when set seriesLayoutBy: "row".');
+                },
+                evictData: function () {
+                    throw new Error('Do not support evictData when set seriesLayoutBy: "row".');
                 }
             },
 
             [SOURCE_FORMAT_OBJECT_ROWS]: {
                 pure: true,
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                evictData: evictDataSimply
             },
 
             [SOURCE_FORMAT_KEYED_COLUMNS]: {
@@ -247,11 +392,48 @@ export class DefaultDataProvider implements DataProvider {
                             oldCol.push(newCol[i]);
                         }
                     });
+                },
+                // The columns of user are not modified, see `evictDataSimply`.
+                evictData: function (this: DefaultDataProvider, count: number) {
+                    const newData: Dictionary<OptionDataValue[]> = {};
+                    each(this._data as Dictionary<OptionDataValue[]>, function (col, key) {
+                        newData[key] = col && col.slice(count);
+                    });
+                    this._data = newData;
+                    mountMethods(this, newData, this._source);
                 }
             },
 
             [SOURCE_FORMAT_ORIGINAL]: {
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                evictData: evictDataSimply
+            },
+
+            // The columns of user are not modified, see `ownColumnarData`.
+            [SOURCE_FORMAT_COLUMNAR]: {
+                pure: true,
+                appendData: function (this: DefaultDataProvider, newData: OptionSourceDataColumnar): void {
+                    const data = ownColumnarData(this);
+                    const count = data.numRows;
+                    const newCount = getRawSourceDataCounter(SOURCE_FORMAT_COLUMNAR, null)(newData, 0, null);
+                    const dictionaryMaps = this._dictionaryMaps;
+                    each(data.columns, function (column, idx) {
+                        appendColumn(column, count, newData.columns[idx], newCount, dictionaryMaps[idx]);
+                    });
+                    data.numRows = count + newCount;
+                },
+                evictData: function (this: DefaultDataProvider, count: number): void {
+                    const data = ownColumnarData(this);
+                    const numRows = data.numRows;
+                    count = Math.min(count, numRows);
+                    each(data.columns, function (column) {
+                        const values = column.values as OptionDataValue[];
+                        for (let i = count; i < numRows; i++) {
+                            values[i - count] = values[i];
+                        }
+                    });
+                    data.numRows = numRows - count;
+                }
             },
 
             [SOURCE_FORMAT_TYPED_ARRAY]: {
@@ -267,6 +449,12 @@ export class DefaultDataProvider implements DataProvider {
                     this._data = newData;
                 },
 
+                // Data have been moved to the store, only the offset of
+                // the data not consumed yet needs to be updated.
+                evictData: function (this: DefaultDataProvider, count: number): void {
+                    this._offset = Math.max(0, this._offset - count);
+                },
+
                 // Clean self if data is already used.
                 clean: function (this: DefaultDataProvider): void {
                     // PENDING
@@ -282,6 +470,114 @@ export class DefaultDataProvider implements DataProvider {
             }
         }
 
+        /**
+         * Copy the columns once into buffers owned by the provider, which are appended
+         * and evicted in place later. Typed arrays are extended by doubling the capacity,
+         * so the length of the values may be larger than `numRows`.
+         */
+        function ownColumnarData(provider: DefaultDataProvider): OptionSourceDataColumnar {
+            if (!provider._dataOwned) {
+                const numRows = provider.count();
+                const data = provider._data = {
+                    numRows: numRows,
+                    columns: map((provider._data as OptionSourceDataColumnar).columns, function (column) {
+                        const newColumn = extend({}, column);
+                        newColumn.values = createColumnBuffer(column.values, numRows, numRows);
+                        const dictionary = column.dictionary;
+                        if (dictionary) {
+                            newColumn.dictionary = createColumnBuffer(dictionary, dictionary.length, dictionary.length);
+                        }
+                        return newColumn;
+                    })
+                };
+                provider._dictionaryMaps = map(data.columns, function (column) {
+                    const dictionary = column.dictionary;
+                    if (dictionary) {
+                        const dictionaryMap = createHashMap<number, OrdinalRawValue>();
+                        for (let i = 0; i < dictionary.length; i++) {
+                            dictionaryMap.set(dictionary[i], i);
+                        }
+                        return dictionaryMap;
+                    }
+                });
+                provider._dataOwned = true;
+                // `getItem` and `count` are bound to the data.
+                mountMethods(provider, data, provider._source);
+            }
+            return provider._data as OptionSourceDataColumnar;
+        }
+
+        /**
+         * Copy the first `count` values to a new buffer, which is a normal array
+         * if `values` is, otherwise a typed array of `capacity`.
+         */
+        function createColumnBuffer<T>(values: ArrayLike<T>, count: number, capacity: number): ArrayLike<T> {
+            const result = isTypedArray(values)
+                ? new (values.constructor as DataArrayLikeConstructor)(capacity) as ArrayLike<T>
+                : [] as T[];
+            for (let i = 0; i < count; i++) {
+                result[i] = values[i];
+            }
+            return result;
+        }
+
+        /**
+         * Append the new column to the owned column in place, where the indices of the
+         * new dictionary are mapped to the extended dictionary.
+         */
+        function appendColumn(
+            column: OptionSourceDataColumn,
+            count: number,
+            newColumn: OptionSourceDataColumn,
+            newCount: number,
+            dictionaryMap: HashMap<number, OrdinalRawValue>
+        ): void {
+            const end = count + newCount;
+            let values = column.values as OptionDataValue[];
+            if (values.length < end && isTypedArray(values)) {
+                values = createColumnBuffer(values, count, Math.max(end, values.length * 2)) as OptionDataValue[];
+                column.values = values;
+            }
+
+            let indexMap: number[];
+            const dictionary = column.dictionary as OrdinalRawValue[];
+            if (dictionary) {
+                const newDictionary = newColumn && newColumn.dictionary || [];
+                indexMap = [];
+                for (let i = 0; i < newDictionary.length; i++) {
+                    let index = dictionaryMap.get(newDictionary[i]);
+                    if (index == null) {
+                        index = dictionary.length;
+                        dictionary.push(newDictionary[i]);
+                        dictionaryMap.set(newDictionary[i], index);
+                    }
+                    indexMap[i] = index;
+                }
+            }
+
+            const newValues = newColumn ? newColumn.values : [];
+            for (let i = 0; i < newCount; i++) {
+                const val = newValues[i];
+                values[count + i] = indexMap
+                    ? (val == null || val < 0 || indexMap[val as number] == null ? -1 : indexMap[val as number])
+                    : val;
+            }
+        }
+
+        function evictDataSimply(this: DefaultDataProvider, count: number): void {
+            let data = this._data as OptionSourceDataArrayRows | OptionSourceDataObjectRows;
+            if (!this._dataOwned) {
+                // Evict on a copy owned by the provider rather than the array of user in place,
+                // which may be `series.data` or used by other series. Only copied once.
+                data = this._data = data.slice();
+                this._dataOwned = true;
+                // `getItem` and `count` are bound to the data.
+                mountMethods(this, data, this._source);
+            }
+            // Header rows are kept.
+            data.splice(this._source.startIndex || 0, count);
+        }
+
     })();
 }
 
@@ -338,9 +634,31 @@ const rawSourceItemGetterMap: Dictionary<RawSourceItemGetter> = {
         }
         return item;
     },
+    [SOURCE_FORMAT_COLUMNAR]: function (
+        rawData, startIndex, dimsDef, idx, out
+    ) {
+        const item = out || [];
+        const columns = (rawData as OptionSourceDataColumnar).columns;
+        for (let i = 0; i < columns.length; i++) {
+            item[i] = getColumnValue(columns[i], idx);
+        }
+        return item;
+    },
     [SOURCE_FORMAT_ORIGINAL]: getItemSimply
 };
 
+/**
+ * Get value in columnar source, where the dictionary-encoded strings are decoded.
+ */
+function getColumnValue(column: OptionSourceDataColumn, idx: number): OptionDataValue {
+    const val = column.values[idx];
+    const dictionary = column.dictionary;
+    if (dictionary) {
+        return val == null || val < 0 ? null : dictionary[val as number];
+    }
+    return val;
+}
+
 export function getRawSourceItemGetter(
     sourceFormat: SourceFormat, seriesLayoutBy: SeriesLayoutBy
 ): RawSourceItemGetter {
@@ -391,6 +709,13 @@ const rawSourceDataCounterMap: Dictionary<RawSourceDataCounter> = {
         const col = (rawData as Dictionary<OptionDataValue[]>)[dimName];
         return col ? col.length : 0;
     },
+    [SOURCE_FORMAT_COLUMNAR]: function (
+        rawData, startIndex, dimsDef
+    ) {
+        const data = rawData as OptionSourceDataColumnar;
+        const column0 = data.columns[0];
+        return data.numRows != null ? data.numRows : column0 ? column0.values.length : 0;
+    },
     [SOURCE_FORMAT_ORIGINAL]: countSimply
 };
 
@@ -440,7 +765,9 @@ const rawSourceValueGetterMap: Partial<Record<SourceFormat, RawSourceValueGetter
             : value[dimIndex];
     },
 
-    [SOURCE_FORMAT_TYPED_ARRAY]: getRawValueSimply
+    [SOURCE_FORMAT_TYPED_ARRAY]: getRawValueSimply,
+
+    [SOURCE_FORMAT_COLUMNAR]: getRawValueSimply
 };
 
 export function getRawSourceValueGetter(sourceFormat: SourceFormat): RawSourceValueGetter {
@@ -36,12 +36,14 @@ import {
     SOURCE_FORMAT_OBJECT_ROWS,
     SERIES_LAYOUT_BY_ROW,
     SOURCE_FORMAT_KEYED_COLUMNS,
+    SOURCE_FORMAT_COLUMNAR,
     DimensionName,
     OptionSourceDataArrayRows,
     OptionDataValue,
     OptionSourceDataKeyedColumns,
     OptionSourceDataOriginal,
     OptionSourceDataObjectRows,
+    OptionSourceDataColumnar,
     OptionEncode,
     DimensionIndex,
     SeriesEncodableModel
@@ -206,7 +208,10 @@ export function makeSeriesEncodeForNameBased(
     const dimensionsDefine = source.dimensionsDefine;
 
     let potentialNameDimIndex;
-    if (sourceFormat === SOURCE_FORMAT_OBJECT_ROWS || sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS) {
+    if (sourceFormat === SOURCE_FORMAT_OBJECT_ROWS
+        || sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS
+        || sourceFormat === SOURCE_FORMAT_COLUMNAR
+    ) {
         each(dimensionsDefine, function (dim, idx) {
             if ((isObject(dim) ? dim.name : dim) === 'name') {
                 potentialNameDimIndex = idx;
@@ -432,6 +437,19 @@ function doGuessOrdinal(
             }
         }
     }
+    else if (sourceFormat === SOURCE_FORMAT_COLUMNAR) {
+        // Dictionary-encoded and typed array columns have been given `type` in `dimensionsDefine`.
+        const column = (data as OptionSourceDataColumnar).columns[dimIndex];
+        const sample = column && column.values;
+        if (!sample || isTypedArray(sample)) {
+            return BE_ORDINAL.Not;
+        }
+        for (let i = 0; i < sample.length && i < maxLoop; i++) {
+            if ((result = detectValue(sample[i])) != null) {
+                return result;
+            }
+        }
+    }
     else if (sourceFormat === SOURCE_FORMAT_ORIGINAL) {
         const dataOriginal = data as OptionSourceDataOriginal;
         for (let i = 0; i < dataOriginal.length && i < maxLoop; i++) {
@@ -287,7 +287,7 @@ function cloneRawData(upstream: Source): Source['data'] {
 
     if (sourceFormat === SOURCE_FORMAT_ARRAY_ROWS) {
         const result = [];
-        for (let i = 0, len = data.length; i < len; i++) {
+        for (let i = 0, len = (data as OptionSourceDataArrayRows).length; i < len; i++) {
             // Not strictly clone for performance
             result.push((data as OptionSourceDataArrayRows)[i].slice());
         }
@@ -295,7 +295,7 @@ function cloneRawData(upstream: Source): Source['data'] {
     }
     else if (sourceFormat === SOURCE_FORMAT_OBJECT_ROWS) {
         const result = [];
-        for (let i = 0, len = data.length; i < len; i++) {
+        for (let i = 0, len = (data as OptionSourceDataObjectRows).length; i < len; i++) {
             // Not strictly clone for performance
             result.push(extend({}, (data as OptionSourceDataObjectRows)[i]));
         }
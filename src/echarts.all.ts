@@ -55,6 +55,15 @@ import {
     PictorialBarChart,
     ThemeRiverChart,
     SunburstChart,
+    ChordChart,
+    ViolinChart,
+    WaterfallChart,
+    GanttChart,
+    ContourChart,
+    HexbinChart,
+    CirclePackingChart,
+    IcicleChart,
+    VennChart,
     CustomChart
 } from './export/charts';
 
@@ -139,6 +148,15 @@ use([
     PictorialBarChart,
     ThemeRiverChart,
     SunburstChart,
+    ChordChart,
+    ViolinChart,
+    WaterfallChart,
+    GanttChart,
+    ContourChart,
+    HexbinChart,
+    CirclePackingChart,
+    IcicleChart,
+    VennChart,
     CustomChart
 ]);
 
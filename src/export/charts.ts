@@ -46,6 +46,15 @@ export {install as HeatmapChart} from '../chart/heatmap/install';
 export {install as PictorialBarChart} from '../chart/bar/installPictorialBar';
 export {install as ThemeRiverChart} from '../chart/themeRiver/install';
 export {install as SunburstChart} from '../chart/sunburst/install';
+export {install as ChordChart} from '../chart/chord/install';
+export {install as ViolinChart} from '../chart/violin/install';
+export {install as WaterfallChart} from '../chart/waterfall/install';
+export {install as GanttChart} from '../chart/gantt/install';
+export {install as ContourChart} from '../chart/contour/install';
+export {install as HexbinChart} from '../chart/hexbin/install';
+export {install as CirclePackingChart} from '../chart/circlePacking/install';
+export {install as IcicleChart} from '../chart/icicle/install';
+export {install as VennChart} from '../chart/venn/install';
 export {install as CustomChart} from '../chart/custom/install';
 
 
@@ -95,5 +104,14 @@ export {
     PictorialBarSeriesOption,
     ThemeRiverSeriesOption,
     SunburstSeriesOption,
+    ChordSeriesOption,
+    ViolinSeriesOption,
+    WaterfallSeriesOption,
+    GanttSeriesOption,
+    ContourSeriesOption,
+    HexbinSeriesOption,
+    CirclePackingSeriesOption,
+    IcicleSeriesOption,
+    VennSeriesOption,
     CustomSeriesOption
 } from './option';
\ No newline at end of file
@@ -86,6 +86,17 @@ import type {HeatmapSeriesOption as HeatmapSeriesOptionInner} from '../chart/hea
 import type {PictorialBarSeriesOption as PictorialBarSeriesOptionInner} from '../chart/bar/PictorialBarSeries';
 import type {ThemeRiverSeriesOption as ThemeRiverSeriesOptionInner} from '../chart/themeRiver/ThemeRiverSeries';
 import type {SunburstSeriesOption as SunburstSeriesOptionInner} from '../chart/sunburst/SunburstSeries';
+import type {ChordSeriesOption as ChordSeriesOptionInner} from '../chart/chord/ChordSeries';
+import type {ViolinSeriesOption as ViolinSeriesOptionInner} from '../chart/violin/ViolinSeries';
+import type {WaterfallSeriesOption as WaterfallSeriesOptionInner} from '../chart/waterfall/WaterfallSeries';
+import type {GanttSeriesOption as GanttSeriesOptionInner} from '../chart/gantt/GanttSeries';
+import type {ContourSeriesOption as ContourSeriesOptionInner} from '../chart/contour/ContourSeries';
+import type {HexbinSeriesOption as HexbinSeriesOptionInner} from '../chart/hexbin/HexbinSeries';
+import type {
+    CirclePackingSeriesOption as CirclePackingSeriesOptionInner
+} from '../chart/circlePacking/CirclePackingSeries';
+import type {IcicleSeriesOption as IcicleSeriesOptionInner} from '../chart/icicle/IcicleSeries';
+import type {VennSeriesOption as VennSeriesOptionInner} from '../chart/venn/VennSeries';
 import type {
     CustomSeriesOption as CustomSeriesOptionInner,
     CustomSeriesRenderItemAPI,
@@ -199,6 +210,15 @@ export type HeatmapSeriesOption = HeatmapSeriesOptionInner & SeriesInjectedOptio
 export type PictorialBarSeriesOption = PictorialBarSeriesOptionInner & SeriesInjectedOption;
 export type ThemeRiverSeriesOption = ThemeRiverSeriesOptionInner & SeriesInjectedOption;
 export type SunburstSeriesOption = SunburstSeriesOptionInner & SeriesInjectedOption;
+export type ChordSeriesOption = ChordSeriesOptionInner & SeriesInjectedOption;
+export type ViolinSeriesOption = ViolinSeriesOptionInner & SeriesInjectedOption;
+export type WaterfallSeriesOption = WaterfallSeriesOptionInner & SeriesInjectedOption;
+export type GanttSeriesOption = GanttSeriesOptionInner & SeriesInjectedOption;
+export type ContourSeriesOption = ContourSeriesOptionInner & SeriesInjectedOption;
+export type HexbinSeriesOption = HexbinSeriesOptionInner & SeriesInjectedOption;
+export type CirclePackingSeriesOption = CirclePackingSeriesOptionInner & SeriesInjectedOption;
+export type IcicleSeriesOption = IcicleSeriesOptionInner & SeriesInjectedOption;
+export type VennSeriesOption = VennSeriesOptionInner & SeriesInjectedOption;
 export type CustomSeriesOption = CustomSeriesOptionInner & SeriesInjectedOption;
 
 
@@ -237,6 +257,15 @@ export interface RegisteredSeriesOption {
     pictorialBar: PictorialBarSeriesOption
     themeRiver: ThemeRiverSeriesOption
     sunburst: SunburstSeriesOption
+    chord: ChordSeriesOption
+    violin: ViolinSeriesOption
+    waterfall: WaterfallSeriesOption
+    gantt: GanttSeriesOption
+    contour: ContourSeriesOption
+    hexbin: HexbinSeriesOption
+    circlePacking: CirclePackingSeriesOption
+    icicle: IcicleSeriesOption
+    venn: VennSeriesOption
     custom: CustomSeriesOption
 }
 type Values<T> = T[keyof T];
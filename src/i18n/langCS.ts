@@ -104,7 +104,24 @@
             gauge: 'Indikátor',
             pictorialBar: 'Obrázkový sloupcový graf',
             themeRiver: 'Theme River Map',
-            sunburst: 'Vícevrstvý prstencový graf'
+            sunburst: 'Vícevrstvý prstencový graf',
+            chord: 'Chordový diagram',
+            violin: 'Houslový graf',
+            waterfall: 'Vodopádový graf',
+            gantt: 'Ganttův diagram',
+            contour: 'Vrstevnicový graf',
+            hexbin: 'Šestiúhelníkový histogram',
+            circlePacking: 'Graf vnořených kruhů',
+            icicle: 'Rampouchový graf',
+            venn: 'Vennův diagram'
+        },
+        waterfall: {
+            runningTotal: 'Průběžný součet'
+        },
+        hexbin: {
+            count: 'Počet',
+            sum: 'Součet',
+            mean: 'Průměr'
         }
     },
     aria: {
@@ -104,7 +104,24 @@ export default {
             gauge: 'Meßanzeige',
             pictorialBar: 'Bildlicher Balken',
             themeRiver: 'Thematische Flusskarte',
-            sunburst: 'Sonnenausbruch'
+            sunburst: 'Sonnenausbruch',
+            chord: 'Sehnendiagramm',
+            violin: 'Violinplot',
+            waterfall: 'Wasserfalldiagramm',
+            gantt: 'Gantt-Diagramm',
+            contour: 'Konturdiagramm',
+            hexbin: 'Hexbin-Diagramm',
+            circlePacking: 'Kreispackungsdiagramm',
+            icicle: 'Eiszapfendiagramm',
+            venn: 'Venn-Diagramm'
+        },
+        waterfall: {
+            runningTotal: 'Laufende Summe'
+        },
+        hexbin: {
+            count: 'Anzahl',
+            sum: 'Summe',
+            mean: 'Mittelwert'
         }
     },
     aria: {
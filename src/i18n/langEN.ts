@@ -104,7 +104,24 @@ export default {
             gauge: 'Gauge',
             pictorialBar: 'Pictorial bar',
             themeRiver: 'Theme River Map',
-            sunburst: 'Sunburst'
+            sunburst: 'Sunburst',
+            chord: 'Chord diagram',
+            violin: 'Violin plot',
+            waterfall: 'Waterfall chart',
+            gantt: 'Gantt chart',
+            contour: 'Contour chart',
+            hexbin: 'Hexbin chart',
+            circlePacking: 'Circle packing chart',
+            icicle: 'Icicle chart',
+            venn: 'Venn diagram'
+        },
+        waterfall: {
+            runningTotal: 'Running total'
+        },
+        hexbin: {
+            count: 'Count',
+            sum: 'Sum',
+            mean: 'Mean'
         }
     },
     aria: {
@@ -104,7 +104,24 @@ export default {
             gauge: 'Jauge',
             pictorialBar: 'Barres à images',
             themeRiver: 'Stream Graph',
-            sunburst: 'Sunburst'
+            sunburst: 'Sunburst',
+            chord: 'Diagramme en cordes',
+            violin: 'Diagramme en violon',
+            waterfall: 'Graphique en cascade',
+            gantt: 'Diagramme de Gantt',
+            contour: 'Graphique de contours',
+            hexbin: 'Graphique hexbin',
+            circlePacking: 'Graphique de cercles imbriqués',
+            icicle: 'Graphique en stalactites',
+            venn: 'Diagramme de Venn'
+        },
+        waterfall: {
+            runningTotal: 'Cumul'
+        },
+        hexbin: {
+            count: 'Nombre',
+            sum: 'Somme',
+            mean: 'Moyenne'
         }
     },
     aria: {
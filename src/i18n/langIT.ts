@@ -104,7 +104,24 @@ export default {
             gauge: 'Gauge',
             pictorialBar: 'Pictorial bar',
             themeRiver: 'Theme River Map',
-            sunburst: 'Radiale'
+            sunburst: 'Radiale',
+            chord: 'Diagramma a corde',
+            violin: 'Grafico a violino',
+            waterfall: 'Grafico a cascata',
+            gantt: 'Diagramma di Gantt',
+            contour: 'Grafico a curve di livello',
+            hexbin: 'Grafico hexbin',
+            circlePacking: 'Grafico a cerchi annidati',
+            icicle: 'Grafico a ghiacciolo',
+            venn: 'Diagramma di Venn'
+        },
+        waterfall: {
+            runningTotal: 'Totale progressivo'
+        },
+        hexbin: {
+            count: 'Conteggio',
+            sum: 'Somma',
+            mean: 'Media'
         }
     },
     aria: {
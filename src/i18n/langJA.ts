@@ -104,7 +104,24 @@ export default {
             gauge: 'ゲージ',
             pictorialBar: '絵入り棒グラフ',
             themeRiver: 'テーマリバー',
-            sunburst: 'サンバースト'
+            sunburst: 'サンバースト',
+            chord: 'コードダイアグラム',
+            violin: 'バイオリン図',
+            waterfall: 'ウォーターフォールチャート',
+            gantt: 'ガントチャート',
+            contour: '等高線図',
+            hexbin: '六角形ビン図',
+            circlePacking: 'サークルパッキング',
+            icicle: 'アイシクルチャート',
+            venn: 'ベン図'
+        },
+        waterfall: {
+            runningTotal: '累計'
+        },
+        hexbin: {
+            count: '件数',
+            sum: '合計',
+            mean: '平均'
         }
     },
     aria: {
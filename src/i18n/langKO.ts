@@ -104,7 +104,24 @@ export default {
             gauge: '계기',
             pictorialBar: '픽토그램 차트',
             themeRiver: '스트림 그래프',
-            sunburst: '선버스트 차트'
+            sunburst: '선버스트 차트',
+            chord: '코드 다이어그램',
+            violin: '바이올린 플롯',
+            waterfall: '폭포 차트',
+            gantt: '간트 차트',
+            contour: '등고선 차트',
+            hexbin: '육각형 빈 차트',
+            circlePacking: '원 패킹 차트',
+            icicle: '고드름 차트',
+            venn: '벤 다이어그램'
+        },
+        waterfall: {
+            runningTotal: '누계'
+        },
+        hexbin: {
+            count: '개수',
+            sum: '합계',
+            mean: '평균'
         }
     },
     aria: {
@@ -104,7 +104,24 @@
             gauge: 'Wykres zegarowy',
             pictorialBar: 'Wykres słupkowy obrazkowy',
             themeRiver: 'Wykres rzeki tematycznej',
-            sunburst: 'Wykres hierarchiczny słonecznikowy'
+            sunburst: 'Wykres hierarchiczny słonecznikowy',
+            chord: 'Diagram cięciw',
+            violin: 'Wykres skrzypcowy',
+            waterfall: 'Wykres kaskadowy',
+            gantt: 'Wykres Gantta',
+            contour: 'Wykres konturowy',
+            hexbin: 'Wykres heksagonalny',
+            circlePacking: 'Wykres upakowanych okręgów',
+            icicle: 'Wykres soplowy',
+            venn: 'Diagram Venna'
+        },
+        waterfall: {
+            runningTotal: 'Suma narastająca'
+        },
+        hexbin: {
+            count: 'Liczba',
+            sum: 'Suma',
+            mean: 'Średnia'
         }
     },
     aria: {
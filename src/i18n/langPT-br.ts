@@ -105,7 +105,24 @@ export default {
             gauge: 'Gauge',
             pictorialBar: 'Pictorial bar',
             themeRiver: 'Theme River Map',
-            sunburst: 'Sunburst'
+            sunburst: 'Sunburst',
+            chord: 'Diagrama de cordas',
+            violin: 'Gráfico de violino',
+            waterfall: 'Gráfico de cascata',
+            gantt: 'Gráfico de Gantt',
+            contour: 'Gráfico de contorno',
+            hexbin: 'Gráfico hexbin',
+            circlePacking: 'Gráfico de círculos agrupados',
+            icicle: 'Gráfico icicle',
+            venn: 'Diagrama de Venn'
+        },
+        waterfall: {
+            runningTotal: 'Total acumulado'
+        },
+        hexbin: {
+            count: 'Contagem',
+            sum: 'Soma',
+            mean: 'Média'
         }
     },
     aria: {
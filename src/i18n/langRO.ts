@@ -104,7 +104,24 @@
             gauge: 'Calibru',
             pictorialBar: 'Diagramă cu bare picturale',
             themeRiver: 'Streamgraph',
-            sunburst: 'Diagramă rază de soare'
+            sunburst: 'Diagramă rază de soare',
+            chord: 'Diagramă cu coarde',
+            violin: 'Diagramă vioară',
+            waterfall: 'Diagramă cascadă',
+            gantt: 'Diagramă Gantt',
+            contour: 'Diagramă de contur',
+            hexbin: 'Diagramă hexbin',
+            circlePacking: 'Diagramă cu cercuri împachetate',
+            icicle: 'Diagramă țurțure',
+            venn: 'Diagramă Venn'
+        },
+        waterfall: {
+            runningTotal: 'Total cumulat'
+        },
+        hexbin: {
+            count: 'Număr',
+            sum: 'Sumă',
+            mean: 'Medie'
         }
     },
     aria: {
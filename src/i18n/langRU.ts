@@ -104,7 +104,24 @@ export default {
             gauge: 'Шкала',
             pictorialBar: 'Столбец-картинка',
             themeRiver: 'Тематическая река',
-            sunburst: 'Солнечные лучи'
+            sunburst: 'Солнечные лучи',
+            chord: 'Хордовая диаграмма',
+            violin: 'Скрипичная диаграмма',
+            waterfall: 'Каскадная диаграмма',
+            gantt: 'Диаграмма Ганта',
+            contour: 'Контурная диаграмма',
+            hexbin: 'Гексагональная диаграмма',
+            circlePacking: 'Диаграмма упаковки кругов',
+            icicle: 'Диаграмма «сосулька»',
+            venn: 'Диаграмма Венна'
+        },
+        waterfall: {
+            runningTotal: 'Нарастающий итог'
+        },
+        hexbin: {
+            count: 'Количество',
+            sum: 'Сумма',
+            mean: 'Среднее'
         }
     },
     aria: {
@@ -104,7 +104,24 @@ export default {
             gauge: 'Števec',
             pictorialBar: 'Stolpčni grafikon s podobo',
             themeRiver: 'Tematski rečni grafikon',
-            sunburst: 'Večnivojski tortni grafikon'
+            sunburst: 'Večnivojski tortni grafikon',
+            chord: 'Tetivni diagram',
+            violin: 'Violinski grafikon',
+            waterfall: 'Slapovni grafikon',
+            gantt: 'Ganttov diagram',
+            contour: 'Konturni grafikon',
+            hexbin: 'Heksagonalni grafikon',
+            circlePacking: 'Grafikon gnezdenih krogov',
+            icicle: 'Grafikon ledenih sveč',
+            venn: 'Vennov diagram'
+        },
+        waterfall: {
+            runningTotal: 'Tekoča vsota'
+        },
+        hexbin: {
+            count: 'Število',
+            sum: 'Vsota',
+            mean: 'Povprečje'
         }
     },
     aria: {
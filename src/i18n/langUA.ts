@@ -104,7 +104,24 @@ export default {
             gauge: 'Шкала',
             pictorialBar: 'Стовпчик-картинка',
             themeRiver: 'Тематична ріка',
-            sunburst: 'Сонячне проміння'
+            sunburst: 'Сонячне проміння',
+            chord: 'Хордова діаграма',
+            violin: 'Скрипкова діаграма',
+            waterfall: 'Каскадна діаграма',
+            gantt: 'Діаграма Ганта',
+            contour: 'Контурна діаграма',
+            hexbin: 'Гексагональна діаграма',
+            circlePacking: 'Діаграма пакування кіл',
+            icicle: 'Діаграма «бурулька»',
+            venn: 'Діаграма Венна'
+        },
+        waterfall: {
+            runningTotal: 'Наростаючий підсумок'
+        },
+        hexbin: {
+            count: 'Кількість',
+            sum: 'Сума',
+            mean: 'Середнє'
         }
     },
     aria: {
@@ -100,7 +100,24 @@ export default {
             gauge: '仪表盘图',
             pictorialBar: '象形柱图',
             themeRiver: '主题河流图',
-            sunburst: '旭日图'
+            sunburst: '旭日图',
+            chord: '和弦图',
+            violin: '小提琴图',
+            waterfall: '瀑布图',
+            gantt: '甘特图',
+            contour: '等值线图',
+            hexbin: '六边形分箱图',
+            circlePacking: '圆堆积图',
+            icicle: '冰柱图',
+            venn: '韦恩图'
+        },
+        waterfall: {
+            runningTotal: '累计'
+        },
+        hexbin: {
+            count: '数量',
+            sum: '总和',
+            mean: '平均值'
         }
     },
     aria: {
@@ -132,6 +132,15 @@ const BUILTIN_CHARTS_MAP = {
     pictorialBar: 'PictorialBarChart',
     themeRiver: 'ThemeRiverChart',
     sunburst: 'SunburstChart',
+    chord: 'ChordChart',
+    violin: 'ViolinChart',
+    waterfall: 'WaterfallChart',
+    gantt: 'GanttChart',
+    contour: 'ContourChart',
+    hexbin: 'HexbinChart',
+    circlePacking: 'CirclePackingChart',
+    icicle: 'IcicleChart',
+    venn: 'VennChart',
     custom: 'CustomChart'
 } as const;
 
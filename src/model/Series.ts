@@ -30,7 +30,9 @@ import {
     SeriesEncodeOptionMixin,
     OptionEncodeValue,
     ColorBy,
-    StatesOptionMixin
+    StatesOptionMixin,
+    OptionDataItem,
+    OptionSourceDataColumnar
 } from '../util/types';
 import ComponentModel, { ComponentModelConstructor } from './Component';
 import {PaletteMixin} from './mixin/palette';
@@ -332,6 +334,19 @@ class SeriesModel<Opt extends SeriesOption = SeriesOption> extends ComponentMode
         data.appendData(params.data);
     }
 
+    /**
+     * Append data to list, and evict the oldest data to keep at most `capacity` data.
+     */
+    streamData(params: {data: ArrayLike<OptionDataItem> | OptionSourceDataColumnar, capacity?: number}): void {
+        const data = this.getRawData();
+        data.appendData(params.data);
+
+        const capacity = params.capacity;
+        if (capacity != null && data.count() > capacity) {
+            data.evictData(data.count() - capacity);
+        }
+    }
+
     /**
      * Consider some method like `filter`, `map` need make new data,
      * We should make sure that `seriesModel.getData()` get correct
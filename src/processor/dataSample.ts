@@ -17,10 +17,13 @@
 * under the License.
 */
 
-import { StageHandler, SeriesOption, SeriesSamplingOptionMixin } from '../util/types';
+import { StageHandler, SeriesOption, SeriesSamplingOptionMixin, DimensionName } from '../util/types';
 import { Dictionary } from 'zrender/src/core/types';
 import SeriesModel from '../model/Series';
-import { isFunction, isString } from 'zrender/src/core/util';
+import SeriesData from '../data/SeriesData';
+import type Axis from '../coord/Axis';
+import { createHashMap, isFunction, isString } from 'zrender/src/core/util';
+import { asc, quantile } from '../util/number';
 
 
 type Sampler = (frame: ArrayLike<number>) => number;
@@ -61,17 +64,63 @@ const samplers: Dictionary<Sampler> = {
         // NaN will cause illegal axis extent.
         return isFinite(min) ? min : NaN;
     },
-    // TODO
-    // Median
+    median: createPercentileSampler(50),
+    // The most frequent value. If there are ties, the one appears first in the frame.
+    mode: function (frame) {
+        const countMap = createHashMap<number, number>();
+        let maxCount = 0;
+        for (let i = 0; i < frame.length; i++) {
+            if (!isNaN(frame[i])) {
+                const count = (countMap.get(frame[i]) || 0) + 1;
+                countMap.set(frame[i], count);
+                count > maxCount && (maxCount = count);
+            }
+        }
+        for (let i = 0; i < frame.length; i++) {
+            if (!isNaN(frame[i]) && countMap.get(frame[i]) === maxCount) {
+                return frame[i];
+            }
+        }
+        // NaN will cause illegal axis extent.
+        return NaN;
+    },
     nearest: function (frame) {
         return frame[0];
     }
 };
 
+function createPercentileSampler(percent: number): Sampler {
+    return function (frame) {
+        const values = [];
+        for (let i = 0; i < frame.length; i++) {
+            !isNaN(frame[i]) && values.push(frame[i]);
+        }
+        // NaN will cause illegal axis extent.
+        return values.length ? quantile(asc(values), percent / 100) : NaN;
+    };
+}
+
 const indexSampler = function (frame: ArrayLike<number>) {
     return Math.round(frame.length / 2);
 };
 
+/**
+ * The extent of the axis scale is not calculated yet in the data processing stage.
+ * So the buckets of M4 are made on the value window of dataZoom if any (which has been
+ * determined in the raw extent info of the scale), so that each bucket is a pixel column
+ * and zooming in reveals the detail. Otherwise they are made on the data extent.
+ */
+function getM4BaseExtent(baseAxis: Axis, data: SeriesData, baseDim: DimensionName): number[] {
+    const rawExtentInfo = baseAxis.scale.rawExtentInfo;
+    if (rawExtentInfo) {
+        const result = rawExtentInfo.calculate();
+        if (isFinite(result.min) && isFinite(result.max)) {
+            return [result.min, result.max];
+        }
+    }
+    return data.getDataExtent(baseDim);
+}
+
 export default function dataSample(seriesType: string): StageHandler {
     return {
 
@@ -99,8 +148,24 @@ export default function dataSample(seriesType: string): StageHandler {
                     if (sampling === 'lttb') {
                         seriesModel.setData(data.lttbDownSample(data.mapDimension(valueAxis.dim), 1 / rate));
                     }
+                    else if (sampling === 'minmax') {
+                        seriesModel.setData(data.minmaxDownSample(data.mapDimension(valueAxis.dim), 1 / rate));
+                    }
+                    else if (sampling === 'm4') {
+                        const baseDim = data.mapDimension(baseAxis.dim);
+                        seriesModel.setData(data.m4DownSample(
+                            baseDim, data.mapDimension(valueAxis.dim), size,
+                            getM4BaseExtent(baseAxis, data, baseDim)
+                        ));
+                    }
                     let sampler;
-                    if (isString(sampling)) {
+                    if (sampling === 'percentile') {
+                        const percent = seriesModel.get('samplingPercentile');
+                        sampler = createPercentileSampler(
+                            percent != null ? Math.min(Math.max(percent, 0), 100) : 50
+                        );
+                    }
+                    else if (isString(sampling)) {
                         sampler = samplers[sampling];
                     }
                     else if (isFunction(sampling)) {
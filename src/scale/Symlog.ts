@@ -0,0 +1,406 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import Scale from './Scale';
+import * as numberUtil from '../util/number';
+import * as formatUtil from '../util/format';
+import * as scaleHelper from './helper';
+import IntervalScale from './Interval';
+import { ScaleTick } from '../util/types';
+
+const scaleProto = Scale.prototype;
+
+const roundingErrorFix = numberUtil.round;
+
+const mathFloor = Math.floor;
+const mathCeil = Math.ceil;
+const mathPow = Math.pow;
+const mathAbs = Math.abs;
+const mathMax = Math.max;
+const mathMin = Math.min;
+
+const mathLog = Math.log;
+
+/**
+ * Symmetric log transform: `sign(x) * log_base(1 + |x| / linthresh)`.
+ * It is approximately linear in `[-linthresh, linthresh]` and logarithmic
+ * outside, so that values crossing zero can be displayed.
+ */
+export function symlogTransform(val: number, linthresh: number, base: number): number {
+    return (val < 0 ? -1 : 1) * mathLog(1 + mathAbs(val) / linthresh) / mathLog(base);
+}
+
+/**
+ * Inverse of `symlogTransform`.
+ */
+export function symlogInverse(val: number, linthresh: number, base: number): number {
+    return (val < 0 ? -1 : 1) * linthresh * (mathPow(base, mathAbs(val)) - 1);
+}
+
+/**
+ * `linthresh` must be a positive finite number, otherwise the transform
+ * divides by zero. Use the default `1` for invalid input.
+ */
+export function getValidLinthresh(linthresh: number): number {
+    linthresh = +linthresh;
+    return linthresh > 0 && isFinite(linthresh) ? linthresh : 1;
+}
+
+class SymlogScale extends Scale {
+    static type = 'symlog';
+    readonly type = 'symlog';
+
+    base = 10;
+
+    /**
+     * Values in `[-linthresh, linthresh]` are mapped (approximately) linearly.
+     */
+    linthresh = 1;
+
+    private _originalScale: IntervalScale = new IntervalScale();
+
+    private _fixMin: boolean;
+    private _fixMax: boolean;
+
+    // Ticks in data space, calculated in `calcNiceTicks`.
+    private _niceTicks: number[] = [];
+
+
+    /**
+     * @param Whether expand the ticks to niced extent.
+     */
+    getTicks(expandToNicedExtent?: boolean): ScaleTick[] {
+        const niceTicks = this._niceTicks;
+        const extent = this.getExtent();
+        const ticks = [] as ScaleTick[];
+
+        if (!niceTicks.length) {
+            return ticks;
+        }
+
+        if (!this._isNear(extent[0], niceTicks[0]) && extent[0] < niceTicks[0]) {
+            ticks.push({
+                value: expandToNicedExtent ? this._niceFloor(extent[0]) : extent[0]
+            });
+        }
+        for (let i = 0; i < niceTicks.length; i++) {
+            ticks.push({
+                value: niceTicks[i]
+            });
+        }
+        const lastNiceTick = niceTicks[niceTicks.length - 1];
+        if (!this._isNear(extent[1], lastNiceTick) && extent[1] > lastNiceTick) {
+            ticks.push({
+                value: expandToNicedExtent ? -this._niceFloor(-extent[1]) : extent[1]
+            });
+        }
+
+        return ticks;
+    }
+
+    setExtent(start: number, end: number): void {
+        scaleProto.setExtent.call(this, this._transform(+start), this._transform(+end));
+    }
+
+    getExtent() {
+        const extent = scaleProto.getExtent.call(this);
+        extent[0] = fixTransformError(this._inverse(extent[0]));
+        extent[1] = fixTransformError(this._inverse(extent[1]));
+
+        // Fix #4158
+        const originalExtent = this._originalScale.getExtent();
+        this._fixMin && (extent[0] = fixRoundingError(extent[0], originalExtent[0]));
+        this._fixMax && (extent[1] = fixRoundingError(extent[1], originalExtent[1]));
+
+        return extent;
+    }
+
+    unionExtent(extent: [number, number]): void {
+        this._originalScale.unionExtent(extent);
+
+        scaleProto.unionExtent.call(this, [
+            this._transform(extent[0]),
+            this._transform(extent[1])
+        ]);
+    }
+
+    /**
+     * Ticks are composed of nice linear ticks inside `[-linthresh, linthresh]`
+     * and powers of `base` (with both signs) outside it.
+     * @param splitNumber default 5 Given approx tick number
+     */
+    calcNiceTicks(splitNumber?: number): void {
+        splitNumber = splitNumber || 5;
+        const transformedExtent = this._extent;
+        const span = transformedExtent[1] - transformedExtent[0];
+        const ticks: number[] = [];
+
+        this._niceTicks = ticks;
+
+        if (!isFinite(span) || span <= 0) {
+            return;
+        }
+
+        const extent = this.getExtent();
+        const linthresh = this.linthresh;
+        const base = this.base;
+
+        // Linear region.
+        const linearExtent = [
+            mathMax(extent[0], -linthresh),
+            mathMin(extent[1], linthresh)
+        ] as [number, number];
+        let linearTickCount = 0;
+        if (linearExtent[0] < linearExtent[1]) {
+            const linearSpanRatio = (
+                this._transform(linearExtent[1]) - this._transform(linearExtent[0])
+            ) / span;
+            linearTickCount = Math.round(linearSpanRatio * splitNumber);
+
+            if (linearTickCount >= 1) {
+                const result = scaleHelper.intervalScaleNiceTicks(linearExtent, linearTickCount);
+                const niceTickExtent = result.niceTickExtent;
+                for (
+                    let val = niceTickExtent[0];
+                    val <= niceTickExtent[1];
+                    val = roundingErrorFix(val + result.interval, result.intervalPrecision)
+                ) {
+                    ticks.push(val);
+                }
+            }
+            else if (linearExtent[0] <= 0 && linearExtent[1] >= 0) {
+                ticks.push(0);
+            }
+        }
+
+        // Logarithmic region, where exponents are collected on both sides.
+        const minExp = mathCeil(roundingErrorFix(mathLog(linthresh) / mathLog(base)));
+        const negativeExps = getExpRange(-extent[1], -extent[0], minExp, base);
+        const positiveExps = getExpRange(extent[0], extent[1], minExp, base);
+        const expCount = negativeExps[1] - negativeExps[0] + positiveExps[1] - positiveExps[0] + 2;
+        const expStep = mathMax(1, mathCeil(expCount / mathMax(1, splitNumber - linearTickCount)));
+
+        for (let exp = negativeExps[0]; exp <= negativeExps[1]; exp++) {
+            exp % expStep === 0 && ticks.push(-mathPow(base, exp));
+        }
+        for (let exp = positiveExps[0]; exp <= positiveExps[1]; exp++) {
+            exp % expStep === 0 && ticks.push(mathPow(base, exp));
+        }
+
+        ticks.sort(function (a, b) {
+            return a - b;
+        });
+
+        let len = 0;
+        for (let i = 0; i < ticks.length; i++) {
+            const val = ticks[i];
+            if (this.contain(val) && (!len || val !== ticks[len - 1])) {
+                ticks[len++] = val;
+            }
+        }
+        ticks.length = len;
+    }
+
+    calcNiceExtent(opt: {
+        splitNumber: number, // By default 5.
+        fixMin?: boolean,
+        fixMax?: boolean
+    }): void {
+        const extent = this.getExtent();
+        // If extent start and end are same, expand them
+        if (extent[0] === extent[1]) {
+            if (extent[0] !== 0) {
+                const expandSize = mathAbs(extent[0]);
+                if (!opt.fixMax) {
+                    extent[1] += expandSize / 2;
+                    extent[0] -= expandSize / 2;
+                }
+                else {
+                    extent[0] -= expandSize / 2;
+                }
+            }
+            else {
+                extent[1] = this.linthresh;
+            }
+        }
+        // If there are no data and extent are [Infinity, -Infinity]
+        if (!isFinite(extent[1] - extent[0])) {
+            extent[0] = 0;
+            extent[1] = this.linthresh;
+        }
+
+        if (!opt.fixMin) {
+            extent[0] = this._niceFloor(extent[0]);
+        }
+        if (!opt.fixMax) {
+            extent[1] = -this._niceFloor(-extent[1]);
+        }
+        this.setExtent(extent[0], extent[1]);
+
+        this._fixMin = opt.fixMin;
+        this._fixMax = opt.fixMax;
+
+        this.calcNiceTicks(opt.splitNumber);
+    }
+
+    parse(val: any): number {
+        return val;
+    }
+
+    contain(val: number): boolean {
+        const extent = this._extent;
+        // Tolerate the rounding error introduced by the transform.
+        const epsilon = (extent[1] - extent[0]) * 1e-10;
+        return scaleHelper.contain(this._transform(val), [extent[0] - epsilon, extent[1] + epsilon]);
+    }
+
+    normalize(val: number): number {
+        return scaleHelper.normalize(this._transform(val), this._extent);
+    }
+
+    scale(val: number): number {
+        return this._inverse(scaleHelper.scale(val, this._extent));
+    }
+
+    /**
+     * @param opt.precision If 'auto', use about three significant digits.
+     * @param opt.pad returns 1.50 but not 1.5 if precision is 2.
+     */
+    getLabel(
+        data: ScaleTick,
+        opt?: {
+            precision?: 'auto' | number,
+            pad?: boolean
+        }
+    ): string {
+        if (data == null) {
+            return '';
+        }
+
+        let precision = opt && opt.precision;
+        const value = data.value;
+
+        if (precision == null) {
+            precision = numberUtil.getPrecision(value) || 0;
+        }
+        else if (precision === 'auto') {
+            precision = value
+                ? mathMax(0, 2 - numberUtil.quantityExponent(mathAbs(value)))
+                : 0;
+        }
+
+        // Use roundNumber (toFixed) to avoid scientific notation like '3.5e-7'.
+        return formatUtil.addCommas(roundingErrorFix(value, precision as number, true));
+    }
+
+    /**
+     * Minor ticks split each interval of ticks evenly in the transformed space,
+     * the same as the major ticks are displayed.
+     * @param splitNumber Count of minor intervals between two ticks.
+     */
+    getMinorTicks(splitNumber: number): number[][] {
+        const ticks = this.getTicks(true);
+        const minorTicks = [];
+        const extent = this.getExtent();
+
+        for (let i = 1; i < ticks.length; i++) {
+            const prevTransformed = this._transform(ticks[i - 1].value);
+            const minorInterval = (this._transform(ticks[i].value) - prevTransformed) / splitNumber;
+            const minorTicksGroup = [];
+
+            for (let count = 1; count < splitNumber; count++) {
+                const minorTick = fixTransformError(this._inverse(prevTransformed + count * minorInterval));
+
+                // For the first and last interval. The count may be less than splitNumber.
+                if (minorTick > extent[0] && minorTick < extent[1]) {
+                    minorTicksGroup.push(minorTick);
+                }
+            }
+            minorTicks.push(minorTicksGroup);
+        }
+
+        return minorTicks;
+    }
+
+    /**
+     * Get the nearest nice value that is not greater than `val`.
+     */
+    private _niceFloor(val: number): number {
+        const base = this.base;
+        if (mathAbs(val) <= this.linthresh) {
+            if (val >= 0) {
+                return 0;
+            }
+            return scaleHelper.isValueNice(val) ? val : -numberUtil.nice(-val, false);
+        }
+        const exp = roundingErrorFix(mathLog(mathAbs(val)) / mathLog(base));
+        return val > 0
+            ? mathPow(base, mathFloor(exp))
+            : -mathPow(base, mathCeil(exp));
+    }
+
+    private _isNear(val1: number, val2: number): boolean {
+        const extent = this._extent;
+        return mathAbs(this._transform(val1) - this._transform(val2)) <= (extent[1] - extent[0]) * 1e-10;
+    }
+
+    private _transform(val: number): number {
+        return symlogTransform(val, this.linthresh, this.base);
+    }
+
+    private _inverse(val: number): number {
+        return symlogInverse(val, this.linthresh, this.base);
+    }
+}
+
+/**
+ * Get the range of exponents `exp` that `base^exp` is in `[start, end]`
+ * and not less than `base^minExp`.
+ */
+function getExpRange(start: number, end: number, minExp: number, base: number): [number, number] {
+    if (end <= 0) {
+        return [0, -1];
+    }
+    const logBase = mathLog(base);
+    let startExp = start > 0 ? mathCeil(roundingErrorFix(mathLog(start) / logBase)) : -Infinity;
+    const endExp = mathFloor(roundingErrorFix(mathLog(end) / logBase));
+    startExp = mathMax(startExp, minExp);
+    return startExp <= endExp ? [startExp, endExp] : [0, -1];
+}
+
+/**
+ * Remove the error introduced by transform and inverse,
+ * keeping 12 significant digits.
+ */
+function fixTransformError(val: number): number {
+    if (!val || !isFinite(val)) {
+        return val;
+    }
+    const precision = 12 - numberUtil.quantityExponent(mathAbs(val));
+    return precision > 0 ? roundingErrorFix(val, mathMin(precision, 20)) : val;
+}
+
+function fixRoundingError(val: number, originalVal: number): number {
+    return roundingErrorFix(val, numberUtil.getPrecision(originalVal));
+}
+
+
+Scale.registerClass(SymlogScale);
+
+export default SymlogScale;
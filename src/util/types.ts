@@ -457,6 +457,7 @@ export const SOURCE_FORMAT_ARRAY_ROWS = 'arrayRows' as const;
 export const SOURCE_FORMAT_OBJECT_ROWS = 'objectRows' as const;
 export const SOURCE_FORMAT_KEYED_COLUMNS = 'keyedColumns' as const;
 export const SOURCE_FORMAT_TYPED_ARRAY = 'typedArray' as const;
+export const SOURCE_FORMAT_COLUMNAR = 'columnar' as const;
 export const SOURCE_FORMAT_UNKNOWN = 'unknown' as const;
 
 export type SourceFormat =
@@ -465,6 +466,7 @@ export type SourceFormat =
     | typeof SOURCE_FORMAT_OBJECT_ROWS
     | typeof SOURCE_FORMAT_KEYED_COLUMNS
     | typeof SOURCE_FORMAT_TYPED_ARRAY
+    | typeof SOURCE_FORMAT_COLUMNAR
     | typeof SOURCE_FORMAT_UNKNOWN;
 
 export const SERIES_LAYOUT_BY_COLUMN = 'column' as const;
@@ -588,7 +590,8 @@ export type OptionSourceData<
     | OptionSourceDataObjectRows<VAL>
     | OptionSourceDataArrayRows<VAL>
     | OptionSourceDataKeyedColumns<VAL>
-    | OptionSourceDataTypedArray;
+    | OptionSourceDataTypedArray
+    | OptionSourceDataColumnar<VAL>;
 export type OptionDataItemOriginal<
     VAL extends OptionDataValue = OptionDataValue
 > = VAL | VAL[] | OptionDataItemObject<VAL>;
@@ -603,6 +606,28 @@ export type OptionSourceDataArrayRows<VAL extends OptionDataValue = OptionDataVa
 export type OptionSourceDataKeyedColumns<VAL extends OptionDataValue = OptionDataValue> =
     Dictionary<ArrayLike<VAL>>;
 export type OptionSourceDataTypedArray = ArrayLike<number>;
+/**
+ * Arrow-style table: a batch of column vectors.
+ */
+export interface OptionSourceDataColumnar<VAL extends OptionDataValue = OptionDataValue> {
+    // By default the length of the first column.
+    numRows?: number;
+    columns: OptionSourceDataColumn<VAL>[];
+}
+export interface OptionSourceDataColumn<VAL extends OptionDataValue = OptionDataValue> {
+    name?: DimensionName;
+    // Typed array is used in store without copy only if the whole column is used and
+    // its constructor fits the type of the dimension, that is, Float64Array for 'float'
+    // and 'time', Int32Array for 'int'. Otherwise (like Float32Array) it is copied.
+    // If `dictionary` is specified, they are the indices of the dictionary,
+    // where negative index or null means empty value. The indices are used as the
+    // ordinals without copy if they are in a typed array, no index is empty, and the
+    // categories are not predefined (like `xAxis.data`) with a different order.
+    values: ArrayLike<VAL>;
+    // Dictionary for dictionary-encoded strings, which is collected as the categories
+    // in order (including the unused ones), rather than the decoded values.
+    dictionary?: ArrayLike<OrdinalRawValue>;
+}
 
 // See also `model.js#getDataItemValue`.
 export type OptionDataItem =
@@ -1667,7 +1692,12 @@ export interface SeriesStackOptionMixin {
 type SamplingFunc = (frame: ArrayLike<number>) => number;
 
 export interface SeriesSamplingOptionMixin {
-    sampling?: 'none' | 'average' | 'min' | 'max' | 'sum' | 'lttb' | SamplingFunc
+    sampling?: 'none' | 'average' | 'min' | 'max' | 'sum' | 'median' | 'percentile' | 'mode'
+        | 'minmax' | 'lttb' | 'm4' | SamplingFunc
+    /**
+     * Percentile in [0, 100] used when `sampling` is 'percentile'. By default 50.
+     */
+    samplingPercentile?: number
 }
 
 export interface SeriesEncodeOptionMixin {
@@ -0,0 +1,280 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createChart, getECModel } from '../../core/utHelper';
+import { EChartsType } from '../../../../src/echarts';
+import CartesianAxisModel from '../../../../src/coord/cartesian/AxisModel';
+
+
+describe('api/streamData', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeriesData() {
+        return getECModel(chart).getSeriesByIndex(0).getData();
+    }
+
+    it('evict_out_of_capacity', function () {
+        chart.setOption({
+            xAxis: {type: 'value', scale: true},
+            yAxis: {},
+            series: [{
+                type: 'line',
+                data: [[0, 10], [1, 200], [2, 30]]
+            }]
+        });
+
+        const oldId = getSeriesData().getId(2);
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3, 40], [4, 50]],
+            capacity: 3
+        });
+
+        const data = getSeriesData();
+        expect(data.count()).toEqual(3);
+        expect(data.mapArray('x', function (x) {
+            return x;
+        })).toEqual([2, 3, 4]);
+        // Ids keep unchanged after evicted, so that the shift can be animated.
+        expect(data.getId(0)).toEqual(oldId);
+        expect(data.getId(2)).not.toEqual(oldId);
+        // The extent is updated after the max value is evicted.
+        expect(data.getDataExtent('y')).toEqual([30, 50]);
+
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        expect(xAxisModel.axis.scale.getExtent()[0]).toEqual(2);
+    });
+
+    it('without_capacity', function () {
+        chart.setOption({
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{
+                type: 'bar',
+                data: [{name: 'a', value: 1}, {name: 'b', value: 2}]
+            }]
+        });
+        chart.streamData({
+            seriesIndex: 0,
+            data: [{name: 'c', value: 3}]
+        });
+
+        const data = getSeriesData();
+        expect(data.count()).toEqual(3);
+        expect(data.getName(2)).toEqual('c');
+        expect(data.getRawDataItem(0)).toEqual({name: 'a', value: 1});
+    });
+
+    it('not_modify_data_of_user', function () {
+        const dataOption = [[0, 10], [1, 200], [2, 30]];
+        chart.setOption({
+            xAxis: {type: 'value', scale: true},
+            yAxis: {},
+            series: [{type: 'line', data: dataOption}]
+        });
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3, 40], [4, 50]],
+            capacity: 3
+        });
+
+        expect(dataOption[0]).toEqual([0, 10]);
+        expect(getSeriesData().getRawDataItem(0)).toEqual([2, 30]);
+    });
+
+    it('evict_repeatedly', function () {
+        const dataOption = [[0, 10], [1, 20], [2, 30]];
+        chart.setOption({
+            xAxis: {type: 'value', scale: true},
+            yAxis: {},
+            series: [{type: 'line', data: dataOption}]
+        });
+        for (let i = 3; i < 10; i++) {
+            chart.streamData({
+                seriesIndex: 0,
+                data: i % 2 ? [[i, i * 10]] : [[i, i * 10], [i + 0.5, 5]],
+                capacity: 3
+            });
+        }
+
+        const data = getSeriesData();
+        expect(data.mapArray('x', function (x) {
+            return x;
+        })).toEqual([8, 8.5, 9]);
+        expect(data.getDataExtent('y')).toEqual([5, 90]);
+        expect(data.getRawDataItem(0)).toEqual([8, 80]);
+        expect(dataOption.slice(0, 3)).toEqual([[0, 10], [1, 20], [2, 30]]);
+    });
+
+    it('only_process_streamed_series', function () {
+        chart.setOption({
+            xAxis: {type: 'value', min: 0, max: 'dataMax'},
+            yAxis: {min: 0, max: 100},
+            series: [
+                {type: 'line', data: [[0, 10], [1, 20], [2, 30]]},
+                {type: 'line', data: [[0, 50], [5, 60]]}
+            ]
+        });
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        const otherSeries = getECModel(chart).getSeriesByIndex(1);
+        const otherData = otherSeries.getData();
+        const otherPoints = otherData.getLayout('points');
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3, 40]],
+            capacity: 10
+        });
+        expect(getSeriesData().getLayout('points').length).toEqual(8);
+        // Other series are not processed or laid out again.
+        expect(otherSeries.getData()).toBe(otherData);
+        expect(otherData.getLayout('points')).toBe(otherPoints);
+
+        // Out of the axis extent.
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[11, 50]],
+            capacity: 10
+        });
+        expect(xAxisModel.axis.scale.getExtent()).toEqual([0, 11]);
+        expect(otherSeries.getData()).toBe(otherData);
+        expect(otherData.getLayout('points')).not.toBe(otherPoints);
+    });
+
+    it('lay_out_series_sharing_value_axis', function () {
+        chart.setOption({
+            xAxis: {type: 'value', min: 0, max: 10},
+            yAxis: {type: 'value', scale: true},
+            series: [
+                {type: 'line', data: [[0, 10], [1, 20], [2, 30]]},
+                {type: 'line', data: [[0, 15], [5, 25]]}
+            ]
+        });
+        const yAxisModel = getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+        const otherSeries = getECModel(chart).getSeriesByIndex(1);
+        const oldPoints = Array.prototype.slice.call(otherSeries.getData().getLayout('points'));
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3, 1000]],
+            capacity: 10
+        });
+        expect(yAxisModel.axis.scale.getExtent()[1]).toBeGreaterThanOrEqual(1000);
+
+        const points = otherSeries.getData().getLayout('points');
+        const coordSys = otherSeries.coordinateSystem;
+        expect(Array.prototype.slice.call(points)).not.toEqual(oldPoints);
+        [[0, 15], [5, 25]].forEach(function (item, idx) {
+            const expected = coordSys.dataToPoint(item);
+            expect(points[idx * 2]).toBeCloseTo(expected[0], 3);
+            expect(points[idx * 2 + 1]).toBeCloseTo(expected[1], 3);
+        });
+    });
+
+    it('keep_id_of_surviving_points', function () {
+        chart.setOption({
+            xAxis: {type: 'value', scale: true},
+            yAxis: {},
+            series: [{
+                type: 'line',
+                data: [
+                    {value: [0, 10]},
+                    {value: [1, 20], name: 'b'},
+                    {value: [2, 30]},
+                    {value: [3, 40], id: 'd'}
+                ]
+            }]
+        });
+        const data = getSeriesData();
+        const oldIds = [data.getId(1), data.getId(2), data.getId(3)];
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[4, 50]],
+            capacity: 4
+        });
+        const newData = getSeriesData();
+        expect([newData.getId(0), newData.getId(1), newData.getId(2)]).toEqual(oldIds);
+        expect(newData.getId(3)).not.toEqual(oldIds[0]);
+        expect(newData.getId(3)).not.toEqual(oldIds[1]);
+        expect(newData.getId(3)).not.toEqual(oldIds[2]);
+    });
+
+    it('restore_series_filtered_by_same_data_zoom', function () {
+        chart.setOption({
+            xAxis: {type: 'value'},
+            yAxis: {},
+            dataZoom: [{type: 'inside', start: 50, end: 100}],
+            series: [
+                {type: 'line', data: [[0, 10], [1, 20], [2, 30], [3, 40]]},
+                {type: 'line', data: [[0, 50], [1, 60], [2, 70], [3, 80], [4, 90]]}
+            ]
+        });
+        const otherSeries = getECModel(chart).getSeriesByIndex(1);
+        function getX(x: number) {
+            return x;
+        }
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[6, 50], [7, 60], [8, 70]],
+            capacity: 5
+        });
+        const xList = getSeriesData().mapArray('x', getX);
+        const otherXList = otherSeries.getData().mapArray('x', getX);
+        expect(xList[xList.length - 1]).toEqual(8);
+        // The window is moved by the streamed data, where the other series is filtered
+        // on its raw data but not the data filtered before.
+        expect(otherXList).toEqual([4]);
+
+        // Same as a full update.
+        chart.resize();
+        expect(getSeriesData().mapArray('x', getX)).toEqual(xList);
+        expect(otherSeries.getData().mapArray('x', getX)).toEqual(otherXList);
+    });
+
+    it('refuse_shared_store', function () {
+        chart.setOption({
+            dataset: {source: [[0, 10], [1, 20]]},
+            xAxis: {type: 'value'},
+            yAxis: {},
+            series: [{type: 'line'}, {type: 'line'}]
+        });
+        expect(getECModel(chart).getSeriesByIndex(1).getRawData().getStore())
+            .toBe(getSeriesData().getStore());
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[2, 30]],
+            capacity: 2
+        });
+        expect(getSeriesData().count()).toEqual(2);
+        expect(getSeriesData().get('x', 0)).toEqual(0);
+    });
+
+});
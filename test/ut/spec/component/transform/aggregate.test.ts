@@ -0,0 +1,204 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, removeChart, getECModel } from '../../../core/utHelper';
+import { EChartsOption } from '@/src/export/option';
+import { retrieveRawValue } from '@/src/data/helper/dataProvider';
+
+
+describe('aggregateTransform', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function makeSource() {
+        return [
+            ['country', 'year', 'income'],
+            ['AAA', 2012, 10],
+            ['BBB', 2012, 3],
+            ['AAA', 2013, 20],
+            ['AAA', 2013, '-'],
+            ['BBB', 2013, 5],
+            ['BBB', 2013, 7]
+        ];
+    }
+
+    function getSeriesData(option: EChartsOption) {
+        chart.setOption(option);
+        return getECModel(chart).getSeries()[0].getData();
+    }
+
+    it('group_by_single_dimension', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: makeSource()
+            }, {
+                transform: {
+                    type: 'aggregate',
+                    config: {
+                        groupBy: 'country',
+                        resultDimensions: [
+                            { from: 'country' },
+                            { from: 'income', method: 'sum', name: 'total' },
+                            { from: 'income', method: 'avg', name: 'avg' },
+                            { from: 'income', method: 'min', name: 'min' },
+                            { from: 'income', method: 'max', name: 'max' },
+                            { from: 'income', method: 'median', name: 'median' },
+                            { method: 'count' }
+                        ]
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1 }
+        });
+
+        expect(listData.count()).toEqual(2);
+        expect(listData.getDimension(1)).toEqual('total');
+        expect(listData.getDimension(6)).toEqual('count');
+        expect(retrieveRawValue(listData, 0, 'country')).toEqual('AAA');
+        expect(listData.get('total', 0)).toEqual(30);
+        expect(listData.get('avg', 0)).toEqual(15);
+        expect(listData.get('count', 0)).toEqual(3);
+        expect(retrieveRawValue(listData, 1, 'country')).toEqual('BBB');
+        expect(listData.get('total', 1)).toEqual(15);
+        expect(listData.get('min', 1)).toEqual(3);
+        expect(listData.get('max', 1)).toEqual(7);
+        expect(listData.get('median', 1)).toEqual(5);
+    });
+
+    it('group_by_multiple_dimensions', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: makeSource()
+            }, {
+                transform: {
+                    type: 'aggregate',
+                    config: {
+                        groupBy: ['year', 'country'],
+                        resultDimensions: [
+                            { from: 'year' },
+                            { from: 'country' },
+                            { from: 'income', method: 'sum' },
+                            { from: 'income', method: 'avg' }
+                        ]
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1, encode: { x: 'year', y: 'sum(income)' } }
+        });
+
+        expect(listData.count()).toEqual(4);
+        expect(listData.getDimension(2)).toEqual('sum(income)');
+        expect(listData.getDimension(3)).toEqual('avg(income)');
+        expect(listData.get('sum(income)', 2)).toEqual(20);
+        expect(listData.get('sum(income)', 3)).toEqual(12);
+        expect(listData.get('avg(income)', 3)).toEqual(6);
+    });
+
+    it('count_non_empty_values', function () {
+        const source = makeSource();
+        source.push(['AAA', 2014, null], ['BBB', 2014, '']);
+        const listData = getSeriesData({
+            dataset: [{
+                source: source
+            }, {
+                transform: {
+                    type: 'aggregate',
+                    config: {
+                        groupBy: 'country',
+                        resultDimensions: [
+                            { from: 'country' },
+                            { from: 'income', method: 'count' },
+                            { method: 'count' }
+                        ]
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1 }
+        });
+
+        expect(listData.getDimension(1)).toEqual('count(income)');
+        // '-', null and '' are not counted.
+        expect(listData.get('count(income)', 0)).toEqual(2);
+        expect(listData.get('count', 0)).toEqual(4);
+        expect(listData.get('count(income)', 1)).toEqual(3);
+        expect(listData.get('count', 1)).toEqual(4);
+    });
+
+    it('duplicated_name', function () {
+        expect(() => {
+            chart.setOption({
+                dataset: [{
+                    source: makeSource()
+                }, {
+                    transform: {
+                        type: 'aggregate',
+                        config: {
+                            resultDimensions: [
+                                { from: 'income', method: 'sum', name: 'income' },
+                                { from: 'income' }
+                            ]
+                        }
+                    }
+                }],
+                xAxis: { type: 'category' },
+                yAxis: {},
+                series: { type: 'bar', datasetIndex: 1 }
+            });
+        }).toThrowError(/Duplicated/);
+    });
+
+    it('illegal_method', function () {
+        expect(() => {
+            chart.setOption({
+                dataset: [{
+                    source: makeSource()
+                }, {
+                    transform: {
+                        type: 'aggregate',
+                        config: {
+                            resultDimensions: [{ from: 'income', method: 'xxx' }]
+                        }
+                    }
+                }],
+                xAxis: { type: 'category' },
+                yAxis: {},
+                series: { type: 'bar', datasetIndex: 1 }
+            });
+        }).toThrowError(/method/);
+    });
+
+});
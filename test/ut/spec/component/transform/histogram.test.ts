@@ -0,0 +1,160 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { EChartsType } from '@/src/echarts';
+import { createChart, removeChart, getECModel } from '../../../core/utHelper';
+import { EChartsOption } from '@/src/export/option';
+import { map } from 'zrender/src/core/util';
+import { HistogramTransformOption } from '@/src/component/transform/histogramTransform';
+
+
+describe('histogramTransform', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function getSeriesDataList(source: number[][], config: HistogramTransformOption['config']) {
+        const option: EChartsOption = {
+            dataset: [{
+                source: source
+            }, {
+                transform: {
+                    type: 'histogram',
+                    config: config
+                }
+            }],
+            xAxis: { type: 'value' },
+            yAxis: {},
+            series: [
+                { type: 'bar', datasetIndex: 1 }
+            ]
+        };
+        if (config.kde) {
+            (option.dataset as object[]).push({
+                fromDatasetIndex: 1,
+                fromTransformResult: 1
+            });
+            (option.series as object[]).push({ type: 'line', datasetIndex: 2 });
+        }
+        chart.setOption(option);
+        return map(getECModel(chart).getSeries(), function (seriesModel) {
+            return seriesModel.getData();
+        });
+    }
+
+    const source = [[1], [2], [2], [3], [7], [8], [10], [12], [15], [20]];
+
+    it('fixed_width_and_edges', function () {
+        const [binData] = getSeriesDataList(source, { binWidth: 5 });
+        expect(binData.count()).toEqual(4);
+        expect(binData.get('start', 0)).toEqual(0);
+        expect(binData.get('end', 3)).toEqual(20);
+        expect(binData.get('center', 0)).toEqual(2.5);
+        expect(binData.get('count', 0)).toEqual(4);
+        expect(binData.get('count', 1)).toEqual(2);
+        // The max value is contained in the last bin.
+        expect(binData.get('count', 3)).toEqual(2);
+        expect(binData.get('density', 0)).toBeCloseTo(4 / (10 * 5), 10);
+
+        const [edgeBinData] = getSeriesDataList(source, { binEdges: [0, 10, 2] });
+        expect(edgeBinData.count()).toEqual(2);
+        expect(edgeBinData.get('start', 1)).toEqual(2);
+        expect(edgeBinData.get('count', 0)).toEqual(1);
+        expect(edgeBinData.get('count', 1)).toEqual(6);
+
+        // Non-finite and duplicated edges are removed.
+        const [cleanedBinData] = getSeriesDataList(source, { binEdges: [0, NaN, 10, 2, 2, Infinity] });
+        expect(cleanedBinData.count()).toEqual(2);
+        expect(cleanedBinData.get('end', 0)).toEqual(2);
+        expect(isFinite(cleanedBinData.get('density', 0) as number)).toEqual(true);
+
+        expect(function () {
+            getSeriesDataList(source, { binEdges: [2, 2, NaN] });
+        }).toThrow();
+    });
+
+    it('bin_methods', function () {
+        const methods = ['sturges', 'scott', 'freedmanDiaconis'];
+        for (let i = 0; i < methods.length; i++) {
+            const [binData] = getSeriesDataList(source, { method: methods[i] as HistogramTransformOption['config']['method'] });
+            let total = 0;
+            for (let j = 0; j < binData.count(); j++) {
+                total += binData.get('count', j) as number;
+            }
+            expect(binData.count()).toBeGreaterThan(1);
+            expect(binData.get('start', 0)).toEqual(1);
+            expect(total).toEqual(source.length);
+        }
+        // 1 + ceil(log2(10)) = 5 bins.
+        expect(getSeriesDataList(source, {})[0].count()).toEqual(5);
+    });
+
+    it('bin_count_limit', function () {
+        // A tiny width by freedmanDiaconis for the concentrated values with an outlier.
+        const concentrated = [];
+        for (let i = 0; i < 1000; i++) {
+            concentrated.push([i * 1e-6]);
+        }
+        concentrated.push([1e6]);
+        const [binData] = getSeriesDataList(concentrated, { method: 'freedmanDiaconis' });
+        // Fall back to sturges: 1 + ceil(log2(1001)) = 11 bins.
+        expect(binData.count()).toEqual(11);
+
+        expect(function () {
+            getSeriesDataList(source, { binWidth: 1e-9 });
+        }).toThrow();
+    });
+
+    it('tiny_extent', function () {
+        const [binData] = getSeriesDataList([[1e-12], [2e-12], [2e-12], [3e-12], [5e-12]], {});
+        let total = 0;
+        for (let i = 0; i < binData.count(); i++) {
+            total += binData.get('count', i) as number;
+            expect(binData.get('end', i)).toBeGreaterThan(binData.get('start', i) as number);
+        }
+        expect(binData.count()).toEqual(4);
+        expect(binData.get('start', 0)).toEqual(1e-12);
+        expect(total).toEqual(5);
+    });
+
+    it('kde', function () {
+        const [binData, kdeData] = getSeriesDataList(source, { binWidth: 5, kde: { sampleCount: 201 } });
+        expect(binData.count()).toEqual(4);
+        expect(kdeData.count()).toEqual(201);
+
+        // The integral of density should be close to 1.
+        const step = (kdeData.get('x', 200) as number) - (kdeData.get('x', 0) as number);
+        let integral = 0;
+        for (let i = 0; i < kdeData.count(); i++) {
+            integral += (kdeData.get('density', i) as number) * step / 200;
+        }
+        expect(integral).toBeGreaterThan(0.8);
+        expect(integral).toBeLessThan(1.01);
+    });
+
+});
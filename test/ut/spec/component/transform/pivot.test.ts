@@ -0,0 +1,169 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, removeChart, getECModel } from '../../../core/utHelper';
+import { EChartsOption } from '@/src/export/option';
+import { retrieveRawValue } from '@/src/data/helper/dataProvider';
+
+
+describe('pivotTransform', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function getSeriesData(option: EChartsOption) {
+        chart.setOption(option);
+        return getECModel(chart).getSeries()[0].getData();
+    }
+
+    function makeLongSource() {
+        return [
+            { date: '2021-01', metric: 'cpu', value: 10, count: 1 },
+            { date: '2021-01', metric: 'mem', value: 20, count: 2 },
+            { date: '2021-02', metric: 'cpu', value: 30, count: 3 },
+            { date: '2021-02', metric: 'cpu', value: 5, count: 4 },
+            { date: '2021-03', metric: 'mem', value: 40, count: 5 }
+        ];
+    }
+
+    it('pivot', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: makeLongSource()
+            }, {
+                transform: {
+                    type: 'pivot',
+                    config: { index: 'date', columns: 'metric', values: 'value', method: 'sum' }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1, encode: { x: 'date', y: 'mem' } }
+        });
+
+        expect(listData.count()).toEqual(3);
+        expect(retrieveRawValue(listData, 1, 'date')).toEqual('2021-02');
+        expect(listData.get('cpu', 1)).toEqual(35);
+        expect(listData.get('mem', 0)).toEqual(20);
+        expect(isNaN(listData.get('mem', 1) as number)).toEqual(true);
+    });
+
+    it('pivot_multiple_results', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: makeLongSource()
+            }, {
+                transform: {
+                    type: 'pivot',
+                    config: { index: 'date', columns: 'metric', values: ['value', 'count'] }
+                }
+            }, {
+                fromDatasetIndex: 1,
+                fromTransformResult: 1
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 2, encode: { x: 'date', y: 'cpu' } }
+        });
+
+        expect(listData.count()).toEqual(3);
+        // Method 'first' by default.
+        expect(listData.get('cpu', 1)).toEqual(3);
+        expect(listData.get('mem', 2)).toEqual(5);
+    });
+
+    it('pivot_empty_and_duplicated_column', function () {
+        const source = makeLongSource();
+        source.push({ date: '2021-03', metric: null, value: 50, count: 6 });
+        source.push({ date: '2021-04', metric: '', value: 60, count: 7 });
+        const listData = getSeriesData({
+            dataset: [{
+                source: source
+            }, {
+                transform: {
+                    type: 'pivot',
+                    config: { index: 'date', columns: 'metric', values: 'value' }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1, encode: { x: 'date', y: 'mem' } }
+        });
+
+        // Items without column value are skipped.
+        expect(listData.count()).toEqual(3);
+        expect(listData.dimensions).toEqual(['date', 'cpu', 'mem']);
+
+        source.push({ date: '2021-04', metric: 'date', value: 70, count: 8 });
+        expect(() => {
+            chart.setOption({
+                dataset: [{
+                    source: source
+                }, {
+                    transform: {
+                        type: 'pivot',
+                        config: { index: 'date', columns: 'metric', values: 'value' }
+                    }
+                }],
+                xAxis: { type: 'category' },
+                yAxis: {},
+                series: { type: 'bar', datasetIndex: 1 }
+            }, true);
+        }).toThrowError(/Duplicated/);
+    });
+
+    it('unpivot', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: [
+                    ['date', 'cpu', 'mem'],
+                    ['2021-01', 10, 20],
+                    ['2021-02', 30, 40]
+                ]
+            }, {
+                transform: {
+                    type: 'unpivot',
+                    config: { index: 'date', nameDimension: 'metric' }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1, encode: { x: 'date', y: 'value' } }
+        });
+
+        expect(listData.count()).toEqual(4);
+        expect(retrieveRawValue(listData, 1, 'date')).toEqual('2021-01');
+        expect(retrieveRawValue(listData, 1, 'metric')).toEqual('mem');
+        expect(listData.get('value', 1)).toEqual(20);
+        expect(retrieveRawValue(listData, 2, 'metric')).toEqual('cpu');
+        expect(listData.get('value', 3)).toEqual(40);
+    });
+
+});
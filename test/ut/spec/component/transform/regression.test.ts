@@ -0,0 +1,156 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { EChartsType } from '@/src/echarts';
+import { createChart, removeChart, getECModel } from '../../../core/utHelper';
+import { EChartsOption } from '@/src/export/option';
+import { retrieveRawValue } from '@/src/data/helper/dataProvider';
+
+
+describe('regressionTransform', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function getSeriesDataList(source: number[][], config: object) {
+        const option: EChartsOption = {
+            dataset: [{
+                source: source
+            }, {
+                transform: {
+                    type: 'regression',
+                    config: config
+                }
+            }, {
+                fromDatasetIndex: 1,
+                fromTransformResult: 1
+            }],
+            xAxis: { type: 'value' },
+            yAxis: {},
+            series: [
+                { type: 'line', datasetIndex: 1 },
+                { type: 'scatter', datasetIndex: 2, encode: { x: 'r2', y: 'r2' } }
+            ]
+        };
+        chart.setOption(option);
+        const seriesList = getECModel(chart).getSeries();
+        return [seriesList[0].getData(), seriesList[1].getData()];
+    }
+
+    it('linear', function () {
+        const [pointData, metaData] = getSeriesDataList(
+            [[3, 7], [1, 3], [2, 5.5], [4, 8.5]],
+            { method: 'linear', formulaOn: 'end' }
+        );
+
+        expect(pointData.count()).toEqual(4);
+        expect(pointData.get(pointData.getDimension(0), 0)).toEqual(1);
+        expect(pointData.get(pointData.getDimension(1), 0)).toBeCloseTo(3.3, 8);
+        expect(retrieveRawValue(pointData, 3, 'formula')).toEqual('y = 1.8x + 1.5');
+        expect(retrieveRawValue(pointData, 0, 'formula')).toEqual(null);
+
+        expect(retrieveRawValue(metaData, 0, 'method')).toEqual('linear');
+        expect(metaData.get('c0', 0)).toBeCloseTo(1.5, 8);
+        expect(metaData.get('c1', 0)).toBeCloseTo(1.8, 8);
+        expect(metaData.get('r2', 0)).toBeGreaterThan(0.95);
+        expect(metaData.get('r2', 0)).toBeLessThan(1);
+    });
+
+    it('polynomial_and_exponential', function () {
+        const quadratic = [[-2, 9], [-1, 2], [0, 1], [1, 6], [2, 17]];
+        const [, polyMeta] = getSeriesDataList(quadratic, { method: 'polynomial', order: 2 });
+        expect(polyMeta.get('c0', 0)).toBeCloseTo(1, 8);
+        expect(polyMeta.get('c1', 0)).toBeCloseTo(2, 8);
+        expect(polyMeta.get('c2', 0)).toBeCloseTo(3, 8);
+        expect(polyMeta.get('r2', 0)).toBeCloseTo(1, 8);
+        expect(retrieveRawValue(polyMeta, 0, 'formula')).toEqual('y = 3x^2 + 2x + 1');
+
+        const exponential = [[0, 2], [1, 2 * Math.E], [2, 2 * Math.E * Math.E]];
+        const [expPoints, expMeta] = getSeriesDataList(exponential, { method: 'exponential' });
+        expect(expMeta.get('c0', 0)).toBeCloseTo(2, 8);
+        expect(expMeta.get('c1', 0)).toBeCloseTo(1, 8);
+        expect(expPoints.get(expPoints.getDimension(1), 2)).toBeCloseTo(2 * Math.E * Math.E, 8);
+    });
+
+    it('polynomial_normalized_x', function () {
+        // Exact cubic over years, where the powers of x are too large for the raw normal equations.
+        const cubic = [];
+        for (let year = 2000; year <= 2020; year++) {
+            const t = year - 2010;
+            cubic.push([year, 0.5 * t * t * t - 2 * t * t + 3 * t + 100]);
+        }
+        const [cubicPoints, cubicMeta] = getSeriesDataList(cubic, { method: 'polynomial', order: 3 });
+        expect(cubicMeta.get('r2', 0)).toBeCloseTo(1, 8);
+        expect(cubicPoints.get(cubicPoints.getDimension(1), 0)).toBeCloseTo(cubic[0][1], 6);
+        // Coefficients of the raw x: 0.5 * (x - 2010)^3 has 0.5 * x^3 - 3015 * x^2 + ...
+        expect(cubicMeta.get('c3', 0)).toBeCloseTo(0.5, 6);
+        expect(cubicMeta.get('c2', 0) as number / -3017).toBeCloseTo(1, 6);
+
+        const [, quadraticMeta] = getSeriesDataList(cubic, { method: 'polynomial', order: 2 });
+        expect(quadraticMeta.get('r2', 0)).toBeLessThan(cubicMeta.get('r2', 0) as number);
+
+        // Tiny x should not be treated as singular.
+        const tiny = [];
+        for (let i = 0; i < 5; i++) {
+            const x = (i + 1) * 1e-4;
+            tiny.push([x, 2e8 * x * x + 1]);
+        }
+        const [tinyPoints, tinyMeta] = getSeriesDataList(tiny, { method: 'polynomial', order: 2 });
+        expect(tinyPoints.count()).toEqual(5);
+        expect(tinyMeta.get('c2', 0) as number / 2e8).toBeCloseTo(1, 6);
+        expect(tinyMeta.get('r2', 0)).toBeCloseTo(1, 8);
+    });
+
+    it('exponential_normalized_x', function () {
+        // `c0 = 3 * e^-5000` underflows, so the fitted values can not be evaluated by coefficients.
+        const exponential = [];
+        for (let x = 10000; x <= 10010; x++) {
+            exponential.push([x, 3 * Math.exp(0.5 * (x - 10000))]);
+        }
+        const [expPoints, expMeta] = getSeriesDataList(exponential, { method: 'exponential' });
+        expect(expMeta.get('c1', 0)).toBeCloseTo(0.5, 8);
+        expect(expMeta.get('r2', 0)).toBeCloseTo(1, 8);
+        for (let i = 0; i < exponential.length; i++) {
+            const fitted = expPoints.get(expPoints.getDimension(1), i) as number;
+            expect(fitted / exponential[i][1]).toBeCloseTo(1, 6);
+        }
+    });
+
+    it('loess', function () {
+        const source = [];
+        for (let i = 0; i < 20; i++) {
+            source.push([i, 2 * i + (i % 2 ? 1 : -1)]);
+        }
+        const [pointData, metaData] = getSeriesDataList(source, { method: 'loess', bandwidth: 0.5 });
+        expect(pointData.count()).toEqual(20);
+        expect(pointData.get(pointData.getDimension(1), 10)).toBeCloseTo(20, 0);
+        expect(metaData.getDimensionIndex('c0')).toEqual(-1);
+        expect(metaData.get('r2', 0)).toBeGreaterThan(0.9);
+    });
+
+});
@@ -0,0 +1,156 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { EChartsType } from '@/src/echarts';
+import { createChart, removeChart, getECModel } from '../../../core/utHelper';
+import { EChartsOption } from '@/src/export/option';
+import { retrieveRawValue } from '@/src/data/helper/dataProvider';
+
+
+describe('rollingTransform', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function getSeriesData(option: EChartsOption) {
+        chart.setOption(option);
+        return getECModel(chart).getSeries()[0].getData();
+    }
+
+    it('moving_average_and_ema', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: [
+                    ['day', 'value'],
+                    [3, 3],
+                    [1, 1],
+                    [2, 2],
+                    [5, 5],
+                    [4, 4]
+                ]
+            }, {
+                transform: {
+                    type: 'rolling',
+                    config: {
+                        orderBy: 'day',
+                        resultDimensions: [
+                            { from: 'value', method: 'average', size: 3, name: 'ma' },
+                            { from: 'value', method: 'ema', size: 3, name: 'ema' },
+                            { from: 'value', method: 'sum', size: 2, name: 'sum' }
+                        ]
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'line', datasetIndex: 1, encode: { x: 'day', y: 'ma' } }
+        });
+
+        expect(listData.count()).toEqual(5);
+        expect(retrieveRawValue(listData, 0, 'day')).toEqual(1);
+        expect(listData.get('ma', 1)).toBeNaN();
+        expect(listData.get('ma', 2)).toEqual(2);
+        expect(listData.get('ma', 4)).toEqual(4);
+        expect(listData.get('ema', 2)).toEqual(2);
+        expect(listData.get('ema', 3)).toEqual(3);
+        expect(listData.get('sum', 1)).toEqual(3);
+    });
+
+    it('ema_after_gap', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: [
+                    { value: 1 },
+                    { value: 2 },
+                    { value: 3 },
+                    { value: 4 },
+                    { value: '-' },
+                    { value: 10 },
+                    { value: 12 },
+                    { value: 14 }
+                ]
+            }, {
+                transform: {
+                    type: 'rolling',
+                    config: {
+                        // Rounded to 2, by which the default name is made.
+                        resultDimensions: { from: 'value', method: 'ema', size: 2.4 }
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'line', datasetIndex: 1, encode: { y: 'ema2' } }
+        });
+
+        expect(listData.get('ema2', 0)).toBeNaN();
+        expect(listData.get('ema2', 1)).toEqual(1.5);
+        expect(listData.get('ema2', 2)).toBeCloseTo(2.5, 10);
+        expect(listData.get('ema2', 3)).toBeCloseTo(3.5, 10);
+        expect(listData.get('ema2', 4)).toBeNaN();
+        expect(listData.get('ema2', 5)).toBeNaN();
+        // Seeded again by the average of the first full window after the gap.
+        expect(listData.get('ema2', 6)).toEqual(11);
+        expect(listData.get('ema2', 7)).toBeCloseTo(13, 10);
+    });
+
+    it('bollinger_bands', function () {
+        const listData = getSeriesData({
+            dataset: [{
+                source: [
+                    { value: 2 },
+                    { value: 4 },
+                    { value: '-' },
+                    { value: 4 },
+                    { value: 6 }
+                ]
+            }, {
+                transform: {
+                    type: 'rolling',
+                    config: {
+                        resultDimensions: [
+                            { from: 'value', method: 'bollingerUpper', size: 2, name: 'up' },
+                            { from: 'value', method: 'bollingerLower', size: 2, multiplier: 1, name: 'low' }
+                        ]
+                    }
+                }
+            }],
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'line', datasetIndex: 1, encode: { y: 'up' } }
+        });
+
+        expect(listData.get('up', 1)).toEqual(5);
+        expect(listData.get('low', 1)).toEqual(2);
+        // Invalid values are not filled into the window.
+        expect(listData.get('up', 2)).toBeNaN();
+        expect(listData.get('up', 3)).toBeNaN();
+        expect(listData.get('low', 4)).toEqual(4);
+    });
+
+});
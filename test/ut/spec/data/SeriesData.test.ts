@@ -174,6 +174,42 @@ describe('SeriesData', function () {
             })).toEqual([20]);
         });
 
+        it('minmaxDownSample', function () {
+            const data = new SeriesData(['x', 'y'], new Model());
+            data.initData([
+                [0, 5], [1, 1], [2, 9], [3, 4],
+                [4, 3], [5, 3], [6, NaN], [7, 3],
+                [8, NaN], [9, NaN], [10, NaN], [11, NaN],
+                [12, 8]
+            ]);
+            const sampled = data.minmaxDownSample('y', 1 / 4);
+            expect(sampled.mapArray('x', function (x) {
+                return x;
+            })).toEqual([1, 2, 4, 8, 12]);
+            expect(sampled.getRawIndex(1)).toEqual(2);
+            expect(sampled.get('y', 1)).toEqual(9);
+        });
+
+        it('m4DownSample', function () {
+            const data = new SeriesData(['x', 'y'], new Model());
+            // Not sorted on x. Buckets: [0, 10), [10, 20), [20, 30), [30, 40].
+            data.initData([
+                [0, 5], [1, 1], [2, 9], [3, 4], [4, 6],
+                [5, 3], [30, 7], [6, 3], [7, NaN], [8, 2],
+                [31, 1], [32, 0], [33, 5], [34, 2], [40, 1]
+            ]);
+            const sampled = data.m4DownSample('x', 'y', 4);
+            expect(sampled.mapArray('x', function (x) {
+                return x;
+            })).toEqual([0, 1, 2, 30, 8, 32, 40]);
+
+            // Buckets on the given extent: [1, 4.5), [4.5, 8], and data out of it on both sides.
+            const sampledOnExtent = data.m4DownSample('x', 'y', 2, [1, 8]);
+            expect(sampledOnExtent.mapArray('x', function (x) {
+                return x;
+            })).toEqual([0, 1, 2, 4, 5, 30, 8, 32, 40]);
+        });
+
         it('dataProvider', function () {
             const data = new SeriesData(['x', 'y'], new Model());
             const typedArray = new Float32Array([10, 10, 20, 20]);
@@ -0,0 +1,263 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createChart, getECModel } from '../../core/utHelper';
+import { EChartsType } from '@/src/echarts';
+import CartesianAxisModel from '@/src/coord/cartesian/AxisModel';
+import OrdinalScale from '@/src/scale/Ordinal';
+import { detectSourceFormat, createSource } from '@/src/data/Source';
+import DataStore from '@/src/data/DataStore';
+import OrdinalMeta from '@/src/data/OrdinalMeta';
+import { DefaultDataProvider } from '@/src/data/helper/dataProvider';
+import { OptionSourceDataColumnar, SOURCE_FORMAT_COLUMNAR } from '@/src/util/types';
+
+
+describe('data/columnarSource', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function makeSource() {
+        return {
+            numRows: 4,
+            columns: [{
+                name: 'product',
+                values: new Int32Array([0, 1, 2, 1]),
+                dictionary: ['Latte', 'Tea', 'Cocoa']
+            }, {
+                name: 'score',
+                values: new Float64Array([95.8, 81.4, 91.2, 76.9])
+            }, {
+                name: 'note',
+                values: ['a', 'b', 'c', 'd']
+            }]
+        };
+    }
+
+    it('detect', function () {
+        expect(detectSourceFormat(makeSource())).toEqual(SOURCE_FORMAT_COLUMNAR);
+        expect(detectSourceFormat({columns: []})).not.toEqual(SOURCE_FORMAT_COLUMNAR);
+        expect(detectSourceFormat({columns: [1, 2]})).not.toEqual(SOURCE_FORMAT_COLUMNAR);
+    });
+
+    it('dictionary_and_typed_array', function () {
+        chart.setOption({
+            dataset: {source: makeSource()},
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{type: 'bar', encode: {x: 'product', y: 'score'}}]
+        });
+
+        const seriesModel = getECModel(chart).getSeriesByIndex(0);
+        const data = seriesModel.getData();
+        expect(data.count()).toEqual(4);
+        expect(data.get('score', 0)).toEqual(95.8);
+        expect(data.get('score', 3)).toEqual(76.9);
+
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        const scale = xAxisModel.axis.scale as OrdinalScale;
+        expect(scale.getOrdinalMeta().categories).toEqual(['Latte', 'Tea', 'Cocoa']);
+        expect(data.getName(3)).toEqual('Tea');
+        expect(data.get('product', 3)).toEqual(1);
+
+        // Typed array in source is used in store without copy.
+        const store = data.getStore();
+        const scoreDimIdx = data.getDimensionIndex('score');
+        const sourceData = store.getSource().data as OptionSourceDataColumnar;
+        expect(sourceData.columns[1].values).toBeInstanceOf(Float64Array);
+        expect((store as any)._chunks[scoreDimIdx]).toBe(sourceData.columns[1].values);
+        expect(data.getDataExtent('score')).toEqual([76.9, 95.8]);
+    });
+
+    it('dictionary_as_categories', function () {
+        const source = makeSource();
+        source.columns[0].dictionary.push('Unused');
+        chart.setOption({
+            dataset: {source: source},
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{type: 'bar', encode: {x: 'product', y: 'score'}}]
+        });
+
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        const scale = xAxisModel.axis.scale as OrdinalScale;
+        expect(scale.getOrdinalMeta().categories).toEqual(['Latte', 'Tea', 'Cocoa', 'Unused']);
+
+        // Indices are used as ordinals without copy.
+        const store = data.getStore();
+        const productDimIdx = data.getDimensionIndex('product');
+        const sourceData = store.getSource().data as OptionSourceDataColumnar;
+        expect((store as any)._chunks[productDimIdx]).toBe(sourceData.columns[0].values);
+        expect(data.getDataExtent('product')).toEqual([0, 2]);
+    });
+
+    it('dictionary_to_predefined_categories', function () {
+        const source = makeSource();
+        chart.setOption({
+            dataset: {source: source},
+            xAxis: {type: 'category', data: ['Cocoa', 'Latte', 'Tea']},
+            yAxis: {},
+            series: [{type: 'bar', encode: {x: 'product', y: 'score'}}]
+        });
+
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        expect(data.get('product', 0)).toEqual(1);
+        expect(data.get('product', 2)).toEqual(0);
+        expect(data.get('product', 3)).toEqual(2);
+        expect(data.getName(3)).toEqual('Tea');
+        expect(data.getDataExtent('product')).toEqual([0, 2]);
+        // Indices in source are not modified.
+        const sourceData = data.getStore().getSource().data as OptionSourceDataColumnar;
+        expect(Array.prototype.slice.call(sourceData.columns[0].values)).toEqual([0, 1, 2, 1]);
+    });
+
+    it('append_and_evict', function () {
+        const source = makeSource();
+        chart.setOption({
+            dataset: {source: source},
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{type: 'bar', encode: {x: 'product', y: 'score'}}]
+        });
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: {
+                numRows: 2,
+                columns: [{
+                    values: new Int32Array([1, 0]),
+                    dictionary: ['Tea', 'Mocha']
+                }, {
+                    values: new Float64Array([60, 70])
+                }, {
+                    values: ['e', 'f']
+                }]
+            },
+            capacity: 5
+        });
+
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        expect(data.count()).toEqual(5);
+        expect(data.getName(0)).toEqual('Tea');
+        expect(data.getName(3)).toEqual('Mocha');
+        expect(data.getName(4)).toEqual('Tea');
+        expect(data.get('score', 0)).toEqual(81.4);
+        expect(data.get('score', 4)).toEqual(70);
+
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        const scale = xAxisModel.axis.scale as OrdinalScale;
+        expect(scale.getOrdinalMeta().categories).toEqual(['Latte', 'Tea', 'Cocoa', 'Mocha']);
+
+        // Columns in source are not modified.
+        const sourceData = data.getStore().getSource().data as OptionSourceDataColumnar;
+        expect(sourceData.numRows).toEqual(4);
+        expect(Array.prototype.slice.call(sourceData.columns[1].values)).toEqual([95.8, 81.4, 91.2, 76.9]);
+    });
+
+    it('provider_streams_in_place', function () {
+        const source = createSource(makeSource(), {seriesLayoutBy: null, sourceHeader: false, dimensions: null}, null);
+        const provider = new DefaultDataProvider(source);
+        for (let i = 0; i < 6; i++) {
+            provider.appendData({
+                numRows: 1,
+                columns: [{
+                    values: new Int32Array([0]),
+                    dictionary: [i % 2 ? 'Tea' : 'Mocha']
+                }, {
+                    values: new Float64Array([i])
+                }, {
+                    values: ['n' + i]
+                }]
+            });
+            provider.evictData(1);
+        }
+
+        expect(provider.count()).toEqual(4);
+        expect(provider.getItem(0)).toEqual(['Mocha', 2, 'n2']);
+        expect(provider.getItem(3)).toEqual(['Tea', 5, 'n5']);
+
+        // The owned buffers are not reallocated once the capacity is enough.
+        const scoreValues = (provider as any)._data.columns[1].values;
+        provider.appendData({numRows: 1, columns: [{values: [0], dictionary: ['Tea']}, {values: [6]}, {values: ['n6']}]});
+        provider.evictData(1);
+        expect((provider as any)._data.columns[1].values).toBe(scoreValues);
+        expect((provider as any)._data.columns[0].dictionary).toEqual(['Latte', 'Tea', 'Cocoa', 'Mocha']);
+
+        // Columns in source are not modified.
+        const sourceData = source.data as OptionSourceDataColumnar;
+        expect(Array.prototype.slice.call(sourceData.columns[1].values)).toEqual([95.8, 81.4, 91.2, 76.9]);
+        expect(sourceData.columns[0].dictionary).toEqual(['Latte', 'Tea', 'Cocoa']);
+    });
+
+    it('append_different_dictionary_and_remap', function () {
+        const values = new Int32Array([0, 1]);
+        const source = createSource({
+            columns: [{values: values, dictionary: ['a', 'b']}]
+        }, {seriesLayoutBy: null, sourceHeader: false, dimensions: null}, null);
+        const store = new DataStore();
+        store.initData(new DefaultDataProvider(source), [{type: 'ordinal'}]);
+        store.appendData({
+            numRows: 3,
+            columns: [{values: new Int32Array([0, 1, 0]), dictionary: ['c', 'a']}]
+        });
+
+        function getOrdinals() {
+            const ordinals = [];
+            for (let i = 0; i < store.count(); i++) {
+                ordinals.push(store.get(0, i));
+            }
+            return ordinals;
+        }
+        expect(store.getOrdinalMeta(0).categories).toEqual(['a', 'b', 'c']);
+        expect(getOrdinals()).toEqual([0, 1, 2, 0, 2]);
+
+        // Collected to other categories.
+        store.collectOrdinalMeta(0, new OrdinalMeta({categories: ['c', 'b', 'a'], needCollect: false}));
+        expect(getOrdinals()).toEqual([2, 1, 0, 2, 0]);
+        expect(store.getDataExtent(0)).toEqual([0, 2]);
+        expect(Array.prototype.slice.call(values)).toEqual([0, 1]);
+
+        store.appendData({
+            numRows: 2,
+            columns: [{values: new Int32Array([1, 0]), dictionary: ['b', 'd']}]
+        });
+        expect(getOrdinals().slice(5)).toEqual([NaN, 1]);
+    });
+
+    it('guess_ordinal_in_plain_column', function () {
+        chart.setOption({
+            dataset: {source: makeSource()},
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{type: 'bar', encode: {x: 'note', y: 'score'}}]
+        });
+
+        const xAxisModel = getECModel(chart).getComponent('xAxis', 0) as CartesianAxisModel;
+        const scale = xAxisModel.axis.scale as OrdinalScale;
+        expect(scale.getOrdinalMeta().categories).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+});
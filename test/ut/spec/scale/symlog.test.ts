@@ -0,0 +1,161 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createChart, getECModel } from '../../core/utHelper';
+import { EChartsType } from '@/src/echarts';
+import CartesianAxisModel from '@/src/coord/cartesian/AxisModel';
+import SymlogScale, { symlogInverse, symlogTransform } from '@/src/scale/Symlog';
+import DataZoomModel from '@/src/component/dataZoom/DataZoomModel';
+
+
+describe('scale_symlog', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getYAxisScale(): SymlogScale {
+        const yAxis = getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+        return yAxis.axis.scale as SymlogScale;
+    }
+
+
+    it('transform_inverse', function () {
+        const values = [-123456, -10, -1, -0.5, 0, 0.5, 1, 10, 123456];
+        for (let i = 0; i < values.length; i++) {
+            const transformed = symlogTransform(values[i], 2, 10);
+            expect(symlogInverse(transformed, 2, 10)).toBeCloseTo(values[i], 8);
+        }
+        expect(symlogTransform(0, 1, 10)).toEqual(0);
+        expect(symlogTransform(-9, 1, 10)).toBeCloseTo(-1, 10);
+    });
+
+    it('ticks_cross_zero', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b', 'c', 'd']},
+            yAxis: {type: 'symlog'},
+            series: [{type: 'line', data: [-3500, -20, 4, 120000]}]
+        });
+
+        const scale = getYAxisScale();
+        const ticks = scale.getTicks().map(tick => tick.value);
+
+        expect(scale.getExtent()[0]).toBeCloseTo(-10000, 6);
+        expect(scale.getExtent()[1]).toBeCloseTo(1000000, 6);
+        expect(ticks).toContain(0);
+        expect(ticks[0]).toBeLessThan(0);
+        expect(ticks[ticks.length - 1]).toBeGreaterThan(0);
+        for (let i = 1; i < ticks.length; i++) {
+            expect(ticks[i]).toBeGreaterThan(ticks[i - 1]);
+        }
+    });
+
+    it('linthresh', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b', 'c']},
+            yAxis: {type: 'symlog', linthresh: 10},
+            series: [{type: 'line', data: [-8, 2, 5]}]
+        });
+
+        const scale = getYAxisScale();
+        // All data are in the linear region, so ticks should be linear.
+        const ticks = scale.getTicks().map(tick => tick.value);
+        expect(scale.linthresh).toEqual(10);
+        expect(ticks.length).toBeGreaterThan(2);
+        expect(ticks).toContain(0);
+        expect(scale.normalize(scale.scale(0.3))).toBeCloseTo(0.3, 8);
+    });
+
+    it('invalid_linthresh', function () {
+        const invalidValues = [0, -5, NaN];
+        for (let i = 0; i < invalidValues.length; i++) {
+            chart.setOption({
+                xAxis: {type: 'category', data: ['a', 'b', 'c']},
+                yAxis: {type: 'symlog', linthresh: invalidValues[i]},
+                series: [{type: 'line', data: [-20, 0, 300]}]
+            }, true);
+
+            const scale = getYAxisScale();
+            const extent = scale.getExtent();
+            expect(scale.linthresh).toEqual(1);
+            expect(isFinite(extent[0]) && isFinite(extent[1])).toEqual(true);
+            expect(scale.normalize(0)).not.toBeNaN();
+            expect(scale.getTicks().length).toBeGreaterThan(2);
+        }
+    });
+
+    it('data_zoom_window_in_transformed_space', function () {
+        function setDataZoom(dataZoomOption: object) {
+            chart.setOption({
+                xAxis: {type: 'category', data: ['a', 'b', 'c', 'd']},
+                yAxis: {type: 'symlog', linthresh: 2, min: -100, max: 10000},
+                dataZoom: [Object.assign({type: 'inside', yAxisIndex: 0, filterMode: 'none'}, dataZoomOption)],
+                series: [{type: 'line', data: [-100, -1, 5, 10000]}]
+            }, true);
+            return getECModel(chart).getComponent('dataZoom', 0) as DataZoomModel;
+        }
+        const transform = (val: number) => symlogTransform(val, 2, 10);
+        const inverse = (val: number) => symlogInverse(val, 2, 10);
+
+        const dataZoomModel = setDataZoom({start: 10, end: 60});
+        const valueWindow = dataZoomModel.getValueRange('y', 0);
+        const linearExtent = [transform(-100), transform(10000)];
+        // Percent is linear in the transformed space.
+        expect(valueWindow[0]).toBeCloseTo(inverse(linearExtent[0] + (linearExtent[1] - linearExtent[0]) * 0.1), 6);
+        expect(valueWindow[1]).toBeCloseTo(inverse(linearExtent[0] + (linearExtent[1] - linearExtent[0]) * 0.6), 6);
+        // The window crosses zero.
+        expect(valueWindow[0]).toBeLessThan(0);
+        expect(valueWindow[1]).toBeGreaterThan(0);
+
+        const valueDataZoomModel = setDataZoom({startValue: valueWindow[0], endValue: valueWindow[1]});
+        const percentWindow = valueDataZoomModel.getPercentRange();
+        expect(percentWindow[0]).toBeCloseTo(10, 6);
+        expect(percentWindow[1]).toBeCloseTo(60, 6);
+    });
+
+    it('minor_ticks_in_transformed_space', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b']},
+            yAxis: {type: 'symlog', minorTick: {show: true, splitNumber: 4}},
+            series: [{type: 'line', data: [1, 100000]}]
+        });
+
+        const scale = getYAxisScale();
+        const ticks = scale.getTicks(true);
+        const minorTicks = scale.getMinorTicks(4);
+
+        expect(minorTicks.length).toEqual(ticks.length - 1);
+        for (let i = 0; i < minorTicks.length; i++) {
+            const group = minorTicks[i];
+            const prevNormalized = scale.normalize(ticks[i].value);
+            const step = (scale.normalize(ticks[i + 1].value) - prevNormalized) / 4;
+            expect(group.length).toEqual(3);
+            for (let j = 0; j < group.length; j++) {
+                // Evenly spaced on the axis rather than in value.
+                expect(scale.normalize(group[j])).toBeCloseTo(prevNormalized + (j + 1) * step, 8);
+            }
+        }
+    });
+
+});
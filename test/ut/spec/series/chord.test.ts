@@ -0,0 +1,111 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import ChordSeriesModel from '@/src/chart/chord/ChordSeries';
+import { ChordEdgeLayout, ChordNodeLayout } from '@/src/chart/chord/chordLayout';
+
+
+describe('chord_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): ChordSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as ChordSeriesModel;
+    }
+
+    function getAngle(layout: ChordNodeLayout): number {
+        return Math.abs(layout.endAngle - layout.startAngle);
+    }
+
+    const option = {
+        legend: {},
+        series: [{
+            type: 'chord',
+            padAngle: 10,
+            data: [{name: 'a'}, {name: 'b'}, {name: 'c'}],
+            links: [
+                {source: 'a', target: 'b', value: 10},
+                {source: 'b', target: 'c', value: 20},
+                {source: 'c', target: 'a', value: 30}
+            ]
+        }]
+    };
+
+    it('group_sized_by_flow', function () {
+        chart.setOption(option);
+
+        const graph = getSeries().getGraph();
+        const layoutA = graph.getNodeById('a').getLayout() as ChordNodeLayout;
+        const layoutB = graph.getNodeById('b').getLayout() as ChordNodeLayout;
+        const layoutC = graph.getNodeById('c').getLayout() as ChordNodeLayout;
+
+        expect(layoutA.value).toEqual(40);
+        expect(layoutB.value).toEqual(30);
+        expect(layoutC.value).toEqual(50);
+
+        const available = Math.PI * 2 - Math.PI / 180 * 10 * 3;
+        expect(getAngle(layoutA)).toBeCloseTo(available * 40 / 120, 8);
+        expect(getAngle(layoutC)).toBeCloseTo(available * 50 / 120, 8);
+        // Start from 90 degrees, clockwise.
+        expect(layoutA.startAngle).toBeCloseTo(-Math.PI / 2, 8);
+        expect(layoutB.startAngle).toBeCloseTo(layoutA.endAngle + Math.PI / 18, 8);
+
+        // Pieces of ribbon are in the arc of groups.
+        const edgeLayout = graph.getEdge('a', 'b').getLayout() as ChordEdgeLayout;
+        expect(Math.abs(edgeLayout.sEndAngle - edgeLayout.sStartAngle))
+            .toBeCloseTo(getAngle(layoutA) * 10 / 40, 8);
+        expect(Math.abs(edgeLayout.tEndAngle - edgeLayout.tStartAngle))
+            .toBeCloseTo(getAngle(layoutB) * 10 / 30, 8);
+        expect(edgeLayout.sStartAngle).toBeGreaterThanOrEqual(layoutA.startAngle - 1e-8);
+        expect(edgeLayout.sEndAngle).toBeLessThanOrEqual(layoutA.endAngle + 1e-8);
+        expect(edgeLayout.r).toEqual(layoutA.r0);
+    });
+
+    it('legend_filter', function () {
+        chart.setOption(option);
+        chart.dispatchAction({
+            type: 'legendUnSelect',
+            name: 'c'
+        });
+
+        const seriesModel = getSeries();
+        expect(seriesModel.getData().count()).toEqual(2);
+        expect(seriesModel.getEdgeData().count()).toEqual(1);
+
+        const layoutA = seriesModel.getGraph().getNodeById('a').getLayout() as ChordNodeLayout;
+        expect(layoutA.value).toEqual(10);
+    });
+
+    it('node_value_in_params', function () {
+        chart.setOption(option);
+        const params = getSeries().getDataParams(2, 'node');
+        expect(params.value).toEqual(50);
+        expect(params.name).toEqual('c');
+    });
+
+});
@@ -0,0 +1,287 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import CirclePackingSeriesModel from '@/src/chart/circlePacking/CirclePackingSeries';
+import { CirclePackingItemLayout } from '@/src/chart/circlePacking/circlePackingLayout';
+import { packSiblings, encloseCircles, PackCircle } from '@/src/chart/circlePacking/packCircles';
+import { TreeNode } from '@/src/data/Tree';
+import SeriesModel from '@/src/model/Series';
+import Element from 'zrender/src/Element';
+import Path from 'zrender/src/graphic/Path';
+import { isMorphing, isCombineMorphing } from 'zrender/src/tool/morphPath';
+
+
+function expectNotOverlapped(a: { x: number, y: number, r: number }, b: { x: number, y: number, r: number }) {
+    expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThanOrEqual(a.r + b.r - 1e-6);
+}
+
+function expectEnclosed(outer: { x: number, y: number, r: number }, inner: { x: number, y: number, r: number }) {
+    expect(Math.hypot(outer.x - inner.x, outer.y - inner.y) + inner.r).toBeLessThanOrEqual(outer.r + 1e-6);
+}
+
+function toCircle(layout: CirclePackingItemLayout) {
+    return {x: layout.cx, y: layout.cy, r: layout.r};
+}
+
+describe('circlePacking_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 400});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): CirclePackingSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as CirclePackingSeriesModel;
+    }
+
+    it('pack_siblings', function () {
+        const circles: PackCircle[] = [];
+        for (let i = 0; i < 40; i++) {
+            circles.push({x: 0, y: 0, r: 1 + (i * 7) % 11});
+        }
+        const radius = packSiblings(circles);
+        const enclosing = {x: 0, y: 0, r: radius};
+
+        let area = 0;
+        for (let i = 0; i < circles.length; i++) {
+            expectEnclosed(enclosing, circles[i]);
+            for (let j = i + 1; j < circles.length; j++) {
+                expectNotOverlapped(circles[i], circles[j]);
+            }
+            area += circles[i].r * circles[i].r;
+        }
+        // Packed densely.
+        expect(area / (radius * radius)).toBeGreaterThan(0.5);
+
+        expect(packSiblings([{x: 5, y: 5, r: 3}])).toEqual(3);
+        expect(packSiblings([{x: 0, y: 0, r: 3}, {x: 0, y: 0, r: 1}])).toEqual(4);
+    });
+
+    it('enclose_circles', function () {
+        const enclosing = encloseCircles([
+            {x: -5, y: 0, r: 1},
+            {x: 5, y: 0, r: 1},
+            {x: 0, y: 0, r: 2}
+        ]);
+        expect(enclosing.x).toBeCloseTo(0, 8);
+        expect(enclosing.y).toBeCloseTo(0, 8);
+        expect(enclosing.r).toBeCloseTo(6, 8);
+
+        const triangle = encloseCircles([
+            {x: 0, y: 10, r: 1},
+            {x: -10, y: -5, r: 1},
+            {x: 10, y: -5, r: 1},
+            {x: 1, y: 1, r: 1}
+        ]);
+        expect(triangle.r).toBeLessThan(12);
+        expectEnclosed(triangle, {x: -10, y: -5, r: 1});
+        expectEnclosed(triangle, {x: 0, y: 10, r: 1});
+    });
+
+    it('layout_and_zoom', function () {
+        chart.setOption({
+            series: [{
+                type: 'circlePacking',
+                radius: 150,
+                padding: 4,
+                data: [{
+                    name: 'a',
+                    children: [
+                        {name: 'a1', value: 10},
+                        {name: 'a2', value: 5},
+                        {name: 'a3', children: [{name: 'a31', value: 3}, {name: 'a32', value: 2}]}
+                    ]
+                }, {
+                    name: 'b',
+                    children: [{name: 'b1', value: 8}, {name: 'b2', value: 0}]
+                }, {
+                    name: 'c',
+                    value: 6
+                }]
+            }]
+        });
+
+        const seriesModel = getSeries(0);
+        const tree = seriesModel.getData().tree;
+        const root = tree.root;
+        const rootCircle = toCircle(root.getLayout());
+
+        expect(rootCircle.x).toBeCloseTo(200, 6);
+        expect(rootCircle.y).toBeCloseTo(200, 6);
+        expect(rootCircle.r).toBeCloseTo(150, 6);
+
+        root.eachNode(function (node: TreeNode) {
+            const circle = toCircle(node.getLayout());
+            const children = node.children;
+            for (let i = 0; i < children.length; i++) {
+                const child = toCircle(children[i].getLayout());
+                expectEnclosed(circle, child);
+                for (let j = i + 1; j < children.length; j++) {
+                    const sibling = toCircle(children[j].getLayout());
+                    child.r && sibling.r && expectNotOverlapped(child, sibling);
+                }
+            }
+        });
+
+        // Zero value is not displayed.
+        const b2 = tree.getNodeById('b2');
+        expect(b2.getLayout().r).toEqual(0);
+        expect(seriesModel.getData().getItemGraphicEl(b2.dataIndex)).toBeFalsy();
+        expect(seriesModel.getData().getItemGraphicEl(tree.getNodeById('a31').dataIndex)).toBeTruthy();
+
+        const a3 = tree.getNodeById('a3');
+        const oldA31Radius = tree.getNodeById('a31').getLayout().r;
+        chart.dispatchAction({
+            type: 'circlePackingZoomToNode',
+            targetNodeId: 'a3'
+        });
+
+        // The node fills the view after zooming.
+        expect(seriesModel.getViewRoot()).toBe(a3);
+        expect(a3.getLayout().cx).toBeCloseTo(200, 6);
+        expect(a3.getLayout().r).toBeCloseTo(150, 6);
+        expect(tree.getNodeById('a31').getLayout().r).toBeGreaterThan(oldA31Radius);
+        // Siblings are out of the view.
+        expect(seriesModel.getData().getItemGraphicEl(tree.getNodeById('c').dataIndex)).toBeFalsy();
+
+        chart.dispatchAction({
+            type: 'circlePackingZoomToNode',
+            targetNode: root
+        });
+        expect(seriesModel.getViewRoot()).toBe(root);
+        expect(seriesModel.getData().getItemGraphicEl(tree.getNodeById('c').dataIndex)).toBeTruthy();
+    });
+
+    it('padding_in_pixel', function () {
+        chart.setOption({
+            series: [{
+                type: 'circlePacking',
+                radius: 150,
+                padding: 6,
+                data: [{
+                    name: 'a',
+                    children: [{
+                        name: 'a1',
+                        children: [{name: 'a11', value: 4}, {name: 'a12', value: 2}, {name: 'a13', value: 1}]
+                    }, {
+                        name: 'a2', value: 5
+                    }]
+                }, {
+                    name: 'b',
+                    children: [{name: 'b1', value: 8}, {name: 'b2', value: 3}]
+                }, {
+                    name: 'c',
+                    value: 6
+                }]
+            }]
+        });
+
+        const root = getSeries(0).getData().tree.root;
+        root.eachNode(function (node: TreeNode) {
+            const children = node.children;
+            if (children.length < 2) {
+                return;
+            }
+            const circle = toCircle(node.getLayout());
+            let minSiblingGap = Infinity;
+            let minParentGap = Infinity;
+            for (let i = 0; i < children.length; i++) {
+                const child = toCircle(children[i].getLayout());
+                minParentGap = Math.min(
+                    minParentGap, circle.r - child.r - Math.hypot(circle.x - child.x, circle.y - child.y)
+                );
+                for (let j = i + 1; j < children.length; j++) {
+                    const sibling = toCircle(children[j].getLayout());
+                    minSiblingGap = Math.min(
+                        minSiblingGap, Math.hypot(child.x - sibling.x, child.y - sibling.y) - child.r - sibling.r
+                    );
+                }
+            }
+            expect(minSiblingGap).toBeCloseTo(6, 3);
+            expect(minParentGap).toBeCloseTo(6, 3);
+        });
+    });
+
+    it('universal_transition', function () {
+        const data = [{
+            name: 'a',
+            children: [{name: 'a1', value: 10}, {name: 'a2', value: 5}]
+        }, {
+            name: 'b',
+            children: [{name: 'b1', value: 8}]
+        }];
+
+        function setSeries(type: string) {
+            chart.setOption({
+                series: [{
+                    id: 'hierarchy',
+                    type: type,
+                    universalTransition: true,
+                    animationDurationUpdate: 1000,
+                    data: data
+                }]
+            });
+            return getECModel(chart).getSeriesByIndex(0);
+        }
+
+        function getElsById(seriesModel: SeriesModel) {
+            const seriesData = seriesModel.getData();
+            const els: Record<string, Element> = {};
+            seriesData.each(function (idx) {
+                const el = seriesData.getItemGraphicEl(idx);
+                el && (els[seriesData.getId(idx)] = el);
+            });
+            return els;
+        }
+
+        // Paths of the new elements morph from the old elements of the same id.
+        function expectMorphed(seriesModel: SeriesModel, ids: string[]) {
+            const els = getElsById(seriesModel);
+            for (let i = 0; i < ids.length; i++) {
+                let morphed = false;
+                els[ids[i]].traverse(function (el) {
+                    if (el instanceof Path && (isMorphing(el) || isCombineMorphing(el))) {
+                        morphed = true;
+                    }
+                });
+                expect(morphed).toEqual(true);
+            }
+        }
+
+        const ids = ['a', 'a1', 'a2', 'b', 'b1'];
+
+        setSeries('treemap');
+        const circlePacking = setSeries('circlePacking');
+        expect(circlePacking.subType).toEqual('circlePacking');
+        expectMorphed(circlePacking, ids);
+
+        const sunburst = setSeries('sunburst');
+        expect(sunburst.subType).toEqual('sunburst');
+        expectMorphed(sunburst, ids);
+
+        expectMorphed(setSeries('circlePacking'), ids);
+    });
+
+});
@@ -0,0 +1,157 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import ContourSeriesModel from '@/src/chart/contour/ContourSeries';
+import { ContourLayout } from '@/src/chart/contour/contourLayout';
+import {
+    createContourGrid, getContourThresholds, traceContour, ContourGrid
+} from '@/src/chart/contour/marchingSquares';
+import { parse } from 'zrender/src/tool/color';
+
+
+function ringArea(ring: number[][]): number {
+    let area = 0;
+    for (let k = 0; k < ring.length; k++) {
+        const p0 = ring[k];
+        const p1 = ring[(k + 1) % ring.length];
+        area += p0[0] * p1[1] - p1[0] * p0[1];
+    }
+    return area / 2;
+}
+
+function createGrid(values: number[][]): ContourGrid {
+    const xs = [];
+    const ys = [];
+    const flatValues: number[] = [];
+    for (let i = 0; i < values[0].length; i++) {
+        xs.push(i);
+    }
+    for (let j = 0; j < values.length; j++) {
+        ys.push(j);
+    }
+    for (let j = 0; j < values.length; j++) {
+        flatValues.push(...values[j]);
+    }
+    return {xs: xs, ys: ys, values: flatValues};
+}
+
+describe('contour_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): ContourSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as ContourSeriesModel;
+    }
+
+    it('marching_squares', function () {
+        const grid = createGrid([
+            [0, 0, 0, 0, 0],
+            [0, 2, 2, 2, 0],
+            [0, 2, 0, 2, 0],
+            [0, 2, 2, 2, 0],
+            [0, 0, 0, 0, 0]
+        ]);
+        const level = traceContour(grid, 1);
+        // An outer ring and a hole.
+        expect(level.rings.length).toEqual(2);
+        const areas = level.rings.map(ringArea).sort((a, b) => a - b);
+        // Outer ring and hole are in different direction.
+        expect(areas[0] * areas[1]).toBeLessThan(0);
+        expect(Math.max(Math.abs(areas[0]), Math.abs(areas[1]))).toBeCloseTo(8.5, 5);
+        expect(Math.min(Math.abs(areas[0]), Math.abs(areas[1]))).toBeCloseTo(0.5, 5);
+        // Interpolated in the middle of 0 and 2.
+        level.rings[0].forEach(function (point) {
+            expect(point[0] % 1 === 0.5 || point[1] % 1 === 0.5).toEqual(true);
+        });
+        // Isolines are closed and not on the border.
+        expect(level.lines.length).toEqual(2);
+        expect(level.lines[0][0]).toEqual(level.lines[0][level.lines[0].length - 1]);
+
+        // Region reaches the border, so that the isoline is not closed.
+        const borderLevel = traceContour(createGrid([
+            [2, 2, 0],
+            [2, 2, 0],
+            [0, 0, 0]
+        ]), 1);
+        expect(borderLevel.rings.length).toEqual(1);
+        expect(borderLevel.lines.length).toEqual(1);
+        expect(borderLevel.lines[0][0]).toEqual([1.5, 0]);
+        expect(borderLevel.lines[0][borderLevel.lines[0].length - 1]).toEqual([0, 1.5]);
+    });
+
+    it('grid_and_thresholds', function () {
+        const lattice = createContourGrid([[0, 0, 1], [1, 0, 2], [0, 1, 3], [1, 1, 4]], [10, 10]);
+        expect(lattice.xs).toEqual([0, 1]);
+        expect(lattice.values).toEqual([1, 2, 3, 4]);
+
+        const scattered = createContourGrid([[0, 0, 1], [1, 0, 2], [0.5, 1, 3]], [5, 3]);
+        expect(scattered.xs.length).toEqual(5);
+        expect(scattered.ys.length).toEqual(3);
+        expect(scattered.values[0]).toEqual(1);
+        expect(scattered.values[4]).toEqual(2);
+        expect(scattered.values[12]).toEqual(3);
+
+        expect(getContourThresholds([0.3, 9.5], 5)).toEqual([0.3, 2, 4, 6, 8]);
+        expect(getContourThresholds([0, 10], [5, 2])).toEqual([2, 5]);
+    });
+
+    it('layout_with_visual_map', function () {
+        const data = [];
+        for (let i = 0; i < 20; i++) {
+            for (let j = 0; j < 20; j++) {
+                data.push([i, j, Math.sin(i / 5) * Math.cos(j / 5)]);
+            }
+        }
+        chart.setOption({
+            xAxis: {type: 'value'},
+            yAxis: {type: 'value'},
+            visualMap: {min: -1, max: 1, inRange: {color: ['#000000', '#ffffff']}},
+            series: [{
+                type: 'contour',
+                levels: [-0.5, 0, 0.5],
+                data: data
+            }]
+        });
+
+        const layout = getSeries(0).getData().getLayout('contour') as ContourLayout;
+        expect(layout.levels.map(level => level.threshold)).toEqual([-0.5, 0, 0.5]);
+        layout.levels.forEach(function (level) {
+            expect(level.rings.length).toBeGreaterThan(0);
+            // In pixel.
+            expect(level.rings[0][0][0]).toBeGreaterThan(1);
+        });
+
+        // Three bands and the isolines.
+        const children = chart.getZr().storage.getDisplayList(true).filter(el => el.type === 'contourBand');
+        expect(children.length).toEqual(3);
+        // Band of [0.5, max] is lighter than the band of [-0.5, 0].
+        const fills = children.map(el => parse((el as any).style.fill));
+        expect(fills[2][0]).toBeGreaterThan(fills[0][0]);
+    });
+
+});
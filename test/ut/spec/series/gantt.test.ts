@@ -0,0 +1,139 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import GanttSeriesModel from '@/src/chart/gantt/GanttSeries';
+import { GanttDependencyLayout, GanttItemLayout } from '@/src/chart/gantt/ganttLayout';
+import Group from 'zrender/src/graphic/Group';
+
+
+describe('gantt_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): GanttSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as GanttSeriesModel;
+    }
+
+    const day = 24 * 3600 * 1000;
+
+    const option = {
+        animation: false,
+        xAxis: {type: 'time'},
+        yAxis: {type: 'category', data: ['Design', 'Build', 'Release']},
+        series: [{
+            type: 'gantt',
+            data: [
+                {name: 'spec', value: ['Design', '2022-03-01', '2022-03-05'], progress: 0.5},
+                {id: 'impl', name: 'implement', value: ['Build', '2022-03-05', '2022-03-15']},
+                {name: 'launch', value: ['Release', '2022-03-16']}
+            ],
+            dependencies: [
+                {source: 'spec', target: 'impl'},
+                {source: 1, target: 'launch'}
+            ]
+        }]
+    };
+
+    it('data_and_layout', function () {
+        chart.setOption(option);
+
+        const data = getSeries(0).getData();
+        expect(data.get('start', 0)).toEqual(+new Date('2022-03-01'));
+        expect(data.get('end', 1) as number - (data.get('start', 1) as number)).toEqual(10 * day);
+        expect(data.getName(1)).toEqual('implement');
+
+        const layout0 = data.getItemLayout(0) as GanttItemLayout;
+        const layout1 = data.getItemLayout(1) as GanttItemLayout;
+        expect(layout0.milestone).toEqual(false);
+        expect(layout0.width).toBeGreaterThan(0);
+        // Duration of the second task is 2.5 times of the first one.
+        expect(layout1.width / layout0.width).toBeCloseTo(2.5, 5);
+        expect(layout1.x).toBeCloseTo(layout0.x + layout0.width, 5);
+
+        // Item without end is a milestone.
+        const layout2 = data.getItemLayout(2) as GanttItemLayout;
+        expect(layout2.milestone).toEqual(true);
+        expect(layout2.width).toBeCloseTo(layout2.height, 5);
+
+        const el = data.getItemGraphicEl(0) as Group;
+        const progress = el.childOfName('progress') as any;
+        expect(progress.shape.width).toBeCloseTo(layout0.width / 2, 5);
+    });
+
+    it('dependencies', function () {
+        chart.setOption(option);
+
+        const data = getSeries(0).getData();
+        const dependencies = data.getLayout('dependencies') as GanttDependencyLayout[];
+        expect(dependencies.length).toEqual(2);
+
+        const layout0 = data.getItemLayout(0) as GanttItemLayout;
+        const layout1 = data.getItemLayout(1) as GanttItemLayout;
+        const points = dependencies[0].points;
+        // From the end of the source to the start of the target.
+        expect(points[0]).toEqual([layout0.x + layout0.width, layout0.y + layout0.height / 2]);
+        expect(points[points.length - 1]).toEqual([layout1.x, layout1.y + layout1.height / 2]);
+        // Target starts where the source ends, so the line goes back between rows.
+        expect(points.length).toEqual(6);
+
+        chart.setOption({
+            series: [{
+                dependencies: [{source: 'spec', target: 'unknown'}, {source: 0, target: 1, type: 'start-to-start'}]
+            }]
+        });
+        const ssDependencies = getSeries(0).getData().getLayout('dependencies') as GanttDependencyLayout[];
+        expect(ssDependencies.length).toEqual(1);
+        expect(ssDependencies[0].index).toEqual(1);
+        expect(ssDependencies[0].points[0][0]).toEqual(layout0.x);
+    });
+
+    it('reschedule_event', function () {
+        chart.setOption(option);
+        chart.setOption({series: [{draggable: true}]});
+
+        const data = getSeries(0).getData();
+        const el = data.getItemGraphicEl(1) as Group;
+        expect(el.draggable).toEqual(true);
+
+        const layout1 = data.getItemLayout(1) as GanttItemLayout;
+        const events: any[] = [];
+        chart.on('ganttreschedule', function (params) {
+            events.push(params);
+        });
+        // Drag for 2 days.
+        el.drift(layout1.width / 5, 30, null);
+        el.ondragend(null);
+
+        expect(el.y).toEqual(0);
+        expect(events.length).toEqual(1);
+        expect(events[0].dataIndex).toEqual(1);
+        expect(events[0].start).toBeCloseTo(+new Date('2022-03-07'), -3);
+        expect(events[0].end).toBeCloseTo(+new Date('2022-03-17'), -3);
+    });
+
+});
@@ -0,0 +1,157 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import GraphSeriesModel from '@/src/chart/graph/GraphSeries';
+import ECLinePath from '@/src/chart/helper/LinePath';
+
+
+describe('graph_edge_bundling', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): GraphSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as GraphSeriesModel;
+    }
+
+    function getEdgeLayout(source: string, target: string): number[][] {
+        let layout: number[][];
+        getSeries().getGraph().eachEdge(function (edge) {
+            if (edge.node1.id === source && edge.node2.id === target) {
+                layout = edge.getLayout();
+            }
+        });
+        return layout;
+    }
+
+    it('circular_by_category', function () {
+        chart.setOption({
+            series: [{
+                type: 'graph',
+                layout: 'circular',
+                edgeBundling: {show: true},
+                categories: [{name: 'x'}, {name: 'y'}],
+                data: [
+                    {name: 'a', category: 0},
+                    {name: 'b', category: 1},
+                    {name: 'c', category: 'x'},
+                    {name: 'd', category: 1}
+                ],
+                links: [
+                    {source: 'a', target: 'c'},
+                    {source: 'a', target: 'b'}
+                ]
+            }]
+        });
+
+        const graph = getSeries().getGraph();
+        const angles: number[] = [];
+        graph.eachNode(function (node) {
+            const layout = node.getLayout();
+            const cx = getSeries().getData().getLayout('cx');
+            const cy = getSeries().getData().getLayout('cy');
+            let angle = Math.atan2(layout[1] - cy, layout[0] - cx);
+            angle < 0 && (angle += Math.PI * 2);
+            angles.push(angle);
+        });
+        // Nodes of the same category are adjacent: a, c, b, d.
+        expect(angles[0]).toBeLessThan(angles[2]);
+        expect(angles[2]).toBeLessThan(angles[1]);
+        expect(angles[1]).toBeLessThan(angles[3]);
+
+        // Through the category group.
+        expect(getEdgeLayout('a', 'c').length).toEqual(3);
+        // Through both groups and the root.
+        expect(getEdgeLayout('a', 'b').length).toEqual(5);
+    });
+
+    it('parent_and_tension', function () {
+        const data = [
+            {name: 'root', x: 0, y: 0},
+            {name: 'p', parent: 'root', x: 0, y: 100},
+            {name: 'q', parent: 'root', x: 100, y: 0},
+            {name: 'a', parent: 'p', x: 10, y: 200},
+            {name: 'b', parent: 'q', x: 200, y: 10},
+            // Cycle is ignored.
+            {name: 'c', parent: 'c', x: 50, y: 50}
+        ];
+        const links = [
+            {source: 'a', target: 'b'},
+            {source: 'a', target: 'p'},
+            {source: 'c', target: 'a'}
+        ];
+        chart.setOption({
+            series: [{
+                type: 'graph',
+                layout: 'none',
+                edgeBundling: {show: true, tension: 1},
+                data: data,
+                links: links
+            }]
+        });
+
+        // a -> p -> root -> q -> b
+        expect(getEdgeLayout('a', 'b').slice()).toEqual([[10, 200], [200, 10], [0, 100], [0, 0], [100, 0]]);
+        // Parent and child are linked directly.
+        expect(getEdgeLayout('a', 'p').length).toEqual(2);
+        // c -> virtual root (center of root and c) -> root -> p -> a
+        expect(getEdgeLayout('c', 'a')[2]).toEqual([25, 25]);
+
+        chart.setOption({
+            series: [{
+                edgeBundling: {tension: 0}
+            }]
+        });
+        const layout = getEdgeLayout('a', 'b');
+        for (let i = 2; i < layout.length; i++) {
+            // On the straight line x + y = 210.
+            expect(layout[i][0] + layout[i][1]).toBeCloseTo(210, 8);
+        }
+    });
+
+    it('line_path_b_spline', function () {
+        const line = new ECLinePath({
+            shape: {
+                x1: 0,
+                y1: 0,
+                x2: 100,
+                y2: 0,
+                controlPoints: [[30, 50], [70, 50]]
+            }
+        });
+        expect(line.pointAt(0)).toEqual([0, 0]);
+        expect(line.pointAt(1)).toEqual([100, 0]);
+        const mid = line.pointAt(0.5);
+        expect(mid[0]).toBeCloseTo(50, 8);
+        expect(mid[1]).toBeGreaterThan(0);
+        expect(mid[1]).toBeLessThan(50);
+        const tangent = line.tangentAt(0.5);
+        expect(tangent[0]).toBeCloseTo(1, 8);
+        expect(tangent[1]).toBeCloseTo(0, 8);
+    });
+
+});
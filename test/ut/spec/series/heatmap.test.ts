@@ -0,0 +1,99 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import HeatmapSeriesModel from '@/src/chart/heatmap/HeatmapSeries';
+import Single from '@/src/coord/single/Single';
+import { Sector, Rect } from '@/src/util/graphic';
+import { parse } from 'zrender/src/tool/color';
+
+
+describe('heatmap_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): HeatmapSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as HeatmapSeriesModel;
+    }
+
+    it('polar', function () {
+        chart.setOption({
+            polar: {radius: [0, 100]},
+            angleAxis: {type: 'category', data: ['a', 'b', 'c', 'd']},
+            radiusAxis: {type: 'category', data: ['x', 'y']},
+            visualMap: {min: 0, max: 10, inRange: {color: ['#0000ff', '#ff0000']}},
+            series: [{
+                type: 'heatmap',
+                coordinateSystem: 'polar',
+                data: [[0, 0, 0], [1, 2, 10], [1, 3, '-']]
+            }]
+        });
+
+        const data = getSeries(0).getData();
+        const inner = data.getItemGraphicEl(0) as Sector;
+        const outer = data.getItemGraphicEl(1) as Sector;
+
+        expect(inner).toBeInstanceOf(Sector);
+        expect(inner.shape.r0).toBeCloseTo(0, 8);
+        expect(inner.shape.r).toBeCloseTo(50, 8);
+        expect(outer.shape.r0).toBeCloseTo(50, 8);
+        expect(outer.shape.r).toBeCloseTo(100, 8);
+        // Four categories on the circle.
+        expect(Math.abs(inner.shape.endAngle - inner.shape.startAngle)).toBeCloseTo(Math.PI / 2, 8);
+        expect(parse(inner.style.fill as string)).toEqual([0, 0, 255, 1]);
+        expect(parse(outer.style.fill as string)).toEqual([255, 0, 0, 1]);
+        // Empty data is ignored.
+        expect(data.getItemGraphicEl(2)).toBeFalsy();
+    });
+
+    it('singleAxis', function () {
+        chart.setOption({
+            singleAxis: {type: 'category', data: ['a', 'b', 'c', 'd', 'e'], top: 50, height: 40},
+            visualMap: {min: 0, max: 4},
+            series: [{
+                type: 'heatmap',
+                coordinateSystem: 'singleAxis',
+                label: {show: true},
+                data: [[0, 1], [1, 2], [4, 4]]
+            }]
+        });
+
+        const seriesModel = getSeries(0);
+        const single = seriesModel.coordinateSystem as Single;
+        const bandWidth = single.getAxis().getBandWidth();
+        const rect0 = seriesModel.getData().getItemGraphicEl(0) as Rect;
+        const rect2 = seriesModel.getData().getItemGraphicEl(2) as Rect;
+
+        expect(rect0).toBeInstanceOf(Rect);
+        expect(rect0.shape.y).toEqual(50);
+        expect(rect0.shape.height).toEqual(40);
+        expect(rect0.shape.width).toBeCloseTo(bandWidth + 0.5, 8);
+        expect(rect2.shape.x - rect0.shape.x).toBeCloseTo(bandWidth * 4, 8);
+        expect(rect2.getTextContent().style.text).toEqual('4');
+    });
+
+});
@@ -0,0 +1,158 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import HexbinSeriesModel from '@/src/chart/hexbin/HexbinSeries';
+import { hexbinPoint, hexbinCenter } from '@/src/chart/hexbin/hexbinLayout';
+import { parse } from 'zrender/src/tool/color';
+import { TooltipMarkupNameValueBlock, TooltipMarkupSection } from '@/src/component/tooltip/tooltipMarkup';
+
+
+describe('hexbin_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): HexbinSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as HexbinSeriesModel;
+    }
+
+    function sumCount(seriesModel: HexbinSeriesModel): number {
+        let total = 0;
+        seriesModel.getData().each('count', function (count: number) {
+            total += count;
+        });
+        return total;
+    }
+
+    it('nearest_hexagon', function () {
+        const radius = 10;
+        for (let x = -40; x <= 40; x += 3.7) {
+            for (let y = -40; y <= 40; y += 2.9) {
+                const colRow = hexbinPoint(x, y, radius);
+                const center = hexbinCenter(colRow[0], colRow[1], radius);
+                const dist = Math.hypot(center[0] - x, center[1] - y);
+                // No center of the neighbours is nearer.
+                for (let row = colRow[1] - 1; row <= colRow[1] + 1; row++) {
+                    for (let col = Math.floor(colRow[0]) - 1; col <= colRow[0] + 1; col++) {
+                        const other = hexbinCenter(col, row, radius);
+                        expect(Math.hypot(other[0] - x, other[1] - y)).toBeGreaterThanOrEqual(dist - 1e-8);
+                    }
+                }
+                expect(dist).toBeLessThanOrEqual(radius + 1e-8);
+            }
+        }
+        expect(hexbinCenter(1, 1, radius)[0]).toBeCloseTo(1.5 * radius * Math.sqrt(3), 8);
+    });
+
+    it('aggregate', function () {
+        const points = [[1, 1, 2], [1, 1, 4], [1, 1, 6], [9, 9, 10]];
+        chart.setOption({
+            xAxis: {type: 'value', min: 0, max: 10},
+            yAxis: {type: 'value', min: 0, max: 10},
+            series: [
+                {type: 'hexbin', data: points},
+                {type: 'hexbin', data: points, aggregate: 'sum'},
+                {type: 'hexbin', data: points, aggregate: 'mean'}
+            ]
+        });
+
+        const expected = [[3, 1], [12, 10], [4, 10]];
+        for (let i = 0; i < 3; i++) {
+            const data = getSeries(i).getData();
+            expect(data.count()).toEqual(2);
+            const values = [data.get('value', 0), data.get('value', 1)];
+            expect(values).toEqual(expected[i]);
+            expect(data.get('count', 0)).toEqual(3);
+            // Bins are at the centers of hexagons in data coordinates.
+            expect(data.get('x', 0)).toBeCloseTo(1, 0);
+            expect(data.get('y', 0)).toBeCloseTo(1, 0);
+        }
+    });
+
+    it('tooltip_names', function () {
+        const option = {
+            xAxis: {type: 'value', min: 0, max: 10},
+            yAxis: {type: 'value', min: 0, max: 10},
+            series: [{type: 'hexbin', data: [[1, 1, 2], [1, 1, 4]], aggregate: 'mean'}]
+        };
+        function getTooltipNames() {
+            const markup = getSeries(0).formatTooltip(0, false) as TooltipMarkupSection;
+            return markup.blocks.map(block => (block as TooltipMarkupNameValueBlock).name);
+        }
+
+        chart.setOption(option);
+        expect(getTooltipNames()).toEqual(['Count', 'Mean']);
+
+        chart.dispose();
+        chart = createChart({opts: {locale: 'ZH'}});
+        chart.setOption(option);
+        expect(getTooltipNames()).toEqual(['数量', '平均值']);
+    });
+
+    it('rebin_on_dataZoom', function () {
+        const points = [];
+        for (let i = 0; i < 100; i++) {
+            points.push([i, (i * 37) % 100]);
+        }
+        chart.setOption({
+            xAxis: {type: 'value'},
+            yAxis: {type: 'value'},
+            dataZoom: [{type: 'inside', xAxisIndex: 0}],
+            series: [{type: 'hexbin', binSize: 20, data: points}]
+        });
+
+        const binCount = getSeries(0).getData().count();
+        expect(sumCount(getSeries(0))).toEqual(100);
+
+        chart.dispatchAction({type: 'dataZoom', start: 0, end: 50});
+
+        // Less points in larger bins.
+        expect(sumCount(getSeries(0))).toEqual(50);
+        expect(getSeries(0).getData().count()).toBeLessThan(binCount);
+        expect(getSeries(0).getRawData().count()).toEqual(100);
+    });
+
+    it('visualMap', function () {
+        chart.setOption({
+            xAxis: {type: 'value', min: 0, max: 10},
+            yAxis: {type: 'value', min: 0, max: 10},
+            visualMap: {
+                min: 1,
+                max: 3,
+                inRange: {color: ['#0000ff', '#ff0000'], symbolSize: [10, 40]}
+            },
+            series: [{type: 'hexbin', binSize: 15, data: [[1, 1], [1, 1], [1, 1], [9, 9]]}]
+        });
+
+        const data = getSeries(0).getData();
+        expect(parse(data.getItemVisual(0, 'style').fill as string)).toEqual([255, 0, 0, 1]);
+        expect(parse(data.getItemVisual(1, 'style').fill as string)).toEqual([0, 0, 255, 1]);
+        expect(data.getItemVisual(0, 'symbolSize')).toEqual(40);
+        expect(data.getItemVisual(1, 'symbolSize')).toEqual(10);
+    });
+
+});
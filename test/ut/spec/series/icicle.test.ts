@@ -0,0 +1,116 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import IcicleSeriesModel, { IcicleSeriesOption } from '@/src/chart/icicle/IcicleSeries';
+import { IcicleItemLayout } from '@/src/chart/icicle/icicleLayout';
+
+
+describe('icicle_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 200});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    const data = [{
+        name: 'a',
+        children: [
+            {name: 'a1', value: 3},
+            {name: 'a2', value: 1, children: [{name: 'a21', value: 1}]}
+        ]
+    }, {
+        name: 'b',
+        value: 4
+    }];
+
+    function setIcicle(option: IcicleSeriesOption) {
+        chart.setOption({
+            series: [Object.assign({
+                type: 'icicle',
+                left: 0,
+                top: 0,
+                width: 400,
+                height: 200,
+                animation: false,
+                data: data
+            }, option)]
+        });
+    }
+
+    function getSeries(): IcicleSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as IcicleSeriesModel;
+    }
+
+    function getLayout(id: string): IcicleItemLayout {
+        return getSeries().getData().tree.getNodeById(id).getLayout();
+    }
+
+    it('horizontal', function () {
+        setIcicle({});
+
+        // Three levels from left to right, sorted in desc order.
+        expect(getLayout('a')).toEqual({x: 0, y: 0, width: 400 / 3, height: 100});
+        expect(getLayout('b')).toEqual({x: 0, y: 100, width: 400 / 3, height: 100});
+        expect(getLayout('a1')).toEqual({x: 400 / 3, y: 0, width: 400 / 3, height: 75});
+        expect(getLayout('a21')).toEqual({x: 800 / 3, y: 75, width: 400 / 3, height: 25});
+        expect(getSeries().getData().getItemGraphicEl(getSeries().getData().tree.getNodeById('a21').dataIndex))
+            .toBeTruthy();
+    });
+
+    it('vertical', function () {
+        setIcicle({orient: 'vertical', sort: null});
+
+        expect(getLayout('a')).toEqual({x: 0, y: 0, width: 200, height: 200 / 3});
+        expect(getLayout('b')).toEqual({x: 200, y: 0, width: 200, height: 200 / 3});
+        expect(getLayout('a2')).toEqual({x: 150, y: 200 / 3, width: 50, height: 200 / 3});
+    });
+
+    it('root_to_node', function () {
+        setIcicle({});
+
+        chart.dispatchAction({
+            type: 'sunburstRootToNode',
+            targetNodeId: 'a'
+        });
+
+        const seriesModel = getSeries();
+        const tree = seriesModel.getData().tree;
+        expect(seriesModel.getViewRoot()).toBe(tree.getNodeById('a'));
+        // The first level is for rolling up.
+        expect(tree.root.getLayout()).toEqual({x: 0, y: 0, width: 100, height: 200});
+        expect(getLayout('a')).toEqual({x: 100, y: 0, width: 100, height: 200});
+        expect(getLayout('a1')).toEqual({x: 200, y: 0, width: 100, height: 150});
+        expect(seriesModel.getData().getItemGraphicEl(tree.getNodeById('b').dataIndex)).toBeFalsy();
+        expect(seriesModel.getData().getItemGraphicEl(tree.root.dataIndex)).toBeTruthy();
+
+        chart.dispatchAction({
+            type: 'sunburstRootToNode',
+            targetNode: tree.root
+        });
+        expect(seriesModel.getViewRoot()).toBe(tree.root);
+        expect(seriesModel.getData().getItemGraphicEl(tree.getNodeById('b').dataIndex)).toBeTruthy();
+    });
+
+});
@@ -0,0 +1,117 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createChart, getECModel } from '../../core/utHelper';
+import { EChartsType } from '../../../../src/echarts';
+
+
+describe('series/line', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 200, height: 200});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function makeData(count: number) {
+        const data = [];
+        for (let i = 0; i < count; i++) {
+            data.push([i, Math.sin(i / 10) * 100 + (i % 7)]);
+        }
+        return data;
+    }
+
+    function getSampledX() {
+        return getECModel(chart).getSeriesByIndex(0).getData().mapArray('x', function (x) {
+            return x;
+        });
+    }
+
+    it('statistic_sampling', function () {
+        // Mode is 9 or 2 (three times), and 9 appears first.
+        const frame = [9, 9, NaN, 1, 1, 2, 9, 2, 2, 0];
+        const data: number[][] = [];
+        for (let i = 0; i < 2000; i++) {
+            data.push([i, frame[i % frame.length]]);
+        }
+        function getSampledY(sampling: 'median' | 'percentile' | 'mode', samplingPercentile?: number) {
+            chart.setOption({
+                animation: false,
+                // 200 pixels for 2000 data, so the size of frame is 10.
+                grid: {left: 0, right: 0},
+                xAxis: {type: 'value'},
+                yAxis: {},
+                series: [{type: 'line', sampling: sampling, samplingPercentile: samplingPercentile, data: data}]
+            }, true);
+            const seriesData = getECModel(chart).getSeriesByIndex(0).getData();
+            // Frames are aligned with the pattern.
+            expect(seriesData.count()).toEqual(2000 / frame.length);
+            return seriesData.mapArray('y', function (y) {
+                return y;
+            });
+        }
+
+        // Sorted values in frame: [0, 1, 1, 2, 2, 2, 9, 9, 9].
+        expect(getSampledY('median').every(y => y === 2)).toEqual(true);
+        expect(getSampledY('percentile', 100).every(y => y === 9)).toEqual(true);
+        expect(getSampledY('percentile', 25).every(y => y === 1)).toEqual(true);
+        expect(getSampledY('mode').every(y => y === 9)).toEqual(true);
+    });
+
+    it('m4_sampling', function () {
+        chart.setOption({
+            animation: false,
+            xAxis: {type: 'value'},
+            yAxis: {},
+            series: [{type: 'line', sampling: 'm4', data: makeData(2000)}]
+        });
+
+        const xList = getSampledX();
+        expect(xList.length).toBeGreaterThan(100);
+        expect(xList.length).toBeLessThan(2000);
+        expect(xList[0]).toEqual(0);
+        expect(xList[xList.length - 1]).toEqual(1999);
+    });
+
+    it('m4_sampling_in_data_zoom_window', function () {
+        chart.setOption({
+            animation: false,
+            xAxis: {type: 'value'},
+            yAxis: {},
+            dataZoom: [{type: 'inside', filterMode: 'none', startValue: 1000, endValue: 1500}],
+            series: [{type: 'line', sampling: 'm4', data: makeData(2000)}]
+        });
+
+        const xList = getSampledX();
+        // Data out of the window is kept in the two buckets on both sides.
+        expect(xList[0]).toEqual(0);
+        expect(xList[xList.length - 1]).toEqual(1999);
+        let countInWindow = 0;
+        for (let i = 0; i < xList.length; i++) {
+            (xList[i] >= 1000 && xList[i] <= 1500) && countInWindow++;
+        }
+        // Buckets are made on the window rather than the whole data extent.
+        expect(countInWindow).toBeGreaterThan(100);
+        expect(xList.length - countInWindow).toBeLessThanOrEqual(8);
+    });
+
+});
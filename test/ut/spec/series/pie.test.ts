@@ -0,0 +1,148 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import { Sector } from '@/src/util/graphic';
+import PieSeriesModel from '@/src/chart/pie/PieSeries';
+
+type SectorLayout = Sector['shape'];
+
+const RADIAN = Math.PI / 180;
+
+describe('pie_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 400});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getLayouts(seriesIndex: number): SectorLayout[] {
+        const data = (getECModel(chart).getSeriesByIndex(seriesIndex) as PieSeriesModel).getData();
+        const layouts: SectorLayout[] = [];
+        data.each(function (idx) {
+            layouts.push(data.getItemLayout(idx));
+        });
+        return layouts;
+    }
+
+    it('end_angle', function () {
+        chart.setOption({
+            series: [{
+                type: 'pie',
+                startAngle: 180,
+                endAngle: 0,
+                data: [1, 2, 3]
+            }, {
+                type: 'pie',
+                startAngle: 180,
+                endAngle: 0,
+                clockwise: false,
+                data: [1, 1]
+            }]
+        });
+
+        // Clockwise from the left to the right through the top.
+        const layouts = getLayouts(0);
+        expect(layouts[0].startAngle).toBeCloseTo(-Math.PI, 8);
+        expect(layouts[0].endAngle - layouts[0].startAngle).toBeCloseTo(Math.PI / 6, 8);
+        expect(layouts[1].startAngle).toBeCloseTo(layouts[0].endAngle, 8);
+        expect(layouts[2].endAngle).toBeCloseTo(0, 8);
+
+        // Anticlockwise from the left to the right through the bottom.
+        const anticlockwiseLayouts = getLayouts(1);
+        expect(anticlockwiseLayouts[0].endAngle).toBeCloseTo(-Math.PI * 1.5, 8);
+        expect(anticlockwiseLayouts[1].endAngle).toBeCloseTo(-Math.PI * 2, 8);
+
+        // Only the arc contains point.
+        expect(chart.containPixel({seriesIndex: 0}, [200, 120])).toEqual(true);
+        expect(chart.containPixel({seriesIndex: 0}, [200, 280])).toEqual(false);
+        expect(chart.containPixel({seriesIndex: 1}, [200, 120])).toEqual(false);
+        expect(chart.containPixel({seriesIndex: 1}, [200, 280])).toEqual(true);
+    });
+
+    it('empty_circle_end_angle', function () {
+        chart.setOption({
+            series: [{
+                type: 'pie',
+                startAngle: 180,
+                endAngle: 0,
+                clockwise: false,
+                data: []
+            }]
+        });
+
+        const emptyCircle = chart.getZr().storage.getDisplayList().filter(
+            el => el instanceof Sector
+        )[0] as Sector;
+        expect(emptyCircle.shape.clockwise).toEqual(false);
+        // Anticlockwise from the left to the right through the bottom.
+        expect(emptyCircle.contain(200, 120)).toEqual(false);
+        expect(emptyCircle.contain(200, 280)).toEqual(true);
+    });
+
+    it('pad_angle', function () {
+        chart.setOption({
+            series: [{
+                type: 'pie',
+                padAngle: 10,
+                minAngle: 20,
+                label: {
+                    position: 'inside'
+                },
+                data: [100, 100, 100, 0.001]
+            }]
+        });
+
+        const layouts = getLayouts(0);
+        let totalAngle = 0;
+        for (let i = 0; i < layouts.length; i++) {
+            const next = layouts[(i + 1) % layouts.length];
+            // Gaps between sectors.
+            expect(((next.startAngle - layouts[i].endAngle) % (Math.PI * 2) + Math.PI * 2) % (Math.PI * 2))
+                .toBeCloseTo(10 * RADIAN, 8);
+            totalAngle += layouts[i].endAngle - layouts[i].startAngle;
+        }
+        expect(totalAngle).toBeCloseTo((360 - 40) * RADIAN, 8);
+        // Padding is not counted in min angle.
+        expect(layouts[3].endAngle - layouts[3].startAngle).toBeCloseTo(20 * RADIAN, 8);
+    });
+
+    it('pad_angle_collapse', function () {
+        chart.setOption({
+            series: [{
+                type: 'pie',
+                padAngle: 20,
+                data: [100, 1, 100]
+            }]
+        });
+
+        const layouts = getLayouts(0);
+        expect(layouts[1].startAngle).toEqual(layouts[1].endAngle);
+
+        const data = (getECModel(chart).getSeriesByIndex(0) as PieSeriesModel).getData();
+        expect(data.getItemGraphicEl(0).getTextContent().ignore).toBeFalsy();
+        expect(data.getItemGraphicEl(1).getTextContent().ignore).toEqual(true);
+    });
+
+});
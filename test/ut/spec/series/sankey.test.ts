@@ -0,0 +1,114 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import SankeySeriesModel from '@/src/chart/sankey/SankeySeries';
+
+
+describe('sankey_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): SankeySeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as SankeySeriesModel;
+    }
+
+    function createOption(nodeAlign: 'justify' | 'left' | 'right') {
+        return {
+            series: [{
+                type: 'sankey',
+                nodeAlign: nodeAlign,
+                data: [{name: 'a'}, {name: 'b'}, {name: 'c'}, {name: 'd'}],
+                links: [
+                    {source: 'a', target: 'b', value: 10},
+                    {source: 'b', target: 'c', value: 8},
+                    {source: 'c', target: 'b', value: 3},
+                    {source: 'c', target: 'd', value: 5},
+                    {source: 'd', target: 'a', value: 2}
+                ]
+            }]
+        };
+    }
+
+    it('circular_edges', function () {
+        chart.setOption(createOption('justify'));
+
+        const graph = getSeries().getGraph();
+        const getDepth = (name: string) => graph.getNodeById(name).getLayout().depth;
+        expect(getDepth('a')).toEqual(0);
+        expect(getDepth('b')).toEqual(1);
+        expect(getDepth('c')).toEqual(2);
+        expect(getDepth('d')).toEqual(3);
+
+        expect(graph.getEdge('a', 'b').getLayout().circular).toEqual(false);
+        expect(graph.getEdge('c', 'b').getLayout().circular).toEqual(true);
+        expect(graph.getEdge('d', 'a').getLayout().circular).toEqual(true);
+
+        // Channels of circular edges are below all the nodes.
+        let bottom = 0;
+        graph.eachNode(function (node) {
+            const layout = node.getLayout();
+            bottom = Math.max(bottom, layout.y + layout.dy);
+        });
+        const innerEdgeLayout = graph.getEdge('c', 'b').getLayout();
+        const outerEdgeLayout = graph.getEdge('d', 'a').getLayout();
+        expect(innerEdgeLayout.channel).toBeGreaterThan(bottom);
+        expect(outerEdgeLayout.channel).toBeGreaterThan(innerEdgeLayout.channel + innerEdgeLayout.dy);
+        expect(outerEdgeLayout.channel + outerEdgeLayout.dy)
+            .toBeLessThanOrEqual(getSeries().layoutInfo.height + 1e-6);
+    });
+
+    it('circular_edges_on_long_chain', function () {
+        const count = 10000;
+        const data = [];
+        const links = [];
+        for (let i = 0; i < count; i++) {
+            data.push({name: 'n' + i});
+            i && links.push({source: 'n' + (i - 1), target: 'n' + i, value: 1});
+        }
+        links.push({source: 'n' + (count - 1), target: 'n0', value: 1});
+        chart.setOption({
+            animation: false,
+            series: [{type: 'sankey', layoutIterations: 0, label: {show: false}, data: data, links: links}]
+        });
+
+        const graph = getSeries().getGraph();
+        expect(graph.getEdge('n0', 'n1').getLayout().circular).toEqual(false);
+        expect(graph.getEdge('n' + (count - 1), 'n0').getLayout().circular).toEqual(true);
+    });
+
+    it('circular_edges_node_align', function () {
+        chart.setOption(createOption('right'));
+        const graph = getSeries().getGraph();
+        expect(graph.getNodeById('d').getLayout().depth).toEqual(3);
+        expect(graph.getNodeById('a').getLayout().depth).toEqual(0);
+
+        chart.setOption(createOption('left'), true);
+        expect(getSeries().getGraph().getNodeById('c').getLayout().depth).toEqual(2);
+    });
+
+});
@@ -0,0 +1,176 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import TreeSeriesModel, { TreeSeriesOption } from '@/src/chart/tree/TreeSeries';
+
+
+describe('tree_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 300});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    const data = [{
+        name: 'root',
+        children: [{
+            name: 'a',
+            children: [
+                {name: 'a1'},
+                {name: 'a2', children: [{name: 'a21'}]}
+            ]
+        }, {
+            name: 'b'
+        }]
+    }];
+
+    function setTree(option: TreeSeriesOption) {
+        chart.setOption({
+            series: [Object.assign({
+                type: 'tree',
+                left: 0,
+                top: 0,
+                width: 400,
+                height: 300,
+                animation: false,
+                initialTreeDepth: -1,
+                data: data
+            }, option)]
+        }, true);
+    }
+
+    function getLayout(id: string): {x: number, y: number} {
+        const seriesModel = getECModel(chart).getSeriesByIndex(0) as TreeSeriesModel;
+        return seriesModel.getData().tree.getNodeById(id).getLayout();
+    }
+
+    it('dendrogram', function () {
+        setTree({});
+        expect(getLayout('a1').x).toBeLessThan(getLayout('a21').x);
+
+        setTree({dendrogram: true});
+        expect(getLayout('root').x).toBeCloseTo(0, 5);
+        expect(getLayout('a1').x).toBeCloseTo(400, 5);
+        expect(getLayout('a21').x).toBeCloseTo(400, 5);
+        expect(getLayout('b').x).toBeCloseTo(400, 5);
+        // Parent is at the mean of its children.
+        expect(getLayout('a').y).toBeCloseTo((getLayout('a1').y + getLayout('a2').y) / 2, 5);
+        expect(getLayout('a2').y).toBeCloseTo(getLayout('a21').y, 5);
+    });
+
+    it('minimize_crossing', function () {
+        const crossingData = [{
+            name: 'root',
+            children: [
+                {name: 'b'},
+                {name: 'c', children: [{name: 'c1', children: [{name: 'c11'}, {name: 'c12'}]}]},
+                {name: 'd', children: [{name: 'd1', children: [{name: 'd11'}]}]},
+                {name: 'e'}
+            ]
+        }];
+        const ids = ['root', 'b', 'c', 'c1', 'c11', 'c12', 'd', 'd1', 'd11', 'e'];
+
+        // Count of the nodes that an edge passes over, which are between the parent and
+        // the child on both the breadth and the depth.
+        function countCrossing() {
+            const tree = (getECModel(chart).getSeriesByIndex(0) as TreeSeriesModel).getData().tree;
+            let count = 0;
+            for (let i = 1; i < ids.length; i++) {
+                const node = tree.getNodeById(ids[i]);
+                const from = node.parentNode.getLayout();
+                const to = node.getLayout();
+                for (let j = 0; j < ids.length; j++) {
+                    const other = tree.getNodeById(ids[j]).getLayout();
+                    if ((other.x - from.x) * (other.x - to.x) < 0 && (other.y - from.y) * (other.y - to.y) < 0) {
+                        count++;
+                    }
+                }
+            }
+            return count;
+        }
+
+        setTree({orient: 'TB', dendrogram: true, data: crossingData});
+        expect(countCrossing()).toBeGreaterThan(0);
+        expect(getLayout('b').x).toBeLessThan(getLayout('c').x);
+
+        setTree({orient: 'TB', dendrogram: true, minimizeCrossing: true, data: crossingData});
+        expect(countCrossing()).toEqual(0);
+        // Higher subtrees are on the two sides, and the leaves are in the middle
+        // with the original order kept.
+        expect(getLayout('c').x).toBeLessThan(getLayout('b').x);
+        expect(getLayout('b').x).toBeLessThan(getLayout('e').x);
+        expect(getLayout('e').x).toBeLessThan(getLayout('d').x);
+        expect(getLayout('c11').y).toEqual(getLayout('b').y);
+        // Order of data is not changed.
+        const tree = (getECModel(chart).getSeriesByIndex(0) as TreeSeriesModel).getData().tree;
+        expect(tree.getNodeById('root').children[0].name).toEqual('b');
+
+        // Nothing changes in tidy tree.
+        setTree({orient: 'TB', data: crossingData});
+        const bX = getLayout('b').x;
+        setTree({orient: 'TB', minimizeCrossing: true, data: crossingData});
+        expect(getLayout('b').x).toEqual(bX);
+    });
+
+    it('label_spacing', function () {
+        const longName = new Array(41).join('x');
+        setTree({
+            orient: 'TB',
+            nodeSpacing: 'label',
+            nodeGap: 10,
+            symbolSize: 4,
+            label: {
+                formatter: params => (params.name === 'a1' ? longName : params.name)
+            }
+        });
+        const a1 = getLayout('a1');
+        const a21 = getLayout('a21');
+        // Half of the label of a1 and half of the symbol of a2, plus the gap.
+        expect(a21.x - a1.x).toBeCloseTo(40 / 2 + 4 / 2 + 10, 5);
+        // The tree is not stretched and is centered in the view.
+        expect(a1.x + a21.x).toBeCloseTo(400, 5);
+
+        setTree({
+            orient: 'TB',
+            nodeSpacing: 'label',
+            nodeGap: 10,
+            symbolSize: 4
+        });
+        expect(getLayout('a21').x - getLayout('a1').x).toBeCloseTo(4 + 10, 5);
+    });
+
+    it('label_spacing_shrink', function () {
+        setTree({
+            orient: 'TB',
+            width: 30,
+            nodeSpacing: 'label',
+            nodeGap: 20
+        });
+        expect(getLayout('a1').x).toBeGreaterThanOrEqual(0);
+        expect(getLayout('a21').x).toBeLessThanOrEqual(30);
+        expect(getLayout('a21').x).toBeGreaterThan(getLayout('a1').x);
+    });
+
+});
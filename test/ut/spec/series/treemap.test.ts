@@ -0,0 +1,157 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import TreemapSeriesModel, { TreemapSeriesOption } from '@/src/chart/treemap/TreemapSeries';
+import { TreemapItemLayout } from '@/src/chart/treemap/treemapLayout';
+
+
+describe('treemap_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 200});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function setTreemap(option: TreemapSeriesOption) {
+        chart.setOption({
+            series: [Object.assign({
+                type: 'treemap',
+                left: 0,
+                top: 0,
+                right: 0,
+                bottom: 0,
+                animation: false,
+                breadcrumb: {show: false},
+                itemStyle: {borderWidth: 0, gapWidth: 0}
+            }, option)]
+        });
+    }
+
+    function getLayout(id: string): TreemapItemLayout {
+        const seriesModel = getECModel(chart).getSeriesByIndex(0) as TreemapSeriesModel;
+        return seriesModel.getData().tree.getNodeById(id).getLayout();
+    }
+
+    it('slice_dice', function () {
+        const data = [
+            {name: 'a', value: 3, children: [{name: 'a1', value: 1}, {name: 'a2', value: 2}]},
+            {name: 'b', value: 1}
+        ];
+
+        setTreemap({tiling: 'dice', sort: false, data: data});
+        expect(getLayout('a')).toMatchObject({x: 0, y: 0, width: 300, height: 200});
+        expect(getLayout('b')).toMatchObject({x: 300, y: 0, width: 100, height: 200});
+        expect(getLayout('a2')).toMatchObject({x: 100, y: 0, width: 200, height: 200});
+
+        setTreemap({tiling: 'slice', sort: false, data: data});
+        expect(getLayout('a')).toMatchObject({x: 0, y: 0, width: 400, height: 150});
+        expect(getLayout('b')).toMatchObject({x: 0, y: 150, width: 400, height: 50});
+
+        // Children of 'a' are sliced in 'sliceDice'.
+        setTreemap({tiling: 'sliceDice', sort: false, data: data});
+        expect(getLayout('a')).toMatchObject({x: 0, y: 0, width: 300, height: 200});
+        expect(getLayout('a1').width).toBeCloseTo(300, 8);
+        expect(getLayout('a1').height).toBeCloseTo(200 / 3, 8);
+        expect(getLayout('a2').y).toBeCloseTo(200 / 3, 8);
+    });
+
+    it('data_order_by_default', function () {
+        const data = [{name: 'a', value: 1}, {name: 'b', value: 3}];
+
+        setTreemap({tiling: 'dice', data: data});
+        expect(getLayout('a')).toMatchObject({x: 0, y: 0, width: 100, height: 200});
+        expect(getLayout('b')).toMatchObject({x: 100, y: 0, width: 300, height: 200});
+
+        // Explicit order is still respected.
+        setTreemap({tiling: 'dice', sort: 'desc', data: data});
+        expect(getLayout('b')).toMatchObject({x: 0, y: 0, width: 300, height: 200});
+    });
+
+    it('binary', function () {
+        setTreemap({
+            tiling: 'binary',
+            sort: false,
+            data: [
+                {name: 'a', value: 4},
+                {name: 'b', value: 1},
+                {name: 'c', value: 1},
+                {name: 'd', value: 2}
+            ]
+        });
+
+        // Split on the longer side by halves: [a] | [b, c, d].
+        expect(getLayout('a')).toMatchObject({x: 0, y: 0, width: 200, height: 200});
+        // [b, c] and [d] are split horizontally.
+        expect(getLayout('d')).toMatchObject({x: 200, y: 100, width: 200, height: 100});
+        expect(getLayout('b')).toMatchObject({x: 200, y: 0, width: 100, height: 100});
+        expect(getLayout('c')).toMatchObject({x: 300, y: 0, width: 100, height: 100});
+    });
+
+    it('resquarify_keeps_positions', function () {
+        function makeData(values: number[]) {
+            return values.map(function (value, idx) {
+                return {name: 'n' + idx, value: value};
+            });
+        }
+        const names = ['n0', 'n1', 'n2', 'n3', 'n4', 'n5'];
+        function getOrder() {
+            const centers = names.map(function (name) {
+                const layout = getLayout(name);
+                return [layout.x + layout.width / 2, layout.y + layout.height / 2];
+            });
+            return names.slice().sort(function (a, b) {
+                const ca = centers[names.indexOf(a)];
+                const cb = centers[names.indexOf(b)];
+                return ca[0] - cb[0] || ca[1] - cb[1];
+            });
+        }
+
+        setTreemap({tiling: 'resquarify', data: makeData([60, 50, 40, 30, 20, 10])});
+        const order = getOrder();
+        const n0Area = getLayout('n0').width * getLayout('n0').height;
+
+        // Values are reversed, but positions are kept.
+        setTreemap({tiling: 'resquarify', data: makeData([10, 20, 30, 40, 50, 60])});
+        expect(getOrder()).toEqual(order);
+        expect(getLayout('n0').width * getLayout('n0').height).toBeCloseTo(n0Area / 6, 6);
+
+        let totalArea = 0;
+        names.forEach(function (name) {
+            totalArea += getLayout(name).width * getLayout(name).height;
+        });
+        expect(totalArea).toBeCloseTo(400 * 200, 6);
+
+        // Children changed, layout again.
+        setTreemap({tiling: 'resquarify', data: makeData([10, 20, 30, 40, 50, 60, 70])});
+        expect(getLayout('n6').width * getLayout('n6').height).toBeCloseTo(400 * 200 * 70 / 280, 6);
+
+        // 'squarify' sorts the nodes again.
+        setTreemap({tiling: 'squarify', data: makeData([60, 50, 40, 30, 20, 10])});
+        const squarifiedOrder = getOrder();
+        setTreemap({tiling: 'squarify', data: makeData([10, 20, 30, 40, 50, 60])});
+        expect(getOrder()).not.toEqual(squarifiedOrder);
+    });
+
+});
@@ -0,0 +1,168 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import VennSeriesModel, { VennSeriesOption } from '@/src/chart/venn/VennSeries';
+import { VennRegionLayout } from '@/src/chart/venn/vennLayout';
+import { circleOverlap, distanceFromOverlap } from '@/src/chart/venn/vennSolver';
+import { ECElementEvent } from '@/src/util/types';
+
+
+describe('venn_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart({width: 400, height: 400});
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function setVenn(option: VennSeriesOption) {
+        chart.setOption({
+            series: [Object.assign({
+                type: 'venn',
+                left: 0,
+                top: 0,
+                width: 400,
+                height: 400,
+                animation: false
+            }, option)]
+        });
+    }
+
+    function getLayout(name: string): VennRegionLayout {
+        const data = (getECModel(chart).getSeriesByIndex(0) as VennSeriesModel).getData();
+        return data.getItemLayout(data.indexOfName(name));
+    }
+
+    // Ratio of the intersection area of two set circles to the area of the first.
+    function getOverlapRatio(set1: string, set2: string): number {
+        const c1 = getLayout(set1).arcs[0];
+        const c2 = getLayout(set2).arcs[0];
+        const d = Math.sqrt((c1.cx - c2.cx) * (c1.cx - c2.cx) + (c1.cy - c2.cy) * (c1.cy - c2.cy));
+        return circleOverlap(c1.r, c2.r, d) / (Math.PI * c1.r * c1.r);
+    }
+
+    function isInside(x: number, y: number, set: string): boolean {
+        const circle = getLayout(set).arcs[0];
+        return Math.sqrt((x - circle.cx) * (x - circle.cx) + (y - circle.cy) * (y - circle.cy)) < circle.r;
+    }
+
+    it('overlap_distance', function () {
+        const d = distanceFromOverlap(3, 2, 5);
+        expect(circleOverlap(3, 2, d)).toBeCloseTo(5, 6);
+        expect(distanceFromOverlap(3, 2, 0)).toEqual(5);
+        expect(distanceFromOverlap(3, 2, 100)).toEqual(1);
+    });
+
+    it('two_sets', function () {
+        setVenn({
+            data: [
+                {sets: ['A'], value: 100},
+                {sets: ['B'], value: 50},
+                {sets: ['A', 'B'], value: 20}
+            ]
+        });
+        const a = getLayout('A').arcs[0];
+        const b = getLayout('B').arcs[0];
+        expect(b.r * b.r / (a.r * a.r)).toBeCloseTo(0.5, 6);
+        expect(getOverlapRatio('A', 'B')).toBeCloseTo(0.2, 4);
+
+        // The intersection is a lens of two arcs, and the label is inside it.
+        const ab = getLayout('A ∩ B');
+        expect(ab.arcs.length).toEqual(2);
+        expect(isInside(ab.labelX, ab.labelY, 'A')).toEqual(true);
+        expect(isInside(ab.labelX, ab.labelY, 'B')).toEqual(true);
+        // The label of set is outside the other set.
+        expect(isInside(getLayout('A').labelX, getLayout('A').labelY, 'B')).toEqual(false);
+    });
+
+    it('three_sets', function () {
+        setVenn({
+            data: [
+                {sets: ['A'], value: 12},
+                {sets: ['B'], value: 12},
+                {sets: ['C'], value: 8},
+                {sets: ['A', 'B'], value: 4},
+                {sets: ['A', 'C'], value: 2},
+                {sets: ['B', 'C'], value: 1},
+                {sets: ['A', 'B', 'C'], value: 0.5}
+            ]
+        });
+        expect(getOverlapRatio('A', 'B')).toBeCloseTo(4 / 12, 3);
+        expect(getOverlapRatio('A', 'C')).toBeCloseTo(2 / 12, 3);
+        expect(getOverlapRatio('B', 'C')).toBeCloseTo(1 / 12, 3);
+
+        const ab = getLayout('A ∩ B');
+        expect(isInside(ab.labelX, ab.labelY, 'C')).toEqual(false);
+        const abc = getLayout('A ∩ B ∩ C');
+        expect(abc.arcs.length).toEqual(3);
+        expect(isInside(abc.labelX, abc.labelY, 'A')).toEqual(true);
+        expect(isInside(abc.labelX, abc.labelY, 'B')).toEqual(true);
+        expect(isInside(abc.labelX, abc.labelY, 'C')).toEqual(true);
+    });
+
+    it('disjoint_and_subset', function () {
+        setVenn({
+            data: [
+                {sets: ['A'], value: 10},
+                {sets: ['B'], value: 4},
+                {sets: ['C'], value: 2},
+                {sets: ['D'], value: 3},
+                {sets: ['A', 'B'], value: 4},
+                {sets: ['B', 'C'], value: 0}
+            ]
+        });
+        // B is inside A, so the intersection is B itself.
+        expect(getOverlapRatio('B', 'A')).toBeCloseTo(1, 6);
+        const ab = getLayout('A ∩ B').arcs;
+        expect(ab.length).toEqual(1);
+        expect(ab[0].r).toBeCloseTo(getLayout('B').arcs[0].r, 6);
+        expect(getOverlapRatio('B', 'C')).toEqual(0);
+        expect(getOverlapRatio('C', 'D')).toEqual(0);
+
+        const data = (getECModel(chart).getSeriesByIndex(0) as VennSeriesModel).getData();
+        expect(getLayout('B ∩ C').arcs.length).toEqual(0);
+        expect(data.getItemGraphicEl(data.indexOfName('B ∩ C')).ignore).toEqual(true);
+    });
+
+    it('hover_region', function () {
+        setVenn({
+            data: [
+                {sets: ['A'], value: 100},
+                {sets: ['B'], value: 100},
+                {name: 'Both', sets: ['A', 'B'], value: 30}
+            ]
+        });
+        const names: string[] = [];
+        chart.on('mouseover', function (params: ECElementEvent) {
+            names.push(params.name);
+        });
+        const both = getLayout('Both');
+        const a = getLayout('A');
+        const handler = chart.getZr().handler;
+        handler.dispatch('mousemove', {zrX: both.labelX, zrY: both.labelY});
+        handler.dispatch('mousemove', {zrX: a.labelX, zrY: a.labelY});
+        expect(names).toEqual(['Both', 'A']);
+    });
+
+});
@@ -0,0 +1,177 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import ViolinSeriesModel from '@/src/chart/violin/ViolinSeries';
+import { ViolinItemLayout } from '@/src/chart/violin/violinLayout';
+import { getBandwidth, kernelDensity } from '@/src/chart/violin/kernelDensity';
+
+
+describe('violin_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): ViolinSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as ViolinSeriesModel;
+    }
+
+    function getLayout(seriesIndex: number, dataIndex: number): ViolinItemLayout {
+        return getSeries(seriesIndex).getData().getItemLayout(dataIndex);
+    }
+
+    const samples = [1, 2, 2, 3, 3, 3, 4, 4, 5];
+
+    it('kernel_density', function () {
+        expect(getBandwidth(samples, 2)).toEqual(2);
+        // 1.06 * std * n^(-1/5)
+        expect(getBandwidth(samples, 'scott')).toBeCloseTo(1.06 * Math.sqrt(1.5) * Math.pow(9, -0.2), 8);
+        expect(getBandwidth(samples, 'silverman')).toBeLessThan(getBandwidth(samples, 'scott'));
+        expect(getBandwidth([3, 3], 'scott')).toBeGreaterThan(0);
+
+        const density = kernelDensity(samples, 1, 5);
+        expect(density.length).toEqual(5);
+        expect(density[0][0]).toEqual(1);
+        expect(density[4][0]).toEqual(5);
+        // Symmetric samples, peak at the center.
+        expect(density[0][1]).toBeCloseTo(density[4][1], 10);
+        expect(density[1][1]).toBeCloseTo(density[3][1], 10);
+        expect(density[2][1]).toBeGreaterThan(density[1][1]);
+    });
+
+    it('summary_and_layout', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b']},
+            yAxis: {},
+            series: [{
+                type: 'violin',
+                densityResolution: 20,
+                data: [samples, {value: [10, 20, '-', 30]}]
+            }]
+        });
+
+        const data = getSeries(0).getData();
+        expect(data.count()).toEqual(2);
+        expect(data.get('median', 0)).toEqual(3);
+        expect(data.get('min', 1)).toEqual(10);
+        expect(data.get('max', 1)).toEqual(30);
+        expect(getSeries(0).getDensity(1).length).toEqual(20);
+
+        const layout = getLayout(0, 0);
+        expect(layout.points.length).toEqual(40);
+        expect(layout.stats.length).toEqual(5);
+        // Body is symmetric around the center line.
+        const center = layout.initBaseline;
+        expect(layout.points[10][0] - center).toBeCloseTo(center - layout.points[29][0], 6);
+        expect(layout.points[10][0]).toBeGreaterThan(center);
+
+        // Samples are kept for further update.
+        chart.setOption({series: [{bandwidth: 5}]});
+        expect(getSeries(0).getData().get('median', 0)).toEqual(3);
+        expect(getSeries(0).getData().get('Q3', 1)).toEqual(25);
+    });
+
+    it('source_not_modified', function () {
+        const dataOption = [samples.slice(), {value: [10, 20, 30], name: 'b'}];
+        chart.setOption({
+            xAxis: {},
+            yAxis: {},
+            series: [{type: 'violin', data: dataOption}]
+        });
+        expect(dataOption[0]).toEqual(samples);
+        expect((dataOption[1] as {value: number[]}).value).toEqual([10, 20, 30]);
+        expect(getSeries(0).getSamples(1)).toEqual([10, 20, 30]);
+        expect(getSeries(0).getData().getName(1)).toEqual('b');
+
+        chart.setOption({
+            dataset: {source: [samples, [10, 20, 30]]},
+            xAxis: {},
+            yAxis: {},
+            series: [{type: 'violin', datasetIndex: 0, data: null}]
+        }, true);
+        const data = getSeries(0).getData();
+        expect(data.count()).toEqual(2);
+        expect(data.get('median', 0)).toEqual(3);
+        expect(data.get('max', 1)).toEqual(30);
+    });
+
+    it('cut', function () {
+        chart.setOption({
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{type: 'violin', bandwidth: 1, data: [samples]}]
+        });
+        let data = getSeries(0).getData();
+        let density = getSeries(0).getDensity(0);
+        // Density is extended by 2 bandwidths by default.
+        expect(density[0][0]).toEqual(-1);
+        expect(density[density.length - 1][0]).toEqual(7);
+        expect(data.get('lower', 0)).toEqual(-1);
+        expect(data.get('upper', 0)).toEqual(7);
+        expect(data.get('min', 0)).toEqual(1);
+
+        chart.setOption({series: [{cut: 0}]});
+        data = getSeries(0).getData();
+        density = getSeries(0).getDensity(0);
+        expect(density[0][0]).toEqual(1);
+        expect(density[density.length - 1][0]).toEqual(5);
+        expect(data.get('upper', 0)).toEqual(5);
+    });
+
+    it('split_violins', function () {
+        chart.setOption({
+            xAxis: {},
+            yAxis: {type: 'category', data: ['a']},
+            series: [{
+                type: 'violin',
+                side: 'positive',
+                data: [samples]
+            }, {
+                type: 'violin',
+                side: 'negative',
+                data: [[2, 3, 4, 4, 5, 6]]
+            }, {
+                type: 'violin',
+                data: [samples]
+            }]
+        });
+
+        expect(getSeries(0).get('layout')).toEqual('vertical');
+
+        const positive = getLayout(0, 0);
+        const negative = getLayout(1, 0);
+        // Half violins share the same slot.
+        expect(positive.initBaseline).toEqual(negative.initBaseline);
+        expect(getLayout(2, 0).initBaseline).not.toEqual(positive.initBaseline);
+
+        // Positive side is top in vertical layout.
+        for (let i = 0; i < positive.points.length; i++) {
+            expect(positive.points[i][1]).toBeLessThanOrEqual(positive.initBaseline);
+            expect(negative.points[i][1]).toBeGreaterThanOrEqual(negative.initBaseline);
+        }
+    });
+
+});
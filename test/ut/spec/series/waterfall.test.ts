@@ -0,0 +1,150 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '@/src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import WaterfallSeriesModel from '@/src/chart/waterfall/WaterfallSeries';
+import { WaterfallConnectorLayout } from '@/src/chart/waterfall/waterfallLayout';
+import CartesianAxisModel from '@/src/coord/cartesian/AxisModel';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import { TooltipMarkupNameValueBlock, TooltipMarkupSection } from '@/src/component/tooltip/tooltipMarkup';
+
+
+describe('waterfall_series', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(seriesIndex: number): WaterfallSeriesModel {
+        return getECModel(chart).getSeriesByIndex(seriesIndex) as WaterfallSeriesModel;
+    }
+
+    const option = {
+        xAxis: {type: 'category', data: ['a', 'b', 'c', 'd', 'e', 'f']},
+        yAxis: {},
+        series: [{
+            type: 'waterfall',
+            data: [100, -30, {total: 'subtotal'}, 50, 0.1, {total: 'total'}]
+        }]
+    };
+
+    it('running_totals', function () {
+        chart.setOption(option);
+
+        const seriesModel = getSeries(0);
+        const totals = [];
+        const kinds = [];
+        for (let i = 0; i < 6; i++) {
+            totals.push(seriesModel.getRunningTotal(i));
+            kinds.push(seriesModel.getItemKind(i));
+        }
+
+        expect(totals).toEqual([
+            [0, 100], [100, 70], [0, 70], [70, 120], [120, 120.1], [0, 120.1]
+        ]);
+        expect(kinds).toEqual(['increase', 'decrease', 'total', 'increase', 'increase', 'total']);
+
+        // Value of total is the running total.
+        expect(seriesModel.getDataParams(1).value).toEqual(-30);
+        expect(seriesModel.getDataParams(5).value).toEqual(120.1);
+
+        const yAxis = getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+        expect(yAxis.axis.scale.getExtent()[1]).toBeGreaterThanOrEqual(120.1);
+    });
+
+    it('tooltip_running_total', function () {
+        function getRunningTotalName() {
+            const markup = getSeries(0).formatTooltip(1, false) as TooltipMarkupSection;
+            return (markup.blocks[1] as TooltipMarkupNameValueBlock).name;
+        }
+
+        chart.setOption(option);
+        expect(getRunningTotalName()).toEqual('Running total');
+
+        chart.dispose();
+        chart = createChart({opts: {locale: 'ZH'}});
+        chart.setOption(option);
+        expect(getRunningTotalName()).toEqual('累计');
+    });
+
+    it('subtotal_from_last_total', function () {
+        chart.setOption({
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{
+                type: 'waterfall',
+                data: [10, {total: 'subtotal'}, 5, -8, {total: 'subtotal'}, {total: 'total'}]
+            }]
+        });
+
+        const seriesModel = getSeries(0);
+        expect(seriesModel.getRunningTotal(1)).toEqual([0, 10]);
+        expect(seriesModel.getRunningTotal(4)).toEqual([10, 7]);
+        expect(seriesModel.getRunningTotal(5)).toEqual([0, 7]);
+    });
+
+    it('layout_and_connectors', function () {
+        chart.setOption(option);
+
+        const data = getSeries(0).getData();
+        const layouts: RectLike[] = [];
+        data.each(function (idx) {
+            layouts.push(data.getItemLayout(idx));
+        });
+        // Decrease bar starts at the end of the previous bar.
+        expect(layouts[1].y).toBeCloseTo(layouts[0].y + layouts[0].height, 5);
+        expect(layouts[1].height).toBeGreaterThan(0);
+        expect(layouts[0].height).toBeLessThan(0);
+
+        const connectors = data.getLayout('connectors') as WaterfallConnectorLayout[];
+        expect(connectors.length).toEqual(5);
+        // Horizontal line from the right side of a bar to the left side of the next one.
+        expect(connectors[0][0][0]).toBeCloseTo(layouts[0].x + layouts[0].width, 5);
+        expect(connectors[0][1][0]).toBeCloseTo(layouts[1].x, 5);
+        expect(connectors[0][0][1]).toBeCloseTo(layouts[1].y, 5);
+        expect(connectors[0][1][1]).toBeCloseTo(layouts[1].y, 5);
+    });
+
+    it('colors', function () {
+        chart.setOption({
+            xAxis: {type: 'category'},
+            yAxis: {},
+            series: [{
+                type: 'waterfall',
+                increaseStyle: {color: 'green'},
+                decreaseStyle: {color: 'red'},
+                totalStyle: {color: 'blue'},
+                data: [10, -5, {value: 3, itemStyle: {color: 'yellow'}}, {total: 'total'}]
+            }]
+        });
+
+        const data = getSeries(0).getData();
+        expect(data.getItemVisual(0, 'style').fill).toEqual('green');
+        expect(data.getItemVisual(1, 'style').fill).toEqual('red');
+        expect(data.getItemVisual(2, 'style').fill).toEqual('yellow');
+        expect(data.getItemVisual(3, 'style').fill).toEqual('blue');
+    });
+
+});